@@ -1,29 +1,112 @@
-import React, { useState, useMemo, useEffect, useCallback } from 'react';
+import React, { useState, useMemo, useEffect, useCallback, useRef } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { useAppContext } from '@/contexts/AppContext';
 import { useIsMobile } from '@/hooks/use-mobile';
-import { Client, Meeting, CustomField, SalesforceConfig, ViewMode, Task, User, SavedFilter, ClientFilters, ClientNote } from '@/types';
+import { Client, Meeting, CustomField, SalesforceConfig, ViewMode, Task, User, SavedFilter, ClientFilters, ClientNote, WorkdaySettings, TravelTimeSettings, Depot, Route, MapSettings, Territory, CadenceRule, CalendarFeedSettings, SyncRun, SyncConflict, SalesforceOutboxEntry } from '@/types';
 import { sampleClients, sampleMeetings, sampleCustomFields } from '@/data/sampleData';
-import { clientsApi, meetingsApi, customFieldsApi, userSettingsApi, tasksApi, savedFiltersApi, seedInitialData, refreshMeetingDates } from '@/lib/database';
+import { getDataStore, seedInitialData, refreshMeetingDates, LOCAL_USER } from '@/lib/datastore';
 
+import { clientsApi, meetingsApi, customFieldsApi, tasksApi, salesforceOutboxApi, isNetworkError, replayMutations, subscribeToPendingMutations, clearOfflineData, ReplayResult } from '@/lib/offline';
 import { supabase } from '@/lib/supabase';
 import StatCard from '@/components/ui/StatCard';
 import CalendarView from '@/components/calendar/CalendarView';
 import ClientCard from '@/components/clients/ClientCard';
 import MeetingCard from '@/components/meetings/MeetingCard';
 import RouteOptimizer from '@/components/routes/RouteOptimizer';
+import WeeklyPlanner, { MeetingReschedule } from '@/components/routes/WeeklyPlanner';
 import ExcelImportExport from '@/components/excel/ExcelImportExport';
 import SalesforceIntegration from '@/components/salesforce/SalesforceIntegration';
 import CustomFieldBuilder from '@/components/clients/CustomFieldBuilder';
 import MeetingModal from '@/components/meetings/MeetingModal';
 import MeetingExport from '@/components/meetings/MeetingExport';
+import IcsImport from '@/components/meetings/IcsImport';
+import DuplicateFinder from '@/components/clients/DuplicateFinder';
 import ClientModal from '@/components/clients/ClientModal';
 import AuthModal from '@/components/auth/AuthModal';
 import TasksPanel from '@/components/tasks/TasksPanel';
 import ClientFilterPanel from '@/components/clients/ClientFilterPanel';
 import MeetingHistoryTimeline from '@/components/clients/MeetingHistoryTimeline';
 import ClientNotesHistory from '@/components/clients/ClientNotesHistory';
+import WorkdaySettingsCard from '@/components/settings/WorkdaySettingsCard';
+import DepotSettingsCard from '@/components/settings/DepotSettingsCard';
+import TravelTimeSettingsCard from '@/components/settings/TravelTimeSettingsCard';
+import MapSettingsCard from '@/components/settings/MapSettingsCard';
+import TerritorySettingsCard from '@/components/settings/TerritorySettingsCard';
+import CadenceSettingsCard from '@/components/settings/CadenceSettingsCard';
+import CalendarFeedSettingsCard from '@/components/settings/CalendarFeedSettingsCard';
+import { DEFAULT_WORKDAY_SETTINGS } from '@/lib/routing';
+import { DEFAULT_MAP_SETTINGS } from '@/lib/map';
+import { findDueVisits } from '@/lib/cadence';
+import { expandMeetings, findMeeting, editOccurrence, deleteOccurrence, isVirtualOccurrence, addDays, RecurrenceEditScope, SeriesChanges } from '@/lib/recurrence';
+import { generateCalendarFeed, createFeedToken } from '@/lib/ical';
+import { geocodeClient, locateClientOffline } from '@/lib/geocoding';
+import { planClientMerge } from '@/lib/duplicates';
+import { createSalesforceApi, runSalesforceSync, resolveSyncConflict, effectiveConflictPolicy, buildMeetingEntry, buildTaskEntry, processOutbox, isDue, retryOutboxEntry } from '@/lib/salesforce';
 import { useToast } from '@/hooks/use-toast';
+import { useClients, useMeetings, useCustomFields, useTasks, useSavedFilters, useRoutes } from '@/hooks/use-entities';
+
+// Saved filters and settings aren't cached offline, so they go to the data store directly
+const dataStore = getDataStore();
+const {
+  savedFilters: savedFiltersApi,
+  userSettings: userSettingsApi,
+  routes: routesApi,
+  depots: depotsApi,
+  territories: territoriesApi,
+  cadenceRules: cadenceRulesApi,
+  syncRuns: syncRunsApi,
+  calendarFeed: calendarFeedApi,
+} = dataStore;
+
+const DEFAULT_SALESFORCE_CONFIG: SalesforceConfig = {
+  connected: false,
+  syncDirection: 'bidirectional',
+  fieldMappings: {},
+};
+
+// How long meetings and clients must stay unchanged before the calendar feed is republished
+const FEED_REPUBLISH_DELAY_MS = 5000;
 
+// How often queued Salesforce pushes are checked for a retry that is due
+const OUTBOX_RETRY_CHECK_MS = 60_000;
+
+// How often changes made offline are retried while the browser reports a connection
+const OFFLINE_REPLAY_RETRY_MS = 30_000;
+
+// What happened to changes made offline once they reached the server
+const describeReplay = (result: ReplayResult) => {
+  const messages: { title: string; description: string; variant?: 'destructive' }[] = [];
+  if (result.replayed > 0) {
+    messages.push({
+      title: 'Offline changes synced',
+      description: `${result.replayed} changes made offline have been saved.`,
+    });
+  }
+  const edited = result.conflicts.filter(c => !c.deleted);
+  if (edited.length > 0) {
+    messages.push({
+      title: 'Changed on both sides',
+      description: edited.map(c => `${c.label}: ${c.fields.join(', ')}`).join('; ') +
+        '. Your offline changes were kept.',
+    });
+  }
+  const deleted = result.conflicts.filter(c => c.deleted);
+  if (deleted.length > 0) {
+    messages.push({
+      title: 'Deleted elsewhere',
+      description: `${deleted.map(c => c.label).join(', ')} had been deleted, so the offline changes were dropped.`,
+      variant: 'destructive',
+    });
+  }
+  if (result.errors.length > 0) {
+    messages.push({
+      title: `${result.errors.length} offline changes could not be saved`,
+      description: result.errors[0],
+      variant: 'destructive',
+    });
+  }
+  return messages;
+};
 
 const heroImage = 'https://d64gsuwffb70l.cloudfront.net/6952e0879bc3ae8aa3d981ac_1767039220070_8ceada73.jpg';
 
@@ -91,6 +174,7 @@ const ErrorBanner: React.FC<{ message: string; onRetry?: () => void; onDismiss?:
 const emptyFilters: ClientFilters = {
   tags: [],
   cities: [],
+  territories: [],
   statuses: [],
   customFields: {},
 };
@@ -99,6 +183,7 @@ const AppLayout: React.FC = () => {
   const { sidebarOpen, toggleSidebar } = useAppContext();
   const isMobile = useIsMobile();
   const { toast } = useToast();
+  const queryClient = useQueryClient();
 
   // Auth state
   const [user, setUser] = useState<User | null>(null);
@@ -110,15 +195,30 @@ const AppLayout: React.FC = () => {
   const [isSaving, setIsSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  // Entity lists live in the query cache. They are fetched once offline changes are replayed and a
+  // new account is seeded, and kept live from then on.
+  const entityOptions = { enabled: !!user && !isInitialLoading };
+  const clientsQuery = useClients(entityOptions);
+  const meetingsQuery = useMeetings(entityOptions);
+  const customFieldsQuery = useCustomFields(entityOptions);
+  const tasksQuery = useTasks(entityOptions);
+  const savedFiltersQuery = useSavedFilters(entityOptions);
+  const routesQuery = useRoutes(entityOptions);
+  const { records: clients, setRecords: setClients, writeOptimistically: writeClient, refetch: refetchClients } = clientsQuery;
+  const { records: meetings, setRecords: setMeetings, writeOptimistically: writeMeeting, refetch: refetchMeetings } = meetingsQuery;
+  const { records: customFields, setRecords: setCustomFields, writeOptimistically: writeCustomField, refetch: refetchCustomFields } = customFieldsQuery;
+  const { records: tasks, setRecords: setTasks, writeOptimistically: writeTask, refetch: refetchTasks } = tasksQuery;
+  const { records: savedFilters, setRecords: setSavedFilters, writeOptimistically: writeSavedFilter } = savedFiltersQuery;
+  const { records: routes, setRecords: setRoutes } = routesQuery;
+  const entityQueries = [clientsQuery, meetingsQuery, customFieldsQuery, tasksQuery, savedFiltersQuery, routesQuery];
+  const isLoadingEntities = entityQueries.some(query => query.isLoading);
+  const failedEntityQueries = entityQueries.filter(query => query.error);
+
   // State
   const [activeView, setActiveView] = useState<ViewMode>('dashboard');
-  const [clients, setClients] = useState<Client[]>([]);
-  const [meetings, setMeetings] = useState<Meeting[]>([]);
-  const [customFields, setCustomFields] = useState<CustomField[]>([]);
-  const [tasks, setTasks] = useState<Task[]>([]);
-  const [savedFilters, setSavedFilters] = useState<SavedFilter[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedDate, setSelectedDate] = useState(new Date());
+  const [routePlanningMode, setRoutePlanningMode] = useState<'day' | 'week'>('day');
   const [selectedClient, setSelectedClient] = useState<Client | null>(null);
   const [selectedMeeting, setSelectedMeeting] = useState<Meeting | null>(null);
   
@@ -132,6 +232,8 @@ const AppLayout: React.FC = () => {
   const [showCustomFieldModal, setShowCustomFieldModal] = useState(false);
   const [showMeetingModal, setShowMeetingModal] = useState(false);
   const [showMeetingExportModal, setShowMeetingExportModal] = useState(false);
+  const [showIcsImportModal, setShowIcsImportModal] = useState(false);
+  const [showDuplicateFinder, setShowDuplicateFinder] = useState(false);
   const [showClientModal, setShowClientModal] = useState(false);
   const [showProfileMenu, setShowProfileMenu] = useState(false);
   const [showMeetingHistory, setShowMeetingHistory] = useState(false);
@@ -141,14 +243,30 @@ const AppLayout: React.FC = () => {
 
   
   // Salesforce config
-  const [salesforceConfig, setSalesforceConfig] = useState<SalesforceConfig>({
-    connected: false,
-    syncDirection: 'bidirectional',
-    fieldMappings: {},
-  });
+  const [salesforceConfig, setSalesforceConfig] = useState<SalesforceConfig>(DEFAULT_SALESFORCE_CONFIG);
+
+  // Workday bounds used by the route optimizer
+  const [workdaySettings, setWorkdaySettings] = useState<WorkdaySettings>(DEFAULT_WORKDAY_SETTINGS);
+  const [travelTimeSettings, setTravelTimeSettings] = useState<TravelTimeSettings>({ provider: 'haversine' });
+  const [mapSettings, setMapSettings] = useState<MapSettings>(DEFAULT_MAP_SETTINGS);
+  const [depots, setDepots] = useState<Depot[]>([]);
+  const [territories, setTerritories] = useState<Territory[]>([]);
+  const [cadenceRules, setCadenceRules] = useState<CadenceRule[]>([]);
+  const [calendarFeed, setCalendarFeed] = useState<CalendarFeedSettings | null>(null);
+  const [syncRuns, setSyncRuns] = useState<SyncRun[]>([]);
+  const [salesforceOutbox, setSalesforceOutbox] = useState<SalesforceOutboxEntry[]>([]);
+  const [isOffline, setIsOffline] = useState(!navigator.onLine);
+  const [pendingChanges, setPendingChanges] = useState(0);
 
   // Check auth state on mount
   useEffect(() => {
+    // A local data store has no accounts
+    if (dataStore.backend !== 'supabase') {
+      setUser(LOCAL_USER);
+      setIsAuthLoading(false);
+      return;
+    }
+
     const checkAuth = async () => {
       try {
         const { data: { user: authUser } } = await supabase.auth.getUser();
@@ -180,19 +298,25 @@ const AppLayout: React.FC = () => {
         });
       } else if (event === 'SIGNED_OUT') {
         setUser(null);
-        // Reset data on sign out
-        setClients([]);
-        setMeetings([]);
-        setCustomFields([]);
-        setTasks([]);
-        setSavedFilters([]);
+        // Nothing of the signed-out account may be shown to whoever signs in next
+        queryClient.clear();
+        setSalesforceConfig(DEFAULT_SALESFORCE_CONFIG);
+        setWorkdaySettings(DEFAULT_WORKDAY_SETTINGS);
+        setTravelTimeSettings({ provider: 'haversine' });
+        setMapSettings(DEFAULT_MAP_SETTINGS);
+        setDepots([]);
+        setTerritories([]);
+        setCadenceRules([]);
+        setCalendarFeed(null);
+        setSyncRuns([]);
+        setSalesforceOutbox([]);
       }
     });
 
     return () => {
       subscription.unsubscribe();
     };
-  }, []);
+  }, [queryClient]);
 
   // Load initial data when user is authenticated
   useEffect(() => {
@@ -207,21 +331,69 @@ const AppLayout: React.FC = () => {
         setIsInitialLoading(true);
         setError(null);
 
-        // Try to seed or fetch data
-        const { clients: loadedClients, meetings: loadedMeetings, customFields: loadedFields, tasks: loadedTasks } = 
-          await seedInitialData(sampleClients, sampleMeetings, sampleCustomFields);
+        // Changes made offline go to the server before anything is read from it, and a new
+        // account gets the sample data; the entity hooks fetch the lists once this is done
+        let offline = !navigator.onLine;
+        if (!offline) {
+          try {
+            describeReplay(await replayMutations()).forEach(message => toast(message));
+          } catch (e) {
+            console.error('Failed to sync offline changes:', e);
+          }
+          try {
+            await seedInitialData(dataStore, sampleClients, sampleMeetings, sampleCustomFields);
+          } catch (e) {
+            if (!isNetworkError(e)) throw e;
+            offline = true;
+          }
+        }
+
+        // Load Salesforce pushes still waiting to go through; kept on this device too, so they load offline
+        try {
+          const savedOutbox = await salesforceOutboxApi.getAll();
+          setSalesforceOutbox(savedOutbox);
+        } catch (e) {
+          console.error('Failed to load Salesforce outbox:', e);
+        }
 
-        setClients(loadedClients);
-        setMeetings(loadedMeetings);
-        setCustomFields(loadedFields);
-        setTasks(loadedTasks);
+        if (offline) {
+          toast({
+            title: 'Working offline',
+            description: 'Showing the data saved on this device. Changes will sync when you are back online.',
+          });
+          return;
+        }
 
-        // Load saved filters
+        // Load depots
         try {
-          const filters = await savedFiltersApi.getAll();
-          setSavedFilters(filters);
+          const savedDepots = await depotsApi.getAll();
+          setDepots(savedDepots);
         } catch (e) {
-          console.error('Failed to load saved filters:', e);
+          console.error('Failed to load depots:', e);
+        }
+
+        // Load territories
+        try {
+          const savedTerritories = await territoriesApi.getAll();
+          setTerritories(savedTerritories);
+        } catch (e) {
+          console.error('Failed to load territories:', e);
+        }
+
+        // Load cadence rules
+        try {
+          const savedCadenceRules = await cadenceRulesApi.getAll();
+          setCadenceRules(savedCadenceRules);
+        } catch (e) {
+          console.error('Failed to load cadence rules:', e);
+        }
+
+        // Load Salesforce sync history
+        try {
+          const savedSyncRuns = await syncRunsApi.getRecent();
+          setSyncRuns(savedSyncRuns);
+        } catch (e) {
+          console.error('Failed to load sync history:', e);
         }
 
         // Load user settings
@@ -230,18 +402,28 @@ const AppLayout: React.FC = () => {
           setSalesforceConfig(settings);
         }
 
-        toast({
-          title: 'Data loaded',
-          description: 'Your data has been synced from the database.',
-        });
+        const workday = await userSettingsApi.getWorkday();
+        if (workday) {
+          setWorkdaySettings(workday);
+        }
+
+        const travelTime = await userSettingsApi.getTravelTime();
+        if (travelTime) {
+          setTravelTimeSettings(travelTime);
+        }
+
+        const map = await userSettingsApi.getMap();
+        if (map) {
+          setMapSettings(map);
+        }
+
+        const feed = await userSettingsApi.getCalendarFeed();
+        if (feed) {
+          setCalendarFeed(feed);
+        }
       } catch (err) {
         console.error('Failed to load data:', err);
-        setError('Failed to load data from the database. Using sample data instead.');
-        // Fallback to sample data
-        setClients(sampleClients);
-        setMeetings(sampleMeetings);
-        setCustomFields(sampleCustomFields);
-        setTasks([]);
+        setError('Failed to load your settings from the database.');
       } finally {
         setIsInitialLoading(false);
       }
@@ -250,67 +432,79 @@ const AppLayout: React.FC = () => {
     loadData();
   }, [user, isAuthLoading]);
 
-  // Set up real-time subscriptions
-  useEffect(() => {
-    if (isInitialLoading || !user) return;
-
-    const clientsSubscription = clientsApi.subscribeToChanges((updatedClients) => {
-      setClients(updatedClients);
-    });
-
-    const meetingsSubscription = meetingsApi.subscribeToChanges((updatedMeetings) => {
-      setMeetings(updatedMeetings);
-    });
+  // Offline changes: count what is queued, and replay it when the connection returns
+  useEffect(() => subscribeToPendingMutations(setPendingChanges), []);
 
-    const customFieldsSubscription = customFieldsApi.subscribeToChanges((updatedFields) => {
-      setCustomFields(updatedFields);
-    });
-
-    const tasksSubscription = tasksApi.subscribeToChanges((updatedTasks) => {
-      setTasks(updatedTasks);
-    });
+  const syncOfflineChanges = useCallback(async () => {
+    try {
+      const result = await replayMutations();
+      describeReplay(result).forEach(message => toast(message));
+      if (result.replayed === 0 && result.errors.length === 0) return;
 
-    const savedFiltersSubscription = savedFiltersApi.subscribeToChanges((updatedFilters) => {
-      setSavedFilters(updatedFilters);
-    });
+      // Read everything again, now with the server's changes merged in
+      await Promise.all([refetchClients(), refetchMeetings(), refetchCustomFields(), refetchTasks()]);
+    } catch (err) {
+      console.error('Failed to sync offline changes:', err);
+    }
+  }, [refetchClients, refetchMeetings, refetchCustomFields, refetchTasks, toast]);
 
+  useEffect(() => {
+    const goOnline = () => {
+      setIsOffline(false);
+      syncOfflineChanges();
+    };
+    const goOffline = () => setIsOffline(true);
+    window.addEventListener('online', goOnline);
+    window.addEventListener('offline', goOffline);
     return () => {
-      clientsSubscription.unsubscribe();
-      meetingsSubscription.unsubscribe();
-      customFieldsSubscription.unsubscribe();
-      tasksSubscription.unsubscribe();
-      savedFiltersSubscription.unsubscribe();
+      window.removeEventListener('online', goOnline);
+      window.removeEventListener('offline', goOffline);
     };
-  }, [isInitialLoading, user]);
+  }, [syncOfflineChanges]);
+
+  // The browser can report a connection while the server is out of reach, so keep retrying
+  useEffect(() => {
+    if (pendingChanges === 0 || isOffline) return;
+    const timer = setInterval(syncOfflineChanges, OFFLINE_REPLAY_RETRY_MS);
+    return () => clearInterval(timer);
+  }, [pendingChanges, isOffline, syncOfflineChanges]);
 
   // Computed values
   const formatDate = (date: Date) => date.toISOString().split('T')[0];
   const today = formatDate(new Date());
+  const planningDate = formatDate(selectedDate);
+
+  // Meetings with recurring series expanded into their occurrences, from a year back
+  // to half a year past today or the date being planned, whichever is later
+  const scheduledMeetings = useMemo(
+    () => expandMeetings(meetings, addDays(today, -365), addDays(planningDate > today ? planningDate : today, 180)),
+    [meetings, today, planningDate]
+  );
 
   const stats = useMemo(() => {
-    const todayMeetings = meetings.filter(m => m.date === today && m.status !== 'cancelled');
+    const todayMeetings = scheduledMeetings.filter(m => m.date === today && m.status !== 'cancelled');
     const weekStart = new Date();
     weekStart.setDate(weekStart.getDate() - weekStart.getDay());
-    const weekMeetings = meetings.filter(m => {
+    const weekMeetings = scheduledMeetings.filter(m => {
       const meetingDate = new Date(m.date);
       return meetingDate >= weekStart && m.status !== 'cancelled';
     });
-    const completedMeetings = meetings.filter(m => m.status === 'completed');
-    const avgTravelTime = meetings
+    const completedMeetings = scheduledMeetings.filter(m => m.status === 'completed');
+    const avgTravelTime = scheduledMeetings
       .filter(m => m.travelTime)
-      .reduce((acc, m) => acc + (m.travelTime || 0), 0) / Math.max(meetings.filter(m => m.travelTime).length, 1);
+      .reduce((acc, m) => acc + (m.travelTime || 0), 0) / Math.max(scheduledMeetings.filter(m => m.travelTime).length, 1);
 
     return {
       todayMeetings: todayMeetings.length,
       weekMeetings: weekMeetings.length,
-      monthMeetings: meetings.filter(m => m.status !== 'cancelled').length,
+      monthMeetings: scheduledMeetings.filter(m => m.status !== 'cancelled').length,
       totalClients: clients.length,
       avgTravelTime: Math.round(avgTravelTime),
       completedMeetings: completedMeetings.length,
-      upcomingMeetings: meetings.filter(m => m.status === 'scheduled').length,
+      upcomingMeetings: scheduledMeetings.filter(m => m.status === 'scheduled').length,
       pendingTasks: tasks.filter(t => t.status === 'pending').length,
     };
-  }, [meetings, clients, tasks, today]);
+  }, [scheduledMeetings, clients, tasks, today]);
 
   // Helper function to get client status based on activity
   const getClientStatus = useCallback((client: Client): string => {
@@ -333,6 +527,16 @@ const AppLayout: React.FC = () => {
     return 'inactive';
   }, []);
 
+  // Clients due or overdue for a visit under their cadence rules
+  const dueVisits = useMemo(
+    () => findDueVisits(clients, cadenceRules, { today, meetings: scheduledMeetings }),
+    [clients, cadenceRules, today, scheduledMeetings]
+  );
+  const visitStatuses = useMemo(
+    () => new Map(dueVisits.map(d => [d.client.id, d.status])),
+    [dueVisits]
+  );
+
   // Filter clients based on search and advanced filters
   const filteredClients = useMemo(() => {
     let result = clients;
@@ -363,10 +567,21 @@ const AppLayout: React.FC = () => {
       );
     }
     
+    // Territory filter
+    if (activeFilters.territories.length > 0) {
+      const territoryClientIds = new Set(
+        territories
+          .filter(t => activeFilters.territories.includes(t.id))
+          .flatMap(t => t.clientIds)
+      );
+      result = result.filter(c => territoryClientIds.has(c.id));
+    }
+    
     // Status filter
     if (activeFilters.statuses.length > 0) {
       result = result.filter(c => 
-        activeFilters.statuses.includes(getClientStatus(c))
+        activeFilters.statuses.includes(getClientStatus(c)) ||
+        activeFilters.statuses.includes(visitStatuses.get(c.id) ?? '')
       );
     }
     
@@ -401,57 +616,747 @@ const AppLayout: React.FC = () => {
     });
     
     return result;
-  }, [clients, searchQuery, activeFilters, getClientStatus]);
+  }, [clients, searchQuery, activeFilters, territories, getClientStatus, visitStatuses]);
 
   // Count active filters
   const activeFilterCount = useMemo(() => {
     return activeFilters.tags.length + 
            activeFilters.cities.length + 
+           activeFilters.territories.length + 
            activeFilters.statuses.length + 
            Object.keys(activeFilters.customFields).length;
   }, [activeFilters]);
 
   const todayMeetings = useMemo(() => {
-    return meetings
+    return scheduledMeetings
       .filter(m => m.date === today)
       .sort((a, b) => a.startTime.localeCompare(b.startTime));
-  }, [meetings, today]);
+  }, [scheduledMeetings, today]);
+
+  // Handlers
+  const handleSignOut = async () => {
+    try {
+      // Queued changes belong to this account, so send them before the cache is cleared
+      if (navigator.onLine) await replayMutations();
+      await supabase.auth.signOut();
+      await clearOfflineData();
+      setShowProfileMenu(false);
+      toast({
+        title: 'Signed out',
+        description: 'You have been signed out successfully.',
+      });
+    } catch (err) {
+      console.error('Sign out failed:', err);
+      toast({
+        title: 'Error',
+        description: 'Failed to sign out. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  // Write the meeting rows a series edit or a plan touches; offline they are queued as one batch
+  const applySeriesChanges = useCallback(async (changes: SeriesChanges, label: string) => {
+    const { create: created, update: updated } = await meetingsApi.saveChanges(changes, label);
+    setMeetings(prev => [
+      ...prev
+        .filter(m => !changes.delete.includes(m.id))
+        .map(m => updated.find(u => u.id === m.id) ?? m),
+      ...created,
+    ]);
+  }, [setMeetings]);
+
+  // For changes that also touch data which isn't kept offline, so they can't be queued
+  const requireConnection = useCallback((action: string) => {
+    if (navigator.onLine) return true;
+    toast({
+      title: 'You are offline',
+      description: `${action} needs a connection. Try again once you are back online.`,
+      variant: 'destructive',
+    });
+    return false;
+  }, [toast]);
+
+  // Salesforce outbox: completed meetings and follow-up tasks wait here until Salesforce takes them
+  const isFlushingOutbox = useRef(false);
+
+  const flushSalesforceOutbox = useCallback(async (entries: SalesforceOutboxEntry[]) => {
+    const config = salesforceConfig;
+    // Offline every push would fail and use up one of its attempts
+    if (!navigator.onLine || !config.tokens || !config.clientId || isFlushingOutbox.current || !entries.some(e => isDue(e))) return;
+    isFlushingOutbox.current = true;
+    try {
+      let tokens = config.tokens;
+      const api = createSalesforceApi({
+        tokens,
+        clientId: config.clientId,
+        loginUrl: config.loginUrl,
+        onTokensRefreshed: refreshed => { tokens = refreshed; },
+      });
+      const { delivered, failed } = await processOutbox(api, entries);
+
+      for (const { entry, salesforceId } of delivered) {
+        if (entry.recordType === 'meeting') {
+          await meetingsApi.setSalesforceLink(entry.recordId, salesforceId, entry.snapshot);
+          setMeetings(prev => prev.map(m => m.id === entry.recordId ? { ...m, salesforceId, syncSnapshot: entry.snapshot } : m));
+        } else {
+          await tasksApi.setSalesforceId(entry.recordId, salesforceId);
+          setTasks(prev => prev.map(t => t.id === entry.recordId ? { ...t, salesforceId } : t));
+        }
+        await salesforceOutboxApi.delete(entry.id);
+      }
+      const retried = await Promise.all(failed.map(entry => salesforceOutboxApi.save(entry)));
+      if (failed.length > 0) console.error('Salesforce pushes failed:', failed.map(e => `${e.label}: ${e.lastError}`));
+      const givenUp = failed.filter(e => e.failedAt);
+      if (givenUp.length > 0) {
+        toast({
+          title: 'Not sent to Salesforce',
+          description: givenUp.length === 1
+            ? `Salesforce did not accept ${givenUp[0].label}. See the sync history to retry it.`
+            : `Salesforce did not accept ${givenUp.length} records. See the sync history to retry them.`,
+          variant: 'destructive',
+        });
+      }
+
+      const deliveredIds = new Set(delivered.map(d => d.entry.id));
+      const retriedById = new Map(retried.map(e => [e.id, e]));
+      setSalesforceOutbox(prev => prev.filter(e => !deliveredIds.has(e.id)).map(e => retriedById.get(e.id) ?? e));
+
+      if (tokens !== config.tokens) {
+        const refreshed = { ...config, tokens };
+        await userSettingsApi.upsert(refreshed);
+        setSalesforceConfig(refreshed);
+      }
+    } catch (err) {
+      console.error('Failed to send Salesforce outbox:', err);
+    } finally {
+      isFlushingOutbox.current = false;
+    }
+  }, [salesforceConfig, setMeetings, setTasks, toast]);
+
+  // Saved first, on this device when offline, so a push that can't be sent now is retried later
+  const queueSalesforcePush = useCallback(async (entry: SalesforceOutboxEntry | null) => {
+    if (!entry || !salesforceConfig.tokens) return;
+    try {
+      const saved = await salesforceOutboxApi.save(entry);
+      setSalesforceOutbox(prev => [...prev.filter(e => e.id !== saved.id), saved]);
+    } catch (err) {
+      console.error('Failed to queue Salesforce push:', err);
+      toast({
+        title: 'Not sent to Salesforce',
+        description: `${entry.label} could not be queued for Salesforce.`,
+        variant: 'destructive',
+      });
+    }
+  }, [salesforceConfig, toast]);
+
+  const queueCompletedMeeting = useCallback((meeting: Meeting) => queueSalesforcePush(buildMeetingEntry(
+    meeting,
+    clients.find(c => c.id === meeting.clientId),
+    salesforceOutbox.find(e => e.recordType === 'meeting' && e.recordId === meeting.id)
+  )), [clients, salesforceOutbox, queueSalesforcePush]);
+
+  // Pushes the outbox gave up on wait in the sync history until the user retries or drops them
+  const handleRetrySalesforcePush = useCallback(async (entry: SalesforceOutboxEntry) => {
+    try {
+      const saved = await salesforceOutboxApi.save(retryOutboxEntry(entry));
+      setSalesforceOutbox(prev => prev.map(e => e.id === saved.id ? saved : e));
+    } catch (err) {
+      console.error('Failed to retry Salesforce push:', err);
+      toast({
+        title: 'Error',
+        description: 'Failed to retry sending to Salesforce. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  }, [toast]);
+
+  const handleDiscardSalesforcePush = useCallback(async (entry: SalesforceOutboxEntry) => {
+    try {
+      await salesforceOutboxApi.delete(entry.id);
+      setSalesforceOutbox(prev => prev.filter(e => e.id !== entry.id));
+    } catch (err) {
+      console.error('Failed to discard Salesforce push:', err);
+      toast({
+        title: 'Error',
+        description: 'Failed to discard the Salesforce push. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  }, [toast]);
+
+  // Send what is queued as soon as it is due, and whenever the connection comes back
+  useEffect(() => {
+    if (salesforceOutbox.length === 0) return;
+    const flush = () => { flushSalesforceOutbox(salesforceOutbox); };
+    flush();
+    const timer = setInterval(flush, OUTBOX_RETRY_CHECK_MS);
+    window.addEventListener('online', flush);
+    return () => {
+      clearInterval(timer);
+      window.removeEventListener('online', flush);
+    };
+  }, [salesforceOutbox, flushSalesforceOutbox]);
+
+  const handleImportMeetings = useCallback(async (created: Meeting[], updated: Meeting[]) => {
+    try {
+      setIsSaving(true);
+      await applySeriesChanges({ create: created, update: updated, delete: [] }, `${created.length + updated.length} imported meetings`);
+      toast({
+        title: 'Import successful',
+        description: `${created.length} meetings added${updated.length > 0 ? `, ${updated.length} updated` : ''}.`,
+      });
+    } catch (err) {
+      console.error('Failed to import meetings:', err);
+      toast({
+        title: 'Error',
+        description: 'Failed to import meetings. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  }, [applySeriesChanges, toast]);
+
+  const handleMeetingStatusChange = useCallback(async (meetingId: string, status: Meeting['status']) => {
+    try {
+      setIsSaving(true);
+      const meeting = findMeeting(meetings, meetingId);
+      let changed = meeting && { ...meeting, status };
+      if (meeting && isVirtualOccurrence(meeting)) {
+        // An occurrence gets a row of its own the first time it changes
+        const changes = editOccurrence(meetings, meeting, { ...meeting, status }, 'this');
+        await applySeriesChanges(changes, meeting.title);
+        changed = changes.create[0] ?? changes.update[0];
+      } else if (changed) {
+        await writeMeeting({ type: 'update', record: changed }, () =>
+          meetingsApi.updateStatus(meetingId, status)
+        );
+      }
+      toast({
+        title: 'Meeting updated',
+        description: `Meeting status changed to ${status}.`,
+      });
+      if (changed && status === 'completed') queueCompletedMeeting(changed);
+    } catch (err) {
+      console.error('Failed to update meeting status:', err);
+      toast({
+        title: 'Error',
+        description: 'Failed to update meeting status. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  }, [meetings, applySeriesChanges, queueCompletedMeeting, writeMeeting, toast]);
+
+  const handleSaveMeeting = useCallback(async (meeting: Meeting, scope: RecurrenceEditScope = 'this') => {
+    try {
+      setIsSaving(true);
+      const exists = findMeeting(meetings, meeting.id);
+      let saved: Meeting | undefined;
+      
+      if (exists?.seriesId) {
+        const changes = editOccurrence(meetings, exists, meeting, scope);
+        await applySeriesChanges(changes, meeting.title);
+        if (scope === 'this') saved = changes.create[0] ?? changes.update[0];
+        toast({
+          title: 'Meeting updated',
+          description: scope === 'this'
+            ? 'This occurrence has been updated.'
+            : `The ${scope === 'all' ? 'whole series' : 'following meetings'} have been updated.`,
+        });
+      } else if (exists) {
+        const updated = await writeMeeting({ type: 'update', record: meeting }, () =>
+          meetingsApi.update(meeting)
+        );
+        setMeetings(prev => prev.map(m => m.id === updated.id ? updated : m));
+        saved = updated;
+        toast({
+          title: 'Meeting updated',
+          description: 'Meeting has been updated successfully.',
+        });
+      } else {
+        const created = await writeMeeting({ type: 'insert', record: meeting }, () =>
+          meetingsApi.create(meeting)
+        );
+        setMeetings(prev => prev.map(m => m.id === created.id ? created : m));
+        saved = created;
+        toast({
+          title: 'Meeting scheduled',
+          description: 'New meeting has been scheduled successfully.',
+        });
+      }
+      if (saved?.status === 'completed' && exists?.status !== 'completed') queueCompletedMeeting(saved);
+    } catch (err) {
+      console.error('Failed to save meeting:', err);
+      toast({
+        title: 'Error',
+        description: 'Failed to save meeting. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  }, [meetings, applySeriesChanges, queueCompletedMeeting, writeMeeting, setMeetings, toast]);
+
+  const handleDeleteMeeting = useCallback(async (meetingId: string, scope: RecurrenceEditScope = 'this') => {
+    try {
+      setIsSaving(true);
+      const meeting = findMeeting(meetings, meetingId);
+      if (meeting?.seriesId) {
+        await applySeriesChanges(deleteOccurrence(meetings, meeting, scope), meeting.title);
+      } else {
+        await writeMeeting({ type: 'delete', id: meetingId }, () =>
+          meetingsApi.delete(meetingId)
+        );
+      }
+      toast({
+        title: 'Meeting deleted',
+        description: 'Meeting has been deleted successfully.',
+      });
+    } catch (err) {
+      console.error('Failed to delete meeting:', err);
+      toast({
+        title: 'Error',
+        description: 'Failed to delete meeting. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  }, [meetings, applySeriesChanges, writeMeeting, toast]);
+
+  const handleSaveClient = useCallback(async (client: Client) => {
+    try {
+      setIsSaving(true);
+      const exists = clients.find(c => c.id === client.id);
+      
+      if (exists) {
+        const updated = await writeClient({ type: 'update', record: client }, () =>
+          clientsApi.update(client)
+        );
+        setClients(prev => prev.map(c => c.id === updated.id ? updated : c));
+        toast({
+          title: 'Client updated',
+          description: 'Client information has been updated successfully.',
+        });
+      } else {
+        const created = await writeClient({ type: 'insert', record: client }, () =>
+          clientsApi.create(client)
+        );
+        setClients(prev => prev.map(c => c.id === created.id ? created : c));
+        toast({
+          title: 'Client added',
+          description: 'New client has been added successfully.',
+        });
+      }
+    } catch (err) {
+      console.error('Failed to save client:', err);
+      toast({
+        title: 'Error',
+        description: 'Failed to save client. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  }, [clients, writeClient, setClients, toast]);
+
+  const handleDeleteClient = useCallback(async (clientId: string) => {
+    try {
+      setIsSaving(true);
+      await writeClient({ type: 'delete', id: clientId }, () => clientsApi.delete(clientId));
+      toast({
+        title: 'Client deleted',
+        description: 'Client has been deleted successfully.',
+      });
+    } catch (err) {
+      console.error('Failed to delete client:', err);
+      toast({
+        title: 'Error',
+        description: 'Failed to delete client. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  }, [writeClient, toast]);
+
+  // Geocode clients one by one in the background, saving each one that gets a better location
+  const verifyClientLocations = useCallback(async (pending: Client[]) => {
+    const rank = { none: 0, low: 1, medium: 2, high: 3 };
+    let improved = 0;
+    for (const client of pending) {
+      try {
+        const location = await geocodeClient(client);
+        if (rank[location.geocodeConfidence!] <= rank[client.geocodeConfidence || 'none']) continue;
+        const located = { ...client, ...location };
+        const updated = await writeClient({ type: 'update', record: located }, () => clientsApi.update(located));
+        setClients(prev => prev.map(c => c.id === updated.id ? updated : c));
+        improved++;
+      } catch (err) {
+        console.error(`Failed to geocode client ${client.id}:`, err);
+      }
+    }
+    const unverified = pending.length - improved;
+    if (unverified > 0) {
+      toast({
+        title: 'Some locations need checking',
+        description: `${unverified} imported client${unverified > 1 ? 's have' : ' has'} an approximate or missing location.`,
+      });
+    }
+  }, [writeClient, setClients, toast]);
+
+  // New rows are created; rows matched to an existing client come back as updates of it
+  const handleImportClients = useCallback(async (importedClients: Partial<Client>[], updatedClients: Client[] = []) => {
+    try {
+      setIsSaving(true);
+      const newClients = importedClients.map(c => ({
+        ...c,
+        // Place clients without coordinates at their ZIP code for now; they are geocoded after saving
+        ...(c.latitude && c.longitude ? {} : locateClientOffline(c)),
+        id: c.id || crypto.randomUUID(),
+        name: c.name || '',
+        company: c.company || '',
+        email: c.email || '',
+        phone: c.phone || '',
+        address: c.address || '',
+        city: c.city || '',
+        state: c.state || '',
+        zipCode: c.zipCode || '',
+        notes: c.notes || '',
+        tags: c.tags || [],
+        customFields: c.customFields || {},
+        createdAt: c.createdAt || new Date().toISOString().split('T')[0],
+        totalMeetings: c.totalMeetings || 0,
+      })) as Client[];
+
+      const { create: created, update: updated } = await clientsApi.saveChanges(
+        { create: newClients, update: updatedClients, delete: [] },
+        `${newClients.length + updatedClients.length} imported clients`
+      );
+      const updatedById = new Map(updated.map(c => [c.id, c]));
+      setClients(prev => [...prev.map(c => updatedById.get(c.id) || c), ...created]);
+      toast({
+        title: 'Import successful',
+        description: `${created.length} clients have been imported${updated.length > 0 ? `, ${updated.length} merged into existing clients` : ''}.`,
+      });
+      verifyClientLocations(created.filter(c => c.locationVerified === false));
+    } catch (err) {
+      console.error('Failed to import clients:', err);
+      toast({
+        title: 'Error',
+        description: 'Failed to import clients. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  }, [setClients, toast, verifyClientLocations]);
+
+  // Meetings, tasks, territories and cadence rules move to the kept client before the duplicates are deleted
+  const handleMergeClients = useCallback(async (survivor: Client, duplicates: Client[]) => {
+    // Territories and cadence rules aren't kept offline, so a merge can't be queued
+    if (!requireConnection('Merging clients')) return;
+    try {
+      setIsSaving(true);
+      const plan = planClientMerge(survivor, duplicates, { meetings, tasks, territories, cadenceRules });
+
+      await meetingsApi.reassignClient(plan.removedIds, survivor.id);
+      await tasksApi.reassignClient(plan.removedIds, survivor.id);
+      const savedTerritories = await Promise.all(plan.territories.map(t => territoriesApi.update(t)));
+      const savedRules = await Promise.all(plan.cadenceRules.update.map(r => cadenceRulesApi.update(r)));
+      await Promise.all(plan.cadenceRules.delete.map(id => cadenceRulesApi.delete(id)));
+      const merged = await clientsApi.update(plan.client);
+      await Promise.all(plan.removedIds.map(id => clientsApi.delete(id)));
+
+      const removed = new Set(plan.removedIds);
+      const movedMeetings = new Map(plan.meetings.map(m => [m.id, m]));
+      const movedTasks = new Map(plan.tasks.map(t => [t.id, t]));
+      const territoriesById = new Map(savedTerritories.map(t => [t.id, t]));
+      const rulesById = new Map(savedRules.map(r => [r.id, r]));
+      setClients(prev => prev.filter(c => !removed.has(c.id)).map(c => c.id === merged.id ? merged : c));
+      setMeetings(prev => prev.map(m => movedMeetings.get(m.id) || m));
+      setTasks(prev => prev.map(t => movedTasks.get(t.id) || t));
+      setTerritories(prev => prev.map(t => territoriesById.get(t.id) || t));
+      setCadenceRules(prev => prev
+        .filter(r => !plan.cadenceRules.delete.includes(r.id))
+        .map(r => rulesById.get(r.id) || r));
+      toast({
+        title: 'Clients merged',
+        description: `${plan.removedIds.length + 1} clients were merged into ${merged.name}.`,
+      });
+    } catch (err) {
+      console.error('Failed to merge clients:', err);
+      toast({
+        title: 'Error',
+        description: 'Failed to merge clients. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  }, [meetings, tasks, territories, cadenceRules, requireConnection, setClients, setMeetings, setTasks, toast]);
+
+  const handleAddCustomField = useCallback(async (field: CustomField) => {
+    try {
+      setIsSaving(true);
+      const created = await writeCustomField({ type: 'insert', record: field }, () =>
+        customFieldsApi.create(field)
+      );
+      setCustomFields(prev => prev.map(f => f.id === created.id ? created : f));
+      toast({
+        title: 'Field added',
+        description: `Custom field "${field.name}" has been added.`,
+      });
+    } catch (err) {
+      console.error('Failed to add custom field:', err);
+      toast({
+        title: 'Error',
+        description: 'Failed to add custom field. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  }, [writeCustomField, setCustomFields, toast]);
+
+  const handleRemoveCustomField = useCallback(async (fieldId: string) => {
+    try {
+      setIsSaving(true);
+      await writeCustomField({ type: 'delete', id: fieldId }, () => customFieldsApi.delete(fieldId));
+      toast({
+        title: 'Field removed',
+        description: 'Custom field has been removed.',
+      });
+    } catch (err) {
+      console.error('Failed to remove custom field:', err);
+      toast({
+        title: 'Error',
+        description: 'Failed to remove custom field. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  }, [writeCustomField, toast]);
+
+  const handleUpdateCustomField = useCallback(async (field: CustomField) => {
+    try {
+      setIsSaving(true);
+      const updated = await writeCustomField({ type: 'update', record: field }, () =>
+        customFieldsApi.update(field)
+      );
+      setCustomFields(prev => prev.map(f => f.id === updated.id ? updated : f));
+      toast({
+        title: 'Field updated',
+        description: `Custom field "${field.name}" has been updated.`,
+      });
+    } catch (err) {
+      console.error('Failed to update custom field:', err);
+      toast({
+        title: 'Error',
+        description: 'Failed to update custom field. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  }, [writeCustomField, setCustomFields, toast]);
+
+  const handleSalesforceConfigUpdate = useCallback(async (config: SalesforceConfig) => {
+    try {
+      setIsSaving(true);
+      await userSettingsApi.upsert(config);
+      setSalesforceConfig(config);
+      toast({
+        title: 'Settings saved',
+        description: 'Salesforce configuration has been updated.',
+      });
+    } catch (err) {
+      console.error('Failed to save Salesforce config:', err);
+      toast({
+        title: 'Error',
+        description: 'Failed to save settings. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  }, [toast]);
+
+  // Salesforce changes are saved here; the sync itself already wrote local changes to Salesforce
+  const handleSalesforceSync = useCallback(async (config: SalesforceConfig) => {
+    if (!config.tokens || !config.clientId) return;
+    try {
+      setIsSaving(true);
+      const startedAt = new Date().toISOString();
+      let tokens = config.tokens;
+      const api = createSalesforceApi({
+        tokens,
+        clientId: config.clientId,
+        loginUrl: config.loginUrl,
+        onTokensRefreshed: refreshed => { tokens = refreshed; },
+      });
+      const pendingConflicts = syncRuns.flatMap(run => run.conflicts.filter(c => c.resolution === 'pending'));
+      const result = await runSalesforceSync(api, { config, clients, meetings, customFields, pendingConflicts });
+
+      const created = result.clients.create.length > 0 ? await clientsApi.bulkCreate(result.clients.create) : [];
+      const updated = await Promise.all(result.clients.update.map(c => clientsApi.update(c)));
+      const updatedById = new Map(updated.map(c => [c.id, c]));
+      setClients(prev => [...prev.map(c => updatedById.get(c.id) || c), ...created]);
+      await applySeriesChanges({ create: result.meetings.create, update: result.meetings.update, delete: [] }, 'Salesforce sync');
+
+      // Stamped after saving, so the clients saved above aren't pushed back next time
+      const synced: SalesforceConfig = { ...config, tokens, syncCursors: result.cursors, lastSync: new Date().toISOString() };
+      await userSettingsApi.upsert(synced);
+      setSalesforceConfig(synced);
+
+      const run = await syncRunsApi.create({
+        id: crypto.randomUUID(),
+        startedAt,
+        finishedAt: synced.lastSync!,
+        direction: config.syncDirection,
+        conflictPolicy: effectiveConflictPolicy(config),
+        changes: result.changes,
+        conflicts: result.conflicts,
+        errors: result.errors,
+      });
+      setSyncRuns(prev => [run, ...prev]);
+
+      const imported = result.changes.filter(c => c.direction === 'import').length;
+      const exported = result.changes.filter(c => c.direction === 'export').length;
+      const waiting = result.conflicts.filter(c => c.resolution === 'pending').length;
+      toast({
+        title: 'Salesforce sync complete',
+        description: `${imported} changes from Salesforce, ${exported} sent to Salesforce` +
+          `${waiting > 0 ? `; ${waiting} conflicts need your decision in the sync history` : ''}.`,
+      });
+      if (result.errors.length > 0) {
+        console.error('Salesforce sync errors:', result.errors);
+        toast({
+          title: `${result.errors.length} clients could not be sent`,
+          description: result.errors[0],
+          variant: 'destructive',
+        });
+      }
+      verifyClientLocations(created.filter(c => c.locationVerified === false));
+    } catch (err) {
+      console.error('Salesforce sync failed:', err);
+      toast({
+        title: 'Error',
+        description: err instanceof Error ? err.message : 'Salesforce sync failed. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  }, [clients, meetings, customFields, syncRuns, applySeriesChanges, verifyClientLocations, setClients, toast]);
+
+  const handleResolveSyncConflict = useCallback(async (run: SyncRun, conflict: SyncConflict, choice: 'local' | 'remote') => {
+    const config = salesforceConfig;
+    if (!config.tokens || !config.clientId || !requireConnection('Resolving a sync conflict')) return;
+    try {
+      setIsSaving(true);
+      let tokens = config.tokens;
+      const api = createSalesforceApi({
+        tokens,
+        clientId: config.clientId,
+        loginUrl: config.loginUrl,
+        onTokensRefreshed: refreshed => { tokens = refreshed; },
+      });
+      const record = await resolveSyncConflict(api, conflict, choice, { config, clients, meetings });
+      if (conflict.recordType === 'client') {
+        const saved = await clientsApi.update(record as Client);
+        setClients(prev => prev.map(c => c.id === saved.id ? saved : c));
+      } else {
+        const saved = await meetingsApi.update(record as Meeting);
+        setMeetings(prev => prev.map(m => m.id === saved.id ? saved : m));
+      }
+      if (tokens !== config.tokens) {
+        const refreshed = { ...config, tokens };
+        await userSettingsApi.upsert(refreshed);
+        setSalesforceConfig(refreshed);
+      }
+
+      const savedRun = await syncRunsApi.updateConflicts({
+        ...run,
+        conflicts: run.conflicts.map(c => c === conflict ? { ...c, resolution: choice } : c),
+      });
+      setSyncRuns(prev => prev.map(r => r.id === savedRun.id ? savedRun : r));
+      toast({
+        title: 'Conflict resolved',
+        description: `${conflict.label}: kept the ${choice === 'local' ? 'local' : 'Salesforce'} ${conflict.field}.`,
+      });
+    } catch (err) {
+      console.error('Failed to resolve sync conflict:', err);
+      toast({
+        title: 'Error',
+        description: err instanceof Error ? err.message : 'Failed to resolve the conflict. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  }, [salesforceConfig, clients, meetings, requireConnection, setClients, setMeetings, toast]);
+
+  const handleWorkdaySettingsUpdate = useCallback(async (settings: WorkdaySettings) => {
+    try {
+      setIsSaving(true);
+      await userSettingsApi.upsertWorkday(settings);
+      setWorkdaySettings(settings);
+      toast({
+        title: 'Settings saved',
+        description: 'Workday hours have been updated.',
+      });
+    } catch (err) {
+      console.error('Failed to save workday settings:', err);
+      toast({
+        title: 'Error',
+        description: 'Failed to save settings. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  }, [toast]);
 
-  // Handlers
-  const handleSignOut = async () => {
+  const handleTravelTimeSettingsUpdate = useCallback(async (settings: TravelTimeSettings) => {
     try {
-      await supabase.auth.signOut();
-      setShowProfileMenu(false);
+      setIsSaving(true);
+      await userSettingsApi.upsertTravelTime(settings);
+      setTravelTimeSettings(settings);
       toast({
-        title: 'Signed out',
-        description: 'You have been signed out successfully.',
+        title: 'Settings saved',
+        description: 'Travel time settings have been updated.',
       });
     } catch (err) {
-      console.error('Sign out failed:', err);
+      console.error('Failed to save travel time settings:', err);
       toast({
         title: 'Error',
-        description: 'Failed to sign out. Please try again.',
+        description: 'Failed to save settings. Please try again.',
         variant: 'destructive',
       });
+    } finally {
+      setIsSaving(false);
     }
-  };
+  }, [toast]);
 
-  const handleMeetingStatusChange = useCallback(async (meetingId: string, status: Meeting['status']) => {
+  const handleMapSettingsUpdate = useCallback(async (settings: MapSettings) => {
     try {
       setIsSaving(true);
-      await meetingsApi.updateStatus(meetingId, status);
-      setMeetings(prev => prev.map(m => 
-        m.id === meetingId ? { ...m, status } : m
-      ));
+      await userSettingsApi.upsertMap(settings);
+      setMapSettings(settings);
       toast({
-        title: 'Meeting updated',
-        description: `Meeting status changed to ${status}.`,
+        title: 'Settings saved',
+        description: 'Map tile settings have been updated.',
       });
     } catch (err) {
-      console.error('Failed to update meeting status:', err);
+      console.error('Failed to save map settings:', err);
       toast({
         title: 'Error',
-        description: 'Failed to update meeting status. Please try again.',
+        description: 'Failed to save settings. Please try again.',
         variant: 'destructive',
       });
     } finally {
@@ -459,52 +1364,42 @@ const AppLayout: React.FC = () => {
     }
   }, [toast]);
 
-  const handleSaveMeeting = useCallback(async (meeting: Meeting) => {
+  // Depot handlers
+  const handleAddDepot = useCallback(async (depot: Depot) => {
     try {
       setIsSaving(true);
-      const exists = meetings.find(m => m.id === meeting.id);
-      
-      if (exists) {
-        const updated = await meetingsApi.update(meeting);
-        setMeetings(prev => prev.map(m => m.id === updated.id ? updated : m));
-        toast({
-          title: 'Meeting updated',
-          description: 'Meeting has been updated successfully.',
-        });
-      } else {
-        const created = await meetingsApi.create(meeting);
-        setMeetings(prev => [...prev, created]);
-        toast({
-          title: 'Meeting scheduled',
-          description: 'New meeting has been scheduled successfully.',
-        });
-      }
+      const created = await depotsApi.create(depot);
+      setDepots(prev => [...prev, created]);
+      toast({
+        title: 'Depot added',
+        description: `${created.name} can now be used as a route start or end.`,
+      });
     } catch (err) {
-      console.error('Failed to save meeting:', err);
+      console.error('Failed to add depot:', err);
       toast({
         title: 'Error',
-        description: 'Failed to save meeting. Please try again.',
+        description: 'Failed to add depot. Please try again.',
         variant: 'destructive',
       });
     } finally {
       setIsSaving(false);
     }
-  }, [meetings, toast]);
+  }, [toast]);
 
-  const handleDeleteMeeting = useCallback(async (meetingId: string) => {
+  const handleDeleteDepot = useCallback(async (depotId: string) => {
     try {
       setIsSaving(true);
-      await meetingsApi.delete(meetingId);
-      setMeetings(prev => prev.filter(m => m.id !== meetingId));
+      await depotsApi.delete(depotId);
+      setDepots(prev => prev.filter(d => d.id !== depotId));
       toast({
-        title: 'Meeting deleted',
-        description: 'Meeting has been deleted successfully.',
+        title: 'Depot deleted',
+        description: 'The depot has been removed.',
       });
     } catch (err) {
-      console.error('Failed to delete meeting:', err);
+      console.error('Failed to delete depot:', err);
       toast({
         title: 'Error',
-        description: 'Failed to delete meeting. Please try again.',
+        description: 'Failed to delete depot. Please try again.',
         variant: 'destructive',
       });
     } finally {
@@ -512,52 +1407,38 @@ const AppLayout: React.FC = () => {
     }
   }, [toast]);
 
-  const handleSaveClient = useCallback(async (client: Client) => {
+  const handleSetDefaultDepot = useCallback(async (depotId: string) => {
     try {
       setIsSaving(true);
-      const exists = clients.find(c => c.id === client.id);
-      
-      if (exists) {
-        const updated = await clientsApi.update(client);
-        setClients(prev => prev.map(c => c.id === updated.id ? updated : c));
-        toast({
-          title: 'Client updated',
-          description: 'Client information has been updated successfully.',
-        });
-      } else {
-        const created = await clientsApi.create(client);
-        setClients(prev => [...prev, created]);
-        toast({
-          title: 'Client added',
-          description: 'New client has been added successfully.',
-        });
-      }
+      await depotsApi.setDefault(depotId);
+      setDepots(prev => prev.map(d => ({ ...d, isDefault: d.id === depotId })));
     } catch (err) {
-      console.error('Failed to save client:', err);
+      console.error('Failed to set default depot:', err);
       toast({
         title: 'Error',
-        description: 'Failed to save client. Please try again.',
+        description: 'Failed to update depot. Please try again.',
         variant: 'destructive',
       });
     } finally {
       setIsSaving(false);
     }
-  }, [clients, toast]);
+  }, [toast]);
 
-  const handleDeleteClient = useCallback(async (clientId: string) => {
+  // Cadence rule handlers
+  const handleAddCadenceRule = useCallback(async (rule: CadenceRule) => {
     try {
       setIsSaving(true);
-      await clientsApi.delete(clientId);
-      setClients(prev => prev.filter(c => c.id !== clientId));
+      const created = await cadenceRulesApi.create(rule);
+      setCadenceRules(prev => [...prev, created]);
       toast({
-        title: 'Client deleted',
-        description: 'Client has been deleted successfully.',
+        title: 'Cadence added',
+        description: `Clients will be flagged when a visit is due every ${created.intervalDays} days.`,
       });
     } catch (err) {
-      console.error('Failed to delete client:', err);
+      console.error('Failed to add cadence rule:', err);
       toast({
         title: 'Error',
-        description: 'Failed to delete client. Please try again.',
+        description: 'Failed to add cadence. Please try again.',
         variant: 'destructive',
       });
     } finally {
@@ -565,40 +1446,20 @@ const AppLayout: React.FC = () => {
     }
   }, [toast]);
 
-  const handleImportClients = useCallback(async (importedClients: Partial<Client>[]) => {
+  const handleDeleteCadenceRule = useCallback(async (ruleId: string) => {
     try {
       setIsSaving(true);
-      const newClients = importedClients.map(c => ({
-        ...c,
-        id: c.id || crypto.randomUUID(),
-        name: c.name || '',
-        company: c.company || '',
-        email: c.email || '',
-        phone: c.phone || '',
-        address: c.address || '',
-        city: c.city || '',
-        state: c.state || '',
-        zipCode: c.zipCode || '',
-        latitude: c.latitude || 37.7749 + (Math.random() - 0.5) * 0.5,
-        longitude: c.longitude || -122.4194 + (Math.random() - 0.5) * 0.5,
-        notes: c.notes || '',
-        tags: c.tags || [],
-        customFields: c.customFields || {},
-        createdAt: c.createdAt || new Date().toISOString().split('T')[0],
-        totalMeetings: c.totalMeetings || 0,
-      })) as Client[];
-
-      const created = await clientsApi.bulkCreate(newClients);
-      setClients(prev => [...prev, ...created]);
+      await cadenceRulesApi.delete(ruleId);
+      setCadenceRules(prev => prev.filter(r => r.id !== ruleId));
       toast({
-        title: 'Import successful',
-        description: `${created.length} clients have been imported.`,
+        title: 'Cadence deleted',
+        description: 'The cadence has been removed.',
       });
     } catch (err) {
-      console.error('Failed to import clients:', err);
+      console.error('Failed to delete cadence rule:', err);
       toast({
         title: 'Error',
-        description: 'Failed to import clients. Please try again.',
+        description: 'Failed to delete cadence. Please try again.',
         variant: 'destructive',
       });
     } finally {
@@ -606,83 +1467,115 @@ const AppLayout: React.FC = () => {
     }
   }, [toast]);
 
-  const handleAddCustomField = useCallback(async (field: CustomField) => {
+  // Calendar feed: the published .ics is regenerated from the current meetings and clients
+  const publishedFeedData = useRef<{ meetings: Meeting[]; clients: Client[] } | null>(null);
+
+  const publishCalendarFeed = useCallback(async (token: string) => {
+    const url = await calendarFeedApi.publish(token, generateCalendarFeed(meetings, clients));
+    const published: CalendarFeedSettings = { token, url, lastPublished: new Date().toISOString() };
+    await userSettingsApi.upsertCalendarFeed(published);
+    publishedFeedData.current = { meetings, clients };
+    setCalendarFeed(published);
+  }, [meetings, clients]);
+
+  // Keep subscribers up to date, waiting for a pause in edits before republishing
+  useEffect(() => {
+    if (isInitialLoading || !calendarFeed) return;
+    const published = publishedFeedData.current;
+    if (published && published.meetings === meetings && published.clients === clients) return;
+
+    const timer = setTimeout(() => {
+      publishCalendarFeed(calendarFeed.token).catch(err => console.error('Failed to update calendar feed:', err));
+    }, FEED_REPUBLISH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [isInitialLoading, calendarFeed, meetings, clients, publishCalendarFeed]);
+
+  const handleEnableCalendarFeed = useCallback(async () => {
     try {
       setIsSaving(true);
-      const created = await customFieldsApi.create(field);
-      setCustomFields(prev => [...prev, created]);
+      await publishCalendarFeed(createFeedToken());
       toast({
-        title: 'Field added',
-        description: `Custom field "${field.name}" has been added.`,
+        title: 'Calendar feed created',
+        description: 'Copy the link or subscribe to it from your calendar app.',
       });
     } catch (err) {
-      console.error('Failed to add custom field:', err);
+      console.error('Failed to create calendar feed:', err);
       toast({
         title: 'Error',
-        description: 'Failed to add custom field. Please try again.',
+        description: 'Failed to create calendar feed. Please try again.',
         variant: 'destructive',
       });
     } finally {
       setIsSaving(false);
     }
-  }, [toast]);
+  }, [publishCalendarFeed, toast]);
 
-  const handleRemoveCustomField = useCallback(async (fieldId: string) => {
+  const handleRegenerateCalendarFeed = useCallback(async () => {
+    if (!calendarFeed) return;
     try {
       setIsSaving(true);
-      await customFieldsApi.delete(fieldId);
-      setCustomFields(prev => prev.filter(f => f.id !== fieldId));
+      await publishCalendarFeed(createFeedToken());
+      await calendarFeedApi.unpublish(calendarFeed.token);
       toast({
-        title: 'Field removed',
-        description: 'Custom field has been removed.',
+        title: 'New feed link created',
+        description: 'The old link no longer works. Subscribe again with the new one.',
       });
     } catch (err) {
-      console.error('Failed to remove custom field:', err);
+      console.error('Failed to regenerate calendar feed:', err);
       toast({
         title: 'Error',
-        description: 'Failed to remove custom field. Please try again.',
+        description: 'Failed to create a new feed link. Please try again.',
         variant: 'destructive',
       });
     } finally {
       setIsSaving(false);
     }
-  }, [toast]);
+  }, [calendarFeed, publishCalendarFeed, toast]);
 
-  const handleUpdateCustomField = useCallback(async (field: CustomField) => {
+  const handleDisableCalendarFeed = useCallback(async () => {
+    if (!calendarFeed) return;
     try {
       setIsSaving(true);
-      const updated = await customFieldsApi.update(field);
-      setCustomFields(prev => prev.map(f => f.id === updated.id ? updated : f));
+      await calendarFeedApi.unpublish(calendarFeed.token);
+      await userSettingsApi.upsertCalendarFeed(null);
+      publishedFeedData.current = null;
+      setCalendarFeed(null);
       toast({
-        title: 'Field updated',
-        description: `Custom field "${field.name}" has been updated.`,
+        title: 'Calendar feed turned off',
+        description: 'Subscribed calendars will stop receiving your meetings.',
       });
     } catch (err) {
-      console.error('Failed to update custom field:', err);
+      console.error('Failed to turn off calendar feed:', err);
       toast({
         title: 'Error',
-        description: 'Failed to update custom field. Please try again.',
+        description: 'Failed to turn off calendar feed. Please try again.',
         variant: 'destructive',
       });
     } finally {
       setIsSaving(false);
     }
-  }, [toast]);
+  }, [calendarFeed, toast]);
 
-  const handleSalesforceConfigUpdate = useCallback(async (config: SalesforceConfig) => {
+  // Territory handlers
+  const handleSaveTerritories = useCallback(async (updated: Territory[]) => {
     try {
       setIsSaving(true);
-      await userSettingsApi.upsert(config);
-      setSalesforceConfig(config);
+      const saved = await territoriesApi.replaceAll(updated);
+      setTerritories(saved);
+      // Drop filters on territories that no longer exist
+      setActiveFilters(prev => ({
+        ...prev,
+        territories: prev.territories.filter(id => saved.some(t => t.id === id))
+      }));
       toast({
-        title: 'Settings saved',
-        description: 'Salesforce configuration has been updated.',
+        title: 'Territories saved',
+        description: `${saved.length} territor${saved.length !== 1 ? 'ies' : 'y'} saved.`,
       });
     } catch (err) {
-      console.error('Failed to save Salesforce config:', err);
+      console.error('Failed to save territories:', err);
       toast({
         title: 'Error',
-        description: 'Failed to save settings. Please try again.',
+        description: 'Failed to save territories. Please try again.',
         variant: 'destructive',
       });
     } finally {
@@ -694,12 +1587,13 @@ const AppLayout: React.FC = () => {
   const handleAddTask = useCallback(async (task: Task) => {
     try {
       setIsSaving(true);
-      const created = await tasksApi.create(task);
-      setTasks(prev => [...prev, created]);
+      const created = await writeTask({ type: 'insert', record: task }, () => tasksApi.create(task));
+      setTasks(prev => prev.map(t => t.id === created.id ? created : t));
       toast({
         title: 'Task added',
         description: 'New task has been created.',
       });
+      return created;
     } catch (err) {
       console.error('Failed to add task:', err);
       toast({
@@ -710,12 +1604,12 @@ const AppLayout: React.FC = () => {
     } finally {
       setIsSaving(false);
     }
-  }, [toast]);
+  }, [writeTask, setTasks, toast]);
 
   const handleUpdateTask = useCallback(async (task: Task) => {
     try {
       setIsSaving(true);
-      const updated = await tasksApi.update(task);
+      const updated = await writeTask({ type: 'update', record: task }, () => tasksApi.update(task));
       setTasks(prev => prev.map(t => t.id === updated.id ? updated : t));
       toast({
         title: 'Task updated',
@@ -731,13 +1625,12 @@ const AppLayout: React.FC = () => {
     } finally {
       setIsSaving(false);
     }
-  }, [toast]);
+  }, [writeTask, setTasks, toast]);
 
   const handleDeleteTask = useCallback(async (taskId: string) => {
     try {
       setIsSaving(true);
-      await tasksApi.delete(taskId);
-      setTasks(prev => prev.filter(t => t.id !== taskId));
+      await writeTask({ type: 'delete', id: taskId }, () => tasksApi.delete(taskId));
       toast({
         title: 'Task deleted',
         description: 'Task has been deleted.',
@@ -752,7 +1645,7 @@ const AppLayout: React.FC = () => {
     } finally {
       setIsSaving(false);
     }
-  }, [toast]);
+  }, [writeTask, toast]);
 
   const handleCreateTaskFromMeeting = useCallback((meeting: Meeting) => {
     const client = clients.find(c => c.id === meeting.clientId);
@@ -760,35 +1653,42 @@ const AppLayout: React.FC = () => {
       id: crypto.randomUUID(),
       title: `Follow up: ${meeting.title}`,
       description: meeting.notes ? `From meeting notes:\n${meeting.notes}` : '',
-      meetingId: meeting.id,
+      meetingId: isVirtualOccurrence(meeting) ? meeting.seriesId : meeting.id, // Occurrences without a row link to their series
       clientId: meeting.clientId,
       priority: meeting.priority,
       status: 'pending',
       createdAt: new Date().toISOString(),
     };
 
-    handleAddTask(newTask);
+    handleAddTask(newTask).then(created => {
+      if (created) queueSalesforcePush(buildTaskEntry(created, client));
+    });
     setActiveView('tasks');
-  }, [clients, handleAddTask]);
-
+  }, [clients, handleAddTask, queueSalesforcePush]);
+
+
+  // Give existing meetings the times a route or week plan chose for them
+  const rescheduleMeetings = useCallback((updates: MeetingReschedule[]) =>
+    updates.flatMap(update => {
+      const meeting = meetings.find(m => m.id === update.id);
+      if (!meeting) return [];
+      return [{
+        ...meeting,
+        date: update.date ?? meeting.date,
+        startTime: update.startTime,
+        endTime: update.endTime,
+        flexibleTime: false, // Mark as no longer flexible since time is now set
+      }];
+    }), [meetings]);
 
   // Handler for updating meeting times from route optimizer
-  const handleUpdateMeetingTimes = useCallback(async (updates: { id: string; startTime: string; endTime: string }[]) => {
+  const handleUpdateMeetingTimes = useCallback(async (updates: MeetingReschedule[]) => {
     try {
       setIsSaving(true);
-      for (const update of updates) {
-        const meeting = meetings.find(m => m.id === update.id);
-        if (meeting) {
-          const updatedMeeting = {
-            ...meeting,
-            startTime: update.startTime,
-            endTime: update.endTime,
-            flexibleTime: false, // Mark as no longer flexible since time is now set
-          };
-          await meetingsApi.update(updatedMeeting);
-          setMeetings(prev => prev.map(m => m.id === update.id ? updatedMeeting : m));
-        }
-      }
+      await applySeriesChanges(
+        { create: [], update: rescheduleMeetings(updates), delete: [] },
+        `${updates.length} rescheduled meetings`
+      );
       toast({
         title: 'Meeting times updated',
         description: `${updates.length} meeting${updates.length > 1 ? 's' : ''} updated with optimized times.`,
@@ -803,8 +1703,74 @@ const AppLayout: React.FC = () => {
     } finally {
       setIsSaving(false);
     }
-  }, [meetings, toast]);
+  }, [applySeriesChanges, rescheduleMeetings, toast]);
+
+  // Create the client visits a route plan added; returns whether they were all saved
+  const handleScheduleVisits = useCallback(async (visits: Meeting[]): Promise<boolean> => {
+    try {
+      setIsSaving(true);
+      const { create: created } = await meetingsApi.saveChanges(
+        { create: visits, update: [], delete: [] },
+        `${visits.length} scheduled visits`
+      );
+      setMeetings(prev => [...prev, ...created]);
+      toast({
+        title: 'Visits scheduled',
+        description: `${visits.length} client visit${visits.length > 1 ? 's' : ''} added to your schedule.`,
+      });
+      return true;
+    } catch (err) {
+      console.error('Failed to schedule visits:', err);
+      toast({
+        title: 'Error',
+        description: 'Failed to schedule the new visits. Please try again.',
+        variant: 'destructive',
+      });
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  }, [setMeetings, toast]);
+
+  // Apply a week plan in one write: the new visits and the moved meetings are saved, or queued, together
+  const handleApplyWeekPlan = useCallback(async (updates: MeetingReschedule[], newMeetings: Meeting[]) => {
+    try {
+      setIsSaving(true);
+      await applySeriesChanges(
+        { create: newMeetings, update: rescheduleMeetings(updates), delete: [] },
+        'Week plan'
+      );
+      toast({
+        title: 'Week plan applied',
+        description: `${newMeetings.length} visit${newMeetings.length === 1 ? '' : 's'} added and ${updates.length} meeting${updates.length === 1 ? '' : 's'} moved.`,
+      });
+    } catch (err) {
+      console.error('Failed to apply week plan:', err);
+      toast({
+        title: 'Error',
+        description: 'Failed to apply the week plan. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  }, [applySeriesChanges, rescheduleMeetings, toast]);
 
+  // Save the optimized route for a day so it is still there when the date is revisited
+  const handleSaveRoute = useCallback(async (route: Route) => {
+    try {
+      const exists = routes.some(r => r.id === route.id);
+      const saved = exists ? await routesApi.update(route) : await routesApi.create(route);
+      setRoutes(prev => exists ? prev.map(r => r.id === saved.id ? saved : r) : [...prev, saved]);
+    } catch (err) {
+      console.error('Failed to save route:', err);
+      toast({
+        title: 'Error',
+        description: 'Failed to save the route. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  }, [routes, setRoutes, toast]);
 
   // Saved filter handlers
   const handleSaveFilter = useCallback(async (name: string, filters: ClientFilters) => {
@@ -826,13 +1792,12 @@ const AppLayout: React.FC = () => {
     } finally {
       setIsSaving(false);
     }
-  }, [toast]);
+  }, [setSavedFilters, toast]);
 
   const handleDeleteSavedFilter = useCallback(async (filterId: string) => {
     try {
       setIsSaving(true);
-      await savedFiltersApi.delete(filterId);
-      setSavedFilters(prev => prev.filter(f => f.id !== filterId));
+      await writeSavedFilter({ type: 'delete', id: filterId }, () => savedFiltersApi.delete(filterId));
       toast({
         title: 'Filter deleted',
         description: 'Saved filter has been deleted.',
@@ -847,7 +1812,7 @@ const AppLayout: React.FC = () => {
     } finally {
       setIsSaving(false);
     }
-  }, [toast]);
+  }, [writeSavedFilter, toast]);
 
   const handleApplySavedFilter = useCallback((filter: SavedFilter) => {
     setActiveFilters(filter.filters);
@@ -874,7 +1839,7 @@ const AppLayout: React.FC = () => {
   }
 
   // Show loading screen while initial data loads (only if authenticated)
-  if (user && isInitialLoading) {
+  if (user && (isInitialLoading || isLoadingEntities)) {
     return <FullPageLoader message="Loading your data..." />;
   }
 
@@ -900,6 +1865,17 @@ const AppLayout: React.FC = () => {
         </div>
       )}
 
+      {/* Offline Indicator */}
+      {(isOffline || pendingChanges > 0) && !isSaving && (
+        <div className="fixed top-4 right-4 z-50 bg-amber-50 border border-amber-200 rounded-lg shadow-lg px-4 py-2 flex items-center space-x-2">
+          <span className={`w-2 h-2 rounded-full ${isOffline ? 'bg-amber-500' : 'bg-blue-500 animate-pulse'}`} />
+          <span className="text-sm text-amber-800">
+            {isOffline ? 'Offline' : 'Syncing'}
+            {pendingChanges > 0 && ` · ${pendingChanges} change${pendingChanges === 1 ? '' : 's'} waiting`}
+          </span>
+        </div>
+      )}
+
       {/* Sidebar */}
       <aside className={`fixed top-0 left-0 z-40 h-screen transition-transform ${
         sidebarOpen || !isMobile ? 'translate-x-0' : '-translate-x-full'
@@ -1138,6 +2114,12 @@ const AppLayout: React.FC = () => {
               onDismiss={() => setError(null)}
             />
           )}
+          {failedEntityQueries.length > 0 && (
+            <ErrorBanner
+              message="Failed to load data from the database."
+              onRetry={() => failedEntityQueries.forEach(query => query.refetch())}
+            />
+          )}
 
           {/* Not Authenticated Message */}
           {!user && activeView !== 'dashboard' && (
@@ -1272,15 +2254,92 @@ const AppLayout: React.FC = () => {
                     {/* Route Optimizer */}
                     <div>
                       <RouteOptimizer
-                        meetings={meetings}
+                        meetings={scheduledMeetings}
                         clients={clients}
                         selectedDate={new Date()}
                         onUpdateMeetingTimes={handleUpdateMeetingTimes}
+                        workdaySettings={workdaySettings}
+                        travelTimeSettings={travelTimeSettings}
+                        depots={depots}
+                        savedRoute={routes.find(r => r.date === formatDate(new Date()))}
+                        onSaveRoute={handleSaveRoute}
+                        mapSettings={mapSettings}
+                        onEditMeeting={(m) => {
+                          setSelectedMeeting(m);
+                          setShowMeetingModal(true);
+                        }}
+                        onMeetingStatusChange={handleMeetingStatusChange}
+                        territories={territories}
+                        cadenceRules={cadenceRules}
+                        onScheduleVisits={handleScheduleVisits}
                       />
                     </div>
 
                   </div>
 
+                  {/* Visits Due */}
+                  {dueVisits.length > 0 && (
+                    <div className="bg-white rounded-xl border border-gray-200 shadow-sm">
+                      <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+                        <div>
+                          <h3 className="text-lg font-bold text-gray-900">Visits Due</h3>
+                          <p className="text-sm text-gray-500">
+                            {dueVisits.filter(d => d.status === 'overdue').length} overdue, {dueVisits.filter(d => d.status === 'due').length} due soon
+                          </p>
+                        </div>
+                        <button
+                          onClick={() => {
+                            setActiveFilters({ ...emptyFilters, statuses: ['overdue', 'due'] });
+                            setActiveView('clients');
+                          }}
+                          className="text-sm text-blue-600 hover:text-blue-700 font-medium"
+                        >
+                          View All
+                        </button>
+                      </div>
+                      <div className="divide-y divide-gray-100">
+                        {dueVisits.slice(0, 6).map(due => (
+                          <div key={due.client.id} className="flex items-center justify-between px-4 py-3">
+                            <div className="min-w-0">
+                              <div className="flex items-center space-x-2">
+                                <p className="font-medium text-gray-900 truncate">{due.client.company}</p>
+                                <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${
+                                  due.status === 'overdue' ? 'bg-red-100 text-red-700' : 'bg-amber-100 text-amber-700'
+                                }`}>
+                                  {!due.lastVisit
+                                    ? 'Never visited'
+                                    : due.daysUntilDue < 0
+                                      ? `${-due.daysUntilDue} day${due.daysUntilDue !== -1 ? 's' : ''} overdue`
+                                      : due.daysUntilDue === 0
+                                        ? 'Due today'
+                                        : `Due in ${due.daysUntilDue} day${due.daysUntilDue !== 1 ? 's' : ''}`}
+                                </span>
+                              </div>
+                              <p className="text-sm text-gray-500 truncate">
+                                Every {due.rule.intervalDays} days{due.rule.tag && !due.rule.clientId ? ` · ${due.rule.tag}` : ''}
+                                {due.nextMeeting
+                                  ? ` · Booked ${new Date(due.nextMeeting.date + 'T00:00:00').toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}`
+                                  : ''}
+                              </p>
+                            </div>
+                            {!due.nextMeeting && (
+                              <button
+                                onClick={() => {
+                                  setSelectedClient(due.client);
+                                  setSelectedMeeting(null);
+                                  setShowMeetingModal(true);
+                                }}
+                                className="flex-shrink-0 px-3 py-1.5 text-sm font-medium text-blue-700 bg-blue-50 rounded-lg hover:bg-blue-100 transition-colors"
+                              >
+                                Schedule
+                              </button>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
                   {/* Recent Clients */}
                   <div className="bg-white rounded-xl border border-gray-200 shadow-sm">
                     <div className="p-4 border-b border-gray-200 flex items-center justify-between">
@@ -1327,7 +2386,7 @@ const AppLayout: React.FC = () => {
               <div className="flex items-center justify-between flex-wrap gap-4">
                 <div className="flex items-center space-x-4">
                   <span className="text-gray-600">
-                    {meetings.filter(m => m.status === 'scheduled').length} scheduled meetings
+                    {scheduledMeetings.filter(m => m.status === 'scheduled' && m.date >= today).length} upcoming meetings
                   </span>
                 </div>
                 <div className="flex items-center space-x-3">
@@ -1340,6 +2399,15 @@ const AppLayout: React.FC = () => {
                     </svg>
                     <span>Export Meetings</span>
                   </button>
+                  <button
+                    onClick={() => setShowIcsImportModal(true)}
+                    className="px-4 py-2 text-sm font-medium text-indigo-600 bg-indigo-50 rounded-lg hover:bg-indigo-100 transition-colors flex items-center space-x-2"
+                  >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                    </svg>
+                    <span>Import Invites</span>
+                  </button>
                   <button
                     onClick={() => {
                       setSelectedDate(new Date());
@@ -1426,6 +2494,15 @@ const AppLayout: React.FC = () => {
                       </span>
                     )}
                   </button>
+                  <button
+                    onClick={() => setShowDuplicateFinder(true)}
+                    className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors flex items-center space-x-2"
+                  >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7v8a2 2 0 002 2h6M8 7V5a2 2 0 012-2h4.586a1 1 0 01.707.293l4.414 4.414a1 1 0 01.293.707V15a2 2 0 01-2 2h-2M8 7H6a2 2 0 00-2 2v10a2 2 0 002 2h8a2 2 0 002-2v-2" />
+                    </svg>
+                    <span>Find Duplicates</span>
+                  </button>
                   <button
                     onClick={() => setShowCustomFieldModal(true)}
                     className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors flex items-center space-x-2"
@@ -1497,6 +2574,29 @@ const AppLayout: React.FC = () => {
                       </button>
                     </span>
                   ))}
+                  {activeFilters.territories.map(territoryId => (
+                    <span
+                      key={`territory-${territoryId}`}
+                      className="inline-flex items-center px-3 py-1 rounded-full text-sm bg-teal-100 text-teal-700"
+                    >
+                      <span
+                        className="w-2.5 h-2.5 mr-1.5 rounded-full"
+                        style={{ backgroundColor: territories.find(t => t.id === territoryId)?.color }}
+                      />
+                      {territories.find(t => t.id === territoryId)?.name ?? 'Territory'}
+                      <button
+                        onClick={() => setActiveFilters(prev => ({
+                          ...prev,
+                          territories: prev.territories.filter(t => t !== territoryId)
+                        }))}
+                        className="ml-1 hover:text-teal-900"
+                      >
+                        <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                        </svg>
+                      </button>
+                    </span>
+                  ))}
                   {activeFilters.statuses.map(status => (
                     <span
                       key={`status-${status}`}
@@ -1583,9 +2683,6 @@ const AppLayout: React.FC = () => {
           {/* Tasks View */}
           {activeView === 'tasks' && user && (
             <TasksPanel
-              tasks={tasks}
-              meetings={meetings}
-              clients={clients}
               onAddTask={handleAddTask}
               onUpdateTask={handleUpdateTask}
               onDeleteTask={handleDeleteTask}
@@ -1598,8 +2695,21 @@ const AppLayout: React.FC = () => {
               {/* Routes Header */}
               <div className="flex items-center justify-between flex-wrap gap-4">
                 <div className="flex items-center space-x-4">
+                  <div className="flex bg-gray-100 rounded-lg p-1">
+                    {(['day', 'week'] as const).map(mode => (
+                      <button
+                        key={mode}
+                        onClick={() => setRoutePlanningMode(mode)}
+                        className={`px-3 py-1 text-sm font-medium rounded-md transition-colors ${
+                          routePlanningMode === mode ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+                        }`}
+                      >
+                        {mode === 'day' ? 'Day' : 'Week'}
+                      </button>
+                    ))}
+                  </div>
                   <span className="text-gray-600">
-                    {meetings.filter(m => m.date === formatDate(selectedDate) && m.type === 'in-person' && m.status !== 'cancelled').length} in-person meetings for {selectedDate.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                    {scheduledMeetings.filter(m => m.date === formatDate(selectedDate) && m.type === 'in-person' && m.status !== 'cancelled').length} in-person meetings for {selectedDate.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
                   </span>
                 </div>
                 <div className="flex items-center space-x-3">
@@ -1630,12 +2740,39 @@ const AppLayout: React.FC = () => {
               <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
                 {/* Route Optimizer - Takes 2 columns */}
                 <div className="lg:col-span-2">
-                  <RouteOptimizer
-                    meetings={meetings}
-                    clients={clients}
-                    selectedDate={selectedDate}
-                    onUpdateMeetingTimes={handleUpdateMeetingTimes}
-                  />
+                  {routePlanningMode === 'week' ? (
+                    <WeeklyPlanner
+                      meetings={scheduledMeetings}
+                      clients={clients}
+                      selectedDate={selectedDate}
+                      workdaySettings={workdaySettings}
+                      travelTimeSettings={travelTimeSettings}
+                      depots={depots}
+                      cadenceRules={cadenceRules}
+                      onApplyPlan={handleApplyWeekPlan}
+                    />
+                  ) : (
+                    <RouteOptimizer
+                      meetings={scheduledMeetings}
+                      clients={clients}
+                      selectedDate={selectedDate}
+                      onUpdateMeetingTimes={handleUpdateMeetingTimes}
+                      workdaySettings={workdaySettings}
+                      travelTimeSettings={travelTimeSettings}
+                      depots={depots}
+                      savedRoute={routes.find(r => r.date === formatDate(selectedDate))}
+                      onSaveRoute={handleSaveRoute}
+                      mapSettings={mapSettings}
+                      onEditMeeting={(m) => {
+                        setSelectedMeeting(m);
+                        setShowMeetingModal(true);
+                      }}
+                      onMeetingStatusChange={handleMeetingStatusChange}
+                      territories={territories}
+                      cadenceRules={cadenceRules}
+                      onScheduleVisits={handleScheduleVisits}
+                    />
+                  )}
                 </div>
 
 
@@ -1661,8 +2798,8 @@ const AppLayout: React.FC = () => {
                         {[0, 1, 2, 3, 4, 5, 6].map(offset => {
                           const date = new Date();
                           date.setDate(date.getDate() + offset);
-                          const dayMeetings = meetings.filter(m => m.date === formatDate(date) && m.type === 'in-person' && m.status !== 'cancelled');
-                          const allMeetings = meetings.filter(m => m.date === formatDate(date) && m.status !== 'cancelled');
+                          const dayMeetings = scheduledMeetings.filter(m => m.date === formatDate(date) && m.type === 'in-person' && m.status !== 'cancelled');
+                          const allMeetings = scheduledMeetings.filter(m => m.date === formatDate(date) && m.status !== 'cancelled');
                           return (
                             <button
                               key={offset}
@@ -1706,7 +2843,7 @@ const AppLayout: React.FC = () => {
                       Day Summary
                     </h3>
                     {(() => {
-                      const dayMeetings = meetings.filter(m => m.date === formatDate(selectedDate) && m.status !== 'cancelled');
+                      const dayMeetings = scheduledMeetings.filter(m => m.date === formatDate(selectedDate) && m.status !== 'cancelled');
                       const inPerson = dayMeetings.filter(m => m.type === 'in-person');
                       const virtual = dayMeetings.filter(m => m.type === 'virtual');
                       const phone = dayMeetings.filter(m => m.type === 'phone');
@@ -1797,6 +2934,55 @@ const AppLayout: React.FC = () => {
                 </div>
               </div>
 
+              {/* Workday */}
+              <WorkdaySettingsCard
+                settings={workdaySettings}
+                onSave={handleWorkdaySettingsUpdate}
+              />
+
+              {/* Travel Times */}
+              <TravelTimeSettingsCard
+                settings={travelTimeSettings}
+                onSave={handleTravelTimeSettingsUpdate}
+              />
+
+              {/* Map Tiles */}
+              <MapSettingsCard
+                settings={mapSettings}
+                onSave={handleMapSettingsUpdate}
+              />
+
+              {/* Depots */}
+              <DepotSettingsCard
+                depots={depots}
+                onAdd={handleAddDepot}
+                onDelete={handleDeleteDepot}
+                onSetDefault={handleSetDefaultDepot}
+              />
+
+              {/* Territories */}
+              <TerritorySettingsCard
+                territories={territories}
+                clients={clients}
+                onSave={handleSaveTerritories}
+              />
+
+              {/* Visit Cadence */}
+              <CadenceSettingsCard
+                rules={cadenceRules}
+                clients={clients}
+                onAdd={handleAddCadenceRule}
+                onDelete={handleDeleteCadenceRule}
+              />
+
+              {/* Calendar Feed */}
+              <CalendarFeedSettingsCard
+                feed={calendarFeed}
+                onEnable={handleEnableCalendarFeed}
+                onRegenerate={handleRegenerateCalendarFeed}
+                onDisable={handleDisableCalendarFeed}
+              />
+
               {/* Demo Data Management */}
               <div className="bg-white rounded-xl border border-gray-200 shadow-sm">
                 <div className="p-6 border-b border-gray-200">
@@ -1822,7 +3008,7 @@ const AppLayout: React.FC = () => {
                       onClick={async () => {
                         try {
                           setIsSaving(true);
-                          const updatedMeetings = await refreshMeetingDates();
+                          const updatedMeetings = await refreshMeetingDates(dataStore);
                           setMeetings(updatedMeetings);
                           toast({
                             title: 'Meetings refreshed',
@@ -1965,6 +3151,7 @@ const AppLayout: React.FC = () => {
         <ExcelImportExport
           clients={clients}
           customFields={customFields}
+          meetings={meetings}
           onImport={handleImportClients}
           onClose={() => setShowExcelModal(false)}
         />
@@ -1976,13 +3163,18 @@ const AppLayout: React.FC = () => {
           customFields={customFields}
           clients={clients}
           onConfigUpdate={handleSalesforceConfigUpdate}
+          onSync={handleSalesforceSync}
+          syncRuns={syncRuns}
+          onResolveConflict={handleResolveSyncConflict}
+          failedPushes={salesforceOutbox.filter(e => e.failedAt)}
+          onRetryPush={handleRetrySalesforcePush}
+          onDiscardPush={handleDiscardSalesforcePush}
           onClose={() => setShowSalesforceModal(false)}
         />
       )}
 
       {showCustomFieldModal && (
         <CustomFieldBuilder
-          customFields={customFields}
           onAddField={handleAddCustomField}
           onRemoveField={handleRemoveCustomField}
           onUpdateField={handleUpdateCustomField}
@@ -2006,12 +3198,27 @@ const AppLayout: React.FC = () => {
 
       {showMeetingExportModal && (
         <MeetingExport
-          meetings={meetings}
-          clients={clients}
           onClose={() => setShowMeetingExportModal(false)}
         />
       )}
 
+      {showIcsImportModal && (
+        <IcsImport
+          clients={clients}
+          meetings={meetings}
+          userEmail={user?.email}
+          onImport={handleImportMeetings}
+          onClose={() => setShowIcsImportModal(false)}
+        />
+      )}
+
+      {showDuplicateFinder && (
+        <DuplicateFinder
+          onMerge={handleMergeClients}
+          onClose={() => setShowDuplicateFinder(false)}
+        />
+      )}
+
       {showClientModal && (
         <ClientModal
           client={selectedClient}
@@ -2029,6 +3236,7 @@ const AppLayout: React.FC = () => {
         <ClientFilterPanel
           clients={clients}
           customFields={customFields}
+          territories={territories}
           savedFilters={savedFilters}
           activeFilters={activeFilters}
           onFiltersChange={setActiveFilters}
@@ -2042,7 +3250,7 @@ const AppLayout: React.FC = () => {
       {showMeetingHistory && historyClient && (
         <MeetingHistoryTimeline
           client={historyClient}
-          meetings={meetings}
+          meetings={scheduledMeetings}
           onClose={() => {
             setShowMeetingHistory(false);
             setHistoryClient(null);
@@ -1,6 +1,7 @@
 import React, { useState, useMemo } from 'react';
 import { Meeting, Client, CalendarView as CalendarViewType } from '@/types';
 import MeetingCard from '@/components/meetings/MeetingCard';
+import { expandMeetings } from '@/lib/recurrence';
 
 interface CalendarViewProps {
   meetings: Meeting[];
@@ -56,11 +57,27 @@ const CalendarView: React.FC<CalendarViewProps> = ({
 
   const weekDays = useMemo(() => getWeekDays(currentDate), [currentDate]);
 
+  // Expand recurring series over the month and week around the current date
+  const monthStart = new Date(currentDate.getFullYear(), currentDate.getMonth(), 1);
+  const monthEnd = new Date(currentDate.getFullYear(), currentDate.getMonth() + 1, 0);
+  const rangeStart = formatDate(weekDays[0] < monthStart ? weekDays[0] : monthStart);
+  const rangeEnd = formatDate(weekDays[6] > monthEnd ? weekDays[6] : monthEnd);
+  const visibleMeetings = useMemo(
+    () => expandMeetings(meetings, rangeStart, rangeEnd),
+    [meetings, rangeStart, rangeEnd]
+  );
+
   const getMeetingsForDate = (date: Date) => {
     const dateStr = formatDate(date);
-    return meetings.filter(m => m.date === dateStr);
+    return visibleMeetings.filter(m => m.date === dateStr);
   };
 
+  const repeatIcon = (
+    <svg className="w-3 h-3 inline mr-0.5 -mt-0.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+    </svg>
+  );
+
   const navigateMonth = (direction: number) => {
     const newDate = new Date(currentDate);
     if (view === 'month') {
@@ -119,7 +136,7 @@ const CalendarView: React.FC<CalendarViewProps> = ({
                   'bg-blue-100 text-blue-700'
                 }`}
               >
-                {meeting.startTime} {meeting.title}
+                {meeting.seriesId && repeatIcon}{meeting.startTime} {meeting.title}
               </div>
             ))}
             {dayMeetings.length > 2 && (
@@ -192,7 +209,7 @@ const CalendarView: React.FC<CalendarViewProps> = ({
                         }`}
                         onClick={() => onMeetingEdit?.(meeting)}
                       >
-                        <div className="font-medium truncate">{meeting.title}</div>
+                        <div className="font-medium truncate">{meeting.seriesId && repeatIcon}{meeting.title}</div>
                         <div className="text-xs opacity-75">{meeting.startTime} - {meeting.endTime}</div>
                       </div>
                     ))}
@@ -158,6 +158,14 @@ const ClientCard: React.FC<ClientCardProps> = ({
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 11a3 3 0 11-6 0 3 3 0 016 0z" />
             </svg>
             <span className="truncate">{client.city}, {client.state}</span>
+            {client.locationVerified === false && (
+              <span
+                className="ml-2 px-2 py-0.5 text-xs font-medium bg-amber-100 text-amber-700 rounded-full flex-shrink-0"
+                title={client.geocodeConfidence === 'none' ? 'Address could not be located' : 'Location is approximate'}
+              >
+                Unverified
+              </span>
+            )}
           </div>
         </div>
 
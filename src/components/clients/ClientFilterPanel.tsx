@@ -1,9 +1,10 @@
 import React, { useState, useMemo } from 'react';
-import { Client, CustomField, SavedFilter, ClientFilters } from '@/types';
+import { Client, CustomField, SavedFilter, ClientFilters, Territory } from '@/types';
 
 interface ClientFilterPanelProps {
   clients: Client[];
   customFields: CustomField[];
+  territories?: Territory[];
   savedFilters: SavedFilter[];
   activeFilters: ClientFilters;
   onFiltersChange: (filters: ClientFilters) => void;
@@ -16,6 +17,7 @@ interface ClientFilterPanelProps {
 const emptyFilters: ClientFilters = {
   tags: [],
   cities: [],
+  territories: [],
   statuses: [],
   customFields: {},
 };
@@ -23,6 +25,7 @@ const emptyFilters: ClientFilters = {
 const ClientFilterPanel: React.FC<ClientFilterPanelProps> = ({
   clients,
   customFields,
+  territories = [],
   savedFilters,
   activeFilters,
   onFiltersChange,
@@ -36,6 +39,7 @@ const ClientFilterPanel: React.FC<ClientFilterPanelProps> = ({
   const [expandedSections, setExpandedSections] = useState<Record<string, boolean>>({
     tags: true,
     cities: true,
+    territories: true,
     status: true,
     customFields: true,
     saved: true,
@@ -61,6 +65,8 @@ const ClientFilterPanel: React.FC<ClientFilterPanelProps> = ({
     { value: 'active', label: 'Active', description: 'Met in last 30 days' },
     { value: 'inactive', label: 'Inactive', description: 'No meetings in 30+ days' },
     { value: 'new', label: 'New', description: 'Added in last 7 days' },
+    { value: 'overdue', label: 'Overdue', description: 'Past their visit cadence' },
+    { value: 'due', label: 'Due', description: 'Visit due within 3 days' },
   ];
 
   const toggleSection = (section: string) => {
@@ -81,6 +87,13 @@ const ClientFilterPanel: React.FC<ClientFilterPanelProps> = ({
     onFiltersChange({ ...activeFilters, cities: newCities });
   };
 
+  const toggleTerritory = (territoryId: string) => {
+    const newTerritories = activeFilters.territories.includes(territoryId)
+      ? activeFilters.territories.filter(t => t !== territoryId)
+      : [...activeFilters.territories, territoryId];
+    onFiltersChange({ ...activeFilters, territories: newTerritories });
+  };
+
   const toggleStatus = (status: string) => {
     const newStatuses = activeFilters.statuses.includes(status)
       ? activeFilters.statuses.filter(s => s !== status)
@@ -113,6 +126,7 @@ const ClientFilterPanel: React.FC<ClientFilterPanelProps> = ({
   const activeFilterCount = 
     activeFilters.tags.length + 
     activeFilters.cities.length + 
+    activeFilters.territories.length + 
     activeFilters.statuses.length + 
     Object.keys(activeFilters.customFields).length;
 
@@ -212,6 +226,7 @@ const ClientFilterPanel: React.FC<ClientFilterPanelProps> = ({
                         <p className="text-xs text-gray-500">
                           {filter.filters.tags.length > 0 && `${filter.filters.tags.length} tags`}
                           {filter.filters.cities.length > 0 && ` • ${filter.filters.cities.length} cities`}
+                          {filter.filters.territories.length > 0 && ` • ${filter.filters.territories.length} territories`}
                           {filter.filters.statuses.length > 0 && ` • ${filter.filters.statuses.length} statuses`}
                         </p>
                       </button>
@@ -334,6 +349,62 @@ const ClientFilterPanel: React.FC<ClientFilterPanelProps> = ({
             )}
           </div>
 
+          {/* Territories Section */}
+          {territories.length > 0 && (
+            <div className="border-b border-gray-200">
+              <button
+                onClick={() => toggleSection('territories')}
+                className="w-full flex items-center justify-between px-6 py-3 hover:bg-gray-50 transition-colors"
+              >
+                <div className="flex items-center space-x-2">
+                  <svg className="w-5 h-5 text-teal-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 20l-5.447-2.724A1 1 0 013 16.382V5.618a1 1 0 011.447-.894L9 7m0 13l6-3m-6 3V7m6 10l4.553 2.276A1 1 0 0021 18.382V7.618a1 1 0 00-.553-.894L15 4m0 13V4m0 0L9 7" />
+                  </svg>
+                  <span className="font-semibold text-gray-900">Territory</span>
+                  {activeFilters.territories.length > 0 && (
+                    <span className="text-xs bg-teal-100 text-teal-700 px-2 py-0.5 rounded-full">{activeFilters.territories.length}</span>
+                  )}
+                </div>
+                <svg className={`w-5 h-5 text-gray-400 transition-transform ${expandedSections.territories ? 'rotate-180' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                </svg>
+              </button>
+              {expandedSections.territories && (
+                <div className="px-6 pb-4">
+                  <div className="space-y-1 max-h-48 overflow-y-auto">
+                    {territories.map(territory => {
+                      const isSelected = activeFilters.territories.includes(territory.id);
+                      return (
+                        <button
+                          key={territory.id}
+                          onClick={() => toggleTerritory(territory.id)}
+                          className={`w-full flex items-center justify-between px-3 py-2 rounded-lg transition-colors ${
+                            isSelected ? 'bg-teal-50 text-teal-700' : 'hover:bg-gray-50 text-gray-700'
+                          }`}
+                        >
+                          <div className="flex items-center space-x-2">
+                            <div className={`w-4 h-4 rounded border-2 flex items-center justify-center ${
+                              isSelected ? 'bg-teal-500 border-teal-500' : 'border-gray-300'
+                            }`}>
+                              {isSelected && (
+                                <svg className="w-3 h-3 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M5 13l4 4L19 7" />
+                                </svg>
+                              )}
+                            </div>
+                            <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: territory.color }} />
+                            <span className="font-medium">{territory.name}</span>
+                          </div>
+                          <span className="text-xs text-gray-500">{territory.clientIds.length}</span>
+                        </button>
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Status Section */}
           <div className="border-b border-gray-200">
             <button
@@ -1,5 +1,17 @@
 import React, { useState, useEffect } from 'react';
-import { Client, CustomField } from '@/types';
+import { Client, CustomField, GeocodeConfidence, TimeWindow, Weekday } from '@/types';
+import { WEEKDAY_LABELS } from '@/lib/routing';
+import { geocodeClient, hasAddressChanged, ClientLocation } from '@/lib/geocoding';
+
+const OPENING_HOURS_DAYS: Weekday[] = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'];
+const DEFAULT_OPENING_HOURS: TimeWindow = { start: '09:00', end: '17:00' };
+
+const LOCATION_STATUS: Record<GeocodeConfidence, { label: string; className: string }> = {
+  high: { label: 'Location matched to the street address', className: 'text-green-700' },
+  medium: { label: 'Location matched to the street, not the exact address', className: 'text-amber-700' },
+  low: { label: 'Approximate location from the ZIP code or city. Check the address', className: 'text-amber-700' },
+  none: { label: 'Address could not be located. This client is left out of routes', className: 'text-red-700' },
+};
 
 interface ClientModalProps {
   client?: Client | null;
@@ -30,6 +42,7 @@ const ClientModal: React.FC<ClientModalProps> = ({
     customFields: {},
   });
   const [tagInput, setTagInput] = useState('');
+  const [isLocating, setIsLocating] = useState(false);
 
   useEffect(() => {
     if (client) {
@@ -37,9 +50,28 @@ const ClientModal: React.FC<ClientModalProps> = ({
     }
   }, [client]);
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    
+    if (isLocating) return;
+
+    // Look the address up again only when it is new or has moved
+    let location: ClientLocation;
+    if (client && !hasAddressChanged(client, formData) && client.geocodeConfidence !== 'none') {
+      location = {
+        latitude: client.latitude,
+        longitude: client.longitude,
+        geocodeConfidence: client.geocodeConfidence,
+        locationVerified: client.locationVerified,
+      };
+    } else {
+      setIsLocating(true);
+      try {
+        location = await geocodeClient(formData);
+      } finally {
+        setIsLocating(false);
+      }
+    }
+
     const newClient: Client = {
       id: client?.id || crypto.randomUUID(),
       name: formData.name || '',
@@ -56,10 +88,10 @@ const ClientModal: React.FC<ClientModalProps> = ({
       customFields: formData.customFields || {},
       createdAt: client?.createdAt || new Date().toISOString().split('T')[0],
       totalMeetings: client?.totalMeetings || 0,
-      latitude: client?.latitude || 37.7749 + (Math.random() - 0.5) * 0.5,
-      longitude: client?.longitude || -122.4194 + (Math.random() - 0.5) * 0.5,
+      ...location,
       lastVisit: client?.lastVisit,
       salesforceId: client?.salesforceId,
+      openingHours: formData.openingHours,
     };
 
     onSave(newClient);
@@ -80,6 +112,27 @@ const ClientModal: React.FC<ClientModalProps> = ({
     }));
   };
 
+  const handleToggleOpeningHours = () => {
+    setFormData(prev => ({
+      ...prev,
+      openingHours: prev.openingHours
+        ? undefined
+        : { mon: DEFAULT_OPENING_HOURS, tue: DEFAULT_OPENING_HOURS, wed: DEFAULT_OPENING_HOURS, thu: DEFAULT_OPENING_HOURS, fri: DEFAULT_OPENING_HOURS },
+    }));
+  };
+
+  const handleOpeningHoursChange = (day: Weekday, hours: TimeWindow | undefined) => {
+    setFormData(prev => {
+      const openingHours = { ...prev.openingHours };
+      if (hours) {
+        openingHours[day] = hours;
+      } else {
+        delete openingHours[day];
+      }
+      return { ...prev, openingHours };
+    });
+  };
+
   const handleAddTag = () => {
     if (!tagInput.trim()) return;
     setFormData(prev => ({
@@ -234,9 +287,76 @@ const ClientModal: React.FC<ClientModalProps> = ({
                     />
                   </div>
                 </div>
+                {client?.geocodeConfidence && !hasAddressChanged(client, formData) && (
+                  <p className={`text-xs ${LOCATION_STATUS[client.geocodeConfidence].className}`}>
+                    {LOCATION_STATUS[client.geocodeConfidence].label}
+                  </p>
+                )}
               </div>
             </div>
 
+            {/* Opening Hours */}
+            <div>
+              <div className="flex items-center justify-between mb-3">
+                <div>
+                  <h3 className="text-sm font-semibold text-gray-700">Opening Hours</h3>
+                  <p className="text-xs text-gray-500">Flexible meetings are only scheduled while the client is open</p>
+                </div>
+                <button
+                  type="button"
+                  onClick={handleToggleOpeningHours}
+                  className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+                    formData.openingHours ? 'bg-indigo-600' : 'bg-gray-300'
+                  }`}
+                >
+                  <span
+                    className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                      formData.openingHours ? 'translate-x-6' : 'translate-x-1'
+                    }`}
+                  />
+                </button>
+              </div>
+              {formData.openingHours && (
+                <div className="space-y-2">
+                  {OPENING_HOURS_DAYS.map(day => {
+                    const hours = formData.openingHours?.[day];
+                    return (
+                      <div key={day} className="flex items-center space-x-3">
+                        <label className="flex items-center space-x-2 w-32">
+                          <input
+                            type="checkbox"
+                            checked={!!hours}
+                            onChange={(e) => handleOpeningHoursChange(day, e.target.checked ? DEFAULT_OPENING_HOURS : undefined)}
+                            className="w-4 h-4 text-indigo-600 rounded"
+                          />
+                          <span className="text-sm text-gray-700">{WEEKDAY_LABELS[day]}</span>
+                        </label>
+                        {hours ? (
+                          <>
+                            <input
+                              type="time"
+                              value={hours.start}
+                              onChange={(e) => handleOpeningHoursChange(day, { ...hours, start: e.target.value })}
+                              className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                            />
+                            <span className="text-sm text-gray-500">to</span>
+                            <input
+                              type="time"
+                              value={hours.end}
+                              onChange={(e) => handleOpeningHoursChange(day, { ...hours, end: e.target.value })}
+                              className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                            />
+                          </>
+                        ) : (
+                          <span className="text-sm text-gray-400">Closed</span>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+
             {/* Tags */}
             <div>
               <h3 className="text-sm font-semibold text-gray-700 mb-3">Tags</h3>
@@ -388,12 +508,13 @@ const ClientModal: React.FC<ClientModalProps> = ({
             </button>
             <button
               onClick={handleSubmit}
-              className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 transition-colors flex items-center space-x-2"
+              disabled={isLocating}
+              className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 transition-colors flex items-center space-x-2 disabled:opacity-60"
             >
               <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
               </svg>
-              <span>{client ? 'Update Client' : 'Add Client'}</span>
+              <span>{isLocating ? 'Locating address...' : client ? 'Update Client' : 'Add Client'}</span>
             </button>
           </div>
         </div>
@@ -1,8 +1,8 @@
 import React, { useState } from 'react';
 import { CustomField } from '@/types';
+import { useCustomFields } from '@/hooks/use-entities';
 
 interface CustomFieldBuilderProps {
-  customFields: CustomField[];
   onAddField: (field: CustomField) => void;
   onRemoveField: (fieldId: string) => void;
   onUpdateField: (field: CustomField) => void;
@@ -10,12 +10,12 @@ interface CustomFieldBuilderProps {
 }
 
 const CustomFieldBuilder: React.FC<CustomFieldBuilderProps> = ({
-  customFields,
   onAddField,
   onRemoveField,
   onUpdateField,
   onClose,
 }) => {
+  const { records: customFields } = useCustomFields();
   const [newField, setNewField] = useState<Partial<CustomField>>({
     name: '',
     type: 'text',
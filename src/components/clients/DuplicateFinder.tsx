@@ -0,0 +1,248 @@
+import React, { useState, useMemo } from 'react';
+import { Client } from '@/types';
+import { useClients, useMeetings, useTasks } from '@/hooks/use-entities';
+import { findDuplicateGroups, mergeClients, DuplicateGroup, DuplicateReason, LIKELY_DUPLICATE_THRESHOLD } from '@/lib/duplicates';
+
+interface DuplicateFinderProps {
+  onMerge: (survivor: Client, duplicates: Client[]) => Promise<void>;
+  onClose: () => void;
+}
+
+const REASON_LABELS: Record<DuplicateReason, string> = {
+  email: 'Same email',
+  phone: 'Same phone',
+  address: 'Same address',
+  name: 'Similar name',
+  company: 'Similar company',
+};
+
+// A group is known by its members, so it keeps its choices while other groups are merged
+const groupKey = (group: DuplicateGroup) => group.clients.map(c => c.id).sort().join(':');
+
+const DuplicateFinder: React.FC<DuplicateFinderProps> = ({ onMerge, onClose }) => {
+  const { records: clients } = useClients();
+  const { records: meetings } = useMeetings();
+  const { records: tasks } = useTasks();
+  const [dismissed, setDismissed] = useState<Set<string>>(new Set());
+  const [survivors, setSurvivors] = useState<Record<string, string>>({});
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+  const [mergingKey, setMergingKey] = useState<string | null>(null);
+
+  const groups = useMemo(
+    () => findDuplicateGroups(clients).filter(group => !dismissed.has(groupKey(group))),
+    [clients, dismissed]
+  );
+
+  const meetingCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    meetings.forEach(m => counts.set(m.clientId, (counts.get(m.clientId) || 0) + 1));
+    return counts;
+  }, [meetings]);
+
+  const taskCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    tasks.forEach(t => t.clientId && counts.set(t.clientId, (counts.get(t.clientId) || 0) + 1));
+    return counts;
+  }, [tasks]);
+
+  // Keep the client with the most history by default, then the oldest
+  const defaultSurvivor = (group: DuplicateGroup) =>
+    [...group.clients].sort((a, b) =>
+      (meetingCounts.get(b.id) || 0) - (meetingCounts.get(a.id) || 0) || a.createdAt.localeCompare(b.createdAt)
+    )[0];
+
+  const getSurvivor = (group: DuplicateGroup) =>
+    group.clients.find(c => c.id === survivors[groupKey(group)]) || defaultSurvivor(group);
+
+  const toggleExcluded = (clientId: string) => {
+    setExcluded(prev => {
+      const next = new Set(prev);
+      if (next.has(clientId)) next.delete(clientId);
+      else next.add(clientId);
+      return next;
+    });
+  };
+
+  const handleMerge = async (group: DuplicateGroup) => {
+    const key = groupKey(group);
+    const survivor = getSurvivor(group);
+    const duplicates = group.clients.filter(c => c.id !== survivor.id && !excluded.has(c.id));
+    if (duplicates.length === 0) return;
+    setMergingKey(key);
+    try {
+      await onMerge(survivor, duplicates);
+    } finally {
+      setMergingKey(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-5xl max-h-[90vh] overflow-hidden">
+        {/* Header */}
+        <div className="p-6 border-b border-gray-200 bg-gradient-to-r from-blue-50 to-purple-50">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <div className="p-2 bg-purple-100 rounded-lg">
+                <svg className="w-6 h-6 text-purple-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7v8a2 2 0 002 2h6M8 7V5a2 2 0 012-2h4.586a1 1 0 01.707.293l4.414 4.414a1 1 0 01.293.707V15a2 2 0 01-2 2h-2M8 7H6a2 2 0 00-2 2v10a2 2 0 002 2h8a2 2 0 002-2v-2" />
+                </svg>
+              </div>
+              <div>
+                <h2 className="text-xl font-bold text-gray-900">Find Duplicates</h2>
+                <p className="text-sm text-gray-600">Merge clients that were entered or imported more than once</p>
+              </div>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+            >
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 overflow-y-auto max-h-[60vh] space-y-6">
+          {groups.length === 0 ? (
+            <div className="text-center py-12">
+              <svg className="w-12 h-12 mx-auto text-green-500 mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
+              </svg>
+              <p className="text-gray-900 font-medium">No duplicates found</p>
+              <p className="text-sm text-gray-500">Clients are compared by name, company, email, phone and address.</p>
+            </div>
+          ) : (
+            <>
+              <p className="text-sm text-gray-600">
+                {groups.length} group{groups.length !== 1 ? 's' : ''} of possible duplicates. Pick the client to keep; the
+                others are merged into it and their meetings and tasks move over.
+              </p>
+              {groups.map(group => {
+                const key = groupKey(group);
+                const survivor = getSurvivor(group);
+                const duplicates = group.clients.filter(c => c.id !== survivor.id && !excluded.has(c.id));
+                const merged = mergeClients(survivor, duplicates);
+                const likely = group.score >= LIKELY_DUPLICATE_THRESHOLD;
+                return (
+                  <div key={key} className="border border-gray-200 rounded-xl overflow-hidden">
+                    <div className="px-4 py-3 bg-gray-50 border-b border-gray-200 flex items-center justify-between flex-wrap gap-2">
+                      <div className="flex items-center flex-wrap gap-2">
+                        <span className={`text-xs font-medium px-2 py-0.5 rounded-full ${likely ? 'bg-red-100 text-red-700' : 'bg-amber-100 text-amber-700'}`}>
+                          {likely ? 'Likely duplicate' : 'Possible duplicate'} · {Math.round(group.score * 100)}%
+                        </span>
+                        {group.reasons.map(reason => (
+                          <span key={reason} className="text-xs px-2 py-0.5 rounded-full bg-blue-50 text-blue-700">
+                            {REASON_LABELS[reason]}
+                          </span>
+                        ))}
+                      </div>
+                      <div className="flex items-center space-x-2">
+                        <button
+                          onClick={() => setDismissed(prev => new Set(prev).add(key))}
+                          className="px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                        >
+                          Not Duplicates
+                        </button>
+                        <button
+                          onClick={() => handleMerge(group)}
+                          disabled={duplicates.length === 0 || mergingKey !== null}
+                          className={`px-3 py-1.5 text-sm font-medium rounded-lg transition-colors ${
+                            duplicates.length === 0 || mergingKey !== null
+                              ? 'bg-gray-100 text-gray-400 cursor-not-allowed'
+                              : 'bg-purple-600 text-white hover:bg-purple-700'
+                          }`}
+                        >
+                          {mergingKey === key ? 'Merging...' : `Merge ${duplicates.length + 1} Clients`}
+                        </button>
+                      </div>
+                    </div>
+
+                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3 p-4">
+                      {group.clients.map(client => {
+                        const isSurvivor = client.id === survivor.id;
+                        const isExcluded = !isSurvivor && excluded.has(client.id);
+                        return (
+                          <div
+                            key={client.id}
+                            className={`p-3 rounded-lg border text-sm ${
+                              isSurvivor ? 'border-purple-400 bg-purple-50' : isExcluded ? 'border-gray-200 opacity-50' : 'border-gray-200'
+                            }`}
+                          >
+                            <div className="flex items-center justify-between mb-2">
+                              <label className="flex items-center space-x-2 cursor-pointer">
+                                <input
+                                  type="radio"
+                                  checked={isSurvivor}
+                                  onChange={() => setSurvivors(prev => ({ ...prev, [key]: client.id }))}
+                                  className="w-4 h-4 text-purple-600"
+                                />
+                                <span className="font-medium text-gray-900">{isSurvivor ? 'Keep' : 'Merge into kept'}</span>
+                              </label>
+                              {!isSurvivor && (
+                                <label className="flex items-center space-x-1 text-xs text-gray-500 cursor-pointer">
+                                  <input
+                                    type="checkbox"
+                                    checked={isExcluded}
+                                    onChange={() => toggleExcluded(client.id)}
+                                    className="w-3.5 h-3.5 rounded"
+                                  />
+                                  <span>Leave out</span>
+                                </label>
+                              )}
+                            </div>
+                            <p className="font-medium text-gray-900">{client.name}</p>
+                            {client.company && <p className="text-gray-600">{client.company}</p>}
+                            {client.email && <p className="text-gray-600 truncate">{client.email}</p>}
+                            {client.phone && <p className="text-gray-600">{client.phone}</p>}
+                            {client.address && (
+                              <p className="text-gray-500 truncate">{client.address}, {client.city} {client.state} {client.zipCode}</p>
+                            )}
+                            <p className="text-xs text-gray-400 mt-2">
+                              {meetingCounts.get(client.id) || 0} meetings · {taskCounts.get(client.id) || 0} tasks · {(client.notesHistory || []).length} notes · added {client.createdAt}
+                            </p>
+                          </div>
+                        );
+                      })}
+                    </div>
+
+                    {duplicates.length > 0 && (
+                      <div className="px-4 pb-4">
+                        <div className="p-3 bg-gray-50 rounded-lg text-xs text-gray-600 space-y-1">
+                          <p className="font-medium text-gray-700">After merging</p>
+                          <p>
+                            {merged.name}{merged.company && ` · ${merged.company}`}{merged.email && ` · ${merged.email}`}{merged.phone && ` · ${merged.phone}`}
+                          </p>
+                          {merged.tags.length > 0 && <p>Tags: {merged.tags.join(', ')}</p>}
+                          <p>
+                            {merged.notesHistory.length} notes · {Object.keys(merged.customFields).length} custom fields ·{' '}
+                            {[survivor, ...duplicates].reduce((sum, c) => sum + (meetingCounts.get(c.id) || 0), 0)} meetings ·{' '}
+                            {[survivor, ...duplicates].reduce((sum, c) => sum + (taskCounts.get(c.id) || 0), 0)} tasks
+                          </p>
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="p-6 border-t border-gray-200 bg-gray-50 flex items-center justify-end">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DuplicateFinder;
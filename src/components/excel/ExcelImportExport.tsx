@@ -1,19 +1,37 @@
-import React, { useState, useRef } from 'react';
-import { Client, CustomField } from '@/types';
+import React, { useState, useRef, useMemo } from 'react';
+import { Client, CustomField, Meeting } from '@/types';
+import { CellValue, Workbook, readWorkbook, sheetToRecords, cellToString, writeWorkbook, SheetData } from '@/lib/xlsx';
+import { CsvParseResult, parseCsvFile, validateClientImport } from '@/lib/csv';
+import { findImportDuplicates, mergeClients } from '@/lib/duplicates';
+
+// Issues listed in the validation report before the rest are summarised
+const MAX_LISTED_ISSUES = 100;
+
+const DELIMITER_NAMES: Record<string, string> = { ',': 'comma', ';': 'semicolon', '\t': 'tab' };
+
+// What to do with a row that matches an existing client: fill in and combine it, add it anyway, or leave it out
+type DuplicateAction = 'merge' | 'new' | 'skip';
 
 interface ExcelImportExportProps {
   clients: Client[];
   customFields: CustomField[];
-  onImport: (clients: Partial<Client>[]) => void;
+  meetings?: Meeting[];
+  onImport: (created: Partial<Client>[], updated: Client[]) => void;
   onClose: () => void;
 }
 
-const ExcelImportExport: React.FC<ExcelImportExportProps> = ({ clients, customFields, onImport, onClose }) => {
+const ExcelImportExport: React.FC<ExcelImportExportProps> = ({ clients, customFields, meetings = [], onImport, onClose }) => {
   const [activeTab, setActiveTab] = useState<'import' | 'export' | 'guide'>('import');
-  const [importData, setImportData] = useState<string>('');
-  const [parsedData, setParsedData] = useState<any[]>([]);
+  const [parsedData, setParsedData] = useState<Record<string, CellValue>[]>([]);
+  const [rowNumbers, setRowNumbers] = useState<number[]>([]);
+  const [csvInfo, setCsvInfo] = useState<Omit<CsvParseResult, 'headers' | 'rows' | 'lines'> | null>(null);
+  const [parseProgress, setParseProgress] = useState<number | null>(null);
+  const [duplicateActions, setDuplicateActions] = useState<Record<number, DuplicateAction>>({});
+  const [workbook, setWorkbook] = useState<Workbook | null>(null);
+  const [selectedSheet, setSelectedSheet] = useState<string>('');
+  const [importError, setImportError] = useState<string | null>(null);
   const [fieldMappings, setFieldMappings] = useState<Record<string, string>>({});
-  const [exportFormat, setExportFormat] = useState<'csv' | 'json'>('csv');
+  const [exportFormat, setExportFormat] = useState<'xlsx' | 'csv' | 'json'>('xlsx');
   const [selectedFields, setSelectedFields] = useState<string[]>([
     'name', 'company', 'email', 'phone', 'address', 'city', 'state', 'zipCode', 'notes'
   ]);
@@ -37,59 +55,63 @@ const ExcelImportExport: React.FC<ExcelImportExportProps> = ({ clients, customFi
   const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
+    setImportError(null);
+    setWorkbook(null);
+    setCsvInfo(null);
+    setParsedData([]);
+    setRowNumbers([]);
+    setDuplicateActions({});
 
-    const reader = new FileReader();
-    reader.onload = (event) => {
-      const text = event.target?.result as string;
-      setImportData(text);
-      parseCSV(text);
-    };
-    reader.readAsText(file);
-  };
-
-  const parseCSV = (text: string) => {
-    const lines = text.split('\n').filter(line => line.trim());
-    if (lines.length < 2) return;
-
-    // Handle CSV with quoted fields containing commas
-    const parseCSVLine = (line: string): string[] => {
-      const result: string[] = [];
-      let current = '';
-      let inQuotes = false;
-      
-      for (let i = 0; i < line.length; i++) {
-        const char = line[i];
-        if (char === '"') {
-          if (inQuotes && line[i + 1] === '"') {
-            current += '"';
-            i++;
-          } else {
-            inQuotes = !inQuotes;
-          }
-        } else if (char === ',' && !inQuotes) {
-          result.push(current.trim());
-          current = '';
-        } else {
-          current += char;
-        }
-      }
-      result.push(current.trim());
-      return result;
-    };
+    const extension = file.name.split('.').pop()?.toLowerCase();
+    if (extension === 'xls') {
+      setImportError('Legacy .xls files are not supported. Save the workbook as Excel Workbook (.xlsx) and try again.');
+      return;
+    }
+    if (extension === 'xlsx') {
+      file.arrayBuffer()
+        .then(readWorkbook)
+        .then(book => {
+          if (book.sheets.length === 0) throw new Error('The workbook has no worksheets');
+          // Start on the first sheet that has data below its header
+          const sheet = book.sheets.find(s => sheetToRecords(s).records.length > 0) || book.sheets[0];
+          setWorkbook(book);
+          selectSheet(book, sheet.name);
+        })
+        .catch(err => {
+          console.error('Error reading workbook:', err);
+          setImportError(err instanceof Error ? err.message : 'Could not read the workbook');
+        });
+      return;
+    }
 
-    const headers = parseCSVLine(lines[0]);
-    const data = lines.slice(1).map(line => {
-      const values = parseCSVLine(line);
-      const row: Record<string, string> = {};
-      headers.forEach((header, idx) => {
-        row[header] = values[idx] || '';
-      });
-      return row;
-    });
+    setParseProgress(0);
+    parseCsvFile(file, { onProgress: setParseProgress })
+      .then(({ headers, rows, lines, ...info }) => {
+        if (rows.length === 0) throw new Error('The file has no rows below its header');
+        setCsvInfo(info);
+        setParsedData(rows);
+        setRowNumbers(lines);
+        autoMapFields(headers);
+      })
+      .catch(err => {
+        console.error('Error reading CSV:', err);
+        setImportError(err instanceof Error ? err.message : 'Could not read the file');
+      })
+      .finally(() => setParseProgress(null));
+  };
 
-    setParsedData(data);
+  const selectSheet = (book: Workbook, name: string) => {
+    const sheet = book.sheets.find(s => s.name === name);
+    if (!sheet) return;
+    const { headers, records, rowNumbers } = sheetToRecords(sheet);
+    setSelectedSheet(name);
+    setParsedData(records);
+    setRowNumbers(rowNumbers);
+    setImportError(records.length === 0 ? `Sheet "${name}" has no rows below its header` : null);
+    autoMapFields(headers);
+  };
 
-    // Auto-map fields
+  const autoMapFields = (headers: string[]) => {
     const autoMappings: Record<string, string> = {};
     headers.forEach(header => {
       const lowerHeader = header.toLowerCase().replace(/[^a-z0-9]/g, '');
@@ -115,39 +137,111 @@ const ExcelImportExport: React.FC<ExcelImportExportProps> = ({ clients, customFi
     setFieldMappings(autoMappings);
   };
 
+  const validation = useMemo(
+    () => validateClientImport(parsedData, fieldMappings, customFields, rowNumbers),
+    [parsedData, fieldMappings, customFields, rowNumbers]
+  );
+  const validRows = useMemo(() => validation.rows.filter(row => row.valid), [validation]);
+
+  // Re-importing a spreadsheet should update clients rather than add them twice
+  const duplicates = useMemo(
+    () => findImportDuplicates(validRows.map(row => row.client), clients),
+    [validRows, clients]
+  );
+  const getDuplicateAction = (row: number) => duplicateActions[row] ?? 'merge';
+  const setAllDuplicateActions = (action: DuplicateAction) =>
+    setDuplicateActions(Object.fromEntries(duplicates.map(d => [validRows[d.index].row, action])));
+
+  const skippedCount = duplicates.filter(d => getDuplicateAction(validRows[d.index].row) === 'skip').length;
+  const importableCount = validRows.length - skippedCount;
+
+  // Rows with errors are left out; the report has shown which and why
   const handleImport = () => {
-    const importedClients: Partial<Client>[] = parsedData.map(row => {
-      const client: Partial<Client> = {
-        id: crypto.randomUUID(),
-        customFields: {},
-        tags: [],
-        totalMeetings: 0,
-        createdAt: new Date().toISOString().split('T')[0],
-        latitude: 37.7749 + (Math.random() - 0.5) * 0.5,
-        longitude: -122.4194 + (Math.random() - 0.5) * 0.5,
-      };
-
-
-      Object.entries(fieldMappings).forEach(([csvField, clientField]) => {
-        if (row[csvField]) {
-          if (clientField === 'tags') {
-            client.tags = row[csvField].split(';').map((t: string) => t.trim()).filter((t: string) => t);
-          } else if (standardFields.find(f => f.key === clientField)) {
-            (client as any)[clientField] = row[csvField];
-          } else {
-            client.customFields![clientField] = row[csvField];
-          }
-        }
-      });
+    const createdAt = new Date().toISOString().split('T')[0];
+    const matches = new Map(duplicates.map(d => [d.index, d.client]));
+    const created: Partial<Client>[] = [];
+    const updated = new Map<string, Client>();
 
-      return client;
+    validRows.forEach((row, index) => {
+      const existing = matches.get(index);
+      const action = existing ? getDuplicateAction(row.row) : 'new';
+      if (action === 'skip') return;
+      if (action === 'merge' && existing) {
+        // Several rows may match the same client; each one adds to it
+        updated.set(existing.id, mergeClients(updated.get(existing.id) || existing, [row.client]));
+        return;
+      }
+      created.push({ ...row.client, id: crypto.randomUUID(), totalMeetings: 0, createdAt });
     });
 
-    onImport(importedClients);
+    onImport(created, Array.from(updated.values()));
     onClose();
   };
 
-  const handleExport = () => {
+  const customFieldCell = (value: unknown, field: CustomField): CellValue => {
+    if (value === undefined || value === null || value === '') return null;
+    if (field.type === 'number') return typeof value === 'number' ? value : parseFloat(String(value));
+    if (field.type === 'checkbox') return value === true || value === 'true';
+    if (field.type === 'date' && /^\d{4}-\d{2}-\d{2}$/.test(String(value))) return new Date(`${value}T00:00:00Z`);
+    return String(value);
+  };
+
+  const buildWorkbookSheets = (): SheetData[] => {
+    const fields = standardFields.filter(f => selectedFields.includes(f.key));
+    const typedFields = customFields.filter(f => selectedFields.includes(f.name));
+    const clientSheet: SheetData = {
+      name: 'Clients',
+      columns: [
+        ...fields.map(f => ({ header: f.label, width: f.key === 'notes' || f.key === 'address' ? 30 : 18 })),
+        ...typedFields.map(f => ({ header: f.name, width: Math.max(12, f.name.length + 2) })),
+      ],
+      rows: clients.map(client => [
+        ...fields.map(f => f.key === 'tags' ? (client.tags || []).join(';') : String(client[f.key as keyof Client] ?? '')),
+        ...typedFields.map(f => customFieldCell(client.customFields?.[f.name], f)),
+      ]),
+    };
+
+    const clientsById = new Map(clients.map(c => [c.id, c]));
+    const sorted = [...meetings].sort((a, b) => a.date.localeCompare(b.date) || a.startTime.localeCompare(b.startTime));
+    const meetingSheet: SheetData = {
+      name: 'Meetings',
+      columns: [
+        { header: 'Date', width: 12 },
+        { header: 'Start', width: 8 },
+        { header: 'End', width: 8 },
+        { header: 'Client', width: 22 },
+        { header: 'Company', width: 22 },
+        { header: 'Title', width: 30 },
+        { header: 'Type' },
+        { header: 'Status', width: 12 },
+        { header: 'Priority' },
+        { header: 'Location', width: 30 },
+        { header: 'Repeats', width: 20 },
+        { header: 'Notes', width: 40 },
+      ],
+      rows: sorted.map(meeting => {
+        const client = clientsById.get(meeting.clientId);
+        return [
+          new Date(`${meeting.date}T00:00:00Z`),
+          meeting.startTime,
+          meeting.endTime,
+          client?.name ?? '',
+          client?.company ?? '',
+          meeting.title,
+          meeting.type,
+          meeting.status,
+          meeting.priority,
+          meeting.location ?? '',
+          meeting.recurrence?.rrule ?? '',
+          meeting.notes,
+        ];
+      }),
+    };
+
+    return [clientSheet, meetingSheet];
+  };
+
+  const handleExport = async () => {
     try {
       setExportError(null);
       setExportSuccess(false);
@@ -157,7 +251,10 @@ const ExcelImportExport: React.FC<ExcelImportExportProps> = ({ clients, customFi
         return;
       }
 
-      if (exportFormat === 'csv') {
+      if (exportFormat === 'xlsx') {
+        const blob = await writeWorkbook(buildWorkbookSheets());
+        downloadFile(blob, 'clients_export.xlsx');
+      } else if (exportFormat === 'csv') {
         const allFields = [...selectedFields, ...customFields.map(cf => cf.name)];
         
         // Create headers
@@ -222,8 +319,8 @@ const ExcelImportExport: React.FC<ExcelImportExportProps> = ({ clients, customFi
     }
   };
 
-  const downloadFile = (content: string, filename: string, mimeType: string) => {
-    const blob = new Blob([content], { type: mimeType });
+  const downloadFile = (content: string | Blob, filename: string, mimeType?: string) => {
+    const blob = typeof content === 'string' ? new Blob([content], { type: mimeType }) : content;
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
@@ -343,7 +440,7 @@ const ExcelImportExport: React.FC<ExcelImportExportProps> = ({ clients, customFi
             <div className="space-y-6">
               {/* File Upload */}
               <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">Upload CSV File</label>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Upload Excel or CSV File</label>
                 <div 
                   className="border-2 border-dashed border-gray-300 rounded-xl p-8 text-center hover:border-blue-400 transition-colors cursor-pointer"
                   onClick={() => fileInputRef.current?.click()}
@@ -351,7 +448,7 @@ const ExcelImportExport: React.FC<ExcelImportExportProps> = ({ clients, customFi
                   <input
                     ref={fileInputRef}
                     type="file"
-                    accept=".csv"
+                    accept=".xlsx,.csv"
                     onChange={handleFileUpload}
                     className="hidden"
                   />
@@ -359,7 +456,7 @@ const ExcelImportExport: React.FC<ExcelImportExportProps> = ({ clients, customFi
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12" />
                   </svg>
                   <p className="text-gray-600 mb-1">Click to upload or drag and drop</p>
-                  <p className="text-sm text-gray-400">CSV files only (.csv)</p>
+                  <p className="text-sm text-gray-400">Excel workbooks (.xlsx) or CSV files (.csv)</p>
                 </div>
               </div>
 
@@ -379,11 +476,48 @@ const ExcelImportExport: React.FC<ExcelImportExportProps> = ({ clients, customFi
                 </button>
               </div>
 
+              {parseProgress !== null && (
+                <div className="p-4 bg-gray-50 rounded-xl">
+                  <p className="text-sm text-gray-600 mb-2">Reading file... {Math.round(parseProgress * 100)}%</p>
+                  <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
+                    <div className="h-full bg-blue-600 transition-all" style={{ width: `${parseProgress * 100}%` }} />
+                  </div>
+                </div>
+              )}
+
+              {importError && (
+                <div className="p-4 bg-red-50 border border-red-200 rounded-xl text-sm text-red-700">{importError}</div>
+              )}
+
+              {csvInfo && (
+                <p className="text-xs text-gray-500">
+                  Read as {csvInfo.encoding.toUpperCase()}, separated by {DELIMITER_NAMES[csvInfo.delimiter]}
+                </p>
+              )}
+
+              {/* Sheet Selection */}
+              {workbook && workbook.sheets.length > 1 && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Worksheet</label>
+                  <select
+                    value={selectedSheet}
+                    onChange={(e) => selectSheet(workbook, e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    {workbook.sheets.map(sheet => (
+                      <option key={sheet.name} value={sheet.name}>
+                        {sheet.name} ({sheetToRecords(sheet).records.length} rows)
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
               {/* Field Mapping */}
               {parsedData.length > 0 && (
                 <div>
                   <h3 className="text-sm font-medium text-gray-700 mb-3">Field Mapping</h3>
-                  <p className="text-xs text-gray-500 mb-3">Map your CSV columns to client fields. Fields marked with * are required.</p>
+                  <p className="text-xs text-gray-500 mb-3">Map your {workbook ? 'sheet' : 'CSV'} columns to client fields. Fields marked with * are required.</p>
                   <div className="bg-gray-50 rounded-xl p-4 space-y-3 max-h-64 overflow-y-auto">
                     {Object.keys(parsedData[0]).map(csvField => (
                       <div key={csvField} className="flex items-center space-x-4">
@@ -441,7 +575,7 @@ const ExcelImportExport: React.FC<ExcelImportExportProps> = ({ clients, customFi
                           {parsedData.slice(0, 3).map((row, idx) => (
                             <tr key={idx} className="border-t border-gray-100">
                               {Object.values(row).slice(0, 5).map((val, vIdx) => (
-                                <td key={vIdx} className="px-4 py-2 text-gray-700 truncate max-w-[150px]">{val as string}</td>
+                                <td key={vIdx} className="px-4 py-2 text-gray-700 truncate max-w-[150px]">{cellToString(val)}</td>
                               ))}
                               {Object.keys(parsedData[0]).length > 5 && (
                                 <td className="px-4 py-2 text-gray-400">...</td>
@@ -459,6 +593,144 @@ const ExcelImportExport: React.FC<ExcelImportExportProps> = ({ clients, customFi
                   </div>
                 </div>
               )}
+
+              {/* Validation Report */}
+              {parsedData.length > 0 && (
+                <div>
+                  <h3 className="text-sm font-medium text-gray-700 mb-3">Validation</h3>
+                  <div className={`p-4 rounded-xl text-sm ${validation.errorCount > 0 ? 'bg-amber-50 text-amber-800' : 'bg-green-50 text-green-800'}`}>
+                    <p className="font-medium">
+                      {validRows.length} of {validation.rows.length} rows are ready to import
+                    </p>
+                    {validation.errorCount > 0 && (
+                      <p>{validation.errorCount} rows with errors will be skipped. Fix them in the file and upload it again to include them.</p>
+                    )}
+                    {validation.warningCount > 0 && (
+                      <p>{validation.warningCount} warnings; those rows are still imported.</p>
+                    )}
+                  </div>
+
+                  {csvInfo && csvInfo.errors.length > 0 && (
+                    <div className="mt-3 p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+                      <p className="font-medium mb-1">The file's layout looks off in places:</p>
+                      <ul className="list-disc list-inside space-y-0.5">
+                        {csvInfo.errors.slice(0, 10).map((error, idx) => (
+                          <li key={idx}>Line {error.line}: {error.message}</li>
+                        ))}
+                      </ul>
+                      {csvInfo.errors.length > 10 && <p className="mt-1">...and {csvInfo.errors.length - 10} more</p>}
+                    </div>
+                  )}
+
+                  {validation.issues.length > 0 && (
+                    <div className="mt-3 border border-gray-200 rounded-xl overflow-hidden">
+                      <div className="overflow-x-auto max-h-64 overflow-y-auto">
+                        <table className="w-full text-sm">
+                          <thead className="bg-gray-50 sticky top-0">
+                            <tr>
+                              <th className="px-4 py-2 text-left font-medium text-gray-600">{workbook ? 'Row' : 'Line'}</th>
+                              <th className="px-4 py-2 text-left font-medium text-gray-600">Column</th>
+                              <th className="px-4 py-2 text-left font-medium text-gray-600">Value</th>
+                              <th className="px-4 py-2 text-left font-medium text-gray-600">Problem</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {validation.issues.slice(0, MAX_LISTED_ISSUES).map((issue, idx) => (
+                              <tr key={idx} className="border-t border-gray-100">
+                                <td className="px-4 py-2 text-gray-700">{issue.row}</td>
+                                <td className="px-4 py-2 text-gray-700">{issue.column || '-'}</td>
+                                <td className="px-4 py-2 text-gray-500 truncate max-w-[150px]">{issue.value}</td>
+                                <td className={`px-4 py-2 ${issue.severity === 'error' ? 'text-red-600' : 'text-amber-600'}`}>
+                                  {issue.message}
+                                </td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                      {validation.issues.length > MAX_LISTED_ISSUES && (
+                        <div className="px-4 py-2 bg-gray-50 text-sm text-gray-500 text-center">
+                          ...and {validation.issues.length - MAX_LISTED_ISSUES} more problems
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {/* Duplicates */}
+              {duplicates.length > 0 && (
+                <div>
+                  <div className="flex items-center justify-between mb-3">
+                    <h3 className="text-sm font-medium text-gray-700">
+                      Existing Clients ({duplicates.length} rows match clients you already have)
+                    </h3>
+                    <select
+                      value=""
+                      onChange={(e) => e.target.value && setAllDuplicateActions(e.target.value as DuplicateAction)}
+                      className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    >
+                      <option value="">Set all to...</option>
+                      <option value="merge">Merge into existing</option>
+                      <option value="new">Import as new</option>
+                      <option value="skip">Skip</option>
+                    </select>
+                  </div>
+                  <p className="text-xs text-gray-500 mb-3">
+                    Merging fills in the existing client's empty fields and adds tags and custom fields; nothing it already has is overwritten.
+                  </p>
+                  <div className="border border-gray-200 rounded-xl overflow-hidden">
+                    <div className="overflow-x-auto max-h-64 overflow-y-auto">
+                      <table className="w-full text-sm">
+                        <thead className="bg-gray-50 sticky top-0">
+                          <tr>
+                            <th className="px-4 py-2 text-left font-medium text-gray-600">{workbook ? 'Row' : 'Line'}</th>
+                            <th className="px-4 py-2 text-left font-medium text-gray-600">In File</th>
+                            <th className="px-4 py-2 text-left font-medium text-gray-600">Existing Client</th>
+                            <th className="px-4 py-2 text-left font-medium text-gray-600">Action</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {duplicates.slice(0, MAX_LISTED_ISSUES).map(duplicate => {
+                            const row = validRows[duplicate.index];
+                            return (
+                              <tr key={row.row} className="border-t border-gray-100">
+                                <td className="px-4 py-2 text-gray-700">{row.row}</td>
+                                <td className="px-4 py-2 text-gray-700">
+                                  <p className="truncate max-w-[180px]">{row.client.name}</p>
+                                  {row.client.company && <p className="text-xs text-gray-500 truncate max-w-[180px]">{row.client.company}</p>}
+                                </td>
+                                <td className="px-4 py-2 text-gray-700">
+                                  <p className="truncate max-w-[180px]">{duplicate.client.name}</p>
+                                  <p className="text-xs text-gray-500">
+                                    Matches on {duplicate.match.reasons.join(', ')} · {Math.round(duplicate.match.score * 100)}%
+                                  </p>
+                                </td>
+                                <td className="px-4 py-2">
+                                  <select
+                                    value={getDuplicateAction(row.row)}
+                                    onChange={(e) => setDuplicateActions(prev => ({ ...prev, [row.row]: e.target.value as DuplicateAction }))}
+                                    className="px-2 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                                  >
+                                    <option value="merge">Merge</option>
+                                    <option value="new">Import as new</option>
+                                    <option value="skip">Skip</option>
+                                  </select>
+                                </td>
+                              </tr>
+                            );
+                          })}
+                        </tbody>
+                      </table>
+                    </div>
+                    {duplicates.length > MAX_LISTED_ISSUES && (
+                      <div className="px-4 py-2 bg-gray-50 text-sm text-gray-500 text-center">
+                        ...and {duplicates.length - MAX_LISTED_ISSUES} more; use Set all to choose for them
+                      </div>
+                    )}
+                  </div>
+                </div>
+              )}
             </div>
           ) : activeTab === 'export' ? (
             <div className="space-y-6">
@@ -466,6 +738,18 @@ const ExcelImportExport: React.FC<ExcelImportExportProps> = ({ clients, customFi
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">Export Format</label>
                 <div className="flex space-x-4">
+                  <label className="flex items-center space-x-2 cursor-pointer p-3 border rounded-lg hover:bg-gray-50 transition-colors">
+                    <input
+                      type="radio"
+                      checked={exportFormat === 'xlsx'}
+                      onChange={() => setExportFormat('xlsx')}
+                      className="w-4 h-4 text-blue-600"
+                    />
+                    <div>
+                      <span className="text-sm font-medium text-gray-700">Excel</span>
+                      <p className="text-xs text-gray-500">Clients and meetings sheets</p>
+                    </div>
+                  </label>
                   <label className="flex items-center space-x-2 cursor-pointer p-3 border rounded-lg hover:bg-gray-50 transition-colors">
                     <input
                       type="radio"
@@ -475,7 +759,7 @@ const ExcelImportExport: React.FC<ExcelImportExportProps> = ({ clients, customFi
                     />
                     <div>
                       <span className="text-sm font-medium text-gray-700">CSV</span>
-                      <p className="text-xs text-gray-500">Excel compatible</p>
+                      <p className="text-xs text-gray-500">Clients only</p>
                     </div>
                   </label>
                   <label className="flex items-center space-x-2 cursor-pointer p-3 border rounded-lg hover:bg-gray-50 transition-colors">
@@ -556,7 +840,7 @@ const ExcelImportExport: React.FC<ExcelImportExportProps> = ({ clients, customFi
                       <>
                         <p className="font-medium text-blue-900">Export Summary</p>
                         <p className="text-sm text-blue-700">
-                          {clients.length} clients with {selectedFields.length} fields will be exported as {exportFormat.toUpperCase()}
+                          {clients.length} clients with {selectedFields.length} fields will be exported as {exportFormat.toUpperCase()}{exportFormat === 'xlsx' ? `, with ${meetings.length} meetings on a second sheet` : ''}
                         </p>
                       </>
                     )}
@@ -581,10 +865,13 @@ const ExcelImportExport: React.FC<ExcelImportExportProps> = ({ clients, customFi
                   <div>
                     <h4 className="font-medium text-gray-900 mb-2">File Format Requirements</h4>
                     <ul className="text-sm text-gray-600 space-y-1 list-disc list-inside">
-                      <li>File must be in CSV format (.csv extension)</li>
+                      <li>File must be an Excel workbook (.xlsx) or CSV (.csv); save older .xls files as .xlsx first</li>
+                      <li>For workbooks with several sheets, pick the sheet to import after uploading</li>
                       <li>First row must contain column headers</li>
+                      <li>Commas, semicolons or tabs can separate CSV columns; the separator is detected</li>
                       <li>UTF-8 encoding is recommended for special characters</li>
-                      <li>Fields containing commas should be wrapped in double quotes</li>
+                      <li>Fields containing the separator, quotes or line breaks should be wrapped in double quotes</li>
+                      <li>Rows without a name, with an invalid email, or with values that don't fit a custom field are listed and skipped</li>
                     </ul>
                   </div>
                   
@@ -652,7 +939,11 @@ Jane Doe,Tech Inc,jane@tech.com,(555) 987-6543,456 Oak Ave,Oakland,CA,94612,New
                 <div className="p-4 space-y-4">
                   <div>
                     <h4 className="font-medium text-gray-900 mb-2">Export Formats</h4>
-                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                      <div className="p-4 bg-gray-50 rounded-lg">
+                        <h5 className="font-medium text-gray-900 mb-1">Excel Format</h5>
+                        <p className="text-sm text-gray-600">A workbook with a Clients sheet and a Meetings sheet. Numbers, dates and checkboxes in custom fields keep their types.</p>
+                      </div>
                       <div className="p-4 bg-gray-50 rounded-lg">
                         <h5 className="font-medium text-gray-900 mb-1">CSV Format</h5>
                         <p className="text-sm text-gray-600">Best for opening in Excel, Google Sheets, or other spreadsheet applications. UTF-8 encoded with BOM for proper character display.</p>
@@ -689,7 +980,7 @@ Jane Doe,Tech Inc,jane@tech.com,(555) 987-6543,456 Oak Ave,Oakland,CA,94612,New
                 <div className="p-4 space-y-3">
                   <p className="text-sm text-gray-600">When exporting from Salesforce for import into this application:</p>
                   <ul className="text-sm text-gray-600 space-y-1 list-disc list-inside">
-                    <li>Export Accounts or Contacts as CSV from Salesforce Reports</li>
+                    <li>Export Accounts or Contacts as Excel or CSV from Salesforce Reports</li>
                     <li>Map "Account Name" to "Company" field</li>
                     <li>Map "Mailing Street" to "Address" field</li>
                     <li>Map "Mailing City", "Mailing State", "Mailing Postal Code" to respective fields</li>
@@ -712,9 +1003,9 @@ Jane Doe,Tech Inc,jane@tech.com,(555) 987-6543,456 Oak Ave,Oakland,CA,94612,New
           {activeTab === 'import' ? (
             <button
               onClick={handleImport}
-              disabled={parsedData.length === 0}
+              disabled={importableCount === 0}
               className={`px-4 py-2 text-sm font-medium rounded-lg transition-colors flex items-center space-x-2 ${
-                parsedData.length === 0
+                importableCount === 0
                   ? 'bg-gray-100 text-gray-400 cursor-not-allowed'
                   : 'bg-blue-600 text-white hover:bg-blue-700'
               }`}
@@ -722,7 +1013,7 @@ Jane Doe,Tech Inc,jane@tech.com,(555) 987-6543,456 Oak Ave,Oakland,CA,94612,New
               <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
               </svg>
-              <span>Import {parsedData.length} Clients</span>
+              <span>Import {importableCount} Clients</span>
             </button>
           ) : activeTab === 'export' ? (
             <button
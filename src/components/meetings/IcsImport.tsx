@@ -0,0 +1,309 @@
+import React, { useState, useRef, useMemo } from 'react';
+import { Meeting, Client } from '@/types';
+import { parseIcsCalendar, prepareIcsImport, IcsImportCandidate, ClientMatchReason } from '@/lib/ical';
+
+interface IcsImportProps {
+  clients: Client[];
+  meetings: Meeting[];
+  userEmail?: string;
+  onImport: (created: Meeting[], updated: Meeting[]) => void;
+  onClose: () => void;
+}
+
+// What to do with one event: add it, overwrite the meeting an earlier import created, or leave it out
+type Resolution = 'import' | 'update' | 'skip';
+
+const MATCH_LABELS: Record<ClientMatchReason, string> = {
+  email: 'Matched by email',
+  address: 'Matched by address',
+  geo: 'Matched by location',
+  company: 'Matched by company',
+};
+
+const defaultResolution = (candidate: IcsImportCandidate): Resolution => {
+  if (candidate.existing) return 'update';
+  if (candidate.meeting.status === 'cancelled') return 'skip';
+  return 'import';
+};
+
+const formatDate = (dateStr: string) =>
+  new Date(dateStr + 'T00:00:00').toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' });
+
+const IcsImport: React.FC<IcsImportProps> = ({ clients, meetings, userEmail, onImport, onClose }) => {
+  const [fileName, setFileName] = useState('');
+  const [candidates, setCandidates] = useState<IcsImportCandidate[]>([]);
+  const [calendarWarnings, setCalendarWarnings] = useState<string[]>([]);
+  const [resolutions, setResolutions] = useState<Record<string, Resolution>>({});
+  const [clientChoices, setClientChoices] = useState<Record<string, string>>({});
+  const [parseError, setParseError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const sortedClients = useMemo(
+    () => [...clients].sort((a, b) => (a.company || a.name).localeCompare(b.company || b.name)),
+    [clients]
+  );
+
+  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      try {
+        const calendar = parseIcsCalendar(event.target?.result as string);
+        const prepared = prepareIcsImport(calendar.events, clients, meetings, { ownEmail: userEmail });
+        setFileName(file.name);
+        setCandidates(prepared);
+        setCalendarWarnings(calendar.warnings);
+        setResolutions(Object.fromEntries(prepared.map(c => [c.key, defaultResolution(c)])));
+        setClientChoices(Object.fromEntries(prepared.map(c => [c.key, c.meeting.clientId])));
+        setParseError(prepared.length === 0 ? 'No events found in this file.' : null);
+      } catch (err) {
+        console.error('ICS parse error:', err);
+        setCandidates([]);
+        setParseError(err instanceof Error ? err.message : 'Could not read this file.');
+      }
+    };
+    reader.readAsText(file);
+    e.target.value = '';
+  };
+
+  const getResolution = (candidate: IcsImportCandidate) => resolutions[candidate.key] ?? defaultResolution(candidate);
+  const included = candidates.filter(c => getResolution(c) !== 'skip');
+  const missingClient = included.filter(c => !clientChoices[c.key]);
+  const conflictCount = included.filter(c => c.conflicts.length > 0).length;
+
+  const handleImport = () => {
+    const skipped = new Set(candidates.filter(c => getResolution(c) === 'skip').map(c => c.meeting.id));
+    const copies = new Map<string, string>(); // Earlier import's id -> id of the new copy
+    const created: Meeting[] = [];
+    const updated: Meeting[] = [];
+
+    included.forEach(candidate => {
+      const resolution = getResolution(candidate);
+      let meeting: Meeting = { ...candidate.meeting, clientId: clientChoices[candidate.key] };
+      // A copy alongside the earlier import gets its own id and no longer tracks the event
+      if (resolution === 'import' && candidate.existing) {
+        meeting = { ...meeting, id: crypto.randomUUID(), icalUid: undefined };
+        copies.set(candidate.meeting.id, meeting.id);
+      }
+      if (meeting.seriesId && copies.has(meeting.seriesId)) {
+        meeting = { ...meeting, seriesId: copies.get(meeting.seriesId) };
+      }
+      // An edited occurrence of a series that is not being imported stands on its own
+      if (meeting.seriesId && skipped.has(meeting.seriesId)) {
+        meeting = { ...meeting, seriesId: undefined, occurrenceDate: undefined };
+      }
+      (resolution === 'update' ? updated : created).push(meeting);
+    });
+
+    onImport(created, updated);
+    onClose();
+  };
+
+  const reset = () => {
+    setFileName('');
+    setCandidates([]);
+    setCalendarWarnings([]);
+    setParseError(null);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-4xl max-h-[90vh] overflow-hidden">
+        {/* Header */}
+        <div className="p-6 border-b border-gray-200 bg-gradient-to-r from-blue-50 to-indigo-50">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <div className="p-2 bg-indigo-100 rounded-lg">
+                <svg className="w-6 h-6 text-indigo-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                </svg>
+              </div>
+              <div>
+                <h2 className="text-xl font-bold text-gray-900">Import Calendar</h2>
+                <p className="text-sm text-gray-600">Add meetings from an invite or .ics file</p>
+              </div>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+            >
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 overflow-y-auto max-h-[60vh] space-y-6">
+          {candidates.length === 0 ? (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Upload Calendar File</label>
+              <div
+                className="border-2 border-dashed border-gray-300 rounded-xl p-8 text-center hover:border-blue-400 transition-colors cursor-pointer"
+                onClick={() => fileInputRef.current?.click()}
+              >
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept=".ics,text/calendar"
+                  onChange={handleFileUpload}
+                  className="hidden"
+                />
+                <svg className="w-12 h-12 mx-auto text-gray-400 mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12" />
+                </svg>
+                <p className="text-gray-600 mb-1">Click to upload an invite</p>
+                <p className="text-sm text-gray-400">iCalendar files (.ics) from Outlook, Google Calendar or Apple Calendar</p>
+              </div>
+              {parseError && <p className="text-sm text-red-600 mt-3">{parseError}</p>}
+            </div>
+          ) : (
+            <>
+              <div className="flex items-center justify-between p-4 bg-blue-50 rounded-xl">
+                <div>
+                  <p className="text-sm font-medium text-blue-900">{fileName}</p>
+                  <p className="text-sm text-blue-700">
+                    {candidates.length} event{candidates.length !== 1 ? 's' : ''} found
+                    {conflictCount > 0 && ` · ${conflictCount} overlap${conflictCount !== 1 ? '' : 's'} existing meetings`}
+                  </p>
+                </div>
+                <button
+                  onClick={reset}
+                  className="px-4 py-2 text-sm font-medium text-blue-600 bg-white border border-blue-300 rounded-lg hover:bg-blue-50 transition-colors"
+                >
+                  Choose Another File
+                </button>
+              </div>
+
+              {calendarWarnings.length > 0 && (
+                <div className="p-3 bg-amber-50 rounded-lg space-y-1">
+                  {calendarWarnings.map(warning => (
+                    <p key={warning} className="text-xs text-amber-800">{warning}</p>
+                  ))}
+                </div>
+              )}
+
+              {/* Review */}
+              <div>
+                <h3 className="text-sm font-medium text-gray-700 mb-3">Review Meetings</h3>
+                <p className="text-xs text-gray-500 mb-3">Check the client for each meeting and choose what to do with overlaps and earlier imports.</p>
+                <div className="space-y-3">
+                  {candidates.map(candidate => {
+                    const { meeting, match, existing, conflicts, warnings } = candidate;
+                    const resolution = getResolution(candidate);
+                    const clientId = clientChoices[candidate.key] || '';
+                    return (
+                      <div
+                        key={candidate.key}
+                        className={`p-4 border rounded-xl ${resolution === 'skip' ? 'border-gray-200 bg-gray-50 opacity-60' : 'border-gray-200'}`}
+                      >
+                        <div className="flex items-start justify-between gap-4">
+                          <div className="min-w-0">
+                            <p className="font-medium text-gray-900 truncate">
+                              {meeting.title}
+                              {meeting.recurrence && <span className="ml-2 text-xs font-normal text-indigo-600">Repeats</span>}
+                              {meeting.status === 'cancelled' && <span className="ml-2 text-xs font-normal text-red-600">Cancelled</span>}
+                            </p>
+                            <p className="text-sm text-gray-500">
+                              {formatDate(meeting.date)} · {meeting.startTime} - {meeting.endTime}
+                              {meeting.location && ` · ${meeting.location}`}
+                            </p>
+                          </div>
+                          <select
+                            value={resolution}
+                            onChange={(e) => setResolutions(prev => ({ ...prev, [candidate.key]: e.target.value as Resolution }))}
+                            className="flex-shrink-0 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                          >
+                            {existing && <option value="update">Update existing</option>}
+                            <option value="import">{existing ? 'Import as new' : 'Import'}</option>
+                            <option value="skip">Skip</option>
+                          </select>
+                        </div>
+
+                        <div className="flex items-center space-x-4 mt-3">
+                          <span className="w-20 text-sm text-gray-600 font-medium">Client</span>
+                          <svg className="w-4 h-4 text-gray-400 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 7l5 5m0 0l-5 5m5-5H6" />
+                          </svg>
+                          <select
+                            value={clientId}
+                            onChange={(e) => setClientChoices(prev => ({ ...prev, [candidate.key]: e.target.value }))}
+                            disabled={resolution === 'skip'}
+                            className={`flex-1 px-3 py-2 border rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 ${
+                              !clientId && resolution !== 'skip' ? 'border-red-300' : 'border-gray-300'
+                            }`}
+                          >
+                            <option value="">-- Select a client --</option>
+                            {sortedClients.map(client => (
+                              <option key={client.id} value={client.id}>
+                                {client.company || client.name}{client.company ? ` (${client.name})` : ''}
+                              </option>
+                            ))}
+                          </select>
+                          {match && clientId === match.client.id && (
+                            <span className="flex-shrink-0 px-2 py-0.5 text-xs bg-green-100 text-green-700 rounded-full">
+                              {MATCH_LABELS[match.reason]}
+                            </span>
+                          )}
+                        </div>
+
+                        {existing && resolution !== 'skip' && (
+                          <p className="text-xs text-blue-700 mt-2">
+                            Imported before as "{existing.title}" on {formatDate(existing.date)}
+                          </p>
+                        )}
+                        {conflicts.length > 0 && resolution !== 'skip' && (
+                          <div className="mt-2 p-2 bg-amber-50 rounded-lg">
+                            {conflicts.map(conflict => (
+                              <p key={conflict.id} className="text-xs text-amber-800">
+                                Overlaps "{conflict.title}" {conflict.startTime} - {conflict.endTime}
+                              </p>
+                            ))}
+                          </div>
+                        )}
+                        {warnings.map(warning => (
+                          <p key={warning} className="text-xs text-gray-500 mt-1">{warning}</p>
+                        ))}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="p-6 border-t border-gray-200 bg-gray-50 flex items-center justify-between">
+          <p className="text-sm text-red-600">
+            {missingClient.length > 0 && `Choose a client for ${missingClient.length} meeting${missingClient.length !== 1 ? 's' : ''}`}
+          </p>
+          <div className="flex items-center space-x-3">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleImport}
+              disabled={included.length === 0 || missingClient.length > 0}
+              className={`px-4 py-2 text-sm font-medium rounded-lg transition-colors ${
+                included.length === 0 || missingClient.length > 0
+                  ? 'bg-gray-100 text-gray-400 cursor-not-allowed'
+                  : 'bg-blue-600 text-white hover:bg-blue-700'
+              }`}
+            >
+              Import {included.length} Meeting{included.length !== 1 ? 's' : ''}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default IcsImport;
@@ -1,16 +1,19 @@
 import React, { useState, useMemo } from 'react';
-import { Meeting, Client } from '@/types';
+import { Meeting } from '@/types';
+import { useClients, useMeetings } from '@/hooks/use-entities';
+import { buildIcsCalendar } from '@/lib/ical';
+import { expandMeetings, isSeriesMaster } from '@/lib/recurrence';
 
 interface MeetingExportProps {
-  meetings: Meeting[];
-  clients: Client[];
   onClose: () => void;
 }
 
-type ExportFormat = 'csv' | 'pdf';
+type ExportFormat = 'csv' | 'pdf' | 'ics';
 type FilterType = 'all' | 'dateRange' | 'client';
 
-const MeetingExport: React.FC<MeetingExportProps> = ({ meetings, clients, onClose }) => {
+const MeetingExport: React.FC<MeetingExportProps> = ({ onClose }) => {
+  const { records: meetings } = useMeetings();
+  const { records: clients } = useClients();
   const [exportFormat, setExportFormat] = useState<ExportFormat>('csv');
   const [filterType, setFilterType] = useState<FilterType>('all');
   const [startDate, setStartDate] = useState<string>(() => {
@@ -181,6 +184,50 @@ const MeetingExport: React.FC<MeetingExportProps> = ({ meetings, clients, onClos
     }
   };
 
+  // Export to iCalendar, for importing into Google Calendar, Outlook, Apple Calendar etc.
+  const exportToICS = () => {
+    try {
+      setExportError(null);
+      setExportSuccess(false);
+
+      if (filteredMeetings.length === 0) {
+        setExportError('No meetings to export. Adjust your filters and try again.');
+        return;
+      }
+
+      // A series that started before the range still belongs in it if it repeats into the range
+      let icsMeetings = filteredMeetings;
+      if (filterType === 'dateRange') {
+        const seriesInRange = new Set(expandMeetings(meetings, startDate, endDate).map(m => m.seriesId));
+        const included = new Set(filteredMeetings.map(m => m.id));
+        icsMeetings = [
+          ...filteredMeetings,
+          ...meetings.filter(m => isSeriesMaster(m) && !included.has(m.id) && seriesInRange.has(m.id)),
+        ];
+      }
+
+      const ics = buildIcsCalendar(icsMeetings, clients, {
+        calendarName: 'MeetingPro Meetings',
+        timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        includeNotes,
+        includeStatus,
+      });
+
+      const filename = filterType === 'client' && selectedClientId
+        ? `meetings_${getClientName(selectedClientId).replace(/\s+/g, '_')}_export.ics`
+        : filterType === 'dateRange'
+        ? `meetings_${startDate}_to_${endDate}_export.ics`
+        : 'meetings_export.ics';
+
+      downloadFile(ics, filename, 'text/calendar;charset=utf-8');
+      setExportSuccess(true);
+      setTimeout(() => setExportSuccess(false), 3000);
+    } catch (err) {
+      console.error('ICS export error:', err);
+      setExportError(`Export failed: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    }
+  };
+
   // Export to PDF (opens printable view)
   const exportToPDF = () => {
     try {
@@ -413,6 +460,8 @@ const MeetingExport: React.FC<MeetingExportProps> = ({ meetings, clients, onClos
   const handleExport = () => {
     if (exportFormat === 'csv') {
       exportToCSV();
+    } else if (exportFormat === 'ics') {
+      exportToICS();
     } else {
       exportToPDF();
     }
@@ -451,7 +500,7 @@ const MeetingExport: React.FC<MeetingExportProps> = ({ meetings, clients, onClos
           {/* Export Format */}
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-3">Export Format</label>
-            <div className="grid grid-cols-2 gap-4">
+            <div className="grid grid-cols-3 gap-4">
               <label className={`flex items-center space-x-3 p-4 border-2 rounded-xl cursor-pointer transition-all ${
                 exportFormat === 'csv' ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:border-gray-300'
               }`}>
@@ -494,6 +543,27 @@ const MeetingExport: React.FC<MeetingExportProps> = ({ meetings, clients, onClos
                   </div>
                 </div>
               </label>
+              <label className={`flex items-center space-x-3 p-4 border-2 rounded-xl cursor-pointer transition-all ${
+                exportFormat === 'ics' ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:border-gray-300'
+              }`}>
+                <input
+                  type="radio"
+                  checked={exportFormat === 'ics'}
+                  onChange={() => setExportFormat('ics')}
+                  className="w-4 h-4 text-blue-600"
+                />
+                <div className="flex items-center space-x-3">
+                  <div className="p-2 bg-indigo-100 rounded-lg">
+                    <svg className="w-5 h-5 text-indigo-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                    </svg>
+                  </div>
+                  <div>
+                    <p className="font-medium text-gray-900">Calendar</p>
+                    <p className="text-xs text-gray-500">.ics for any calendar app</p>
+                  </div>
+                </div>
+              </label>
             </div>
           </div>
 
@@ -652,7 +722,7 @@ const MeetingExport: React.FC<MeetingExportProps> = ({ meetings, clients, onClos
                   <>
                     <p className="font-medium text-green-900">Export Successful!</p>
                     <p className="text-sm text-green-700">
-                      {exportFormat === 'csv' ? 'Your file has been downloaded.' : 'Print dialog opened.'}
+                      {exportFormat === 'pdf' ? 'Print dialog opened.' : 'Your file has been downloaded.'}
                     </p>
                   </>
                 ) : (
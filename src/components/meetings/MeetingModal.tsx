@@ -1,15 +1,74 @@
 import React, { useState, useEffect } from 'react';
-import { Meeting, Client } from '@/types';
+import { Meeting, Client, MeetingRecurrence } from '@/types';
+import { parseRRule, formatRRule, describeRRule, WEEKDAYS, RecurrenceEditScope } from '@/lib/recurrence';
 
 interface MeetingModalProps {
   meeting?: Meeting | null;
   clients: Client[];
   selectedDate?: Date;
-  onSave: (meeting: Meeting) => void;
-  onDelete?: (meetingId: string) => void;
+  onSave: (meeting: Meeting, scope?: RecurrenceEditScope) => void;
+  onDelete?: (meetingId: string, scope?: RecurrenceEditScope) => void;
   onClose: () => void;
 }
 
+type RepeatPreset = 'none' | 'daily' | 'weekdays' | 'weekly' | 'biweekly' | 'monthly' | 'monthly-weekday' | 'custom';
+type RepeatEnd = 'never' | 'on' | 'after';
+
+const ORDINALS = ['1st', '2nd', '3rd', '4th', '5th'];
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// The rule each preset stands for, given the date of the first meeting
+const presetRule = (preset: RepeatPreset, date: string): string => {
+  const day = new Date(`${date}T00:00:00Z`);
+  const weekday = WEEKDAYS[day.getUTCDay()];
+  switch (preset) {
+    case 'daily': return 'FREQ=DAILY';
+    case 'weekdays': return 'FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR';
+    case 'weekly': return `FREQ=WEEKLY;BYDAY=${weekday}`;
+    case 'biweekly': return `FREQ=WEEKLY;INTERVAL=2;BYDAY=${weekday}`;
+    case 'monthly': return `FREQ=MONTHLY;BYMONTHDAY=${day.getUTCDate()}`;
+    case 'monthly-weekday': return `FREQ=MONTHLY;BYDAY=${Math.ceil(day.getUTCDate() / 7)}${weekday}`;
+    default: return '';
+  }
+};
+
+const presetLabel = (preset: RepeatPreset, date: string): string => {
+  const day = new Date(`${date || '2000-01-03'}T00:00:00Z`);
+  const dayName = DAY_NAMES[day.getUTCDay()];
+  switch (preset) {
+    case 'none': return 'Does not repeat';
+    case 'daily': return 'Every day';
+    case 'weekdays': return 'Every weekday (Mon–Fri)';
+    case 'weekly': return `Weekly on ${dayName}`;
+    case 'biweekly': return `Every 2 weeks on ${dayName}`;
+    case 'monthly': return `Monthly on day ${day.getUTCDate()}`;
+    case 'monthly-weekday': return `Monthly on the ${ORDINALS[Math.ceil(day.getUTCDate() / 7) - 1]} ${dayName}`;
+    case 'custom': return 'Custom rule…';
+  }
+};
+
+const PRESETS: RepeatPreset[] = ['none', 'daily', 'weekdays', 'weekly', 'biweekly', 'monthly', 'monthly-weekday', 'custom'];
+
+// Work out which preset and end an existing rule matches, falling back to a custom rule
+const readRecurrence = (recurrence: MeetingRecurrence | undefined, date: string) => {
+  const blank = { preset: 'none' as RepeatPreset, customRule: '', end: 'never' as RepeatEnd, until: '', count: 10 };
+  if (!recurrence) return blank;
+  try {
+    const rule = parseRRule(recurrence.rrule);
+    const base = formatRRule({ ...rule, count: undefined, until: undefined });
+    const preset = PRESETS.find(p => p !== 'none' && p !== 'custom' && formatRRule(parseRRule(presetRule(p, date))) === base);
+    return {
+      preset: preset ?? 'custom',
+      customRule: formatRRule(rule),
+      end: (rule.count ? 'after' : rule.until ? 'on' : 'never') as RepeatEnd,
+      until: rule.until ?? '',
+      count: rule.count ?? 10,
+    };
+  } catch {
+    return { ...blank, preset: 'custom' as RepeatPreset, customRule: recurrence.rrule };
+  }
+};
+
 const MeetingModal: React.FC<MeetingModalProps> = ({
   meeting,
   clients,
@@ -32,12 +91,40 @@ const MeetingModal: React.FC<MeetingModalProps> = ({
     flexibleTime: false,
   });
 
+  const [repeat, setRepeat] = useState(() => readRecurrence(undefined, ''));
+  const [scope, setScope] = useState<RecurrenceEditScope>('this');
+
   useEffect(() => {
     if (meeting) {
       setFormData(meeting);
+      setRepeat(readRecurrence(meeting.recurrence, meeting.date));
+      setScope('this');
     }
   }, [meeting]);
 
+  const isOccurrence = !!meeting?.seriesId;
+  // A single occurrence keeps the series' rule; the rule is edited for the following ones or all of them
+  const canEditRepeat = !isOccurrence || scope !== 'this';
+
+  // The RRULE the form describes, or undefined when the meeting does not repeat
+  const buildRRule = (): string | undefined => {
+    if (repeat.preset === 'none') return undefined;
+    if (repeat.preset === 'custom') return formatRRule(parseRRule(repeat.customRule));
+    const rule = parseRRule(presetRule(repeat.preset, formData.date || ''));
+    if (repeat.end === 'on' && repeat.until) rule.until = repeat.until;
+    if (repeat.end === 'after') rule.count = Math.max(1, repeat.count);
+    return formatRRule(rule);
+  };
+
+  let repeatSummary = '';
+  let repeatError = '';
+  try {
+    const rrule = canEditRepeat ? buildRRule() : meeting?.recurrence?.rrule;
+    repeatSummary = rrule ? describeRRule(parseRRule(rrule)) : '';
+  } catch (err) {
+    repeatError = (err as Error).message;
+  }
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -48,26 +135,47 @@ const MeetingModal: React.FC<MeetingModalProps> = ({
     }
     
     const selectedClient = clients.find(c => c.id === formData.clientId);
+
+    let recurrence = meeting?.recurrence;
+    if (canEditRepeat) {
+      try {
+        const rrule = buildRRule();
+        recurrence = rrule ? { rrule, exdates: meeting?.recurrence?.exdates } : undefined;
+      } catch (err) {
+        alert(`The repeat rule is not valid: ${(err as Error).message}`);
+        return;
+      }
+    }
     
     const newMeeting: Meeting = {
       id: meeting?.id || crypto.randomUUID(),
       title: formData.title || '',
       clientId: formData.clientId, // Already validated above
       date: formData.date || '',
-      startTime: formData.flexibleTime ? '00:00' : (formData.startTime || ''),
-      endTime: formData.flexibleTime ? '23:59' : (formData.endTime || ''),
+      startTime: formData.startTime || '',
+      endTime: formData.endTime || '',
       type: formData.type || 'in-person',
       status: formData.status || 'scheduled',
       priority: formData.priority || 'medium',
       notes: formData.notes || '',
+      outcome: formData.status === 'completed' ? formData.outcome?.trim() || undefined : meeting?.outcome,
       location: formData.type === 'in-person' && selectedClient 
         ? `${selectedClient.address}, ${selectedClient.city}` 
         : formData.location,
       travelTime: formData.type === 'in-person' ? Math.floor(Math.random() * 40) + 15 : undefined,
       flexibleTime: formData.flexibleTime || false,
+      timeWindow: formData.flexibleTime && formData.timeWindow?.start && formData.timeWindow?.end
+        ? formData.timeWindow
+        : undefined,
+      recurrence,
+      seriesId: meeting?.seriesId,
+      occurrenceDate: meeting?.occurrenceDate,
+      icalUid: meeting?.icalUid,
+      salesforceId: meeting?.salesforceId,
+      syncSnapshot: meeting?.syncSnapshot,
     };
 
-    onSave(newMeeting);
+    onSave(newMeeting, isOccurrence ? scope : undefined);
     onClose();
   };
 
@@ -154,6 +262,111 @@ const MeetingModal: React.FC<MeetingModalProps> = ({
               />
             </div>
 
+            {/* Which occurrences an edit applies to */}
+            {isOccurrence && (
+              <div className="bg-indigo-50 rounded-lg p-4 border border-indigo-200">
+                <p className="font-medium text-gray-900 mb-1">Recurring meeting</p>
+                <p className="text-xs text-gray-600 mb-3">Apply changes to</p>
+                <div className="grid grid-cols-3 gap-2">
+                  {([
+                    { value: 'this', label: 'This meeting' },
+                    { value: 'following', label: 'This and following' },
+                    { value: 'all', label: 'All meetings' },
+                  ] as { value: RecurrenceEditScope; label: string }[]).map(option => (
+                    <button
+                      key={option.value}
+                      type="button"
+                      onClick={() => setScope(option.value)}
+                      className={`py-2 px-2 rounded-lg border-2 text-xs font-medium transition-all ${
+                        scope === option.value
+                          ? 'border-indigo-500 bg-white text-indigo-700'
+                          : 'border-transparent bg-white/60 text-gray-600 hover:border-indigo-200'
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Repeat */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Repeat</label>
+              <select
+                value={repeat.preset}
+                onChange={(e) => {
+                  const preset = e.target.value as RepeatPreset;
+                  setRepeat(prev => ({
+                    ...prev,
+                    preset,
+                    customRule: preset === 'custom' && !prev.customRule ? presetRule('weekly', formData.date || '') : prev.customRule,
+                  }));
+                }}
+                disabled={!canEditRepeat}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-50 disabled:text-gray-500"
+              >
+                {PRESETS.map(preset => (
+                  <option key={preset} value={preset}>{presetLabel(preset, formData.date || '')}</option>
+                ))}
+              </select>
+
+              {canEditRepeat && repeat.preset === 'custom' && (
+                <input
+                  type="text"
+                  value={repeat.customRule}
+                  onChange={(e) => setRepeat(prev => ({ ...prev, customRule: e.target.value }))}
+                  placeholder="FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH"
+                  className="w-full mt-2 px-4 py-2 font-mono text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+              )}
+
+              {canEditRepeat && repeat.preset !== 'none' && repeat.preset !== 'custom' && (
+                <div className="flex items-center space-x-2 mt-2">
+                  <label className="text-sm text-gray-600">Ends</label>
+                  <select
+                    value={repeat.end}
+                    onChange={(e) => setRepeat(prev => ({ ...prev, end: e.target.value as RepeatEnd }))}
+                    className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    <option value="never">Never</option>
+                    <option value="on">On date</option>
+                    <option value="after">After</option>
+                  </select>
+                  {repeat.end === 'on' && (
+                    <input
+                      type="date"
+                      value={repeat.until}
+                      min={formData.date}
+                      onChange={(e) => setRepeat(prev => ({ ...prev, until: e.target.value }))}
+                      className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    />
+                  )}
+                  {repeat.end === 'after' && (
+                    <>
+                      <input
+                        type="number"
+                        min="1"
+                        value={repeat.count}
+                        onChange={(e) => setRepeat(prev => ({ ...prev, count: parseInt(e.target.value) || 1 }))}
+                        className="w-20 px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      />
+                      <span className="text-sm text-gray-600">meetings</span>
+                    </>
+                  )}
+                </div>
+              )}
+
+              {repeatError ? (
+                <p className="text-xs text-red-600 mt-1">{repeatError}</p>
+              ) : repeatSummary && (
+                <p className="text-xs text-gray-500 mt-1">{repeatSummary}</p>
+              )}
+              {!canEditRepeat && (
+                <p className="text-xs text-gray-500 mt-1">Choose "This and following" or "All meetings" to change how the series repeats.</p>
+              )}
+            </div>
+
             {/* Flexible Time Toggle */}
             <div className="bg-gradient-to-r from-amber-50 to-orange-50 rounded-lg p-4 border border-amber-200">
               <div className="flex items-center justify-between">
@@ -190,35 +403,65 @@ const MeetingModal: React.FC<MeetingModalProps> = ({
                     </svg>
                     This meeting will be scheduled around fixed-time meetings to minimize travel time.
                   </p>
+                  <div className="grid grid-cols-2 gap-3 mt-3">
+                    <div>
+                      <label className="block text-xs font-medium text-gray-700 mb-1">Available From</label>
+                      <input
+                        type="time"
+                        value={formData.timeWindow?.start || ''}
+                        onChange={(e) => handleChange('timeWindow', { ...formData.timeWindow, start: e.target.value })}
+                        className="w-full px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-amber-500 focus:border-amber-500"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs font-medium text-gray-700 mb-1">Available Until</label>
+                      <input
+                        type="time"
+                        value={formData.timeWindow?.end || ''}
+                        onChange={(e) => handleChange('timeWindow', { ...formData.timeWindow, end: e.target.value })}
+                        className="w-full px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-amber-500 focus:border-amber-500"
+                      />
+                    </div>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">Leave empty if the client is available all day.</p>
                 </div>
               )}
             </div>
 
-            {/* Time Selection - Only show if not flexible */}
-            {!formData.flexibleTime && (
+            {/* Time Selection - For flexible meetings the span sets the duration */}
+            <div>
               <div className="grid grid-cols-2 gap-4">
                 <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">Start Time</label>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    {formData.flexibleTime ? 'Tentative Start' : 'Start Time'}
+                  </label>
                   <input
                     type="time"
                     value={formData.startTime}
                     onChange={(e) => handleChange('startTime', e.target.value)}
                     className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                    required={!formData.flexibleTime}
+                    required
                   />
                 </div>
                 <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">End Time</label>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    {formData.flexibleTime ? 'Tentative End' : 'End Time'}
+                  </label>
                   <input
                     type="time"
                     value={formData.endTime}
                     onChange={(e) => handleChange('endTime', e.target.value)}
                     className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                    required={!formData.flexibleTime}
+                    required
                   />
                 </div>
               </div>
-            )}
+              {formData.flexibleTime && (
+                <p className="text-xs text-gray-500 mt-1">
+                  The route optimizer keeps this duration and picks the actual time.
+                </p>
+              )}
+            </div>
 
             {/* Meeting Type */}
             <div>
@@ -303,6 +546,20 @@ const MeetingModal: React.FC<MeetingModalProps> = ({
                 className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 resize-none"
               />
             </div>
+
+            {/* Outcome (once completed) */}
+            {formData.status === 'completed' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Outcome</label>
+                <input
+                  type="text"
+                  value={formData.outcome || ''}
+                  onChange={(e) => handleChange('outcome', e.target.value)}
+                  placeholder="e.g. Order placed, follow-up demo booked"
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+            )}
           </div>
         </form>
 
@@ -313,12 +570,12 @@ const MeetingModal: React.FC<MeetingModalProps> = ({
               <button
                 type="button"
                 onClick={() => {
-                  onDelete(meeting.id);
+                  onDelete(meeting.id, isOccurrence ? scope : undefined);
                   onClose();
                 }}
                 className="px-4 py-2 text-sm font-medium text-red-600 bg-red-50 rounded-lg hover:bg-red-100 transition-colors"
               >
-                Delete Meeting
+                {isOccurrence && scope !== 'this' ? (scope === 'all' ? 'Delete Series' : 'Delete Following') : 'Delete Meeting'}
               </button>
             )}
           </div>
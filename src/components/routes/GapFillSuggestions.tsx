@@ -0,0 +1,193 @@
+import React, { useState, useMemo } from 'react';
+import { Meeting, Client, WorkdaySettings } from '@/types';
+import {
+  findScheduleGaps,
+  suggestGapFills,
+  workdayToConstraints,
+  minutesToTime,
+  DEFAULT_WORKDAY_SETTINGS,
+  RouteEndpoints,
+} from '@/lib/routing';
+
+interface GapFillSuggestionsProps {
+  date: string; // YYYY-MM-DD
+  meetings: Meeting[]; // The day's meetings
+  clients: Client[];
+  workdaySettings?: WorkdaySettings;
+  endpoints?: RouteEndpoints;
+  onSchedule: (meeting: Meeting) => void;
+}
+
+const VISIT_MINUTES = 45;
+
+const formatDaysSince = (days: number | null) => {
+  if (days === null) return 'Never visited';
+  if (days === 0) return 'Visited today';
+  return `Last visit ${days} day${days !== 1 ? 's' : ''} ago`;
+};
+
+const GapFillSuggestions: React.FC<GapFillSuggestionsProps> = ({
+  date,
+  meetings,
+  clients,
+  workdaySettings = DEFAULT_WORKDAY_SETTINGS,
+  endpoints,
+  onSchedule
+}) => {
+  const [maxDetourMiles, setMaxDetourMiles] = useState(5);
+  const [priorityTags, setPriorityTags] = useState<string[]>([]);
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  const availableTags = useMemo(() => {
+    const tags = new Set<string>();
+    clients.forEach(c => c.tags.forEach(t => tags.add(t)));
+    return Array.from(tags).sort();
+  }, [clients]);
+
+  const gapsWithSuggestions = useMemo(() => {
+    const constraints = workdayToConstraints(workdaySettings);
+    const bookedClientIds = meetings.filter(m => m.status !== 'cancelled').map(m => m.clientId);
+    return findScheduleGaps(meetings, clients, constraints, endpoints, VISIT_MINUTES)
+      .map(gap => ({
+        gap,
+        suggestions: suggestGapFills(gap, clients, {
+          date,
+          maxDetourMiles,
+          visitMinutes: VISIT_MINUTES,
+          priorityTags,
+          excludeClientIds: bookedClientIds,
+          constraints,
+          limit: 3,
+        }),
+      }));
+  }, [meetings, clients, workdaySettings, endpoints, date, maxDetourMiles, priorityTags]);
+
+  const suggestionCount = gapsWithSuggestions.reduce((sum, g) => sum + g.suggestions.length, 0);
+
+  const togglePriorityTag = (tag: string) => {
+    setPriorityTags(prev => prev.includes(tag) ? prev.filter(t => t !== tag) : [...prev, tag]);
+  };
+
+  const handleSchedule = (client: Client, startTime: string, endTime: string) => {
+    onSchedule({
+      id: crypto.randomUUID(),
+      clientId: client.id,
+      title: `Visit ${client.company || client.name}`,
+      date,
+      startTime,
+      endTime,
+      status: 'scheduled',
+      type: 'in-person',
+      notes: '',
+      priority: 'medium',
+    });
+  };
+
+  if (gapsWithSuggestions.length === 0) return null;
+
+  return (
+    <div className="border-t border-gray-200">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex items-center justify-between px-4 py-3 hover:bg-gray-50 transition-colors"
+      >
+        <div className="flex items-center space-x-2">
+          <svg className="w-5 h-5 text-teal-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+          </svg>
+          <span className="text-sm font-semibold text-gray-700">Fill Open Slots</span>
+          <span className="text-xs bg-teal-100 text-teal-700 px-2 py-0.5 rounded-full">
+            {suggestionCount} suggestion{suggestionCount !== 1 ? 's' : ''}
+          </span>
+        </div>
+        <svg className={`w-5 h-5 text-gray-400 transition-transform ${isExpanded ? 'rotate-180' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      {isExpanded && (
+        <div className="px-4 pb-4 space-y-4">
+          <div className="flex items-center space-x-2">
+            <label className="text-sm text-gray-600">Detour up to</label>
+            <input
+              type="number"
+              min="0"
+              step="0.5"
+              value={maxDetourMiles}
+              onChange={(e) => setMaxDetourMiles(parseFloat(e.target.value) || 0)}
+              className="w-20 px-2 py-1 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+            <span className="text-sm text-gray-600">mi</span>
+          </div>
+
+          {availableTags.length > 0 && (
+            <div>
+              <p className="text-xs font-medium text-gray-500 mb-1">Prefer clients tagged</p>
+              <div className="flex flex-wrap gap-1.5">
+                {availableTags.map(tag => (
+                  <button
+                    key={tag}
+                    onClick={() => togglePriorityTag(tag)}
+                    className={`px-2 py-0.5 text-xs font-medium rounded-full border transition-colors ${
+                      priorityTags.includes(tag)
+                        ? 'bg-teal-100 text-teal-700 border-teal-300'
+                        : 'bg-white text-gray-600 border-gray-200 hover:border-gray-300'
+                    }`}
+                  >
+                    {tag}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {gapsWithSuggestions.map(({ gap, suggestions }) => (
+            <div key={`${gap.start}-${gap.end}`}>
+              <p className="text-sm font-medium text-gray-900">
+                {minutesToTime(gap.start)} – {minutesToTime(gap.end)}
+                <span className="font-normal text-gray-500">
+                  {gap.after && gap.before
+                    ? ` · between ${gap.after.title} and ${gap.before.title}`
+                    : gap.before
+                      ? ` · before ${gap.before.title}`
+                      : gap.after
+                        ? ` · after ${gap.after.title}`
+                        : ''}
+                </span>
+              </p>
+              {suggestions.length === 0 ? (
+                <p className="text-xs text-gray-400 mt-1">No clients within {maxDetourMiles} mi fit this slot</p>
+              ) : (
+                <div className="space-y-2 mt-2">
+                  {suggestions.map(suggestion => (
+                    <div key={suggestion.client.id} className="flex items-center justify-between p-2 bg-gray-50 rounded-lg">
+                      <div className="min-w-0">
+                        <div className="flex items-center space-x-2">
+                          <p className="text-sm font-medium text-gray-900 truncate">{suggestion.client.company}</p>
+                          {suggestion.matchedTags.map(tag => (
+                            <span key={tag} className="px-1.5 py-0.5 text-xs bg-teal-100 text-teal-700 rounded-full">{tag}</span>
+                          ))}
+                        </div>
+                        <p className="text-xs text-gray-500">
+                          {formatDaysSince(suggestion.daysSinceVisit)} · +{suggestion.detourMiles.toFixed(1)} mi · {suggestion.startTime} - {suggestion.endTime}
+                        </p>
+                      </div>
+                      <button
+                        onClick={() => handleSchedule(suggestion.client, suggestion.startTime, suggestion.endTime)}
+                        className="flex-shrink-0 px-3 py-1.5 text-sm font-medium text-white bg-teal-600 rounded-lg hover:bg-teal-700 transition-colors"
+                      >
+                        Schedule
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GapFillSuggestions;
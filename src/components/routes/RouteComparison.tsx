@@ -0,0 +1,95 @@
+import React, { useMemo, useState } from 'react';
+import { Client, Meeting, Route } from '@/types';
+import { compareRoute, RouteEndpoints } from '@/lib/routing';
+
+interface RouteComparisonProps {
+  route: Route;
+  meetings: Meeting[];
+  clients: Client[];
+  endpoints?: RouteEndpoints;
+  onRecordDriven?: (drivenMeetings: string[], drivenDistance?: number) => void;
+}
+
+const RouteComparison: React.FC<RouteComparisonProps> = ({ route, meetings, clients, endpoints, onRecordDriven }) => {
+  const [odometerMiles, setOdometerMiles] = useState(route.drivenDistance?.toString() ?? '');
+
+  const comparison = useMemo(
+    () => compareRoute(route, meetings, clients, endpoints),
+    [route, meetings, clients, endpoints]
+  );
+
+  if (comparison.driven.length === 0 && route.drivenDistance === undefined) {
+    return null;
+  }
+
+  const distanceDelta = comparison.drivenDistance - comparison.plannedDistance;
+
+  const handleRecord = () => {
+    const miles = parseFloat(odometerMiles);
+    onRecordDriven?.(comparison.driven.map(m => m.id), isNaN(miles) ? undefined : miles);
+  };
+
+  return (
+    <div className="p-4 border-b border-gray-200">
+      <h4 className="text-sm font-semibold text-gray-700 mb-3">Planned vs Driven</h4>
+
+      <div className="grid grid-cols-3 gap-4 mb-3">
+        <div className="text-center">
+          <p className="text-lg font-bold text-gray-900">{comparison.plannedDistance.toFixed(1)} mi</p>
+          <p className="text-xs text-gray-500">Planned</p>
+        </div>
+        <div className="text-center">
+          <p className="text-lg font-bold text-gray-900">
+            {comparison.drivenDistanceEstimated && '~'}{comparison.drivenDistance.toFixed(1)} mi
+          </p>
+          <p className="text-xs text-gray-500">Driven{comparison.drivenDistanceEstimated && ' (est.)'}</p>
+        </div>
+        <div className="text-center">
+          <p className={`text-lg font-bold ${distanceDelta > 0 ? 'text-red-600' : 'text-green-600'}`}>
+            {distanceDelta > 0 ? '+' : ''}{distanceDelta.toFixed(1)} mi
+          </p>
+          <p className="text-xs text-gray-500">Difference</p>
+        </div>
+      </div>
+
+      <ul className="space-y-1 text-sm text-gray-600">
+        <li>
+          {comparison.driven.length - comparison.unplanned.length} of {comparison.planned.length} planned stop{comparison.planned.length !== 1 ? 's' : ''} visited
+          {comparison.driven.length > 0 && (comparison.sequenceMatches ? ' in the planned order' : ' in a different order')}
+        </li>
+        {comparison.skipped.length > 0 && (
+          <li className="text-amber-700">
+            Skipped: {comparison.skipped.map(m => m.title).join(', ')}
+          </li>
+        )}
+        {comparison.unplanned.length > 0 && (
+          <li className="text-amber-700">
+            Not on the plan: {comparison.unplanned.map(m => m.title).join(', ')}
+          </li>
+        )}
+      </ul>
+
+      {onRecordDriven && (
+        <div className="flex items-center space-x-2 mt-3">
+          <input
+            type="number"
+            min="0"
+            step="0.1"
+            value={odometerMiles}
+            onChange={(e) => setOdometerMiles(e.target.value)}
+            placeholder="Odometer miles"
+            className="flex-1 px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+          <button
+            onClick={handleRecord}
+            className="px-3 py-1.5 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            Record Driven Route
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RouteComparison;
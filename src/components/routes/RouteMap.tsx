@@ -0,0 +1,334 @@
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { MapSettings } from '@/types';
+import { LatLng } from '@/lib/routing';
+import { project, unproject, fitBounds, tileUrl, TILE_SIZE, DEFAULT_MAP_SETTINGS } from '@/lib/map';
+
+export interface RouteMapStop {
+  id: string;
+  position: LatLng;
+  label: string;
+  isFlexible?: boolean;
+  hasConflict?: boolean;
+}
+
+export interface RouteMapDepot {
+  id: string;
+  name: string;
+  position: LatLng;
+}
+
+interface RouteMapProps {
+  stops: RouteMapStop[];
+  startDepot?: RouteMapDepot;
+  endDepot?: RouteMapDepot;
+  settings?: MapSettings;
+  selectedStopId?: string | null;
+  onStopClick?: (stopId: string) => void;
+  onReorder?: (fromIndex: number, toIndex: number) => void;
+}
+
+interface MarkerDrag {
+  index: number;
+  pointerId: number;
+  startX: number;
+  startY: number;
+  dx: number;
+  dy: number;
+}
+
+interface Pan {
+  pointerId: number;
+  lastX: number;
+  lastY: number;
+}
+
+// Pointer travel below this is a click, not a drag
+const DRAG_THRESHOLD = 4;
+// How close a dropped marker must land to another one to take its place
+const DROP_RADIUS = 24;
+const MIN_ZOOM = 2;
+
+const RouteMap: React.FC<RouteMapProps> = ({
+  stops,
+  startDepot,
+  endDepot,
+  settings = DEFAULT_MAP_SETTINGS,
+  selectedStopId,
+  onStopClick,
+  onReorder
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const [view, setView] = useState<{ center: LatLng; zoom: number }>({ center: { lat: 0, lon: 0 }, zoom: MIN_ZOOM });
+  const [drag, setDrag] = useState<MarkerDrag | null>(null);
+  const panRef = useRef<Pan | null>(null);
+  const maxZoom = settings.maxZoom;
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  const points = [startDepot, endDepot, ...stops]
+    .filter((p): p is RouteMapStop | RouteMapDepot => !!p)
+    .map(p => p.position);
+  const pointsRef = useRef(points);
+  pointsRef.current = points;
+
+  // Refit when the set of places changes, but not when the same stops are only reordered
+  const placesKey = points.map(p => `${p.lat},${p.lon}`).sort().join('|');
+
+  useEffect(() => {
+    if (size.width === 0 || size.height === 0 || pointsRef.current.length === 0) return;
+    setView(fitBounds(pointsRef.current, size, { minZoom: MIN_ZOOM, maxZoom: Math.min(maxZoom, 16) }));
+  }, [placesKey, size, maxZoom]);
+
+  // React registers wheel listeners as passive, so scrolling the page can only be stopped natively
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      setView(prev => ({
+        ...prev,
+        zoom: Math.max(MIN_ZOOM, Math.min(maxZoom, prev.zoom + (e.deltaY < 0 ? 1 : -1)))
+      }));
+    };
+    container.addEventListener('wheel', handleWheel, { passive: false });
+    return () => container.removeEventListener('wheel', handleWheel);
+  }, [maxZoom]);
+
+  const centerPx = project(view.center, view.zoom);
+  const origin = { x: centerPx.x - size.width / 2, y: centerPx.y - size.height / 2 };
+  const toScreen = (position: LatLng) => {
+    const p = project(position, view.zoom);
+    return { x: p.x - origin.x, y: p.y - origin.y };
+  };
+
+  const tiles = useMemo(() => {
+    if (size.width === 0) return [];
+    const count = Math.pow(2, view.zoom);
+    const result: { key: string; url: string; left: number; top: number }[] = [];
+    for (let ty = Math.floor(origin.y / TILE_SIZE); ty * TILE_SIZE < origin.y + size.height; ty++) {
+      if (ty < 0 || ty >= count) continue;
+      for (let tx = Math.floor(origin.x / TILE_SIZE); tx * TILE_SIZE < origin.x + size.width; tx++) {
+        // Wrap around the antimeridian
+        const wrapped = ((tx % count) + count) % count;
+        result.push({
+          key: `${view.zoom}/${tx}/${ty}`,
+          url: tileUrl(settings.tileUrlTemplate, wrapped, ty, view.zoom),
+          left: tx * TILE_SIZE - origin.x,
+          top: ty * TILE_SIZE - origin.y,
+        });
+      }
+    }
+    return result;
+  }, [origin.x, origin.y, size.width, size.height, view.zoom, settings.tileUrlTemplate]);
+
+  const stopPoints = stops.map(stop => toScreen(stop.position));
+  const startPoint = startDepot && toScreen(startDepot.position);
+  const endPoint = endDepot && toScreen(endDepot.position);
+  const linePoints = [
+    ...(startPoint ? [startPoint] : []),
+    ...stopPoints,
+    ...(endPoint ? [endPoint] : []),
+  ];
+
+  const handlePanStart = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.button !== 0) return;
+    panRef.current = { pointerId: e.pointerId, lastX: e.clientX, lastY: e.clientY };
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
+
+  const handlePanMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const pan = panRef.current;
+    if (!pan || pan.pointerId !== e.pointerId) return;
+    const dx = e.clientX - pan.lastX;
+    const dy = e.clientY - pan.lastY;
+    panRef.current = { ...pan, lastX: e.clientX, lastY: e.clientY };
+    setView(prev => {
+      const c = project(prev.center, prev.zoom);
+      return { ...prev, center: unproject({ x: c.x - dx, y: c.y - dy }, prev.zoom) };
+    });
+  };
+
+  const handlePanEnd = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (panRef.current?.pointerId === e.pointerId) panRef.current = null;
+  };
+
+  const handleMarkerDown = (index: number) => (e: React.PointerEvent<HTMLButtonElement>) => {
+    if (e.button !== 0) return;
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDrag({ index, pointerId: e.pointerId, startX: e.clientX, startY: e.clientY, dx: 0, dy: 0 });
+  };
+
+  const handleMarkerMove = (e: React.PointerEvent<HTMLButtonElement>) => {
+    if (!drag || drag.pointerId !== e.pointerId) return;
+    e.stopPropagation();
+    setDrag({ ...drag, dx: e.clientX - drag.startX, dy: e.clientY - drag.startY });
+  };
+
+  const handleMarkerUp = (e: React.PointerEvent<HTMLButtonElement>) => {
+    if (!drag || drag.pointerId !== e.pointerId) return;
+    e.stopPropagation();
+    const { index, dx, dy } = drag;
+    setDrag(null);
+
+    if (Math.hypot(dx, dy) < DRAG_THRESHOLD) {
+      onStopClick?.(stops[index].id);
+      return;
+    }
+
+    const dropX = stopPoints[index].x + dx;
+    const dropY = stopPoints[index].y + dy;
+    let target = -1;
+    let nearest = DROP_RADIUS;
+    stopPoints.forEach((point, i) => {
+      const distance = Math.hypot(point.x - dropX, point.y - dropY);
+      if (i !== index && distance < nearest) {
+        nearest = distance;
+        target = i;
+      }
+    });
+    if (target >= 0) onReorder?.(index, target);
+  };
+
+  const zoomBy = (delta: number) => {
+    setView(prev => ({ ...prev, zoom: Math.max(MIN_ZOOM, Math.min(maxZoom, prev.zoom + delta)) }));
+  };
+
+  const markerColor = (stop: RouteMapStop, idx: number) => {
+    if (stop.hasConflict) return 'bg-red-600 ring-2 ring-red-200';
+    if (idx === 0) return 'bg-green-500';
+    if (idx === stops.length - 1) return 'bg-red-500';
+    return stop.isFlexible ? 'bg-amber-500' : 'bg-blue-600';
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      className="h-80 relative overflow-hidden bg-gray-100 select-none touch-none cursor-grab active:cursor-grabbing"
+      onPointerDown={handlePanStart}
+      onPointerMove={handlePanMove}
+      onPointerUp={handlePanEnd}
+      onPointerCancel={handlePanEnd}
+    >
+      {tiles.map(tile => (
+        <img
+          key={tile.key}
+          src={tile.url}
+          alt=""
+          draggable={false}
+          className="absolute max-w-none pointer-events-none"
+          style={{ left: tile.left, top: tile.top, width: TILE_SIZE, height: TILE_SIZE }}
+        />
+      ))}
+
+      <svg className="absolute inset-0 w-full h-full pointer-events-none">
+        {linePoints.length > 1 && (
+          <polyline
+            points={linePoints.map(p => `${p.x},${p.y}`).join(' ')}
+            fill="none"
+            stroke="#3B82F6"
+            strokeWidth="4"
+            strokeOpacity="0.8"
+            strokeLinecap="round"
+            strokeLinejoin="round"
+          />
+        )}
+      </svg>
+
+      {[
+        startDepot && startPoint && { depot: startDepot, point: startPoint, color: 'text-green-700' },
+        endDepot && endPoint && endDepot.id !== startDepot?.id && { depot: endDepot, point: endPoint, color: 'text-red-600' },
+      ].map(marker => marker && (
+        <div
+          key={`depot-${marker.depot.id}`}
+          className={`absolute -translate-x-1/2 -translate-y-1/2 w-8 h-8 rounded-lg bg-white shadow-md border border-gray-300 flex items-center justify-center pointer-events-none ${marker.color}`}
+          style={{ left: marker.point.x, top: marker.point.y }}
+          title={marker.depot.name}
+        >
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 12l2-2m0 0l7-7 7 7M5 10v10a1 1 0 001 1h3m10-11l2 2m-2-2v10a1 1 0 01-1 1h-3m-6 0a1 1 0 001-1v-4a1 1 0 011-1h2a1 1 0 011 1v4a1 1 0 001 1m-6 0h6" />
+          </svg>
+        </div>
+      ))}
+
+      {stops.map((stop, idx) => {
+        const point = stopPoints[idx];
+        const isDragging = drag?.index === idx;
+        return (
+          <button
+            key={stop.id}
+            type="button"
+            onPointerDown={handleMarkerDown(idx)}
+            onPointerMove={handleMarkerMove}
+            onPointerUp={handleMarkerUp}
+            onPointerCancel={() => setDrag(null)}
+            className={`absolute -translate-x-1/2 -translate-y-1/2 w-8 h-8 rounded-full flex items-center justify-center text-sm font-bold text-white shadow-md border-2 ${
+              selectedStopId === stop.id ? 'border-gray-900' : 'border-white'
+            } ${markerColor(stop, idx)} ${isDragging ? 'cursor-grabbing z-20 scale-110' : 'cursor-pointer z-10'}`}
+            style={{ left: point.x + (isDragging ? drag.dx : 0), top: point.y + (isDragging ? drag.dy : 0) }}
+            title={onReorder ? `${stop.label} (drag onto another stop to move it there)` : stop.label}
+          >
+            {idx + 1}
+          </button>
+        );
+      })}
+
+      <div className="absolute top-2 right-2 flex flex-col bg-white rounded-lg shadow-md overflow-hidden z-30">
+        <button
+          type="button"
+          onPointerDown={(e) => e.stopPropagation()}
+          onClick={() => zoomBy(1)}
+          className="w-8 h-8 text-gray-700 hover:bg-gray-100 border-b border-gray-200"
+          title="Zoom in"
+        >
+          +
+        </button>
+        <button
+          type="button"
+          onPointerDown={(e) => e.stopPropagation()}
+          onClick={() => zoomBy(-1)}
+          className="w-8 h-8 text-gray-700 hover:bg-gray-100"
+          title="Zoom out"
+        >
+          −
+        </button>
+      </div>
+
+      <div className="absolute bottom-2 left-2 flex items-center space-x-3 px-2 py-1 bg-white/90 rounded text-xs z-30 pointer-events-none">
+        <div className="flex items-center space-x-1">
+          <div className="w-3 h-3 rounded-full bg-green-500"></div>
+          <span className="text-gray-600">Start</span>
+        </div>
+        <div className="flex items-center space-x-1">
+          <div className="w-3 h-3 rounded-full bg-blue-500"></div>
+          <span className="text-gray-600">Fixed</span>
+        </div>
+        <div className="flex items-center space-x-1">
+          <div className="w-3 h-3 rounded-full bg-amber-500"></div>
+          <span className="text-gray-600">Flexible</span>
+        </div>
+        <div className="flex items-center space-x-1">
+          <div className="w-3 h-3 rounded-full bg-red-500"></div>
+          <span className="text-gray-600">End</span>
+        </div>
+      </div>
+
+      {settings.attribution && (
+        <div className="absolute bottom-0 right-0 px-1.5 py-0.5 bg-white/80 text-[10px] text-gray-600 z-30">
+          {settings.attribution}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RouteMap;
@@ -1,7 +1,31 @@
-import React, { useState, useMemo, useCallback } from 'react';
-import { Meeting, Client } from '@/types';
+import React, { useState, useMemo, useCallback, useEffect, useRef } from 'react';
+import { Meeting, Client, WorkdaySettings, TravelTimeSettings, Depot, Route, MapSettings, Territory, CadenceRule } from '@/types';
 import NavigationButton from '@/components/ui/NavigationButton';
+import RouteComparison from '@/components/routes/RouteComparison';
+import RouteMap, { RouteMapDepot } from '@/components/routes/RouteMap';
+import MeetingCard from '@/components/meetings/MeetingCard';
+import GapFillSuggestions from '@/components/routes/GapFillSuggestions';
 import { getWazeUrl, getGoogleMapsMultiStopUrl, formatAddress, NavigationApp, NavigationLocation } from '@/lib/navigation';
+import {
+  solveRoute,
+  scheduleInOrder,
+  pathDistance,
+  estimateTravelMinutes,
+  timeToMinutes,
+  minutesToTime,
+  workdayToConstraints,
+  createHaversineProvider,
+  createTravelTimeProvider,
+  DEFAULT_ROUTING_CONSTRAINTS,
+  DEFAULT_WORKDAY_SETTINGS,
+  UnscheduledMeeting,
+  InfeasibilityReason,
+  LatLng,
+  RouteEndpoints,
+  RoutePlan,
+} from '@/lib/routing';
+import { getVisitDue } from '@/lib/cadence';
+import { useToast } from '@/hooks/use-toast';
 
 interface RouteOptimizerProps {
   meetings: Meeting[];
@@ -9,27 +33,79 @@ interface RouteOptimizerProps {
   selectedDate: Date;
   onOptimize?: (optimizedOrder: string[]) => void;
   onUpdateMeetingTimes?: (updates: { id: string; startTime: string; endTime: string }[]) => void;
+  workdaySettings?: WorkdaySettings;
+  travelTimeSettings?: TravelTimeSettings;
+  depots?: Depot[];
+  savedRoute?: Route; // Previously saved route for the selected date
+  onSaveRoute?: (route: Route) => void;
+  mapSettings?: MapSettings;
+  onEditMeeting?: (meeting: Meeting) => void;
+  onMeetingStatusChange?: (meetingId: string, status: Meeting['status']) => void;
+  territories?: Territory[];
+  cadenceRules?: CadenceRule[]; // Territory fills take the most overdue clients first
+  onScheduleVisits?: (visits: Meeting[]) => void; // Create the territory visits a plan added
 }
 
 interface OptimizedMeeting extends Meeting {
   optimizedStartTime?: string;
   optimizedEndTime?: string;
   isFlexible?: boolean;
+  conflict?: string; // Why the stop cannot be kept on time in a hand-arranged order
 }
 
+const depotLocation = (depot?: Depot): LatLng | undefined =>
+  depot ? { lat: depot.latitude, lon: depot.longitude } : undefined;
+
+// Short explanations for stops that can't be kept on time in the order the user chose
+const CONFLICT_LABELS: Record<InfeasibilityReason, string> = {
+  'missing-location': 'No location',
+  'client-closed': 'Client closed today',
+  'window-too-short': 'Window too short',
+  'outside-window': 'Outside its time window',
+  'conflicts-with-fixed': 'Late for this meeting',
+  'past-day-end': 'Runs past end of day',
+};
+
+const TERRITORY_VISIT_MINUTES = 60;
+
+const toMapDepot = (depot?: Depot): RouteMapDepot | undefined =>
+  depot && { id: depot.id, name: depot.name, position: { lat: depot.latitude, lon: depot.longitude } };
+
 const RouteOptimizer: React.FC<RouteOptimizerProps> = ({ 
   meetings, 
   clients, 
   selectedDate, 
   onOptimize,
-  onUpdateMeetingTimes 
+  onUpdateMeetingTimes,
+  workdaySettings = DEFAULT_WORKDAY_SETTINGS,
+  travelTimeSettings,
+  depots = [],
+  savedRoute,
+  onSaveRoute,
+  mapSettings,
+  onEditMeeting,
+  onMeetingStatusChange,
+  territories = [],
+  cadenceRules = [],
+  onScheduleVisits
 }) => {
+  const { toast } = useToast();
   const [isOptimizing, setIsOptimizing] = useState(false);
   const [optimizedRoute, setOptimizedRoute] = useState<OptimizedMeeting[]>([]);
+  const [unscheduledMeetings, setUnscheduledMeetings] = useState<UnscheduledMeeting[]>([]);
+  const [travelTimeNotice, setTravelTimeNotice] = useState('');
+  const [routeTotals, setRouteTotals] = useState<{ distance: number; travelTime: number; returnDistance: number } | null>(null);
+  const [startDepotId, setStartDepotId] = useState('');
+  const [endDepotId, setEndDepotId] = useState('');
   const [preferredNavApp, setPreferredNavApp] = useState<NavigationApp>('waze');
   const [showMapView, setShowMapView] = useState(false);
+  const [selectedMeetingId, setSelectedMeetingId] = useState<string | null>(null);
+  const [territoryId, setTerritoryId] = useState('');
+  // Route for a plan with territory visits that don't exist yet; saved once they are scheduled
+  const unsavedRouteRef = useRef<Route | null>(null);
 
   const formatDate = (date: Date) => date.toISOString().split('T')[0];
+  const dateKey = formatDate(selectedDate);
 
   // Get all meetings for the selected date (not just in-person for display purposes)
   const allDayMeetings = useMemo(() => {
@@ -54,349 +130,221 @@ const RouteOptimizer: React.FC<RouteOptimizerProps> = ({
 
   const getClientById = (clientId: string) => clients.find(c => c.id === clientId);
 
-  // Simple distance calculation (Haversine formula approximation)
-  const calculateDistance = useCallback((lat1: number, lon1: number, lat2: number, lon2: number) => {
-    const R = 3959; // Earth's radius in miles
-    const dLat = (lat2 - lat1) * Math.PI / 180;
-    const dLon = (lon2 - lon1) * Math.PI / 180;
-    const a = Math.sin(dLat/2) * Math.sin(dLat/2) +
-              Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
-              Math.sin(dLon/2) * Math.sin(dLon/2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
-    return R * c;
-  }, []);
-
-  // Calculate travel time in minutes (assuming 30 mph average)
-  const calculateTravelTime = useCallback((dist: number) => {
-    return Math.round(dist / 30 * 60);
-  }, []);
-
-  // Parse time string to minutes from midnight
-  const timeToMinutes = (time: string): number => {
-    const [hours, minutes] = time.split(':').map(Number);
-    return hours * 60 + minutes;
-  };
-
-  // Convert minutes from midnight to time string
-  const minutesToTime = (minutes: number): string => {
-    const hours = Math.floor(minutes / 60);
-    const mins = minutes % 60;
-    return `${hours.toString().padStart(2, '0')}:${mins.toString().padStart(2, '0')}`;
-  };
-
-  // Advanced route optimization considering fixed and flexible meetings
-  const optimizeRoute = useCallback(() => {
-    setIsOptimizing(true);
-    
-    setTimeout(() => {
-      const meetingClients = dayMeetings.map(m => ({
-        meeting: m,
-        client: getClientById(m.clientId)
-      })).filter(mc => mc.client);
-
-      if (meetingClients.length <= 1) {
-        const result = dayMeetings.map(m => ({
-          ...m,
-          isFlexible: m.flexibleTime
-        }));
-        setOptimizedRoute(result);
-        setIsOptimizing(false);
-        return;
-      }
-
-      // Separate fixed and flexible meetings with their clients
-      const fixedWithClients = meetingClients.filter(mc => !mc.meeting.flexibleTime);
-      const flexibleWithClients = meetingClients.filter(mc => mc.meeting.flexibleTime);
-
-      // Sort fixed meetings by time
-      fixedWithClients.sort((a, b) => a.meeting.startTime.localeCompare(b.meeting.startTime));
-
-      // If no fixed meetings, optimize all flexible meetings by nearest neighbor
-      if (fixedWithClients.length === 0) {
-        const optimized = optimizeFlexibleOnly(flexibleWithClients);
-        setOptimizedRoute(optimized);
-        onOptimize?.(optimized.map(m => m.id));
-        setIsOptimizing(false);
-        return;
-      }
+  // Visits to fill the day with in the chosen territory, most overdue first and
+  // then longest unvisited, capped at roughly what the workday could hold
+  const territoryVisits = useMemo<Meeting[]>(() => {
+    const territory = territories.find(t => t.id === territoryId);
+    if (!territory) return [];
+
+    const bookedClientIds = new Set(allDayMeetings.map(m => m.clientId));
+    const workdayMinutes = timeToMinutes(workdaySettings.endTime) - timeToMinutes(workdaySettings.startTime);
+    const capacity = Math.max(0, Math.floor(workdayMinutes / (TERRITORY_VISIT_MINUTES + 20)) - dayMeetings.length);
+
+    const daysUntilDue = (client: Client) =>
+      getVisitDue(client, cadenceRules, { today: dateKey, meetings })?.daysUntilDue ?? Infinity;
+
+    return clients
+      .filter(c => territory.clientIds.includes(c.id) && !bookedClientIds.has(c.id) && c.geocodeConfidence !== 'none')
+      .map(client => ({ client, daysUntilDue: daysUntilDue(client) }))
+      .sort((a, b) => (a.daysUntilDue - b.daysUntilDue) || (a.client.lastVisit || '').localeCompare(b.client.lastVisit || ''))
+      .map(({ client }) => client)
+      .slice(0, capacity)
+      .map(client => ({
+        id: crypto.randomUUID(),
+        clientId: client.id,
+        title: `Visit ${client.company || client.name}`,
+        date: dateKey,
+        startTime: workdaySettings.startTime,
+        endTime: minutesToTime(timeToMinutes(workdaySettings.startTime) + TERRITORY_VISIT_MINUTES),
+        status: 'scheduled',
+        type: 'in-person',
+        notes: '',
+        priority: 'medium',
+        flexibleTime: true,
+      }));
+  }, [territories, territoryId, clients, cadenceRules, meetings, allDayMeetings, dayMeetings, workdaySettings, dateKey]);
 
-      // Build optimized route by inserting flexible meetings between fixed ones
-      const result: OptimizedMeeting[] = [];
-      let currentTime = 8 * 60; // Start at 8 AM (480 minutes)
-      let currentLocation: { lat: number; lon: number } | null = null;
-      const remainingFlexible = [...flexibleWithClients];
+  // Start and finish at the default depot (a closed tour) unless the user picks otherwise
+  useEffect(() => {
+    const defaultId = (depots.find(d => d.isDefault) ?? depots[0])?.id ?? '';
+    setStartDepotId(prev => (depots.some(d => d.id === prev) ? prev : defaultId));
+    setEndDepotId(prev => (depots.some(d => d.id === prev) ? prev : defaultId));
+  }, [depots]);
 
-      for (let i = 0; i < fixedWithClients.length; i++) {
-        const fixedMeeting = fixedWithClients[i];
-        const fixedStartMinutes = timeToMinutes(fixedMeeting.meeting.startTime);
-        const fixedEndMinutes = timeToMinutes(fixedMeeting.meeting.endTime);
+  const startDepot = depots.find(d => d.id === startDepotId);
+  const endDepot = depots.find(d => d.id === endDepotId);
 
-        // Find flexible meetings that can fit before this fixed meeting
-        const availableTime = fixedStartMinutes - currentTime;
-        
-        if (availableTime > 30 && remainingFlexible.length > 0) { // At least 30 min buffer
-          // Find the best flexible meeting to insert
-          const insertions = findBestFlexibleInsertions(
-            currentLocation,
-            fixedMeeting.client!,
-            remainingFlexible,
-            currentTime,
-            fixedStartMinutes - 15 // Leave 15 min buffer before fixed meeting
-          );
-
-          for (const insertion of insertions) {
-            const idx = remainingFlexible.findIndex(f => f.meeting.id === insertion.meeting.id);
-            if (idx !== -1) {
-              remainingFlexible.splice(idx, 1);
-              result.push({
-                ...insertion.meeting,
-                optimizedStartTime: minutesToTime(insertion.startTime),
-                optimizedEndTime: minutesToTime(insertion.endTime),
-                isFlexible: true
-              });
-              currentTime = insertion.endTime;
-              currentLocation = { lat: insertion.client!.latitude, lon: insertion.client!.longitude };
-            }
-          }
-        }
-
-        // Add the fixed meeting
-        result.push({
-          ...fixedMeeting.meeting,
-          isFlexible: false
-        });
-        currentTime = fixedEndMinutes;
-        currentLocation = { lat: fixedMeeting.client!.latitude, lon: fixedMeeting.client!.longitude };
-      }
-
-      // Add remaining flexible meetings after the last fixed meeting
-      if (remainingFlexible.length > 0) {
-        const afterFixed = optimizeRemainingFlexible(
-          currentLocation,
-          remainingFlexible,
-          currentTime
-        );
-        result.push(...afterFixed);
-      }
+  const endpoints = useMemo<RouteEndpoints>(
+    () => ({ start: depotLocation(startDepot), end: depotLocation(endDepot) }),
+    [startDepot, endDepot]
+  );
 
-      setOptimizedRoute(result);
-      onOptimize?.(result.map(m => m.id));
-      setIsOptimizing(false);
-    }, 1000);
-  }, [dayMeetings, getClientById, calculateDistance, calculateTravelTime, onOptimize]);
-
-  // Optimize flexible meetings only (no fixed meetings)
-  const optimizeFlexibleOnly = (flexibleWithClients: { meeting: Meeting; client: Client | undefined }[]): OptimizedMeeting[] => {
-    if (flexibleWithClients.length === 0) return [];
-
-    const result: OptimizedMeeting[] = [];
-    const visited: string[] = [];
-    const unvisited = [...flexibleWithClients];
-    let currentTime = 8 * 60; // Start at 8 AM
-
-    // Start with the first meeting
-    let current = unvisited.shift()!;
-    const meetingDuration = 60; // Assume 1 hour meetings
-
-    result.push({
-      ...current.meeting,
-      optimizedStartTime: minutesToTime(currentTime),
-      optimizedEndTime: minutesToTime(currentTime + meetingDuration),
-      isFlexible: true
-    });
-    visited.push(current.meeting.id);
-    currentTime += meetingDuration;
-
-    while (unvisited.length > 0) {
-      let nearestIdx = 0;
-      let nearestDist = Infinity;
-
-      unvisited.forEach((mc, idx) => {
-        if (current.client && mc.client) {
-          const dist = calculateDistance(
-            current.client.latitude,
-            current.client.longitude,
-            mc.client.latitude,
-            mc.client.longitude
-          );
-          if (dist < nearestDist) {
-            nearestDist = dist;
-            nearestIdx = idx;
-          }
-        }
+  // A plan belongs to one day; start over when the date changes
+  useEffect(() => {
+    setOptimizedRoute([]);
+    setUnscheduledMeetings([]);
+    setRouteTotals(null);
+    setSelectedMeetingId(null);
+    unsavedRouteRef.current = null;
+  }, [dateKey]);
+
+  // Show the saved route for this day, with the times planned for flexible meetings
+  useEffect(() => {
+    if (!savedRoute || savedRoute.date !== dateKey) return;
+
+    const meetingsById = new Map(meetings.map(m => [m.id, m]));
+    const restored: OptimizedMeeting[] = savedRoute.meetings
+      .map(id => meetingsById.get(id))
+      .filter((m): m is Meeting => !!m && m.status !== 'cancelled')
+      .map(meeting => {
+        const planned = meeting.flexibleTime ? savedRoute.plannedTimes?.[meeting.id] : undefined;
+        return {
+          ...meeting,
+          ...(planned && { optimizedStartTime: planned.start, optimizedEndTime: planned.end }),
+          isFlexible: !!meeting.flexibleTime
+        };
       });
 
-      const travelTime = calculateTravelTime(nearestDist);
-      currentTime += travelTime;
-
-      current = unvisited[nearestIdx];
-      result.push({
-        ...current.meeting,
-        optimizedStartTime: minutesToTime(currentTime),
-        optimizedEndTime: minutesToTime(currentTime + meetingDuration),
-        isFlexible: true
-      });
-      visited.push(current.meeting.id);
-      currentTime += meetingDuration;
-      unvisited.splice(nearestIdx, 1);
+    setOptimizedRoute(restored);
+    setRouteTotals({ distance: savedRoute.totalDistance, travelTime: savedRoute.totalTravelTime, returnDistance: 0 });
+    if (savedRoute.startDepotId !== undefined) setStartDepotId(savedRoute.startDepotId);
+    if (savedRoute.endDepotId !== undefined) setEndDepotId(savedRoute.endDepotId);
+  }, [savedRoute, meetings, dateKey]);
+
+  // Run the solver on the configured travel times, falling back to straight-line estimates
+  const planDay = useCallback(async (
+    solve: typeof solveRoute,
+    routeMeetings: Meeting[]
+  ): Promise<RoutePlan> => {
+    const input = {
+      meetings: routeMeetings,
+      clients,
+      constraints: workdayToConstraints(workdaySettings),
+      endpoints,
+    };
+    const speed = DEFAULT_ROUTING_CONSTRAINTS.averageSpeedMph;
+
+    setTravelTimeNotice('');
+    try {
+      const travelTimeProvider = travelTimeSettings
+        ? createTravelTimeProvider(travelTimeSettings, speed)
+        : createHaversineProvider(speed);
+      return await solve({ ...input, travelTimeProvider });
+    } catch (err) {
+      // Routing server unreachable: still plan the day on straight-line estimates
+      console.error('Failed to get travel times, using straight-line estimates:', err);
+      setTravelTimeNotice('Road travel times are unavailable, so distances are straight-line estimates.');
+      return solve({ ...input, travelTimeProvider: createHaversineProvider(speed) });
     }
+  }, [clients, workdaySettings, travelTimeSettings, endpoints]);
+
+  // Show a plan and save it as the route for the day
+  const applyPlan = useCallback((plan: RoutePlan, optimized: boolean) => {
+    const result: OptimizedMeeting[] = plan.stops.map(stop => ({
+      ...stop.meeting,
+      ...(stop.isFlexible && { optimizedStartTime: stop.startTime, optimizedEndTime: stop.endTime }),
+      isFlexible: stop.isFlexible,
+      conflict: stop.conflict && CONFLICT_LABELS[stop.conflict]
+    }));
+
+    setOptimizedRoute(result);
+    setUnscheduledMeetings(plan.unscheduled);
+    setRouteTotals({ distance: plan.totalDistance, travelTime: plan.totalTravelTime, returnDistance: plan.returnDistance });
+    onOptimize?.(result.map(m => m.id));
+    const route: Route = {
+      id: savedRoute?.id ?? crypto.randomUUID(),
+      date: dateKey,
+      meetings: result.map(m => m.id),
+      totalDistance: plan.totalDistance,
+      totalTravelTime: plan.totalTravelTime,
+      optimized,
+      plannedTimes: Object.fromEntries(
+        plan.stops
+          .filter(stop => stop.isFlexible)
+          .map(stop => [stop.meeting.id, { start: stop.startTime, end: stop.endTime }])
+      ),
+      startDepotId,
+      endDepotId,
+      drivenMeetings: savedRoute?.drivenMeetings,
+      drivenDistance: savedRoute?.drivenDistance,
+    };
+
+    const meetingIds = new Set(meetings.map(m => m.id));
+    if (result.every(m => meetingIds.has(m.id))) {
+      unsavedRouteRef.current = null;
+      onSaveRoute?.(route);
+    } else {
+      unsavedRouteRef.current = route;
+    }
+  }, [meetings, startDepotId, endDepotId, dateKey, savedRoute, onOptimize, onSaveRoute]);
 
-    return result;
-  };
-
-  // Find best flexible meetings to insert between fixed meetings
-  const findBestFlexibleInsertions = (
-    currentLocation: { lat: number; lon: number } | null,
-    nextFixedClient: Client,
-    flexibleMeetings: { meeting: Meeting; client: Client | undefined }[],
-    startTime: number,
-    endTime: number
-  ): { meeting: Meeting; client: Client; startTime: number; endTime: number }[] => {
-    const insertions: { meeting: Meeting; client: Client; startTime: number; endTime: number }[] = [];
-    const meetingDuration = 60; // 1 hour per meeting
-    let currentTime = startTime;
-    let currentLoc = currentLocation;
-
-    const remaining = [...flexibleMeetings];
-
-    while (remaining.length > 0 && currentTime + meetingDuration + 15 <= endTime) {
-      let bestIdx = -1;
-      let bestScore = Infinity;
-
-      remaining.forEach((mc, idx) => {
-        if (!mc.client) return;
-
-        // Calculate distance from current location
-        let distFromCurrent = 0;
-        if (currentLoc) {
-          distFromCurrent = calculateDistance(
-            currentLoc.lat,
-            currentLoc.lon,
-            mc.client.latitude,
-            mc.client.longitude
-          );
-        }
-
-        // Calculate distance to next fixed meeting
-        const distToNext = calculateDistance(
-          mc.client.latitude,
-          mc.client.longitude,
-          nextFixedClient.latitude,
-          nextFixedClient.longitude
-        );
-
-        // Score: prefer meetings that are close to current and don't add much to reach next
-        const score = distFromCurrent + distToNext * 0.5;
-
-        // Check if we have time
-        const travelTime = calculateTravelTime(distFromCurrent);
-        const travelToNext = calculateTravelTime(distToNext);
-        const totalTime = currentTime + travelTime + meetingDuration + travelToNext;
-
-        if (totalTime <= endTime && score < bestScore) {
-          bestScore = score;
-          bestIdx = idx;
-        }
-      });
-
-      if (bestIdx === -1) break;
-
-      const selected = remaining[bestIdx];
-      const travelTime = currentLoc 
-        ? calculateTravelTime(calculateDistance(
-            currentLoc.lat, currentLoc.lon,
-            selected.client!.latitude, selected.client!.longitude
-          ))
-        : 0;
-
-      currentTime += travelTime;
-      insertions.push({
-        meeting: selected.meeting,
-        client: selected.client!,
-        startTime: currentTime,
-        endTime: currentTime + meetingDuration
-      });
-      currentTime += meetingDuration;
-      currentLoc = { lat: selected.client!.latitude, lon: selected.client!.longitude };
-      remaining.splice(bestIdx, 1);
+  // Plan the day with the route solver: fixed meetings stay put, flexible ones are ordered around them
+  const optimizeRoute = useCallback(async () => {
+    setIsOptimizing(true);
+    try {
+      applyPlan(await planDay(solveRoute, [...dayMeetings, ...territoryVisits]), true);
+    } finally {
+      setIsOptimizing(false);
     }
+  }, [dayMeetings, territoryVisits, planDay, applyPlan]);
 
-    return insertions;
+  const handleRecordDriven = (drivenMeetings: string[], drivenDistance?: number) => {
+    if (!savedRoute) return;
+    onSaveRoute?.({ ...savedRoute, drivenMeetings, drivenDistance });
   };
 
-  // Optimize remaining flexible meetings after all fixed meetings
-  const optimizeRemainingFlexible = (
-    currentLocation: { lat: number; lon: number } | null,
-    flexibleMeetings: { meeting: Meeting; client: Client | undefined }[],
-    startTime: number
-  ): OptimizedMeeting[] => {
-    const result: OptimizedMeeting[] = [];
-    const meetingDuration = 60;
-    let currentTime = startTime + 15; // 15 min buffer after last fixed meeting
-    let currentLoc = currentLocation;
-    const remaining = [...flexibleMeetings];
-
-    while (remaining.length > 0) {
-      let nearestIdx = 0;
-      let nearestDist = Infinity;
-
-      remaining.forEach((mc, idx) => {
-        if (currentLoc && mc.client) {
-          const dist = calculateDistance(
-            currentLoc.lat, currentLoc.lon,
-            mc.client.latitude, mc.client.longitude
-          );
-          if (dist < nearestDist) {
-            nearestDist = dist;
-            nearestIdx = idx;
-          }
-        } else if (!currentLoc && mc.client) {
-          nearestDist = 0;
-          nearestIdx = idx;
-        }
-      });
-
-      const selected = remaining[nearestIdx];
-      const travelTime = nearestDist > 0 ? calculateTravelTime(nearestDist) : 0;
-      currentTime += travelTime;
+  // Straight-line estimate in route order, including the legs from and to the depots
+  const estimatedDistance = useMemo(() => {
+    const routeMeetings = optimizedRoute.length > 0 ? optimizedRoute : dayMeetings;
+    if (routeMeetings.length === 0) return 0;
 
-      result.push({
-        ...selected.meeting,
-        optimizedStartTime: minutesToTime(currentTime),
-        optimizedEndTime: minutesToTime(currentTime + meetingDuration),
-        isFlexible: true
+    const points: LatLng[] = [];
+    if (endpoints.start) points.push(endpoints.start);
+    routeMeetings.forEach(meeting => {
+      const client = getClientById(meeting.clientId);
+      if (client) points.push({ lat: client.latitude, lon: client.longitude });
+    });
+    if (endpoints.end) points.push(endpoints.end);
+    return pathDistance(points);
+  }, [optimizedRoute, dayMeetings, clients, endpoints]);
+
+  const totalDistance = routeTotals?.distance ?? estimatedDistance;
+  const totalTravelTime = routeTotals?.travelTime
+    ?? estimateTravelMinutes(estimatedDistance, DEFAULT_ROUTING_CONSTRAINTS.averageSpeedMph);
+
+  const displayMeetings: OptimizedMeeting[] = optimizedRoute.length > 0 ? optimizedRoute : dayMeetings;
+
+  // Stops dragged on the map keep the order the user chose and are re-timed in that order
+  const handleReorder = async (fromIndex: number, toIndex: number) => {
+    const order = [...displayMeetings];
+    const [moved] = order.splice(fromIndex, 1);
+    order.splice(toIndex, 0, moved);
+    try {
+      applyPlan(await planDay(scheduleInOrder, order), false);
+    } catch (err) {
+      // The stops stay in their previous order
+      console.error('Failed to re-time the reordered route:', err);
+      toast({
+        title: 'Error',
+        description: 'Failed to reorder the route. Please try again.',
+        variant: 'destructive',
       });
-
-      currentTime += meetingDuration;
-      if (selected.client) {
-        currentLoc = { lat: selected.client.latitude, lon: selected.client.longitude };
-      }
-      remaining.splice(nearestIdx, 1);
     }
-
-    return result;
   };
 
-  const totalDistance = useMemo(() => {
-    const displayMeetings = optimizedRoute.length > 0 ? optimizedRoute : dayMeetings;
-    if (displayMeetings.length < 2) return 0;
-    
-    let total = 0;
-    for (let i = 0; i < displayMeetings.length - 1; i++) {
-      const client1 = getClientById(displayMeetings[i].clientId);
-      const client2 = getClientById(displayMeetings[i + 1].clientId);
-      if (client1 && client2) {
-        total += calculateDistance(client1.latitude, client1.longitude, client2.latitude, client2.longitude);
-      }
-    }
-    return total;
-  }, [optimizedRoute, dayMeetings, calculateDistance]);
-
-  const totalTravelTime = useMemo(() => {
-    return Math.round(totalDistance / 30 * 60);
-  }, [totalDistance]);
-
-  const displayMeetings = optimizedRoute.length > 0 ? optimizedRoute : dayMeetings;
+  const mapStops = displayMeetings.flatMap(meeting => {
+    const client = getClientById(meeting.clientId);
+    if (!client || client.geocodeConfidence === 'none') return [];
+    return [{
+      id: meeting.id,
+      position: { lat: client.latitude, lon: client.longitude },
+      label: `${meeting.title} – ${client.company}`,
+      isFlexible: 'isFlexible' in meeting ? meeting.isFlexible : meeting.flexibleTime,
+      hasConflict: !!meeting.conflict,
+    }];
+  });
+
+  const selectedMeeting = displayMeetings.find(m => m.id === selectedMeetingId);
 
   // Get all route locations for multi-stop navigation
   const getRouteLocations = (): NavigationLocation[] => {
@@ -423,7 +371,17 @@ const RouteOptimizer: React.FC<RouteOptimizerProps> = ({
     if (locations.length === 0) return;
 
     if (app === 'google') {
-      const url = getGoogleMapsMultiStopUrl(locations);
+      const toLocation = (depot: Depot): NavigationLocation => ({
+        address: depot.address,
+        latitude: depot.latitude,
+        longitude: depot.longitude,
+        name: depot.name
+      });
+      const url = getGoogleMapsMultiStopUrl([
+        ...(startDepot ? [toLocation(startDepot)] : []),
+        ...locations,
+        ...(endDepot ? [toLocation(endDepot)] : [])
+      ]);
       window.open(url, '_blank');
     } else {
       const url = getWazeUrl(locations[0]);
@@ -511,14 +469,31 @@ const RouteOptimizer: React.FC<RouteOptimizerProps> = ({
 
   // Apply optimized times to meetings
   const handleApplyOptimizedTimes = () => {
-    const updates = optimizedRoute
-      .filter(m => m.optimizedStartTime && m.optimizedEndTime)
+    const meetingIds = new Set(meetings.map(m => m.id));
+    const planned = optimizedRoute.filter(m => m.optimizedStartTime && m.optimizedEndTime);
+    const updates = planned
+      .filter(m => meetingIds.has(m.id))
       .map(m => ({
         id: m.id,
         startTime: m.optimizedStartTime!,
         endTime: m.optimizedEndTime!
       }));
+    const visits = planned
+      .filter(m => !meetingIds.has(m.id))
+      .map(({ optimizedStartTime, optimizedEndTime, isFlexible, conflict, ...visit }) => ({
+        ...visit,
+        startTime: optimizedStartTime!,
+        endTime: optimizedEndTime!,
+        flexibleTime: false
+      }));
     
+    if (visits.length > 0 && onScheduleVisits) {
+      onScheduleVisits(visits);
+      if (unsavedRouteRef.current) {
+        onSaveRoute?.(unsavedRouteRef.current);
+        unsavedRouteRef.current = null;
+      }
+    }
     if (updates.length > 0 && onUpdateMeetingTimes) {
       onUpdateMeetingTimes(updates);
     }
@@ -553,9 +528,9 @@ const RouteOptimizer: React.FC<RouteOptimizerProps> = ({
             </button>
             <button
               onClick={optimizeRoute}
-              disabled={isOptimizing || dayMeetings.length < 2}
+              disabled={isOptimizing || dayMeetings.length + territoryVisits.length < 2}
               className={`px-4 py-2 rounded-lg font-medium flex items-center space-x-2 transition-all ${
-                isOptimizing || dayMeetings.length < 2
+                isOptimizing || dayMeetings.length + territoryVisits.length < 2
                   ? 'bg-gray-100 text-gray-400 cursor-not-allowed'
                   : 'bg-green-600 text-white hover:bg-green-700 shadow-md hover:shadow-lg'
               }`}
@@ -592,6 +567,68 @@ const RouteOptimizer: React.FC<RouteOptimizerProps> = ({
         </div>
       </div>
 
+      {/* Depots */}
+      {depots.length > 0 && (
+        <div className="grid grid-cols-2 gap-2 px-4 py-3 border-b border-gray-200">
+          <div>
+            <label className="block text-xs font-medium text-gray-500 mb-1">Start From</label>
+            <select
+              value={startDepotId}
+              onChange={(e) => {
+                setStartDepotId(e.target.value);
+                setRouteTotals(null);
+              }}
+              className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="">First meeting</option>
+              {depots.map(depot => (
+                <option key={depot.id} value={depot.id}>{depot.name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-500 mb-1">Finish At</label>
+            <select
+              value={endDepotId}
+              onChange={(e) => {
+                setEndDepotId(e.target.value);
+                setRouteTotals(null);
+              }}
+              className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="">Last meeting</option>
+              {depots.map(depot => (
+                <option key={depot.id} value={depot.id}>{depot.name}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+      )}
+
+      {/* Territory to fill the day from */}
+      {territories.length > 0 && onScheduleVisits && (
+        <div className="px-4 py-3 border-b border-gray-200">
+          <label className="block text-xs font-medium text-gray-500 mb-1">Fill Day From Territory</label>
+          <select
+            value={territoryId}
+            onChange={(e) => setTerritoryId(e.target.value)}
+            className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          >
+            <option value="">Only scheduled meetings</option>
+            {territories.map(territory => (
+              <option key={territory.id} value={territory.id}>
+                {territory.name} ({territory.clientIds.length} clients)
+              </option>
+            ))}
+          </select>
+          {territoryId && (
+            <p className="text-xs text-gray-500 mt-1">
+              Optimizing adds up to {territoryVisits.length} visit{territoryVisits.length !== 1 ? 's' : ''} to the clients here you haven't seen the longest.
+            </p>
+          )}
+        </div>
+      )}
+
       {/* Stats */}
       {optimizedRoute.length > 0 && (
         <div className="grid grid-cols-3 gap-4 p-4 bg-green-50 border-b border-gray-200">
@@ -610,107 +647,64 @@ const RouteOptimizer: React.FC<RouteOptimizerProps> = ({
         </div>
       )}
 
+      {travelTimeNotice && optimizedRoute.length > 0 && (
+        <div className="px-4 py-2 bg-amber-50 border-b border-amber-200 text-sm text-amber-700">
+          {travelTimeNotice}
+        </div>
+      )}
+
+      {/* Meetings the optimizer could not fit */}
+      {optimizedRoute.length > 0 && unscheduledMeetings.length > 0 && (
+        <div className="px-4 py-3 bg-red-50 border-b border-red-200">
+          <p className="text-sm font-medium text-red-700 mb-2">
+            {unscheduledMeetings.length} meeting{unscheduledMeetings.length > 1 ? 's' : ''} could not be scheduled
+          </p>
+          <ul className="space-y-1">
+            {unscheduledMeetings.map(({ meeting, message }) => (
+              <li key={meeting.id} className="flex items-start space-x-2 text-sm text-red-700">
+                <svg className="w-4 h-4 mt-0.5 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+                </svg>
+                <span><span className="font-medium">{meeting.title}:</span> {message}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Planned vs driven, once the day is under way */}
+      {savedRoute && savedRoute.date === dateKey && (
+        <RouteComparison
+          route={savedRoute}
+          meetings={meetings}
+          clients={clients}
+          endpoints={endpoints}
+          onRecordDriven={onSaveRoute ? handleRecordDriven : undefined}
+        />
+      )}
+
       {/* Map View */}
       {showMapView && displayMeetings.length > 0 && (
         <div className="border-b border-gray-200">
-          <div className="h-64 bg-gradient-to-br from-blue-100 to-green-100 relative overflow-hidden">
-            <div className="absolute inset-0 p-4">
-              <div className="h-full w-full bg-white/80 rounded-lg shadow-inner relative overflow-hidden">
-                <div className="absolute inset-0 opacity-20">
-                  <svg width="100%" height="100%">
-                    <defs>
-                      <pattern id="grid" width="40" height="40" patternUnits="userSpaceOnUse">
-                        <path d="M 40 0 L 0 0 0 40" fill="none" stroke="#94a3b8" strokeWidth="1"/>
-                      </pattern>
-                    </defs>
-                    <rect width="100%" height="100%" fill="url(#grid)" />
-                  </svg>
-                </div>
-                
-                <svg className="absolute inset-0 w-full h-full" viewBox="0 0 400 200" preserveAspectRatio="xMidYMid meet">
-                  {displayMeetings.length > 1 && (
-                    <path
-                      d={`M ${displayMeetings.map((_, idx) => {
-                        const x = 40 + (idx * (320 / Math.max(displayMeetings.length - 1, 1)));
-                        const y = 100 + Math.sin(idx * 0.8) * 40;
-                        return `${x},${y}`;
-                      }).join(' L ')}`}
-                      fill="none"
-                      stroke="#3B82F6"
-                      strokeWidth="3"
-                      strokeLinecap="round"
-                      strokeLinejoin="round"
-                      className="drop-shadow-md"
-                    />
-                  )}
-                  
-                  {displayMeetings.length > 1 && displayMeetings.slice(0, -1).map((_, idx) => {
-                    const x1 = 40 + (idx * (320 / Math.max(displayMeetings.length - 1, 1)));
-                    const x2 = 40 + ((idx + 1) * (320 / Math.max(displayMeetings.length - 1, 1)));
-                    const y1 = 100 + Math.sin(idx * 0.8) * 40;
-                    const y2 = 100 + Math.sin((idx + 1) * 0.8) * 40;
-                    const midX = (x1 + x2) / 2;
-                    const midY = (y1 + y2) / 2;
-                    const angle = Math.atan2(y2 - y1, x2 - x1) * 180 / Math.PI;
-                    
-                    return (
-                      <g key={`arrow-${idx}`} transform={`translate(${midX}, ${midY}) rotate(${angle})`}>
-                        <polygon points="0,-4 8,0 0,4" fill="#3B82F6" />
-                      </g>
-                    );
-                  })}
-                  
-                  {displayMeetings.map((meeting, idx) => {
-                    const x = 40 + (idx * (320 / Math.max(displayMeetings.length - 1, 1)));
-                    const y = 100 + Math.sin(idx * 0.8) * 40;
-                    const client = getClientById(meeting.clientId);
-                    const isFlexible = 'isFlexible' in meeting ? meeting.isFlexible : meeting.flexibleTime;
-                    
-                    return (
-                      <g key={meeting.id}>
-                        <circle cx={x} cy={y + 2} r="16" fill="rgba(0,0,0,0.2)" />
-                        <circle 
-                          cx={x} 
-                          cy={y} 
-                          r="16" 
-                          fill={
-                            idx === 0 ? '#22C55E' : 
-                            idx === displayMeetings.length - 1 ? '#EF4444' : 
-                            isFlexible ? '#F59E0B' : '#3B82F6'
-                          } 
-                        />
-                        <text x={x} y={y + 5} textAnchor="middle" fill="white" fontSize="12" fontWeight="bold">
-                          {idx + 1}
-                        </text>
-                        <text x={x} y={y - 22} textAnchor="middle" fill="#374151" fontSize="9" fontWeight="500">
-                          {client?.company?.substring(0, 15) || meeting.title.substring(0, 15)}
-                        </text>
-                      </g>
-                    );
-                  })}
-                </svg>
-                
-                <div className="absolute bottom-2 left-2 flex items-center space-x-4 text-xs">
-                  <div className="flex items-center space-x-1">
-                    <div className="w-3 h-3 rounded-full bg-green-500"></div>
-                    <span className="text-gray-600">Start</span>
-                  </div>
-                  <div className="flex items-center space-x-1">
-                    <div className="w-3 h-3 rounded-full bg-blue-500"></div>
-                    <span className="text-gray-600">Fixed</span>
-                  </div>
-                  <div className="flex items-center space-x-1">
-                    <div className="w-3 h-3 rounded-full bg-amber-500"></div>
-                    <span className="text-gray-600">Flexible</span>
-                  </div>
-                  <div className="flex items-center space-x-1">
-                    <div className="w-3 h-3 rounded-full bg-red-500"></div>
-                    <span className="text-gray-600">End</span>
-                  </div>
-                </div>
-              </div>
+          <RouteMap
+            stops={mapStops}
+            startDepot={toMapDepot(startDepot)}
+            endDepot={toMapDepot(endDepot)}
+            settings={mapSettings}
+            selectedStopId={selectedMeetingId}
+            onStopClick={(id) => setSelectedMeetingId(prev => (prev === id ? null : id))}
+            onReorder={mapStops.length === displayMeetings.length ? (from, to) => { void handleReorder(from, to); } : undefined}
+          />
+          {selectedMeeting && (
+            <div className="p-4 bg-gray-50 border-t border-gray-200">
+              <MeetingCard
+                meeting={selectedMeeting}
+                client={getClientById(selectedMeeting.clientId)}
+                onEdit={onEditMeeting}
+                onStatusChange={onMeetingStatusChange}
+              />
             </div>
-          </div>
+          )}
         </div>
       )}
 
@@ -734,7 +728,7 @@ const RouteOptimizer: React.FC<RouteOptimizerProps> = ({
           {optimizedRoute.length > 0 ? 'Optimized Route' : 'Scheduled In-Person Meetings'}
         </h4>
         
-        {dayMeetings.length === 0 ? (
+        {displayMeetings.length === 0 ? (
           <div className="text-center py-8">
             <svg className="w-12 h-12 mx-auto text-gray-300 mb-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z" />
@@ -748,6 +742,17 @@ const RouteOptimizer: React.FC<RouteOptimizerProps> = ({
           </div>
         ) : (
           <div className="space-y-3">
+            {startDepot && (
+              <div className="flex items-center space-x-3 p-3 rounded-lg border border-dashed border-gray-300">
+                <svg className="w-5 h-5 text-green-600 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 12l2-2m0 0l7-7 7 7M5 10v10a1 1 0 001 1h3m10-11l2 2m-2-2v10a1 1 0 01-1 1h-3m-6 0a1 1 0 001-1v-4a1 1 0 011-1h2a1 1 0 011 1v4a1 1 0 001 1m-6 0h6" />
+                </svg>
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900 truncate">Start: {startDepot.name}</p>
+                  {startDepot.address && <p className="text-xs text-gray-400 truncate">{startDepot.address}</p>}
+                </div>
+              </div>
+            )}
             {displayMeetings.map((meeting, idx) => {
               const client = getClientById(meeting.clientId);
               const location = getMeetingLocation(meeting);
@@ -779,6 +784,16 @@ const RouteOptimizer: React.FC<RouteOptimizerProps> = ({
                             Flexible
                           </span>
                         )}
+                        {!meetings.some(m => m.id === meeting.id) && (
+                          <span className="px-2 py-0.5 text-xs font-medium bg-green-100 text-green-700 rounded-full">
+                            New visit
+                          </span>
+                        )}
+                        {meeting.conflict && (
+                          <span className="px-2 py-0.5 text-xs font-medium bg-red-100 text-red-700 rounded-full">
+                            {meeting.conflict}
+                          </span>
+                        )}
                       </div>
                       <div className="flex items-center space-x-2">
                         {location && (
@@ -815,10 +830,38 @@ const RouteOptimizer: React.FC<RouteOptimizerProps> = ({
                 </div>
               );
             })}
+            {endDepot && (
+              <div className="flex items-center justify-between p-3 rounded-lg border border-dashed border-gray-300">
+                <div className="flex items-center space-x-3 min-w-0">
+                  <svg className="w-5 h-5 text-red-500 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 12l2-2m0 0l7-7 7 7M5 10v10a1 1 0 001 1h3m10-11l2 2m-2-2v10a1 1 0 01-1 1h-3m-6 0a1 1 0 001-1v-4a1 1 0 011-1h2a1 1 0 011 1v4a1 1 0 001 1m-6 0h6" />
+                  </svg>
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900 truncate">Finish: {endDepot.name}</p>
+                    {endDepot.address && <p className="text-xs text-gray-400 truncate">{endDepot.address}</p>}
+                  </div>
+                </div>
+                {routeTotals && routeTotals.returnDistance > 0 && (
+                  <span className="text-xs text-gray-400 flex-shrink-0">{routeTotals.returnDistance.toFixed(1)} mi back</span>
+                )}
+              </div>
+            )}
           </div>
         )}
       </div>
 
+      {/* Clients to visit in the open slots between fixed meetings */}
+      {onScheduleVisits && (
+        <GapFillSuggestions
+          date={dateKey}
+          meetings={allDayMeetings}
+          clients={clients}
+          workdaySettings={workdaySettings}
+          endpoints={endpoints}
+          onSchedule={(meeting) => onScheduleVisits([meeting])}
+        />
+      )}
+
       {/* Apply Optimized Times Button */}
       {optimizedRoute.length > 0 && optimizedRoute.some(m => m.optimizedStartTime) && onUpdateMeetingTimes && (
         <div className="px-4 pb-4">
@@ -0,0 +1,395 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { Meeting, Client, WorkdaySettings, TravelTimeSettings, Depot, CadenceRule } from '@/types';
+import {
+  planWeek,
+  timeToMinutes,
+  minutesToTime,
+  workdayToConstraints,
+  createHaversineProvider,
+  createTravelTimeProvider,
+  DEFAULT_ROUTING_CONSTRAINTS,
+  DEFAULT_WORKDAY_SETTINGS,
+  RouteEndpoints,
+  WeekPlan,
+} from '@/lib/routing';
+import { findDueVisits, VisitDue } from '@/lib/cadence';
+
+export interface MeetingReschedule {
+  id: string;
+  date?: string;
+  startTime: string;
+  endTime: string;
+}
+
+interface WeeklyPlannerProps {
+  meetings: Meeting[];
+  clients: Client[];
+  selectedDate: Date;
+  workdaySettings?: WorkdaySettings;
+  travelTimeSettings?: TravelTimeSettings;
+  depots?: Depot[];
+  cadenceRules?: CadenceRule[]; // Clients due for a visit are added to the plan automatically
+  onApplyPlan?: (updates: MeetingReschedule[], newMeetings: Meeting[]) => void;
+}
+
+const VISIT_DURATIONS = [30, 45, 60, 90];
+
+const formatDate = (date: Date) => date.toISOString().split('T')[0];
+
+// Monday to Friday of the week containing the date, leaving out days already past
+const getPlanningDays = (date: Date): string[] => {
+  const monday = new Date(date);
+  monday.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+  const today = formatDate(new Date());
+  return Array.from({ length: 5 }, (_, i) => {
+    const day = new Date(monday);
+    day.setDate(monday.getDate() + i);
+    return formatDate(day);
+  }).filter(day => day >= today);
+};
+
+const WeeklyPlanner: React.FC<WeeklyPlannerProps> = ({
+  meetings,
+  clients,
+  selectedDate,
+  workdaySettings = DEFAULT_WORKDAY_SETTINGS,
+  travelTimeSettings,
+  depots = [],
+  cadenceRules = [],
+  onApplyPlan
+}) => {
+  const [visitClientIds, setVisitClientIds] = useState<string[]>([]);
+  const [visitDuration, setVisitDuration] = useState(60);
+  const [clientSearch, setClientSearch] = useState('');
+  const [isPlanning, setIsPlanning] = useState(false);
+  const [weekPlan, setWeekPlan] = useState<WeekPlan | null>(null);
+  const [visitMeetings, setVisitMeetings] = useState<Meeting[]>([]);
+  const [travelTimeNotice, setTravelTimeNotice] = useState('');
+
+  const days = useMemo(() => getPlanningDays(selectedDate), [selectedDate]);
+  const weekKey = days.join(',');
+
+  // A plan belongs to one week; start over when the week changes
+  useEffect(() => {
+    setWeekPlan(null);
+    setVisitMeetings([]);
+  }, [weekKey]);
+
+  // Flexible in-person meetings this week can move to whichever day suits the route best
+  const flexibleMeetings = useMemo(() => meetings.filter(m =>
+    days.includes(m.date) && m.type === 'in-person' && m.status === 'scheduled' && m.flexibleTime
+  ), [meetings, days]);
+
+  const clientsThisWeek = useMemo(() => new Set(
+    meetings.filter(m => days.includes(m.date) && m.status !== 'cancelled').map(m => m.clientId)
+  ), [meetings, days]);
+
+  // Clients whose visit falls due by the end of the week and who have nothing booked yet
+  const dueVisits = useMemo(() => {
+    const byId = new Map<string, VisitDue>();
+    if (days.length === 0) return byId;
+    const dueSoonDays = Math.round((new Date(days[days.length - 1]).getTime() - new Date(days[0]).getTime()) / (24 * 60 * 60 * 1000));
+    findDueVisits(clients, cadenceRules, { today: days[0], dueSoonDays, meetings })
+      .filter(due => !due.nextMeeting && !clientsThisWeek.has(due.client.id))
+      .forEach(due => byId.set(due.client.id, due));
+    return byId;
+  }, [clients, cadenceRules, meetings, days, clientsThisWeek]);
+  const dueKey = Array.from(dueVisits.keys()).join(',');
+
+  // Add newly due clients to the visits; the user can still untick them
+  useEffect(() => {
+    const dueIds = dueKey ? dueKey.split(',') : [];
+    setVisitClientIds(prev => [...prev, ...dueIds.filter(id => !prev.includes(id))]);
+  }, [dueKey]);
+
+  const candidateClients = useMemo(() => {
+    const query = clientSearch.toLowerCase();
+    return clients
+      .filter(c => !clientsThisWeek.has(c.id))
+      .filter(c => !query || c.name.toLowerCase().includes(query) || c.company.toLowerCase().includes(query) || c.city.toLowerCase().includes(query))
+      .sort((a, b) => Number(dueVisits.has(b.id)) - Number(dueVisits.has(a.id)) || a.company.localeCompare(b.company));
+  }, [clients, clientsThisWeek, clientSearch, dueVisits]);
+
+  const defaultDepot = depots.find(d => d.isDefault) ?? depots[0];
+  const endpoints = useMemo<RouteEndpoints>(() => {
+    const location = defaultDepot && { lat: defaultDepot.latitude, lon: defaultDepot.longitude };
+    return { start: location, end: location };
+  }, [defaultDepot]);
+
+  const getClientById = (clientId: string) => clients.find(c => c.id === clientId);
+
+  const toggleVisitClient = (clientId: string) => {
+    setVisitClientIds(prev => prev.includes(clientId) ? prev.filter(id => id !== clientId) : [...prev, clientId]);
+  };
+
+  const handlePlanWeek = async () => {
+    if (days.length === 0) return;
+    setIsPlanning(true);
+    setTravelTimeNotice('');
+
+    // New visits are flexible meetings of the chosen length; the planner picks their day and time
+    const visits: Meeting[] = visitClientIds.map(clientId => {
+      const client = getClientById(clientId);
+      return {
+        id: crypto.randomUUID(),
+        clientId,
+        title: `Visit ${client?.company || client?.name || 'client'}`,
+        date: days[0],
+        startTime: workdaySettings.startTime,
+        endTime: minutesToTime(timeToMinutes(workdaySettings.startTime) + visitDuration),
+        status: 'scheduled',
+        type: 'in-person',
+        notes: '',
+        priority: 'medium',
+        flexibleTime: true,
+      };
+    });
+
+    const input = {
+      days,
+      movable: [...flexibleMeetings, ...visits],
+      meetings,
+      clients,
+      constraints: workdayToConstraints(workdaySettings),
+      endpoints,
+    };
+    const speed = DEFAULT_ROUTING_CONSTRAINTS.averageSpeedMph;
+
+    try {
+      let plan: WeekPlan;
+      try {
+        const travelTimeProvider = travelTimeSettings
+          ? createTravelTimeProvider(travelTimeSettings, speed)
+          : createHaversineProvider(speed);
+        plan = await planWeek({ ...input, travelTimeProvider });
+      } catch (err) {
+        // Routing server unreachable: still plan the week on straight-line estimates
+        console.error('Failed to get travel times, using straight-line estimates:', err);
+        setTravelTimeNotice('Road travel times are unavailable, so distances are straight-line estimates.');
+        plan = await planWeek({ ...input, travelTimeProvider: createHaversineProvider(speed) });
+      }
+      setWeekPlan(plan);
+      setVisitMeetings(visits);
+    } finally {
+      setIsPlanning(false);
+    }
+  };
+
+  const handleApply = () => {
+    if (!weekPlan || !onApplyPlan) return;
+    const visitIds = new Set(visitMeetings.map(m => m.id));
+    const updates: MeetingReschedule[] = [];
+    const newMeetings: Meeting[] = [];
+
+    weekPlan.days.forEach(({ date, plan }) => {
+      plan.stops.filter(stop => stop.isFlexible).forEach(stop => {
+        if (visitIds.has(stop.meeting.id)) {
+          newMeetings.push({ ...stop.meeting, date, startTime: stop.startTime, endTime: stop.endTime, flexibleTime: false });
+        } else {
+          updates.push({ id: stop.meeting.id, date, startTime: stop.startTime, endTime: stop.endTime });
+        }
+      });
+    });
+
+    onApplyPlan(updates, newMeetings);
+    setWeekPlan(null);
+    setVisitMeetings([]);
+    setVisitClientIds([]);
+  };
+
+  const movableCount = flexibleMeetings.length + visitClientIds.length;
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 shadow-sm overflow-hidden">
+      <div className="p-4 border-b border-gray-200 bg-gradient-to-r from-green-50 to-blue-50">
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-bold text-gray-900 flex items-center">
+              <svg className="w-5 h-5 mr-2 text-green-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+              </svg>
+              Weekly Planner
+            </h3>
+            <p className="text-sm text-gray-600 mt-1">
+              {days.length > 0
+                ? `${new Date(days[0] + 'T00:00:00').toLocaleDateString('en-US', { month: 'short', day: 'numeric' })} – ${new Date(days[days.length - 1] + 'T00:00:00').toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}`
+                : 'This week is already over'}
+            </p>
+          </div>
+          <button
+            onClick={handlePlanWeek}
+            disabled={isPlanning || days.length === 0 || movableCount === 0}
+            className={`px-4 py-2 rounded-lg font-medium flex items-center space-x-2 transition-all ${
+              isPlanning || days.length === 0 || movableCount === 0
+                ? 'bg-gray-100 text-gray-400 cursor-not-allowed'
+                : 'bg-green-600 text-white hover:bg-green-700 shadow-md hover:shadow-lg'
+            }`}
+          >
+            <svg className={`w-5 h-5 ${isPlanning ? 'animate-spin' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              {isPlanning ? (
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+              ) : (
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
+              )}
+            </svg>
+            <span>{isPlanning ? 'Planning...' : 'Plan Week'}</span>
+          </button>
+        </div>
+      </div>
+
+      {/* What gets planned */}
+      <div className="p-4 border-b border-gray-200 space-y-4">
+        <p className="text-sm text-gray-600">
+          {flexibleMeetings.length} flexible meeting{flexibleMeetings.length !== 1 ? 's' : ''} this week will be moved to the day that keeps driving shortest.
+          Fixed meetings stay where they are{defaultDepot ? `, and every day starts and ends at ${defaultDepot.name}` : ''}.
+        </p>
+
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <h4 className="text-sm font-semibold text-gray-700">Clients to Visit</h4>
+            <div className="flex items-center space-x-2">
+              <label className="text-sm text-gray-500">Visit length</label>
+              <select
+                value={visitDuration}
+                onChange={(e) => setVisitDuration(parseInt(e.target.value))}
+                className="px-2 py-1 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                {VISIT_DURATIONS.map(minutes => (
+                  <option key={minutes} value={minutes}>{minutes} min</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <input
+            type="text"
+            value={clientSearch}
+            onChange={(e) => setClientSearch(e.target.value)}
+            placeholder="Search clients without a meeting this week..."
+            className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 mb-2"
+          />
+          <div className="max-h-48 overflow-y-auto border border-gray-200 rounded-lg divide-y divide-gray-100">
+            {candidateClients.length === 0 ? (
+              <p className="p-3 text-sm text-gray-500">No clients to add</p>
+            ) : candidateClients.map(client => (
+              <label key={client.id} className="flex items-center space-x-3 px-3 py-2 hover:bg-gray-50 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={visitClientIds.includes(client.id)}
+                  onChange={() => toggleVisitClient(client.id)}
+                  className="w-4 h-4 text-blue-600 rounded"
+                />
+                <div className="min-w-0 flex-1">
+                  <p className="text-sm font-medium text-gray-900 truncate">{client.company}</p>
+                  <p className="text-xs text-gray-500 truncate">{client.name} · {client.city}</p>
+                </div>
+                {dueVisits.has(client.id) && (
+                  <span className={`flex-shrink-0 px-2 py-0.5 text-xs font-medium rounded-full ${
+                    dueVisits.get(client.id)?.status === 'overdue' ? 'bg-red-100 text-red-700' : 'bg-amber-100 text-amber-700'
+                  }`}>
+                    {dueVisits.get(client.id)?.status === 'overdue' ? 'Overdue' : 'Due'}
+                  </span>
+                )}
+              </label>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {travelTimeNotice && weekPlan && (
+        <div className="px-4 py-3 bg-amber-50 border-b border-amber-200 text-sm text-amber-700">
+          {travelTimeNotice}
+        </div>
+      )}
+
+      {/* Proposed plan */}
+      {weekPlan && (
+        <div className="p-4 space-y-4">
+          <div className="grid grid-cols-2 gap-4 p-3 bg-gray-50 rounded-lg">
+            <div className="text-center">
+              <p className="text-lg font-bold text-gray-900">{weekPlan.totalDistance.toFixed(1)} mi</p>
+              <p className="text-xs text-gray-500">Total Driving</p>
+            </div>
+            <div className="text-center">
+              <p className="text-lg font-bold text-gray-900">{Math.round(weekPlan.totalTravelTime)} min</p>
+              <p className="text-xs text-gray-500">Travel Time</p>
+            </div>
+          </div>
+
+          {weekPlan.unassigned.length > 0 && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+              <p className="text-sm font-medium text-red-800 mb-1">Could not be planned</p>
+              <ul className="space-y-1">
+                {weekPlan.unassigned.map(({ meeting, message }) => (
+                  <li key={meeting.id} className="text-sm text-red-700">{message}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {weekPlan.days.map(({ date, plan }) => (
+            <div key={date}>
+              <div className="flex items-center justify-between mb-2">
+                <h4 className="text-sm font-semibold text-gray-700">
+                  {new Date(date + 'T00:00:00').toLocaleDateString('en-US', { weekday: 'long', month: 'short', day: 'numeric' })}
+                </h4>
+                <span className="text-xs text-gray-500">
+                  {plan.stops.length} stop{plan.stops.length !== 1 ? 's' : ''} · {plan.totalDistance.toFixed(1)} mi
+                </span>
+              </div>
+              {plan.stops.length === 0 ? (
+                <p className="text-sm text-gray-400 pl-2">No in-person meetings</p>
+              ) : (
+                <div className="space-y-2">
+                  {plan.stops.map(stop => {
+                    const isNewVisit = visitMeetings.some(m => m.id === stop.meeting.id);
+                    const movedFrom = !isNewVisit && stop.meeting.date !== date ? stop.meeting.date : null;
+                    return (
+                      <div
+                        key={stop.meeting.id}
+                        className={`flex items-center justify-between p-2 rounded-lg text-sm ${
+                          stop.isFlexible ? 'bg-amber-50 border border-amber-200' : 'bg-gray-50'
+                        }`}
+                      >
+                        <div className="min-w-0">
+                          <div className="flex items-center space-x-2">
+                            <p className="font-medium text-gray-900 truncate">{stop.meeting.title}</p>
+                            {isNewVisit && (
+                              <span className="px-2 py-0.5 text-xs font-medium bg-green-100 text-green-700 rounded-full">New visit</span>
+                            )}
+                            {movedFrom && (
+                              <span className="px-2 py-0.5 text-xs font-medium bg-blue-100 text-blue-700 rounded-full">
+                                Moved from {new Date(movedFrom + 'T00:00:00').toLocaleDateString('en-US', { weekday: 'short' })}
+                              </span>
+                            )}
+                          </div>
+                          <p className="text-xs text-gray-500 truncate">{stop.client.company}</p>
+                        </div>
+                        <span className={`flex-shrink-0 ${stop.isFlexible ? 'text-amber-600 font-medium' : 'text-gray-500'}`}>
+                          {stop.startTime} - {stop.endTime}
+                        </span>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          ))}
+
+          {onApplyPlan && weekPlan.days.some(d => d.plan.stops.some(s => s.isFlexible)) && (
+            <button
+              onClick={handleApply}
+              className="w-full py-2 px-4 bg-amber-500 text-white rounded-lg hover:bg-amber-600 transition-colors flex items-center justify-center space-x-2"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+              </svg>
+              <span>Apply Week Plan</span>
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WeeklyPlanner;
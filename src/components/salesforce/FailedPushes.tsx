@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import { SalesforceOutboxEntry } from '@/types';
+
+interface FailedPushesProps {
+  entries: SalesforceOutboxEntry[];
+  onRetry?: (entry: SalesforceOutboxEntry) => Promise<void>;
+  onDiscard?: (entry: SalesforceOutboxEntry) => Promise<void>;
+}
+
+const RECORD_LABELS: Record<SalesforceOutboxEntry['recordType'], string> = {
+  meeting: 'Completed meeting',
+  task: 'Follow-up task',
+};
+
+// Meetings and tasks the outbox gave up sending, with what Salesforce said
+const FailedPushes: React.FC<FailedPushesProps> = ({ entries, onRetry, onDiscard }) => {
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const handle = async (entry: SalesforceOutboxEntry, action?: (entry: SalesforceOutboxEntry) => Promise<void>) => {
+    if (!action) return;
+    setBusyId(entry.id);
+    try {
+      await action(entry);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (entries.length === 0) return null;
+
+  return (
+    <div>
+      <h4 className="font-medium text-gray-900 mb-1">Not sent to Salesforce</h4>
+      <p className="text-xs text-gray-500 mb-2">
+        Salesforce refused these records or they kept failing. Fix the cause in Salesforce, then retry.
+      </p>
+      <div className="space-y-2">
+        {entries.map(entry => (
+          <div key={entry.id} className="p-3 rounded-lg border border-red-200 bg-red-50 text-sm">
+            <div className="flex items-center justify-between flex-wrap gap-2">
+              <p className="font-medium text-gray-900">
+                {entry.label} <span className="font-normal text-gray-500">· {RECORD_LABELS[entry.recordType]}</span>
+              </p>
+              <div className="flex items-center space-x-2">
+                <button
+                  onClick={() => handle(entry, onDiscard)}
+                  disabled={!onDiscard || busyId !== null}
+                  className="px-3 py-1 text-xs font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+                >
+                  Discard
+                </button>
+                <button
+                  onClick={() => handle(entry, onRetry)}
+                  disabled={!onRetry || busyId !== null}
+                  className="px-3 py-1 text-xs font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50"
+                >
+                  Retry
+                </button>
+              </div>
+            </div>
+            <p className="mt-1 text-xs text-red-700">{entry.lastError}</p>
+            <p className="mt-1 text-xs text-gray-500">
+              {entry.attempts} attempt{entry.attempts === 1 ? '' : 's'}
+              {entry.failedAt && `, last on ${new Date(entry.failedAt).toLocaleString()}`}
+            </p>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default FailedPushes;
@@ -1,29 +1,58 @@
-import React, { useState } from 'react';
-import { SalesforceConfig, CustomField, Client } from '@/types';
+import React, { useState, useEffect } from 'react';
+import { SalesforceConfig, CustomField, Client, SyncRun, SyncConflict, SalesforceOutboxEntry } from '@/types';
+import { authorizeInPopup, DEFAULT_FIELD_MAPPINGS, DEFAULT_LOGIN_URL } from '@/lib/salesforce';
+import SyncHistory from './SyncHistory';
+import FailedPushes from './FailedPushes';
 
 interface SalesforceIntegrationProps {
   config: SalesforceConfig;
   customFields: CustomField[];
   clients?: Client[];
   onConfigUpdate: (config: SalesforceConfig) => void;
+  onSync?: (config: SalesforceConfig) => Promise<void>;
+  syncRuns?: SyncRun[];
+  onResolveConflict?: (run: SyncRun, conflict: SyncConflict, choice: 'local' | 'remote') => Promise<void>;
+  failedPushes?: SalesforceOutboxEntry[];
+  onRetryPush?: (entry: SalesforceOutboxEntry) => Promise<void>;
+  onDiscardPush?: (entry: SalesforceOutboxEntry) => Promise<void>;
   onClose: () => void;
 }
 
+// The popup returns to the app itself; add this URL to the connected app's callback URLs
+const getRedirectUri = () => `${window.location.origin}/`;
+
 const SalesforceIntegration: React.FC<SalesforceIntegrationProps> = ({ 
   config, 
   customFields, 
   clients = [],
   onConfigUpdate, 
+  onSync,
+  syncRuns = [],
+  onResolveConflict,
+  failedPushes = [],
+  onRetryPush,
+  onDiscardPush,
   onClose 
 }) => {
-  const [localConfig, setLocalConfig] = useState<SalesforceConfig>(config);
-  const [activeTab, setActiveTab] = useState<'setup' | 'quicklinks' | 'export' | 'mapping'>('setup');
+  const [localConfig, setLocalConfig] = useState<SalesforceConfig>(() => ({
+    ...config,
+    fieldMappings: Object.keys(config.fieldMappings).length > 0 ? config.fieldMappings : DEFAULT_FIELD_MAPPINGS,
+  }));
+  const [activeTab, setActiveTab] = useState<'setup' | 'sync' | 'history' | 'quicklinks' | 'export' | 'mapping'>('setup');
+  const [isConnecting, setIsConnecting] = useState(false);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [syncError, setSyncError] = useState('');
   const [instanceUrl, setInstanceUrl] = useState(config.instanceUrl || '');
   const [urlError, setUrlError] = useState('');
   const [exportFormat, setExportFormat] = useState<'contact' | 'lead' | 'account'>('contact');
   const [exportSuccess, setExportSuccess] = useState(false);
   const [copiedLink, setCopiedLink] = useState<string | null>(null);
 
+  // A sync run from here moves the cursor and may refresh the tokens
+  useEffect(() => {
+    setLocalConfig(prev => ({ ...prev, lastSync: config.lastSync, syncCursors: config.syncCursors, tokens: config.tokens }));
+  }, [config.lastSync, config.syncCursors, config.tokens]);
+
   const salesforceFields = [
     { key: 'Name', label: 'Name' },
     { key: 'Account.Name', label: 'Account Name' },
@@ -284,6 +313,53 @@ const SalesforceIntegration: React.FC<SalesforceIntegrationProps> = ({
     }));
   };
 
+  const handleConnect = async () => {
+    if (!localConfig.clientId?.trim()) {
+      setSyncError('Enter the consumer key of your connected app');
+      return;
+    }
+    setIsConnecting(true);
+    setSyncError('');
+    try {
+      const tokens = await authorizeInPopup({
+        clientId: localConfig.clientId.trim(),
+        loginUrl: localConfig.loginUrl,
+        redirectUri: getRedirectUri(),
+      });
+      const next: SalesforceConfig = {
+        ...localConfig,
+        clientId: localConfig.clientId.trim(),
+        connected: true,
+        instanceUrl: localConfig.instanceUrl || tokens.instanceUrl,
+        tokens,
+      };
+      setLocalConfig(next);
+      setInstanceUrl(next.instanceUrl || '');
+      onConfigUpdate(next);
+    } catch (err) {
+      setSyncError(err instanceof Error ? err.message : 'Could not connect to Salesforce');
+    } finally {
+      setIsConnecting(false);
+    }
+  };
+
+  const handleDisconnect = () => {
+    const next = { ...localConfig, tokens: undefined, syncCursors: undefined };
+    setLocalConfig(next);
+    onConfigUpdate(next);
+  };
+
+  const handleSync = async () => {
+    if (!onSync) return;
+    setIsSyncing(true);
+    setSyncError('');
+    try {
+      await onSync(localConfig);
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
   const handleSave = () => {
     onConfigUpdate(localConfig);
     onClose();
@@ -303,7 +379,7 @@ const SalesforceIntegration: React.FC<SalesforceIntegrationProps> = ({
               </div>
               <div>
                 <h2 className="text-xl font-bold text-white">Salesforce Integration</h2>
-                <p className="text-blue-100 text-sm">Quick links & data export for Salesforce</p>
+                <p className="text-blue-100 text-sm">Quick links, API sync & data export for Salesforce</p>
               </div>
             </div>
             <button
@@ -320,6 +396,8 @@ const SalesforceIntegration: React.FC<SalesforceIntegrationProps> = ({
           <div className="flex space-x-1 mt-6 bg-blue-800/50 rounded-lg p-1">
             {[
               { key: 'setup', label: 'Setup', icon: 'M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z' },
+              { key: 'sync', label: 'API Sync', icon: 'M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15' },
+              { key: 'history', label: 'History', icon: 'M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z' },
               { key: 'quicklinks', label: 'Quick Links', icon: 'M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1' },
               { key: 'export', label: 'Export Data', icon: 'M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12' },
               { key: 'mapping', label: 'Field Mapping', icon: 'M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4' },
@@ -353,10 +431,10 @@ const SalesforceIntegration: React.FC<SalesforceIntegrationProps> = ({
                     </svg>
                   </div>
                   <div>
-                    <h4 className="font-semibold text-blue-900 mb-1">One-Way Salesforce Integration</h4>
+                    <h4 className="font-semibold text-blue-900 mb-1">Salesforce Integration</h4>
                     <p className="text-sm text-blue-700">
-                      This integration provides quick links to open Salesforce pages and export your data in Salesforce-compatible formats. 
-                      No API credentials required - simply enter your Salesforce URL to enable deep linking.
+                      Enter your Salesforce URL to open Salesforce pages with quick links and export your data in Salesforce-compatible formats.
+                      To keep clients and meetings in sync through the Salesforce API, connect a connected app in the API Sync tab.
                     </p>
                   </div>
                 </div>
@@ -480,6 +558,133 @@ const SalesforceIntegration: React.FC<SalesforceIntegrationProps> = ({
             </div>
           )}
 
+          {activeTab === 'sync' && (
+            <div className="space-y-6">
+              <div className="bg-white rounded-xl border border-gray-200 p-5 space-y-4">
+                <h3 className="font-semibold text-gray-900">Connected App</h3>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label htmlFor="sf-client-id" className="block text-sm font-medium text-gray-700 mb-1">Consumer Key</label>
+                    <input
+                      id="sf-client-id"
+                      type="text"
+                      value={localConfig.clientId || ''}
+                      onChange={(e) => setLocalConfig(prev => ({ ...prev, clientId: e.target.value }))}
+                      disabled={!!localConfig.tokens}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-50"
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="sf-login-url" className="block text-sm font-medium text-gray-700 mb-1">Login URL</label>
+                    <input
+                      id="sf-login-url"
+                      type="text"
+                      value={localConfig.loginUrl || ''}
+                      onChange={(e) => setLocalConfig(prev => ({ ...prev, loginUrl: e.target.value.trim() || undefined }))}
+                      placeholder={DEFAULT_LOGIN_URL}
+                      disabled={!!localConfig.tokens}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-50"
+                    />
+                  </div>
+                </div>
+                <p className="text-sm text-gray-500">
+                  The connected app needs OAuth with PKCE, the <code className="bg-gray-100 px-1 rounded">api</code> and{' '}
+                  <code className="bg-gray-100 px-1 rounded">refresh_token</code> scopes, the callback URL{' '}
+                  <code className="bg-gray-100 px-1 rounded">{getRedirectUri()}</code>, and this site in the CORS allowlist.
+                </p>
+                {localConfig.tokens ? (
+                  <div className="flex items-center justify-between p-4 bg-green-50 rounded-lg border border-green-200">
+                    <div>
+                      <p className="font-medium text-green-900">API connected</p>
+                      <p className="text-sm text-green-700">{localConfig.tokens.instanceUrl}</p>
+                    </div>
+                    <button
+                      onClick={handleDisconnect}
+                      className="px-3 py-1.5 text-sm font-medium text-red-600 bg-red-50 rounded-lg hover:bg-red-100 transition-colors"
+                    >
+                      Disconnect
+                    </button>
+                  </div>
+                ) : (
+                  <button
+                    onClick={handleConnect}
+                    disabled={isConnecting}
+                    className="px-5 py-2.5 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                  >
+                    {isConnecting ? 'Waiting for Salesforce...' : 'Connect to Salesforce'}
+                  </button>
+                )}
+              </div>
+
+              <div className="bg-white rounded-xl border border-gray-200 p-5 space-y-4">
+                <h3 className="font-semibold text-gray-900">Sync</h3>
+                <div>
+                  <label htmlFor="sf-direction" className="block text-sm font-medium text-gray-700 mb-1">Direction</label>
+                  <select
+                    id="sf-direction"
+                    value={localConfig.syncDirection}
+                    onChange={(e) => setLocalConfig(prev => ({ ...prev, syncDirection: e.target.value as SalesforceConfig['syncDirection'] }))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    <option value="import">Import from Salesforce</option>
+                    <option value="export">Export to Salesforce</option>
+                    <option value="bidirectional">Both ways</option>
+                  </select>
+                </div>
+                {localConfig.syncDirection === 'bidirectional' && (
+                  <div>
+                    <label htmlFor="sf-conflicts" className="block text-sm font-medium text-gray-700 mb-1">When a field changed on both sides</label>
+                    <select
+                      id="sf-conflicts"
+                      value={localConfig.conflictPolicy || 'remote'}
+                      onChange={(e) => setLocalConfig(prev => ({ ...prev, conflictPolicy: e.target.value as SalesforceConfig['conflictPolicy'] }))}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    >
+                      <option value="remote">Salesforce wins</option>
+                      <option value="local">Local wins</option>
+                      <option value="ask">Ask me in the sync history</option>
+                    </select>
+                  </div>
+                )}
+                <p className="text-sm text-gray-600">
+                  Contacts and Accounts become clients and Events become meetings, using the field mapping. Each sync
+                  only reads records changed since the last one, and only the fields each side changed are copied.
+                </p>
+                <div className="flex items-center justify-between">
+                  <p className="text-sm text-gray-500">
+                    {localConfig.lastSync ? `Last synced ${new Date(localConfig.lastSync).toLocaleString()}` : 'Not synced yet'}
+                  </p>
+                  <button
+                    onClick={handleSync}
+                    disabled={!localConfig.tokens || !onSync || isSyncing}
+                    className={`px-5 py-2.5 text-sm font-medium rounded-lg transition-colors ${
+                      localConfig.tokens && onSync && !isSyncing
+                        ? 'bg-blue-600 text-white hover:bg-blue-700'
+                        : 'bg-gray-100 text-gray-400 cursor-not-allowed'
+                    }`}
+                  >
+                    {isSyncing ? 'Syncing...' : 'Sync Now'}
+                  </button>
+                </div>
+              </div>
+
+              {syncError && (
+                <p className="text-sm text-red-600 p-3 bg-red-50 rounded-lg border border-red-200">{syncError}</p>
+              )}
+            </div>
+          )}
+
+          {activeTab === 'history' && (
+            <div className="space-y-6">
+              <FailedPushes
+                entries={failedPushes}
+                onRetry={localConfig.tokens ? onRetryPush : undefined}
+                onDiscard={onDiscardPush}
+              />
+              <SyncHistory runs={syncRuns} onResolve={localConfig.tokens ? onResolveConflict : undefined} />
+            </div>
+          )}
+
           {activeTab === 'quicklinks' && (
             <div className="space-y-6">
               {!localConfig.connected ? (
@@ -751,7 +956,7 @@ const SalesforceIntegration: React.FC<SalesforceIntegrationProps> = ({
           {activeTab === 'mapping' && (
             <div className="space-y-4">
               <p className="text-sm text-gray-600 mb-4">
-                Configure how your local client fields map to Salesforce fields. This mapping is used when exporting data.
+                Configure how your local client fields map to Salesforce Contact fields. This mapping is used by API sync and when exporting data.
               </p>
               
               <div className="space-y-3">
@@ -0,0 +1,179 @@
+import React, { useState } from 'react';
+import { SyncConflict, SyncRun, SyncValue } from '@/types';
+
+interface SyncHistoryProps {
+  runs: SyncRun[];
+  onResolve?: (run: SyncRun, conflict: SyncConflict, choice: 'local' | 'remote') => Promise<void>;
+}
+
+const DIRECTION_LABELS: Record<SyncRun['direction'], string> = {
+  import: 'Import',
+  export: 'Export',
+  bidirectional: 'Both ways',
+};
+
+const POLICY_LABELS: Record<SyncRun['conflictPolicy'], string> = {
+  local: 'local wins',
+  remote: 'Salesforce wins',
+  ask: 'ask',
+};
+
+const formatValue = (value: SyncValue | undefined) =>
+  value === null || value === undefined || value === '' ? '(empty)' : String(value);
+
+const SyncHistory: React.FC<SyncHistoryProps> = ({ runs, onResolve }) => {
+  const [expandedId, setExpandedId] = useState<string | null>(runs[0]?.id ?? null);
+  const [resolving, setResolving] = useState<SyncConflict | null>(null);
+
+  const handleResolve = async (run: SyncRun, conflict: SyncConflict, choice: 'local' | 'remote') => {
+    if (!onResolve) return;
+    setResolving(conflict);
+    try {
+      await onResolve(run, conflict, choice);
+    } finally {
+      setResolving(null);
+    }
+  };
+
+  if (runs.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-gray-900 font-medium">No syncs yet</p>
+        <p className="text-sm text-gray-500">Every change and conflict of each API sync is listed here.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {runs.map(run => {
+        const expanded = expandedId === run.id;
+        const waiting = run.conflicts.filter(c => c.resolution === 'pending').length;
+        return (
+          <div key={run.id} className="border border-gray-200 rounded-xl overflow-hidden">
+            <button
+              onClick={() => setExpandedId(expanded ? null : run.id)}
+              className="w-full px-4 py-3 bg-gray-50 flex items-center justify-between text-left hover:bg-gray-100 transition-colors"
+            >
+              <div>
+                <p className="font-medium text-gray-900">{new Date(run.startedAt).toLocaleString()}</p>
+                <p className="text-xs text-gray-500">
+                  {DIRECTION_LABELS[run.direction]}
+                  {run.direction === 'bidirectional' && ` · conflicts: ${POLICY_LABELS[run.conflictPolicy]}`}
+                </p>
+              </div>
+              <div className="flex items-center flex-wrap justify-end gap-2 text-xs">
+                <span className="px-2 py-0.5 rounded-full bg-blue-50 text-blue-700">{run.changes.length} changes</span>
+                {run.conflicts.length > 0 && (
+                  <span className={`px-2 py-0.5 rounded-full ${waiting > 0 ? 'bg-amber-100 text-amber-700' : 'bg-gray-100 text-gray-600'}`}>
+                    {run.conflicts.length} conflicts{waiting > 0 && `, ${waiting} to decide`}
+                  </span>
+                )}
+                {run.errors.length > 0 && (
+                  <span className="px-2 py-0.5 rounded-full bg-red-100 text-red-700">{run.errors.length} errors</span>
+                )}
+              </div>
+            </button>
+
+            {expanded && (
+              <div className="p-4 space-y-4 text-sm">
+                {run.conflicts.length > 0 && (
+                  <div>
+                    <h4 className="font-medium text-gray-900 mb-2">Conflicts</h4>
+                    <div className="space-y-2">
+                      {run.conflicts.map((conflict, index) => (
+                        <div key={index} className="p-3 rounded-lg border border-amber-200 bg-amber-50">
+                          <div className="flex items-center justify-between flex-wrap gap-2">
+                            <p className="font-medium text-gray-900">
+                              {conflict.label} <span className="font-normal text-gray-500">· {conflict.field}</span>
+                            </p>
+                            {conflict.resolution === 'pending' ? (
+                              <div className="flex items-center space-x-2">
+                                <button
+                                  onClick={() => handleResolve(run, conflict, 'local')}
+                                  disabled={!onResolve || resolving !== null}
+                                  className="px-3 py-1 text-xs font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+                                >
+                                  Keep Local
+                                </button>
+                                <button
+                                  onClick={() => handleResolve(run, conflict, 'remote')}
+                                  disabled={!onResolve || resolving !== null}
+                                  className="px-3 py-1 text-xs font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50"
+                                >
+                                  Use Salesforce
+                                </button>
+                              </div>
+                            ) : (
+                              <span className="text-xs text-gray-600">
+                                Kept the {conflict.resolution === 'local' ? 'local' : 'Salesforce'} value
+                              </span>
+                            )}
+                          </div>
+                          <div className="grid grid-cols-1 md:grid-cols-3 gap-2 mt-2 text-xs text-gray-600">
+                            <p>Last synced: {conflict.base === undefined ? 'unknown' : formatValue(conflict.base)}</p>
+                            <p>Local: <span className="text-gray-900">{formatValue(conflict.local)}</span></p>
+                            <p>Salesforce: <span className="text-gray-900">{formatValue(conflict.remote)}</span></p>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {run.changes.length > 0 && (
+                  <div>
+                    <h4 className="font-medium text-gray-900 mb-2">Changes</h4>
+                    <table className="w-full text-xs">
+                      <thead>
+                        <tr className="border-b border-gray-200 text-left text-gray-500">
+                          <th className="py-1.5 pr-3 font-medium">Record</th>
+                          <th className="py-1.5 pr-3 font-medium">Field</th>
+                          <th className="py-1.5 pr-3 font-medium">Change</th>
+                          <th className="py-1.5 font-medium">Direction</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {run.changes.map((change, index) => (
+                          <tr key={index} className="border-b border-gray-100 align-top">
+                            <td className="py-1.5 pr-3 text-gray-900">
+                              {change.label} <span className="text-gray-400">({change.recordType})</span>
+                            </td>
+                            <td className="py-1.5 pr-3 text-gray-700">{change.field || '—'}</td>
+                            <td className="py-1.5 pr-3 text-gray-700">
+                              {change.action === 'created'
+                                ? 'Created'
+                                : `${formatValue(change.from)} → ${formatValue(change.to)}`}
+                            </td>
+                            <td className="py-1.5 text-gray-500">
+                              {change.direction === 'import' ? 'From Salesforce' : 'To Salesforce'}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+
+                {run.errors.length > 0 && (
+                  <div>
+                    <h4 className="font-medium text-gray-900 mb-2">Errors</h4>
+                    <ul className="space-y-1 text-xs text-red-700">
+                      {run.errors.map((error, index) => <li key={index}>{error}</li>)}
+                    </ul>
+                  </div>
+                )}
+
+                {run.changes.length === 0 && run.conflicts.length === 0 && run.errors.length === 0 && (
+                  <p className="text-gray-500">Nothing had changed.</p>
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default SyncHistory;
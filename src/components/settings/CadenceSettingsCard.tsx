@@ -0,0 +1,202 @@
+import React, { useState, useMemo } from 'react';
+import { CadenceRule, Client } from '@/types';
+import { describeCadenceRule } from '@/lib/cadence';
+
+interface CadenceSettingsCardProps {
+  rules: CadenceRule[];
+  clients: Client[];
+  onAdd: (rule: CadenceRule) => void;
+  onDelete: (ruleId: string) => void;
+}
+
+const emptyForm = { target: 'tag' as 'tag' | 'client', tag: '', clientId: '', intervalDays: '14' };
+
+const CadenceSettingsCard: React.FC<CadenceSettingsCardProps> = ({ rules, clients, onAdd, onDelete }) => {
+  const [showForm, setShowForm] = useState(false);
+  const [formData, setFormData] = useState(emptyForm);
+  const [error, setError] = useState('');
+
+  const availableTags = useMemo(() => {
+    const tags = new Set<string>();
+    clients.forEach(c => c.tags.forEach(t => tags.add(t)));
+    return Array.from(tags).sort();
+  }, [clients]);
+
+  const sortedClients = useMemo(
+    () => [...clients].sort((a, b) => a.company.localeCompare(b.company)),
+    [clients]
+  );
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const intervalDays = parseInt(formData.intervalDays);
+    if (formData.target === 'tag' && !formData.tag) {
+      setError('Choose the tag this cadence applies to');
+      return;
+    }
+    if (formData.target === 'client' && !formData.clientId) {
+      setError('Choose the client this cadence applies to');
+      return;
+    }
+    if (isNaN(intervalDays) || intervalDays < 1) {
+      setError('Visit every 1 day or more');
+      return;
+    }
+    const duplicate = rules.some(r => formData.target === 'tag'
+      ? !r.clientId && r.tag === formData.tag
+      : r.clientId === formData.clientId);
+    if (duplicate) {
+      setError('There is already a cadence for that. Delete it first to change the interval.');
+      return;
+    }
+
+    onAdd({
+      id: crypto.randomUUID(),
+      tag: formData.target === 'tag' ? formData.tag : undefined,
+      clientId: formData.target === 'client' ? formData.clientId : undefined,
+      intervalDays,
+    });
+    setFormData(emptyForm);
+    setError('');
+    setShowForm(false);
+  };
+
+  const tagRules = rules.filter(r => !r.clientId);
+  const clientRules = rules.filter(r => r.clientId);
+
+  const renderRule = (rule: CadenceRule) => (
+    <div key={rule.id} className="flex items-center justify-between p-4 bg-gray-50 rounded-xl">
+      <div className="min-w-0">
+        <p className="font-medium text-gray-900 truncate">{describeCadenceRule(rule, clients)}</p>
+        <p className="text-sm text-gray-500">{rule.clientId ? 'Client' : 'Tag'}</p>
+      </div>
+      <button
+        onClick={() => onDelete(rule.id)}
+        className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+        title="Delete cadence"
+      >
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+        </svg>
+      </button>
+    </div>
+  );
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 shadow-sm">
+      <div className="p-6 border-b border-gray-200 flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-bold text-gray-900">Visit Cadence</h3>
+          <p className="text-sm text-gray-500 mt-1">How often clients should be visited, by tag or for one client</p>
+        </div>
+        {!showForm && (
+          <button
+            onClick={() => setShowForm(true)}
+            className="px-4 py-2 text-sm font-medium text-blue-700 bg-blue-50 rounded-lg hover:bg-blue-100 transition-colors"
+          >
+            Add Cadence
+          </button>
+        )}
+      </div>
+      <div className="p-6 space-y-3">
+        {rules.length === 0 && !showForm && (
+          <p className="text-sm text-gray-500">
+            No cadences yet. Add one, e.g. clients tagged Enterprise every 14 days, to see who is due for a visit.
+          </p>
+        )}
+
+        {tagRules.map(renderRule)}
+        {clientRules.map(renderRule)}
+
+        {rules.length > 0 && (
+          <p className="text-xs text-gray-500">
+            A client's own cadence wins over its tags. With several tagged cadences the shortest applies.
+          </p>
+        )}
+
+        {showForm && (
+          <form onSubmit={handleSubmit} className="space-y-4 p-4 border border-gray-200 rounded-xl">
+            <div className="flex space-x-2">
+              {(['tag', 'client'] as const).map(target => (
+                <button
+                  key={target}
+                  type="button"
+                  onClick={() => setFormData(prev => ({ ...prev, target }))}
+                  className={`px-3 py-1.5 text-sm font-medium rounded-lg transition-colors ${
+                    formData.target === target ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                  }`}
+                >
+                  {target === 'tag' ? 'By Tag' : 'One Client'}
+                </button>
+              ))}
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  {formData.target === 'tag' ? 'Tag' : 'Client'}
+                </label>
+                {formData.target === 'tag' ? (
+                  <select
+                    value={formData.tag}
+                    onChange={(e) => setFormData(prev => ({ ...prev, tag: e.target.value }))}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    <option value="">Select a tag</option>
+                    {availableTags.map(tag => (
+                      <option key={tag} value={tag}>{tag}</option>
+                    ))}
+                  </select>
+                ) : (
+                  <select
+                    value={formData.clientId}
+                    onChange={(e) => setFormData(prev => ({ ...prev, clientId: e.target.value }))}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    <option value="">Select a client</option>
+                    {sortedClients.map(client => (
+                      <option key={client.id} value={client.id}>{client.company || client.name}</option>
+                    ))}
+                  </select>
+                )}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Visit Every (days)</label>
+                <input
+                  type="number"
+                  min="1"
+                  value={formData.intervalDays}
+                  onChange={(e) => setFormData(prev => ({ ...prev, intervalDays: e.target.value }))}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+            </div>
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+
+            <div className="flex justify-end space-x-2">
+              <button
+                type="button"
+                onClick={() => {
+                  setShowForm(false);
+                  setFormData(emptyForm);
+                  setError('');
+                }}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors"
+              >
+                Save Cadence
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CadenceSettingsCard;
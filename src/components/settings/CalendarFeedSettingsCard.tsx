@@ -0,0 +1,133 @@
+import React, { useState } from 'react';
+import { CalendarFeedSettings } from '@/types';
+import { toWebcalUrl } from '@/lib/ical';
+
+interface CalendarFeedSettingsCardProps {
+  feed: CalendarFeedSettings | null;
+  onEnable: () => void;
+  onRegenerate: () => void;
+  onDisable: () => void;
+}
+
+const CalendarFeedSettingsCard: React.FC<CalendarFeedSettingsCardProps> = ({ feed, onEnable, onRegenerate, onDisable }) => {
+  const [copied, setCopied] = useState(false);
+  const [confirmRegenerate, setConfirmRegenerate] = useState(false);
+
+  const handleCopy = async () => {
+    if (!feed?.url) return;
+    try {
+      await navigator.clipboard.writeText(feed.url);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy feed URL:', err);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 shadow-sm">
+      <div className="p-6 border-b border-gray-200 flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-bold text-gray-900">Calendar Feed</h3>
+          <p className="text-sm text-gray-500 mt-1">Subscribe to your meetings from Google Calendar, Outlook or Apple Calendar</p>
+        </div>
+        {!feed && (
+          <button
+            onClick={onEnable}
+            className="px-4 py-2 text-sm font-medium text-blue-700 bg-blue-50 rounded-lg hover:bg-blue-100 transition-colors"
+          >
+            Create Feed
+          </button>
+        )}
+      </div>
+      <div className="p-6 space-y-4">
+        {!feed ? (
+          <p className="text-sm text-gray-500">
+            No feed yet. Create one to get a private link your calendar app can subscribe to. It updates as your meetings change.
+          </p>
+        ) : (
+          <>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Feed URL</label>
+              <div className="flex space-x-2">
+                <input
+                  type="text"
+                  readOnly
+                  value={feed.url || ''}
+                  onFocus={(e) => e.target.select()}
+                  className="flex-1 min-w-0 px-4 py-2 text-sm border border-gray-300 rounded-lg bg-gray-50 text-gray-700"
+                />
+                <button
+                  onClick={handleCopy}
+                  disabled={!feed.url}
+                  className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
+                >
+                  {copied ? 'Copied' : 'Copy'}
+                </button>
+              </div>
+              <p className="text-xs text-gray-500 mt-1">
+                Anyone with this link can see your meetings. Calendar apps check it for changes about once an hour.
+              </p>
+            </div>
+
+            {feed.lastPublished && (
+              <p className="text-sm text-gray-600">
+                Last updated {new Date(feed.lastPublished).toLocaleString()}
+              </p>
+            )}
+
+            <div className="flex flex-wrap gap-2">
+              {feed.url && (
+                <a
+                  href={toWebcalUrl(feed.url)}
+                  className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors"
+                >
+                  Subscribe
+                </a>
+              )}
+              {confirmRegenerate ? (
+                <>
+                  <button
+                    onClick={() => {
+                      setConfirmRegenerate(false);
+                      onRegenerate();
+                    }}
+                    className="px-4 py-2 text-sm font-medium text-white bg-amber-600 rounded-lg hover:bg-amber-700 transition-colors"
+                  >
+                    Confirm New Link
+                  </button>
+                  <button
+                    onClick={() => setConfirmRegenerate(false)}
+                    className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+                  >
+                    Cancel
+                  </button>
+                </>
+              ) : (
+                <button
+                  onClick={() => setConfirmRegenerate(true)}
+                  className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+                >
+                  New Link
+                </button>
+              )}
+              <button
+                onClick={onDisable}
+                className="px-4 py-2 text-sm font-medium text-red-700 bg-red-50 rounded-lg hover:bg-red-100 transition-colors"
+              >
+                Turn Off
+              </button>
+            </div>
+            {confirmRegenerate && (
+              <p className="text-xs text-amber-700">
+                Existing subscriptions stop updating and will need the new link.
+              </p>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CalendarFeedSettingsCard;
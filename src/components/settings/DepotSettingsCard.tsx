@@ -0,0 +1,176 @@
+import React, { useState } from 'react';
+import { Depot } from '@/types';
+
+interface DepotSettingsCardProps {
+  depots: Depot[];
+  onAdd: (depot: Depot) => void;
+  onDelete: (depotId: string) => void;
+  onSetDefault: (depotId: string) => void;
+}
+
+const emptyForm = { name: '', address: '', latitude: '', longitude: '' };
+
+const DepotSettingsCard: React.FC<DepotSettingsCardProps> = ({ depots, onAdd, onDelete, onSetDefault }) => {
+  const [showForm, setShowForm] = useState(false);
+  const [formData, setFormData] = useState(emptyForm);
+  const [error, setError] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const latitude = parseFloat(formData.latitude);
+    const longitude = parseFloat(formData.longitude);
+    if (!formData.name.trim()) {
+      setError('Give the depot a name, e.g. Home or Office');
+      return;
+    }
+    if (isNaN(latitude) || isNaN(longitude) || Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+      setError('Enter a valid latitude and longitude');
+      return;
+    }
+
+    onAdd({
+      id: crypto.randomUUID(),
+      name: formData.name.trim(),
+      address: formData.address.trim(),
+      latitude,
+      longitude,
+      isDefault: depots.length === 0,
+    });
+    setFormData(emptyForm);
+    setError('');
+    setShowForm(false);
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 shadow-sm">
+      <div className="p-6 border-b border-gray-200 flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-bold text-gray-900">Depots</h3>
+          <p className="text-sm text-gray-500 mt-1">Places your routes start and finish, like home or the office</p>
+        </div>
+        {!showForm && (
+          <button
+            onClick={() => setShowForm(true)}
+            className="px-4 py-2 text-sm font-medium text-blue-700 bg-blue-50 rounded-lg hover:bg-blue-100 transition-colors"
+          >
+            Add Depot
+          </button>
+        )}
+      </div>
+      <div className="p-6 space-y-3">
+        {depots.length === 0 && !showForm && (
+          <p className="text-sm text-gray-500">
+            No depots yet. Routes start at the first meeting and finish at the last one.
+          </p>
+        )}
+
+        {depots.map(depot => (
+          <div key={depot.id} className="flex items-center justify-between p-4 bg-gray-50 rounded-xl">
+            <div className="min-w-0">
+              <div className="flex items-center space-x-2">
+                <p className="font-medium text-gray-900 truncate">{depot.name}</p>
+                {depot.isDefault && (
+                  <span className="px-2 py-0.5 text-xs font-medium bg-green-100 text-green-700 rounded-full">
+                    Default
+                  </span>
+                )}
+              </div>
+              <p className="text-sm text-gray-500 truncate">
+                {depot.address || `${depot.latitude.toFixed(5)}, ${depot.longitude.toFixed(5)}`}
+              </p>
+            </div>
+            <div className="flex items-center space-x-2 flex-shrink-0">
+              {!depot.isDefault && (
+                <button
+                  onClick={() => onSetDefault(depot.id)}
+                  className="px-3 py-1.5 text-sm text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                >
+                  Make Default
+                </button>
+              )}
+              <button
+                onClick={() => onDelete(depot.id)}
+                className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                title="Delete depot"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                </svg>
+              </button>
+            </div>
+          </div>
+        ))}
+
+        {showForm && (
+          <form onSubmit={handleSubmit} className="space-y-4 p-4 border border-gray-200 rounded-xl">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+                <input
+                  type="text"
+                  value={formData.name}
+                  onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                  placeholder="Home"
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Address</label>
+                <input
+                  type="text"
+                  value={formData.address}
+                  onChange={(e) => setFormData(prev => ({ ...prev, address: e.target.value }))}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Latitude</label>
+                <input
+                  type="number"
+                  step="any"
+                  value={formData.latitude}
+                  onChange={(e) => setFormData(prev => ({ ...prev, latitude: e.target.value }))}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Longitude</label>
+                <input
+                  type="number"
+                  step="any"
+                  value={formData.longitude}
+                  onChange={(e) => setFormData(prev => ({ ...prev, longitude: e.target.value }))}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+            </div>
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+
+            <div className="flex justify-end space-x-2">
+              <button
+                type="button"
+                onClick={() => {
+                  setShowForm(false);
+                  setFormData(emptyForm);
+                  setError('');
+                }}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors"
+              >
+                Save Depot
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DepotSettingsCard;
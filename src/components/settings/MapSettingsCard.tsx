@@ -0,0 +1,100 @@
+import React, { useState, useEffect } from 'react';
+import { MapSettings } from '@/types';
+import { DEFAULT_MAP_SETTINGS } from '@/lib/map';
+
+interface MapSettingsCardProps {
+  settings: MapSettings;
+  onSave: (settings: MapSettings) => void;
+}
+
+const MapSettingsCard: React.FC<MapSettingsCardProps> = ({ settings, onSave }) => {
+  const [formData, setFormData] = useState<MapSettings>(settings);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    setFormData(settings);
+  }, [settings]);
+
+  const handleSave = () => {
+    const template = formData.tileUrlTemplate.trim();
+    if (!['{z}', '{x}', '{y}'].every(part => template.includes(part))) {
+      setError('The tile URL must contain {z}, {x} and {y}');
+      return;
+    }
+    try {
+      new URL(template.replace('{s}', 'a'));
+    } catch {
+      setError('Enter the full tile URL, e.g. https://tile.openstreetmap.org/{z}/{x}/{y}.png');
+      return;
+    }
+    if (!Number.isInteger(formData.maxZoom) || formData.maxZoom < 1 || formData.maxZoom > 22) {
+      setError('Max zoom must be a whole number between 1 and 22');
+      return;
+    }
+    setError('');
+    onSave({ ...formData, tileUrlTemplate: template });
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 shadow-sm">
+      <div className="p-6 border-b border-gray-200">
+        <h3 className="text-lg font-bold text-gray-900">Map Tiles</h3>
+        <p className="text-sm text-gray-500 mt-1">The tile server the route map loads its background from</p>
+      </div>
+      <div className="p-6 space-y-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Tile URL</label>
+          <input
+            type="text"
+            value={formData.tileUrlTemplate}
+            onChange={(e) => setFormData(prev => ({ ...prev, tileUrlTemplate: e.target.value }))}
+            placeholder={DEFAULT_MAP_SETTINGS.tileUrlTemplate}
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+          <p className="text-xs text-gray-500 mt-1">Use {'{z}'}, {'{x}'} and {'{y}'} for the tile, and {'{s}'} for a subdomain.</p>
+        </div>
+        <div className="grid grid-cols-3 gap-4">
+          <div className="col-span-2">
+            <label className="block text-sm font-medium text-gray-700 mb-1">Attribution</label>
+            <input
+              type="text"
+              value={formData.attribution}
+              onChange={(e) => setFormData(prev => ({ ...prev, attribution: e.target.value }))}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Max Zoom</label>
+            <input
+              type="number"
+              min="1"
+              max="22"
+              value={formData.maxZoom}
+              onChange={(e) => setFormData(prev => ({ ...prev, maxZoom: parseInt(e.target.value) }))}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+        </div>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <div className="flex justify-between">
+          <button
+            onClick={() => setFormData(DEFAULT_MAP_SETTINGS)}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+          >
+            Use OpenStreetMap
+          </button>
+          <button
+            onClick={handleSave}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            Save Map Tiles
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MapSettingsCard;
@@ -0,0 +1,128 @@
+import React, { useState, useEffect } from 'react';
+import { Client, Territory } from '@/types';
+import { buildTerritories } from '@/lib/territories';
+
+interface TerritorySettingsCardProps {
+  territories: Territory[];
+  clients: Client[];
+  onSave: (territories: Territory[]) => void;
+}
+
+const TerritorySettingsCard: React.FC<TerritorySettingsCardProps> = ({ territories, clients, onSave }) => {
+  const [draft, setDraft] = useState<Territory[]>(territories);
+  const [count, setCount] = useState(Math.max(territories.length, 3));
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    setDraft(territories);
+  }, [territories]);
+
+  const locatedCount = clients.filter(c => c.geocodeConfidence !== 'none').length;
+  const isDirty = draft !== territories;
+
+  const handleGenerate = () => {
+    if (!Number.isInteger(count) || count < 1) {
+      setError('Enter how many territories you want');
+      return;
+    }
+    if (locatedCount < count) {
+      setError(`Only ${locatedCount} client${locatedCount !== 1 ? 's have' : ' has'} a known location`);
+      return;
+    }
+    setError('');
+    setDraft(buildTerritories(clients, count));
+  };
+
+  const handleSave = () => {
+    if (draft.some(t => !t.name.trim())) {
+      setError('Every territory needs a name');
+      return;
+    }
+    setError('');
+    onSave(draft.map(t => ({ ...t, name: t.name.trim() })));
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 shadow-sm">
+      <div className="p-6 border-b border-gray-200">
+        <h3 className="text-lg font-bold text-gray-900">Territories</h3>
+        <p className="text-sm text-gray-500 mt-1">Group nearby clients into territories of similar size</p>
+      </div>
+      <div className="p-6 space-y-4">
+        <div className="flex items-end space-x-3">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Number of Territories</label>
+            <input
+              type="number"
+              min="1"
+              max="20"
+              value={count}
+              onChange={(e) => setCount(parseInt(e.target.value))}
+              className="w-32 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+          <button
+            onClick={handleGenerate}
+            className="px-4 py-2 text-sm font-medium text-blue-700 bg-blue-50 rounded-lg hover:bg-blue-100 transition-colors"
+          >
+            {territories.length > 0 ? 'Regenerate' : 'Generate'}
+          </button>
+        </div>
+
+        {draft.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            No territories yet. Generate them from the {locatedCount} client{locatedCount !== 1 ? 's' : ''} with a known location.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {draft.map(territory => (
+              <div key={territory.id} className="flex items-center space-x-3 p-3 bg-gray-50 rounded-xl">
+                <span className="w-4 h-4 rounded-full flex-shrink-0" style={{ backgroundColor: territory.color }} />
+                <input
+                  type="text"
+                  value={territory.name}
+                  onChange={(e) => setDraft(prev => prev.map(t => t.id === territory.id ? { ...t, name: e.target.value } : t))}
+                  className="flex-1 px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+                <span className="text-sm text-gray-500 flex-shrink-0">
+                  {territory.clientIds.length} client{territory.clientIds.length !== 1 ? 's' : ''}
+                </span>
+                <button
+                  onClick={() => setDraft(prev => prev.filter(t => t.id !== territory.id))}
+                  className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                  title="Remove territory"
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                  </svg>
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <div className="flex justify-end space-x-2">
+          {isDirty && (
+            <button
+              onClick={() => setDraft(territories)}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+            >
+              Discard
+            </button>
+          )}
+          <button
+            onClick={handleSave}
+            disabled={!isDirty}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Save Territories
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TerritorySettingsCard;
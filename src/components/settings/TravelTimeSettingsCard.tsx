@@ -0,0 +1,106 @@
+import React, { useState, useEffect } from 'react';
+import { TravelTimeSettings } from '@/types';
+
+interface TravelTimeSettingsCardProps {
+  settings: TravelTimeSettings;
+  onSave: (settings: TravelTimeSettings) => void;
+}
+
+const TravelTimeSettingsCard: React.FC<TravelTimeSettingsCardProps> = ({ settings, onSave }) => {
+  const [formData, setFormData] = useState<TravelTimeSettings>(settings);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    setFormData(settings);
+  }, [settings]);
+
+  const handleSave = () => {
+    if (formData.provider === 'osrm') {
+      try {
+        new URL(formData.osrmUrl || '');
+      } catch {
+        setError('Enter the full URL of your OSRM server, e.g. http://localhost:5000');
+        return;
+      }
+    }
+    setError('');
+    onSave(formData);
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 shadow-sm">
+      <div className="p-6 border-b border-gray-200">
+        <h3 className="text-lg font-bold text-gray-900">Travel Times</h3>
+        <p className="text-sm text-gray-500 mt-1">How the route optimizer estimates driving between stops</p>
+      </div>
+      <div className="p-6 space-y-4">
+        <div className="space-y-2">
+          <label className="flex items-start space-x-3 p-3 rounded-lg border border-gray-200 cursor-pointer hover:bg-gray-50">
+            <input
+              type="radio"
+              name="travel-time-provider"
+              checked={formData.provider === 'haversine'}
+              onChange={() => setFormData(prev => ({ ...prev, provider: 'haversine' }))}
+              className="mt-1"
+            />
+            <div>
+              <p className="text-sm font-medium text-gray-900">Straight-line estimate</p>
+              <p className="text-xs text-gray-500">Distance as the crow flies at an average speed. Works offline.</p>
+            </div>
+          </label>
+          <label className="flex items-start space-x-3 p-3 rounded-lg border border-gray-200 cursor-pointer hover:bg-gray-50">
+            <input
+              type="radio"
+              name="travel-time-provider"
+              checked={formData.provider === 'osrm'}
+              onChange={() => setFormData(prev => ({ ...prev, provider: 'osrm' }))}
+              className="mt-1"
+            />
+            <div>
+              <p className="text-sm font-medium text-gray-900">OSRM routing server</p>
+              <p className="text-xs text-gray-500">Road distances and drive times from your own OSRM server.</p>
+            </div>
+          </label>
+        </div>
+
+        {formData.provider === 'osrm' && (
+          <div className="grid grid-cols-3 gap-4">
+            <div className="col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-1">Server URL</label>
+              <input
+                type="url"
+                value={formData.osrmUrl || ''}
+                onChange={(e) => setFormData(prev => ({ ...prev, osrmUrl: e.target.value }))}
+                placeholder="http://localhost:5000"
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Profile</label>
+              <input
+                type="text"
+                value={formData.osrmProfile || ''}
+                onChange={(e) => setFormData(prev => ({ ...prev, osrmProfile: e.target.value }))}
+                placeholder="driving"
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+          </div>
+        )}
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <div className="flex justify-end">
+          <button
+            onClick={handleSave}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            Save Travel Times
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TravelTimeSettingsCard;
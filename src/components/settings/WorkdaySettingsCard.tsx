@@ -0,0 +1,110 @@
+import React, { useState, useEffect } from 'react';
+import { WorkdaySettings } from '@/types';
+
+interface WorkdaySettingsCardProps {
+  settings: WorkdaySettings;
+  onSave: (settings: WorkdaySettings) => void;
+}
+
+const WorkdaySettingsCard: React.FC<WorkdaySettingsCardProps> = ({ settings, onSave }) => {
+  const [formData, setFormData] = useState<WorkdaySettings>(settings);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    setFormData(settings);
+  }, [settings]);
+
+  const handleSave = () => {
+    if (formData.startTime >= formData.endTime) {
+      setError('The workday must end after it starts');
+      return;
+    }
+    const lunch = formData.lunchBreak;
+    if (lunch && (lunch.start >= lunch.end || lunch.start < formData.startTime || lunch.end > formData.endTime)) {
+      setError('Lunch break must fall inside the workday');
+      return;
+    }
+    setError('');
+    onSave(formData);
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 shadow-sm">
+      <div className="p-6 border-b border-gray-200">
+        <h3 className="text-lg font-bold text-gray-900">Workday</h3>
+        <p className="text-sm text-gray-500 mt-1">The route optimizer keeps flexible meetings inside these hours</p>
+      </div>
+      <div className="p-6 space-y-4">
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Start of Day</label>
+            <input
+              type="time"
+              value={formData.startTime}
+              onChange={(e) => setFormData(prev => ({ ...prev, startTime: e.target.value }))}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">End of Day</label>
+            <input
+              type="time"
+              value={formData.endTime}
+              onChange={(e) => setFormData(prev => ({ ...prev, endTime: e.target.value }))}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+        </div>
+
+        <label className="flex items-center space-x-2">
+          <input
+            type="checkbox"
+            checked={!!formData.lunchBreak}
+            onChange={(e) => setFormData(prev => ({
+              ...prev,
+              lunchBreak: e.target.checked ? { start: '12:00', end: '13:00' } : undefined,
+            }))}
+            className="w-4 h-4 text-blue-600 rounded"
+          />
+          <span className="text-sm font-medium text-gray-700">Keep a lunch break free</span>
+        </label>
+
+        {formData.lunchBreak && (
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Lunch From</label>
+              <input
+                type="time"
+                value={formData.lunchBreak.start}
+                onChange={(e) => setFormData(prev => ({ ...prev, lunchBreak: { ...prev.lunchBreak!, start: e.target.value } }))}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Lunch Until</label>
+              <input
+                type="time"
+                value={formData.lunchBreak.end}
+                onChange={(e) => setFormData(prev => ({ ...prev, lunchBreak: { ...prev.lunchBreak!, end: e.target.value } }))}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+          </div>
+        )}
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <div className="flex justify-end">
+          <button
+            onClick={handleSave}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            Save Workday
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WorkdaySettingsCard;
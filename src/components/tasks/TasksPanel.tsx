@@ -1,23 +1,21 @@
 import React, { useState } from 'react';
-import { Task, Meeting, Client } from '@/types';
+import { Task } from '@/types';
+import { useClients, useMeetings, useTasks } from '@/hooks/use-entities';
 
 interface TasksPanelProps {
-  tasks: Task[];
-  meetings: Meeting[];
-  clients: Client[];
   onAddTask: (task: Task) => void;
   onUpdateTask: (task: Task) => void;
   onDeleteTask: (taskId: string) => void;
 }
 
 const TasksPanel: React.FC<TasksPanelProps> = ({
-  tasks,
-  meetings,
-  clients,
   onAddTask,
   onUpdateTask,
   onDeleteTask,
 }) => {
+  const { records: tasks } = useTasks();
+  const { records: meetings } = useMeetings();
+  const { records: clients } = useClients();
   const [showAddModal, setShowAddModal] = useState(false);
   const [editingTask, setEditingTask] = useState<Task | null>(null);
   const [filter, setFilter] = useState<'all' | 'pending' | 'in-progress' | 'completed'>('all');
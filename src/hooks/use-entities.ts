@@ -0,0 +1,192 @@
+// Entity lists held in the react-query cache. Realtime changes are applied to
+// the cached lists row by row, and lists are refetched in the background in
+// case a change was missed.
+
+import { Dispatch, SetStateAction, useCallback, useEffect } from 'react';
+import { QueryClient, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Client, CustomField, Meeting, RecordChange, Route, SavedFilter, Task } from '@/types';
+import { applyRecordChange, getDataStore, invertRecordChange, recordChangeId, RecordPlacement, Subscription } from '@/lib/datastore';
+import { clientsApi, customFieldsApi, meetingsApi, tasksApi } from '@/lib/offline';
+
+// How long a fetched list counts as fresh before focusing the window refetches it
+const ENTITY_STALE_MS = 30_000;
+
+// How often lists are refetched while in use, to pick up realtime changes that never arrived
+const ENTITY_REFETCH_MS = 5 * 60_000;
+
+interface Entity<T> {
+  name: string; // Also the query key
+  getAll(): Promise<T[]>;
+  subscribe(callback: (change: RecordChange<T>) => void): Subscription;
+  placement: RecordPlacement<T>; // Where new records go, matching the order getAll returns
+}
+
+const CLIENTS: Entity<Client> = {
+  name: 'clients',
+  getAll: () => clientsApi.getAll(),
+  subscribe: callback => clientsApi.subscribeToChanges(callback),
+  placement: 'start',
+};
+
+const MEETINGS: Entity<Meeting> = {
+  name: 'meetings',
+  getAll: () => meetingsApi.getAll(),
+  subscribe: callback => meetingsApi.subscribeToChanges(callback),
+  placement: (a, b) => a.date.localeCompare(b.date) || a.startTime.localeCompare(b.startTime),
+};
+
+const TASKS: Entity<Task> = {
+  name: 'tasks',
+  getAll: () => tasksApi.getAll(),
+  subscribe: callback => tasksApi.subscribeToChanges(callback),
+  placement: 'start',
+};
+
+const CUSTOM_FIELDS: Entity<CustomField> = {
+  name: 'customFields',
+  getAll: () => customFieldsApi.getAll(),
+  subscribe: callback => customFieldsApi.subscribeToChanges(callback),
+  placement: 'end',
+};
+
+const SAVED_FILTERS: Entity<SavedFilter> = {
+  name: 'savedFilters',
+  getAll: () => getDataStore().savedFilters.getAll(),
+  subscribe: callback => getDataStore().savedFilters.subscribeToChanges(callback),
+  placement: 'start',
+};
+
+const ROUTES: Entity<Route> = {
+  name: 'routes',
+  getAll: () => getDataStore().routes.getAll(),
+  subscribe: callback => getDataStore().routes.subscribeToChanges(callback),
+  placement: (a, b) => a.date.localeCompare(b.date),
+};
+
+// Returned while a list hasn't loaded, so it keeps the same identity between renders
+const NO_RECORDS: never[] = [];
+
+// Records with a local write in flight, by entity and id, and how many writes are pending for each
+const pendingWrites = new Map<string, number>();
+
+// Records a realtime change arrived for while a local write was in flight
+const missedChanges = new Set<string>();
+
+// One realtime subscription per entity, however many components use the list
+const subscriptions = new Map<string, { users: number; subscription: Subscription }>();
+
+const subscribeToEntity = <T extends { id: string }>(queryClient: QueryClient, entity: Entity<T>) => {
+  let shared = subscriptions.get(entity.name);
+  if (!shared) {
+    shared = {
+      users: 0,
+      subscription: entity.subscribe(change => {
+        const key = `${entity.name}:${recordChangeId(change)}`;
+        // The write's own result replaces the record when it's done
+        if (pendingWrites.has(key)) {
+          missedChanges.add(key);
+          return;
+        }
+        queryClient.setQueryData<T[]>([entity.name], prev => prev && applyRecordChange(prev, change, entity.placement));
+      }),
+    };
+    subscriptions.set(entity.name, shared);
+  }
+  shared.users++;
+
+  return () => {
+    shared.users--;
+    if (shared.users > 0) return;
+    shared.subscription.unsubscribe();
+    subscriptions.delete(entity.name);
+  };
+};
+
+const writeOptimistically = async <T extends { id: string }, R>(
+  queryClient: QueryClient,
+  entity: Entity<T>,
+  change: RecordChange<T>,
+  write: () => Promise<R>
+): Promise<R> => {
+  const key = `${entity.name}:${recordChangeId(change)}`;
+  pendingWrites.set(key, (pendingWrites.get(key) ?? 0) + 1);
+
+  // A refetch finishing after this would bring back the list without the change
+  await queryClient.cancelQueries({ queryKey: [entity.name] });
+  const records = queryClient.getQueryData<T[]>([entity.name]) ?? [];
+  const undo = invertRecordChange(records, change);
+  queryClient.setQueryData<T[]>([entity.name], applyRecordChange(records, change, entity.placement));
+
+  try {
+    return await write();
+  } catch (err) {
+    queryClient.setQueryData<T[]>([entity.name], prev => applyRecordChange(prev ?? [], undo, entity.placement));
+    throw err;
+  } finally {
+    const pending = pendingWrites.get(key) - 1;
+    if (pending > 0) {
+      pendingWrites.set(key, pending);
+    } else {
+      pendingWrites.delete(key);
+      if (missedChanges.delete(key)) queryClient.invalidateQueries({ queryKey: [entity.name] });
+    }
+  }
+};
+
+export interface EntityQueryOptions {
+  enabled?: boolean; // False to neither fetch nor subscribe, e.g. before signing in
+}
+
+export interface EntityQuery<T> {
+  records: T[];
+  isLoading: boolean; // No list yet and fetching the first one
+  isFetching: boolean; // Any fetch, including background refetches
+  error: Error | null;
+  refetch: () => Promise<unknown>;
+  // Replace the cached list, e.g. with what a write returned
+  setRecords: Dispatch<SetStateAction<T[]>>;
+  // Show `change` in the list straight away, then run `write`; the change is rolled back if the write fails
+  writeOptimistically: <R>(change: RecordChange<T>, write: () => Promise<R>) => Promise<R>;
+}
+
+const useEntityQuery = <T extends { id: string }>(entity: Entity<T>, { enabled = true }: EntityQueryOptions): EntityQuery<T> => {
+  const queryClient = useQueryClient();
+  const query = useQuery({
+    queryKey: [entity.name],
+    queryFn: entity.getAll,
+    enabled,
+    // The entity APIs fall back to the offline cache themselves, so fetch without a connection too
+    networkMode: 'always',
+    staleTime: ENTITY_STALE_MS,
+    refetchInterval: ENTITY_REFETCH_MS,
+  });
+
+  useEffect(() => {
+    if (!enabled) return;
+    return subscribeToEntity(queryClient, entity);
+  }, [enabled, entity, queryClient]);
+
+  const setRecords = useCallback((update: SetStateAction<T[]>) => {
+    queryClient.setQueryData<T[]>([entity.name], prev => typeof update === 'function' ? update(prev ?? []) : update);
+  }, [entity, queryClient]);
+
+  const write = useCallback(<R>(change: RecordChange<T>, run: () => Promise<R>) =>
+    writeOptimistically(queryClient, entity, change, run), [entity, queryClient]);
+
+  return {
+    records: query.data ?? NO_RECORDS,
+    isLoading: query.isLoading,
+    isFetching: query.isFetching,
+    error: query.error,
+    refetch: query.refetch,
+    setRecords,
+    writeOptimistically: write,
+  };
+};
+
+export const useClients = (options: EntityQueryOptions = {}) => useEntityQuery(CLIENTS, options);
+export const useMeetings = (options: EntityQueryOptions = {}) => useEntityQuery(MEETINGS, options);
+export const useTasks = (options: EntityQueryOptions = {}) => useEntityQuery(TASKS, options);
+export const useCustomFields = (options: EntityQueryOptions = {}) => useEntityQuery(CUSTOM_FIELDS, options);
+export const useSavedFilters = (options: EntityQueryOptions = {}) => useEntityQuery(SAVED_FILTERS, options);
+export const useRoutes = (options: EntityQueryOptions = {}) => useEntityQuery(ROUTES, options);
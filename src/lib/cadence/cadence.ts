@@ -0,0 +1,95 @@
+// Works out which clients are due or overdue for a visit under their cadence rules
+
+import { Client, Meeting, CadenceRule } from '@/types';
+
+export type VisitDueStatus = 'overdue' | 'due' | 'ok';
+
+export interface VisitDue {
+  client: Client;
+  rule: CadenceRule;
+  lastVisit?: string; // YYYY-MM-DD; undefined when the client has never been visited
+  dueDate?: string; // YYYY-MM-DD; undefined when never visited, which counts as overdue
+  daysUntilDue: number; // Negative when overdue
+  status: VisitDueStatus;
+  nextMeeting?: Meeting; // Upcoming in-person meeting that will take care of it, if any
+}
+
+export interface CadenceOptions {
+  today: string; // YYYY-MM-DD
+  dueSoonDays?: number; // Clients due within this many days count as due
+  meetings?: Meeting[]; // Completed visits newer than `client.lastVisit` count, and upcoming ones are reported
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDay = (date: string) => new Date(`${date.slice(0, 10)}T00:00:00Z`).getTime();
+const fromDay = (time: number) => new Date(time).toISOString().split('T')[0];
+
+/**
+ * The rule that applies to a client: a rule for the client itself, otherwise
+ * the tightest rule among its tags
+ */
+export const resolveCadenceRule = (client: Client, rules: CadenceRule[]): CadenceRule | undefined => {
+  const own = rules.find(r => r.clientId === client.id);
+  if (own) return own;
+  return rules
+    .filter(r => !r.clientId && r.tag && client.tags.includes(r.tag))
+    .sort((a, b) => a.intervalDays - b.intervalDays)[0];
+};
+
+/**
+ * Where a client stands against its cadence rule, or undefined when no rule applies
+ */
+export const getVisitDue = (
+  client: Client,
+  rules: CadenceRule[],
+  { today, dueSoonDays = 3, meetings = [] }: CadenceOptions
+): VisitDue | undefined => {
+  const rule = resolveCadenceRule(client, rules);
+  if (!rule) return undefined;
+
+  const visits = meetings.filter(m => m.clientId === client.id && m.type === 'in-person');
+  const lastCompleted = visits
+    .filter(m => m.status === 'completed' && m.date <= today)
+    .reduce<string | undefined>((latest, m) => (!latest || m.date > latest ? m.date : latest), undefined);
+  const recorded = client.lastVisit?.slice(0, 10);
+  const lastVisit = [recorded, lastCompleted].filter((d): d is string => !!d).sort().pop();
+
+  const nextMeeting = visits
+    .filter(m => m.status === 'scheduled' && m.date >= today)
+    .sort((a, b) => a.date.localeCompare(b.date) || a.startTime.localeCompare(b.startTime))[0];
+
+  if (!lastVisit) {
+    return { client, rule, daysUntilDue: 0, status: 'overdue', nextMeeting };
+  }
+
+  const due = toDay(lastVisit) + rule.intervalDays * DAY_MS;
+  const daysUntilDue = Math.round((due - toDay(today)) / DAY_MS);
+  const status: VisitDueStatus = daysUntilDue < 0 ? 'overdue' : daysUntilDue <= dueSoonDays ? 'due' : 'ok';
+  return { client, rule, lastVisit, dueDate: fromDay(due), daysUntilDue, status, nextMeeting };
+};
+
+/**
+ * Clients that are due or overdue, most overdue first
+ */
+export const findDueVisits = (clients: Client[], rules: CadenceRule[], options: CadenceOptions): VisitDue[] => {
+  if (rules.length === 0) return [];
+  return clients
+    .map(client => getVisitDue(client, rules, options))
+    .filter((due): due is VisitDue => !!due && due.status !== 'ok')
+    .sort((a, b) => {
+      // Never visited sorts first among the overdue
+      if (!a.lastVisit !== !b.lastVisit) return a.lastVisit ? 1 : -1;
+      return a.daysUntilDue - b.daysUntilDue;
+    });
+};
+
+/**
+ * Label for a cadence rule, e.g. "Enterprise every 14 days"
+ */
+export const describeCadenceRule = (rule: CadenceRule, clients: Client[]): string => {
+  const target = rule.clientId
+    ? clients.find(c => c.id === rule.clientId)?.company ?? 'Deleted client'
+    : rule.tag;
+  return `${target} every ${rule.intervalDays} day${rule.intervalDays !== 1 ? 's' : ''}`;
+};
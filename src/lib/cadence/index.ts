@@ -0,0 +1,2 @@
+export { resolveCadenceRule, getVisitDue, findDueVisits, describeCadenceRule } from './cadence';
+export type { VisitDue, VisitDueStatus, CadenceOptions } from './cadence';
@@ -0,0 +1,4 @@
+export { sniffDelimiter, createCsvParser, parseCsvFile, parseCsvText } from './parse';
+export type { CsvDelimiter, CsvRowError, CsvParseResult, CsvParseOptions, CsvRecord } from './parse';
+export { IMPORTABLE_CLIENT_FIELDS, convertCustomFieldValue, validateClientImport } from './validate';
+export type { ImportIssue, ImportIssueSeverity, ImportRowResult, ImportValidationReport } from './validate';
@@ -0,0 +1,253 @@
+// RFC 4180 CSV parsing: quoted fields may hold delimiters, quotes and line
+// breaks. Files are decoded and parsed in chunks so large imports keep the UI responsive.
+
+export type CsvDelimiter = ',' | ';' | '\t';
+
+export interface CsvRowError {
+  line: number; // Line of the file the row starts on, 1-based
+  message: string;
+}
+
+export interface CsvParseResult {
+  headers: string[];
+  rows: Record<string, string>[];
+  lines: number[]; // Line each row starts on, parallel to rows
+  delimiter: CsvDelimiter;
+  encoding: string;
+  errors: CsvRowError[];
+}
+
+export interface CsvParseOptions {
+  delimiter?: CsvDelimiter; // Sniffed from the first lines when left out
+  chunkSize?: number; // Bytes read per step
+  onProgress?: (fraction: number) => void;
+}
+
+export interface CsvRecord {
+  fields: string[];
+  line: number;
+}
+
+const DELIMITERS: CsvDelimiter[] = [',', ';', '\t'];
+const DEFAULT_CHUNK_SIZE = 256 * 1024;
+const SNIFF_LINES = 20;
+const SAMPLE_BYTES = 64 * 1024;
+
+/**
+ * Guess the delimiter from a sample of the file: the candidate that splits
+ * the most lines into the same number of fields, counting only unquoted ones
+ */
+export const sniffDelimiter = (sample: string): CsvDelimiter => {
+  let best: CsvDelimiter = ',';
+  let bestScore = 0;
+
+  DELIMITERS.forEach(delimiter => {
+    const counts: number[] = [];
+    let count = 0;
+    let inQuotes = false;
+    for (let i = 0; i < sample.length && counts.length < SNIFF_LINES; i++) {
+      const char = sample[i];
+      if (char === '"') inQuotes = !inQuotes;
+      else if (!inQuotes && char === delimiter) count++;
+      else if (!inQuotes && char === '\n') {
+        counts.push(count);
+        count = 0;
+      }
+    }
+    if (count > 0) counts.push(count);
+    if (counts.length === 0 || counts[0] === 0) return;
+
+    // Lines that agree with the header, weighted by how many fields they make
+    const consistent = counts.filter(c => c === counts[0]).length;
+    const score = consistent * counts[0];
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  });
+  return best;
+};
+
+/**
+ * An incremental parser: push text as it arrives and collect the records
+ * completed so far, then finish() for the last one
+ */
+export const createCsvParser = (delimiter: CsvDelimiter) => {
+  let field = '';
+  let fields: string[] = [];
+  let inQuotes = false;
+  let quoteClosed = false; // Just saw the closing quote of a quoted field
+  let pendingCR = false;
+  let line = 1;
+  let recordLine = 1;
+  const errors: CsvRowError[] = [];
+
+  const endField = () => {
+    fields.push(field);
+    field = '';
+    quoteClosed = false;
+  };
+
+  const endRecord = (records: CsvRecord[]) => {
+    endField();
+    // Blank lines separate nothing; skip them
+    if (fields.length > 1 || fields[0] !== '') records.push({ fields, line: recordLine });
+    fields = [];
+  };
+
+  const push = (chunk: string): CsvRecord[] => {
+    const records: CsvRecord[] = [];
+    for (let i = 0; i < chunk.length; i++) {
+      const char = chunk[i];
+
+      if (pendingCR) {
+        pendingCR = false;
+        if (char === '\n') continue;
+      }
+
+      if (inQuotes) {
+        if (char === '"') {
+          if (chunk[i + 1] === '"') {
+            field += '"';
+            i++;
+          } else {
+            // At the end of a chunk this may be half of a doubled quote; the next chunk tells
+            inQuotes = false;
+            quoteClosed = true;
+          }
+        } else if (char === '\n' || char === '\r') {
+          // Line breaks inside a field are kept as \n
+          field += '\n';
+          line++;
+          pendingCR = char === '\r';
+        } else {
+          field += char;
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        if (quoteClosed) {
+          // A doubled quote split across chunks
+          field += '"';
+          inQuotes = true;
+          quoteClosed = false;
+        } else if (field === '') {
+          inQuotes = true;
+        } else {
+          // A stray quote inside an unquoted field is kept as text
+          field += char;
+        }
+      } else if (char === delimiter) {
+        endField();
+      } else if (char === '\n' || char === '\r') {
+        endRecord(records);
+        line++;
+        recordLine = line;
+        pendingCR = char === '\r';
+      } else {
+        if (quoteClosed && char !== ' ') {
+          errors.push({ line, message: `Unexpected text after a closing quote` });
+          quoteClosed = false;
+        }
+        if (!quoteClosed) field += char;
+      }
+    }
+    return records;
+  };
+
+  const finish = (): CsvRecord[] => {
+    const records: CsvRecord[] = [];
+    if (inQuotes) errors.push({ line: recordLine, message: 'A quoted field is never closed; the rest of the file was read into it' });
+    if (inQuotes || field !== '' || fields.length > 0 || quoteClosed) endRecord(records);
+    inQuotes = false;
+    return records;
+  };
+
+  return { push, finish, errors };
+};
+
+// BOMs identify the encoding; otherwise UTF-8, or Windows-1252 when the bytes aren't valid UTF-8
+const detectEncoding = (bytes: Uint8Array): { encoding: string; bomLength: number } => {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return { encoding: 'utf-8', bomLength: 3 };
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return { encoding: 'utf-16le', bomLength: 2 };
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return { encoding: 'utf-16be', bomLength: 2 };
+  try {
+    // Streaming, so a character cut off at the end of the sample isn't an error
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes, { stream: true });
+    return { encoding: 'utf-8', bomLength: 0 };
+  } catch {
+    return { encoding: 'windows-1252', bomLength: 0 };
+  }
+};
+
+const yieldToBrowser = () => new Promise(resolve => setTimeout(resolve, 0));
+
+// Header names, trimmed, with blanks named and repeats numbered
+const readHeaders = (fields: string[]) => {
+  const headers: string[] = [];
+  fields.forEach((field, i) => {
+    const name = field.trim() || `Column ${i + 1}`;
+    headers.push(headers.includes(name) ? `${name} (${i + 1})` : name);
+  });
+  return headers;
+};
+
+/**
+ * Parse a CSV file into records keyed by its header row. The file is read in
+ * chunks with a pause between them; rows whose field count doesn't match the
+ * header are kept and reported in errors.
+ */
+export const parseCsvFile = async (file: Blob, options: CsvParseOptions = {}): Promise<CsvParseResult> => {
+  const chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+  const head = new Uint8Array(await file.slice(0, SAMPLE_BYTES).arrayBuffer());
+  const { encoding, bomLength } = detectEncoding(head);
+  const decoder = new TextDecoder(encoding);
+  const delimiter = options.delimiter ?? sniffDelimiter(new TextDecoder(encoding).decode(head.subarray(bomLength), { stream: true }));
+  const parser = createCsvParser(delimiter);
+
+  let headers: string[] | null = null;
+  const rows: Record<string, string>[] = [];
+  const lines: number[] = [];
+  const errors: CsvRowError[] = [];
+
+  const addRecords = (records: CsvRecord[]) => {
+    records.forEach(record => {
+      if (!headers) {
+        headers = readHeaders(record.fields);
+        return;
+      }
+      if (record.fields.length !== headers.length) {
+        errors.push({ line: record.line, message: `Has ${record.fields.length} fields; the header has ${headers.length}` });
+      }
+      const row: Record<string, string> = {};
+      headers.forEach((header, i) => {
+        row[header] = (record.fields[i] ?? '').trim();
+      });
+      rows.push(row);
+      lines.push(record.line);
+    });
+  };
+
+  for (let offset = bomLength; offset < file.size; offset += chunkSize) {
+    const bytes = new Uint8Array(await file.slice(offset, offset + chunkSize).arrayBuffer());
+    addRecords(parser.push(decoder.decode(bytes, { stream: offset + chunkSize < file.size })));
+    options.onProgress?.(Math.min(1, (offset + chunkSize) / file.size));
+    await yieldToBrowser();
+  }
+
+  addRecords(parser.finish());
+  errors.push(...parser.errors);
+  errors.sort((a, b) => a.line - b.line);
+
+  return { headers: headers ?? [], rows, lines, delimiter, encoding, errors };
+};
+
+/**
+ * Parse CSV text already in memory, such as pasted data
+ */
+export const parseCsvText = (text: string, delimiter?: CsvDelimiter): string[][] => {
+  const clean = text.replace(/^\uFEFF/, '');
+  const parser = createCsvParser(delimiter ?? sniffDelimiter(clean));
+  return [...parser.push(clean), ...parser.finish()].map(record => record.fields);
+};
@@ -0,0 +1,160 @@
+// Checking imported rows before any client is created: required names, email
+// addresses, and values that must fit the type of a custom field
+
+import { Client, CustomField } from '@/types';
+import { CellValue, cellToString } from '@/lib/xlsx';
+
+export type ImportIssueSeverity = 'error' | 'warning';
+
+export interface ImportIssue {
+  row: number; // Row or line number in the source file
+  column?: string; // Source column the value came from
+  field: string; // Client field it maps to
+  value: string;
+  message: string;
+  severity: ImportIssueSeverity;
+}
+
+export interface ImportRowResult {
+  row: number;
+  client: Partial<Client>; // Mapped fields, with custom field values converted to their types
+  valid: boolean; // False when the row has errors; warnings still import
+}
+
+export interface ImportValidationReport {
+  rows: ImportRowResult[];
+  issues: ImportIssue[];
+  errorCount: number;
+  warningCount: number;
+}
+
+// Client fields an import column can map to, besides custom fields
+export const IMPORTABLE_CLIENT_FIELDS = ['name', 'company', 'email', 'phone', 'address', 'city', 'state', 'zipCode', 'notes', 'tags'] as const;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const TRUE_VALUES = ['true', 'yes', 'y', '1', 'x', 'checked'];
+const FALSE_VALUES = ['false', 'no', 'n', '0', 'unchecked'];
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const isValidDate = (year: number, month: number, day: number) => {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+};
+
+// YYYY-MM-DD from a date cell or a written date; null when the text isn't a date
+const toIsoDate = (value: CellValue): string | null => {
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value.toISOString().substring(0, 10);
+  const text = cellToString(value);
+  let match = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (match) return isValidDate(+match[1], +match[2], +match[3]) ? `${match[1]}-${pad(+match[2])}-${pad(+match[3])}` : null;
+  // US order, as Excel and Salesforce write it
+  match = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})$/);
+  if (match) {
+    const year = match[3].length === 2 ? 2000 + +match[3] : +match[3];
+    return isValidDate(year, +match[1], +match[2]) ? `${year}-${pad(+match[1])}-${pad(+match[2])}` : null;
+  }
+  return null;
+};
+
+/**
+ * Convert a cell to the type of a custom field. Returns an error message
+ * instead when the value can't be one.
+ */
+export const convertCustomFieldValue = (
+  value: CellValue,
+  field: CustomField
+): { value: string | number | boolean; error?: string } => {
+  const text = cellToString(value);
+  switch (field.type) {
+    case 'number': {
+      if (typeof value === 'number') return { value };
+      const number = Number(text.replace(/[$,\s]/g, ''));
+      return isNaN(number) ? { value: text, error: 'is not a number' } : { value: number };
+    }
+    case 'checkbox': {
+      if (typeof value === 'boolean') return { value };
+      const lower = text.toLowerCase();
+      if (TRUE_VALUES.includes(lower)) return { value: true };
+      if (FALSE_VALUES.includes(lower)) return { value: false };
+      return { value: text, error: 'is not yes/no or true/false' };
+    }
+    case 'date': {
+      const date = toIsoDate(value);
+      return date ? { value: date } : { value: text, error: 'is not a date (use YYYY-MM-DD or MM/DD/YYYY)' };
+    }
+    case 'dropdown': {
+      const option = field.options?.find(o => o.toLowerCase() === text.toLowerCase());
+      return option ? { value: option } : { value: text, error: `is not one of the options (${(field.options || []).join(', ')})` };
+    }
+    default:
+      return { value: text };
+  }
+};
+
+/**
+ * Map and check every row of an import. Rows with errors (no name, a bad
+ * email, a value that doesn't fit its custom field) are marked invalid;
+ * dropdown values outside the options and empty required custom fields are
+ * warnings. Nothing is saved here.
+ */
+export const validateClientImport = (
+  records: Record<string, CellValue>[],
+  mappings: Record<string, string>,
+  customFields: CustomField[],
+  rowNumbers: number[] = []
+): ImportValidationReport => {
+  const issues: ImportIssue[] = [];
+  const customByName = new Map(customFields.map(f => [f.name, f]));
+  const mapped = Object.entries(mappings).filter(([, field]) => field);
+  const mappedFields = new Set(mapped.map(([, field]) => field));
+
+  const rows = records.map((record, index) => {
+    const row = rowNumbers[index] ?? index + 2;
+    const client: Partial<Client> = { customFields: {}, tags: [] };
+    const filled = new Set<string>();
+    let valid = true;
+    const report = (field: string, column: string | undefined, value: string, message: string, severity: ImportIssueSeverity) => {
+      issues.push({ row, column, field, value, message, severity });
+      if (severity === 'error') valid = false;
+    };
+
+    mapped.forEach(([column, field]) => {
+      const value = record[column] ?? null;
+      const text = cellToString(value);
+      if (!text) return;
+      filled.add(field);
+
+      if (field === 'tags') {
+        client.tags = text.split(';').map(t => t.trim()).filter(t => t);
+      } else if ((IMPORTABLE_CLIENT_FIELDS as readonly string[]).includes(field)) {
+        (client as Record<string, unknown>)[field] = text;
+      } else {
+        const custom = customByName.get(field);
+        if (!custom) return;
+        const converted = convertCustomFieldValue(value, custom);
+        if (converted.error) {
+          report(field, column, text, `${field} ${converted.error}`, custom.type === 'dropdown' ? 'warning' : 'error');
+        }
+        if (!converted.error || custom.type === 'dropdown') client.customFields![field] = converted.value;
+      }
+    });
+
+    if (!client.name) report('name', mapped.find(([, f]) => f === 'name')?.[0], '', 'Name is missing', 'error');
+    if (client.email && !EMAIL_PATTERN.test(client.email)) {
+      report('email', mapped.find(([, f]) => f === 'email')?.[0], client.email, 'Email address is not valid', 'error');
+    }
+    customFields
+      .filter(f => f.required && f.type !== 'checkbox' && mappedFields.has(f.name) && !filled.has(f.name))
+      .forEach(f => report(f.name, mapped.find(([, field]) => field === f.name)?.[0], '', `${f.name} is required but empty`, 'warning'));
+
+    return { row, client, valid };
+  });
+
+  return {
+    rows,
+    issues,
+    errorCount: rows.filter(r => !r.valid).length,
+    warningCount: issues.filter(i => i.severity === 'warning').length,
+  };
+};
@@ -1,5 +1,6 @@
+import { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
 import { supabase } from '@/lib/supabase';
-import { Client, Meeting, CustomField, SalesforceConfig, Task, SavedFilter, ClientFilters, ClientNote } from '@/types';
+import { RecordChange, Client, Meeting, CustomField, SalesforceConfig, SalesforceTokens, Task, SavedFilter, ClientFilters, ClientNote, OpeningHours, GeocodeConfidence, WorkdaySettings, TravelTimeSettings, Depot, Route, TimeWindow, MapSettings, Territory, CadenceRule, CalendarFeedSettings, SyncRun, SyncSnapshot, SalesforceOutboxEntry, SyncCursors } from '@/types';
 
 // Type definitions for database records
 interface DbClient {
@@ -20,8 +21,12 @@ interface DbClient {
   tags: string[];
   custom_fields: Record<string, any>;
   salesforce_id: string | null;
+  sync_snapshot: SyncSnapshot | null;
   total_meetings: number;
   last_visit: string | null;
+  opening_hours: OpeningHours | null;
+  geocode_confidence: string | null;
+  location_verified: boolean | null;
   created_at: string;
   updated_at: string;
 }
@@ -37,10 +42,20 @@ interface DbMeeting {
   status: string;
   type: string;
   notes: string | null;
+  outcome: string | null;
   location: string | null;
   travel_time: number | null;
   priority: string;
   flexible_time: boolean;
+  time_window_start: string | null;
+  time_window_end: string | null;
+  rrule: string | null;
+  exdates: string[] | null;
+  series_id: string | null;
+  occurrence_date: string | null;
+  ical_uid: string | null;
+  salesforce_id: string | null;
+  sync_snapshot: SyncSnapshot | null;
   created_at: string;
   updated_at: string;
 }
@@ -65,6 +80,24 @@ interface DbUserSettings {
   salesforce_last_sync: string | null;
   salesforce_sync_direction: string;
   salesforce_field_mappings: Record<string, string>;
+  salesforce_client_id: string | null;
+  salesforce_login_url: string | null;
+  salesforce_sync_cursor: string | null;
+  salesforce_tokens: SalesforceTokens | null;
+  salesforce_conflict_policy: string | null;
+  workday_start: string | null;
+  workday_end: string | null;
+  lunch_start: string | null;
+  lunch_end: string | null;
+  travel_time_provider: string | null;
+  osrm_url: string | null;
+  osrm_profile: string | null;
+  tile_url_template: string | null;
+  tile_attribution: string | null;
+  tile_max_zoom: number | null;
+  calendar_feed_token: string | null;
+  calendar_feed_url: string | null;
+  calendar_feed_published_at: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -80,6 +113,7 @@ interface DbTask {
   priority: string;
   status: string;
   completed_at: string | null;
+  salesforce_id: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -93,6 +127,85 @@ interface DbSavedFilter {
   updated_at: string;
 }
 
+interface DbRoute {
+  id: string;
+  user_id: string | null;
+  date: string;
+  meeting_ids: string[];
+  total_distance: number;
+  total_travel_time: number;
+  optimized: boolean;
+  planned_times: Record<string, TimeWindow> | null;
+  start_depot_id: string | null;
+  end_depot_id: string | null;
+  driven_meeting_ids: string[] | null;
+  driven_distance: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface DbDepot {
+  id: string;
+  user_id: string | null;
+  name: string;
+  address: string | null;
+  latitude: number;
+  longitude: number;
+  is_default: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+interface DbTerritory {
+  id: string;
+  user_id: string | null;
+  name: string;
+  color: string;
+  client_ids: string[];
+  created_at: string;
+  updated_at: string;
+}
+
+interface DbSyncRun {
+  id: string;
+  user_id: string | null;
+  started_at: string;
+  finished_at: string;
+  direction: string;
+  conflict_policy: string;
+  changes: SyncRun['changes'];
+  conflicts: SyncRun['conflicts'];
+  errors: string[];
+  created_at: string;
+}
+
+interface DbSalesforceOutboxEntry {
+  id: string;
+  user_id: string | null;
+  record_type: string;
+  record_id: string;
+  label: string;
+  sobject: string;
+  salesforce_id: string | null;
+  fields: Record<string, unknown>;
+  snapshot: SyncSnapshot | null;
+  attempts: number;
+  last_error: string | null;
+  next_attempt_at: string;
+  failed_at: string | null;
+  created_at: string;
+}
+
+interface DbCadenceRule {
+  id: string;
+  user_id: string | null;
+  tag: string | null;
+  client_id: string | null;
+  interval_days: number;
+  created_at: string;
+  updated_at: string;
+}
+
 // Get current user ID helper
 const getCurrentUserId = async (): Promise<string | null> => {
   const { data: { user } } = await supabase.auth.getUser();
@@ -119,7 +232,12 @@ const dbClientToClient = (db: DbClient): Client => ({
   salesforceId: db.salesforce_id || undefined,
   totalMeetings: db.total_meetings || 0,
   lastVisit: db.last_visit || undefined,
+  openingHours: db.opening_hours || undefined,
+  geocodeConfidence: (db.geocode_confidence as GeocodeConfidence) || undefined,
+  locationVerified: db.location_verified ?? undefined,
   createdAt: db.created_at.split('T')[0],
+  updatedAt: db.updated_at,
+  syncSnapshot: db.sync_snapshot || undefined,
 });
 
 const clientToDbClient = async (client: Client): Promise<Partial<DbClient>> => {
@@ -142,8 +260,12 @@ const clientToDbClient = async (client: Client): Promise<Partial<DbClient>> => {
     tags: client.tags || [],
     custom_fields: client.customFields || {},
     salesforce_id: client.salesforceId || null,
+    sync_snapshot: client.syncSnapshot || null,
     total_meetings: client.totalMeetings || 0,
     last_visit: client.lastVisit || null,
+    opening_hours: client.openingHours || null,
+    geocode_confidence: client.geocodeConfidence || null,
+    location_verified: client.locationVerified ?? null,
   };
 };
 
@@ -165,10 +287,20 @@ const dbMeetingToMeeting = (db: DbMeeting): Meeting => {
     status: db.status as Meeting['status'],
     type: db.type as Meeting['type'],
     notes: db.notes || '',
+    outcome: db.outcome || undefined,
     location: db.location || undefined,
     travelTime: db.travel_time || undefined,
     priority: db.priority as Meeting['priority'],
     flexibleTime: db.flexible_time || false,
+    timeWindow: db.time_window_start && db.time_window_end
+      ? { start: db.time_window_start.substring(0, 5), end: db.time_window_end.substring(0, 5) }
+      : undefined,
+    recurrence: db.rrule ? { rrule: db.rrule, exdates: db.exdates || [] } : undefined,
+    seriesId: db.series_id || undefined,
+    occurrenceDate: db.occurrence_date?.split('T')[0] || undefined,
+    icalUid: db.ical_uid || undefined,
+    salesforceId: db.salesforce_id || undefined,
+    syncSnapshot: db.sync_snapshot || undefined,
   };
 };
 
@@ -195,10 +327,21 @@ const meetingToDbMeeting = async (meeting: Meeting): Promise<Partial<DbMeeting>>
     status: meeting.status,
     type: meeting.type,
     notes: meeting.notes || null,
+    outcome: meeting.outcome || null,
     location: meeting.location || null,
     travel_time: meeting.travelTime || null,
     priority: meeting.priority,
     flexible_time: meeting.flexibleTime || false,
+    time_window_start: meeting.timeWindow?.start || null,
+    time_window_end: meeting.timeWindow?.end || null,
+    // Edited occurrences only point at their series; the rule lives on the series' first meeting
+    rrule: meeting.seriesId ? null : meeting.recurrence?.rrule || null,
+    exdates: meeting.seriesId ? null : meeting.recurrence?.exdates || null,
+    series_id: meeting.seriesId || null,
+    occurrence_date: meeting.occurrenceDate || null,
+    ical_uid: meeting.icalUid || null,
+    salesforce_id: meeting.salesforceId || null,
+    sync_snapshot: meeting.syncSnapshot || null,
   };
 };
 
@@ -235,6 +378,7 @@ const dbTaskToTask = (db: DbTask): Task => ({
   status: db.status as Task['status'],
   createdAt: db.created_at,
   completedAt: db.completed_at || undefined,
+  salesforceId: db.salesforce_id || undefined,
 });
 
 const taskToDbTask = async (task: Task): Promise<Partial<DbTask>> => {
@@ -250,16 +394,189 @@ const taskToDbTask = async (task: Task): Promise<Partial<DbTask>> => {
     priority: task.priority,
     status: task.status,
     completed_at: task.completedAt || null,
+    salesforce_id: task.salesforceId || null,
   };
 };
 
 const dbSavedFilterToSavedFilter = (db: DbSavedFilter): SavedFilter => ({
   id: db.id,
   name: db.name,
-  filters: db.filters,
+  filters: { ...db.filters, territories: db.filters.territories ?? [] }, // Saved before territories existed
   createdAt: db.created_at,
 });
 
+const dbRouteToRoute = (db: DbRoute): Route => ({
+  id: db.id,
+  date: db.date,
+  meetings: db.meeting_ids || [],
+  totalDistance: db.total_distance,
+  totalTravelTime: db.total_travel_time,
+  optimized: db.optimized,
+  plannedTimes: db.planned_times || undefined,
+  startDepotId: db.start_depot_id || undefined,
+  endDepotId: db.end_depot_id || undefined,
+  drivenMeetings: db.driven_meeting_ids || undefined,
+  drivenDistance: db.driven_distance ?? undefined,
+});
+
+const routeToDbRoute = async (route: Route): Promise<Partial<DbRoute>> => {
+  const userId = await getCurrentUserId();
+  return {
+    id: route.id,
+    user_id: userId,
+    date: route.date,
+    meeting_ids: route.meetings,
+    total_distance: route.totalDistance,
+    total_travel_time: route.totalTravelTime,
+    optimized: route.optimized,
+    planned_times: route.plannedTimes || null,
+    start_depot_id: route.startDepotId || null,
+    end_depot_id: route.endDepotId || null,
+    driven_meeting_ids: route.drivenMeetings || null,
+    driven_distance: route.drivenDistance ?? null,
+  };
+};
+
+const dbDepotToDepot = (db: DbDepot): Depot => ({
+  id: db.id,
+  name: db.name,
+  address: db.address || '',
+  latitude: db.latitude,
+  longitude: db.longitude,
+  isDefault: db.is_default,
+});
+
+const depotToDbDepot = async (depot: Depot): Promise<Partial<DbDepot>> => {
+  const userId = await getCurrentUserId();
+  return {
+    id: depot.id,
+    user_id: userId,
+    name: depot.name,
+    address: depot.address || null,
+    latitude: depot.latitude,
+    longitude: depot.longitude,
+    is_default: depot.isDefault,
+  };
+};
+
+const dbTerritoryToTerritory = (db: DbTerritory): Territory => ({
+  id: db.id,
+  name: db.name,
+  color: db.color,
+  clientIds: db.client_ids || [],
+});
+
+const territoryToDbTerritory = async (territory: Territory): Promise<Partial<DbTerritory>> => {
+  const userId = await getCurrentUserId();
+  return {
+    id: territory.id,
+    user_id: userId,
+    name: territory.name,
+    color: territory.color,
+    client_ids: territory.clientIds,
+  };
+};
+
+const dbCadenceRuleToCadenceRule = (db: DbCadenceRule): CadenceRule => ({
+  id: db.id,
+  tag: db.tag || undefined,
+  clientId: db.client_id || undefined,
+  intervalDays: db.interval_days,
+});
+
+const cadenceRuleToDbCadenceRule = async (rule: CadenceRule): Promise<Partial<DbCadenceRule>> => {
+  const userId = await getCurrentUserId();
+  return {
+    id: rule.id,
+    user_id: userId,
+    tag: rule.tag || null,
+    client_id: rule.clientId || null,
+    interval_days: rule.intervalDays,
+  };
+};
+
+const dbSyncRunToSyncRun = (db: DbSyncRun): SyncRun => ({
+  id: db.id,
+  startedAt: db.started_at,
+  finishedAt: db.finished_at,
+  direction: db.direction as SyncRun['direction'],
+  conflictPolicy: db.conflict_policy as SyncRun['conflictPolicy'],
+  changes: db.changes || [],
+  conflicts: db.conflicts || [],
+  errors: db.errors || [],
+});
+
+const syncRunToDbSyncRun = async (run: SyncRun): Promise<Partial<DbSyncRun>> => {
+  const userId = await getCurrentUserId();
+  return {
+    id: run.id,
+    user_id: userId,
+    started_at: run.startedAt,
+    finished_at: run.finishedAt,
+    direction: run.direction,
+    conflict_policy: run.conflictPolicy,
+    changes: run.changes,
+    conflicts: run.conflicts,
+    errors: run.errors,
+  };
+};
+
+const dbOutboxEntryToOutboxEntry = (db: DbSalesforceOutboxEntry): SalesforceOutboxEntry => ({
+  id: db.id,
+  recordType: db.record_type as SalesforceOutboxEntry['recordType'],
+  recordId: db.record_id,
+  label: db.label,
+  sobject: db.sobject as SalesforceOutboxEntry['sobject'],
+  salesforceId: db.salesforce_id || undefined,
+  fields: db.fields || {},
+  snapshot: db.snapshot || undefined,
+  attempts: db.attempts,
+  lastError: db.last_error || undefined,
+  nextAttemptAt: db.next_attempt_at,
+  failedAt: db.failed_at || undefined,
+  createdAt: db.created_at,
+});
+
+const outboxEntryToDbOutboxEntry = async (entry: SalesforceOutboxEntry): Promise<Partial<DbSalesforceOutboxEntry>> => {
+  const userId = await getCurrentUserId();
+  return {
+    id: entry.id,
+    user_id: userId,
+    record_type: entry.recordType,
+    record_id: entry.recordId,
+    label: entry.label,
+    sobject: entry.sobject,
+    salesforce_id: entry.salesforceId || null,
+    fields: entry.fields,
+    snapshot: entry.snapshot || null,
+    attempts: entry.attempts,
+    last_error: entry.lastError || null,
+    next_attempt_at: entry.nextAttemptAt,
+    failed_at: entry.failedAt || null,
+    created_at: entry.createdAt,
+  };
+};
+
+// Pass on each realtime insert, update and delete of a table as a change to one record
+const subscribeToRecordChanges = <TRow extends { id: string }, T>(
+  channel: string,
+  table: string,
+  toRecord: (row: TRow) => T,
+  callback: (change: RecordChange<T>) => void
+) => {
+  return supabase
+    .channel(channel)
+    .on<TRow>('postgres_changes', { event: '*', schema: 'public', table }, (payload: RealtimePostgresChangesPayload<TRow>) => {
+      if (payload.eventType === 'DELETE') {
+        // Without a full replica identity only the primary key of a deleted row is sent
+        if (payload.old.id) callback({ type: 'delete', id: payload.old.id });
+      } else {
+        callback({ type: payload.eventType === 'INSERT' ? 'insert' : 'update', record: toRecord(payload.new) });
+      }
+    })
+    .subscribe();
+};
+
 // Client operations
 export const clientsApi = {
   async getAll(): Promise<Client[]> {
@@ -332,14 +649,8 @@ export const clientsApi = {
     return (data || []).map(dbClientToClient);
   },
 
-  subscribeToChanges(callback: (clients: Client[]) => void) {
-    return supabase
-      .channel('clients-changes')
-      .on('postgres_changes', { event: '*', schema: 'public', table: 'clients' }, async () => {
-        const clients = await this.getAll();
-        callback(clients);
-      })
-      .subscribe();
+  subscribeToChanges(callback: (change: RecordChange<Client>) => void) {
+    return subscribeToRecordChanges<DbClient, Client>('clients-changes', 'clients', dbClientToClient, callback);
   },
 };
 
@@ -412,6 +723,16 @@ export const meetingsApi = {
     if (error) throw error;
   },
 
+  // Links a meeting to the Event it was pushed to, without touching fields edited meanwhile
+  async setSalesforceLink(id: string, salesforceId: string, syncSnapshot?: SyncSnapshot): Promise<void> {
+    const { error } = await supabase
+      .from('meetings')
+      .update({ salesforce_id: salesforceId, sync_snapshot: syncSnapshot || null, updated_at: new Date().toISOString() })
+      .eq('id', id);
+    
+    if (error) throw error;
+  },
+
   async delete(id: string): Promise<void> {
     const { error } = await supabase
       .from('meetings')
@@ -421,14 +742,41 @@ export const meetingsApi = {
     if (error) throw error;
   },
 
-  subscribeToChanges(callback: (meetings: Meeting[]) => void) {
-    return supabase
-      .channel('meetings-changes')
-      .on('postgres_changes', { event: '*', schema: 'public', table: 'meetings' }, async () => {
-        const meetings = await this.getAll();
-        callback(meetings);
-      })
-      .subscribe();
+  // A recurring series is its first meeting plus any occurrences edited on their own
+  async getSeries(seriesId: string): Promise<Meeting[]> {
+    const { data, error } = await supabase
+      .from('meetings')
+      .select('*')
+      .or(`id.eq.${seriesId},series_id.eq.${seriesId}`)
+      .order('date', { ascending: true });
+    
+    if (error) throw error;
+    return (data || []).map(dbMeetingToMeeting);
+  },
+
+  async deleteMany(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    const { error } = await supabase
+      .from('meetings')
+      .delete()
+      .in('id', ids);
+    
+    if (error) throw error;
+  },
+
+  // Move every meeting of some clients to another, e.g. when merging duplicates
+  async reassignClient(fromClientIds: string[], toClientId: string): Promise<void> {
+    if (fromClientIds.length === 0) return;
+    const { error } = await supabase
+      .from('meetings')
+      .update({ client_id: toClientId, updated_at: new Date().toISOString() })
+      .in('client_id', fromClientIds);
+    
+    if (error) throw error;
+  },
+
+  subscribeToChanges(callback: (change: RecordChange<Meeting>) => void) {
+    return subscribeToRecordChanges<DbMeeting, Meeting>('meetings-changes', 'meetings', dbMeetingToMeeting, callback);
   },
 };
 
@@ -478,14 +826,8 @@ export const customFieldsApi = {
     if (error) throw error;
   },
 
-  subscribeToChanges(callback: (fields: CustomField[]) => void) {
-    return supabase
-      .channel('custom-fields-changes')
-      .on('postgres_changes', { event: '*', schema: 'public', table: 'custom_fields' }, async () => {
-        const fields = await this.getAll();
-        callback(fields);
-      })
-      .subscribe();
+  subscribeToChanges(callback: (change: RecordChange<CustomField>) => void) {
+    return subscribeToRecordChanges<DbCustomField, CustomField>('custom-fields-changes', 'custom_fields', dbCustomFieldToCustomField, callback);
   },
 };
 
@@ -548,6 +890,15 @@ export const tasksApi = {
     return dbTaskToTask(data);
   },
 
+  async setSalesforceId(id: string, salesforceId: string): Promise<void> {
+    const { error } = await supabase
+      .from('tasks')
+      .update({ salesforce_id: salesforceId, updated_at: new Date().toISOString() })
+      .eq('id', id);
+    
+    if (error) throw error;
+  },
+
   async delete(id: string): Promise<void> {
     const { error } = await supabase
       .from('tasks')
@@ -557,14 +908,18 @@ export const tasksApi = {
     if (error) throw error;
   },
 
-  subscribeToChanges(callback: (tasks: Task[]) => void) {
-    return supabase
-      .channel('tasks-changes')
-      .on('postgres_changes', { event: '*', schema: 'public', table: 'tasks' }, async () => {
-        const tasks = await this.getAll();
-        callback(tasks);
-      })
-      .subscribe();
+  async reassignClient(fromClientIds: string[], toClientId: string): Promise<void> {
+    if (fromClientIds.length === 0) return;
+    const { error } = await supabase
+      .from('tasks')
+      .update({ client_id: toClientId, updated_at: new Date().toISOString() })
+      .in('client_id', fromClientIds);
+    
+    if (error) throw error;
+  },
+
+  subscribeToChanges(callback: (change: RecordChange<Task>) => void) {
+    return subscribeToRecordChanges<DbTask, Task>('tasks-changes', 'tasks', dbTaskToTask, callback);
   },
 };
 
@@ -605,17 +960,355 @@ export const savedFiltersApi = {
     if (error) throw error;
   },
 
-  subscribeToChanges(callback: (filters: SavedFilter[]) => void) {
-    return supabase
-      .channel('saved-filters-changes')
-      .on('postgres_changes', { event: '*', schema: 'public', table: 'saved_filters' }, async () => {
-        const filters = await this.getAll();
-        callback(filters);
-      })
-      .subscribe();
+  subscribeToChanges(callback: (change: RecordChange<SavedFilter>) => void) {
+    return subscribeToRecordChanges<DbSavedFilter, SavedFilter>('saved-filters-changes', 'saved_filters', dbSavedFilterToSavedFilter, callback);
+  },
+};
+
+// Route operations (one saved route per day)
+export const routesApi = {
+  async getAll(): Promise<Route[]> {
+    const { data, error } = await supabase
+      .from('routes')
+      .select('*')
+      .order('date', { ascending: true });
+    
+    if (error) throw error;
+    return (data || []).map(dbRouteToRoute);
+  },
+
+  async getByDate(date: string): Promise<Route | null> {
+    const { data, error } = await supabase
+      .from('routes')
+      .select('*')
+      .eq('date', date)
+      .order('updated_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    
+    if (error) throw error;
+    return data ? dbRouteToRoute(data) : null;
+  },
+
+  async create(route: Route): Promise<Route> {
+    const dbRoute = await routeToDbRoute(route);
+    const { data, error } = await supabase
+      .from('routes')
+      .insert(dbRoute)
+      .select()
+      .single();
+    
+    if (error) throw error;
+    return dbRouteToRoute(data);
+  },
+
+  async update(route: Route): Promise<Route> {
+    const dbRoute = await routeToDbRoute(route);
+    const { data, error } = await supabase
+      .from('routes')
+      .update({ ...dbRoute, updated_at: new Date().toISOString() })
+      .eq('id', route.id)
+      .select()
+      .single();
+    
+    if (error) throw error;
+    return dbRouteToRoute(data);
+  },
+
+  async delete(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('routes')
+      .delete()
+      .eq('id', id);
+    
+    if (error) throw error;
+  },
+
+  subscribeToChanges(callback: (change: RecordChange<Route>) => void) {
+    return subscribeToRecordChanges<DbRoute, Route>('routes-changes', 'routes', dbRouteToRoute, callback);
+  },
+};
+
+// Depot operations (where routes start and end, e.g. home or office)
+export const depotsApi = {
+  async getAll(): Promise<Depot[]> {
+    const { data, error } = await supabase
+      .from('depots')
+      .select('*')
+      .order('created_at', { ascending: true });
+    
+    if (error) throw error;
+    return (data || []).map(dbDepotToDepot);
+  },
+
+  async create(depot: Depot): Promise<Depot> {
+    const dbDepot = await depotToDbDepot(depot);
+    const { data, error } = await supabase
+      .from('depots')
+      .insert(dbDepot)
+      .select()
+      .single();
+    
+    if (error) throw error;
+    return dbDepotToDepot(data);
+  },
+
+  async update(depot: Depot): Promise<Depot> {
+    const dbDepot = await depotToDbDepot(depot);
+    const { data, error } = await supabase
+      .from('depots')
+      .update({ ...dbDepot, updated_at: new Date().toISOString() })
+      .eq('id', depot.id)
+      .select()
+      .single();
+    
+    if (error) throw error;
+    return dbDepotToDepot(data);
+  },
+
+  async delete(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('depots')
+      .delete()
+      .eq('id', id);
+    
+    if (error) throw error;
+  },
+
+  // Only one depot can be the default
+  async setDefault(id: string): Promise<void> {
+    const { error: clearError } = await supabase
+      .from('depots')
+      .update({ is_default: false })
+      .neq('id', id);
+    
+    if (clearError) throw clearError;
+
+    const { error } = await supabase
+      .from('depots')
+      .update({ is_default: true, updated_at: new Date().toISOString() })
+      .eq('id', id);
+    
+    if (error) throw error;
   },
 };
 
+// Territory operations (named groups of nearby clients)
+export const territoriesApi = {
+  async getAll(): Promise<Territory[]> {
+    const { data, error } = await supabase
+      .from('territories')
+      .select('*')
+      .order('name', { ascending: true });
+    
+    if (error) throw error;
+    return (data || []).map(dbTerritoryToTerritory);
+  },
+
+  async update(territory: Territory): Promise<Territory> {
+    const dbTerritory = await territoryToDbTerritory(territory);
+    const { data, error } = await supabase
+      .from('territories')
+      .update({ ...dbTerritory, updated_at: new Date().toISOString() })
+      .eq('id', territory.id)
+      .select()
+      .single();
+    
+    if (error) throw error;
+    return dbTerritoryToTerritory(data);
+  },
+
+  async delete(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('territories')
+      .delete()
+      .eq('id', id);
+    
+    if (error) throw error;
+  },
+
+  // Territories are regenerated as a set, so a new clustering replaces the old one
+  async replaceAll(territories: Territory[]): Promise<Territory[]> {
+    const { error: deleteError } = await supabase
+      .from('territories')
+      .delete()
+      .not('id', 'is', null);
+    
+    if (deleteError) throw deleteError;
+    if (territories.length === 0) return [];
+
+    const dbTerritories = await Promise.all(territories.map(territoryToDbTerritory));
+    const { data, error } = await supabase
+      .from('territories')
+      .insert(dbTerritories)
+      .select();
+    
+    if (error) throw error;
+    return (data || []).map(dbTerritoryToTerritory);
+  },
+};
+
+// Cadence rule operations (how often clients should be visited)
+export const cadenceRulesApi = {
+  async getAll(): Promise<CadenceRule[]> {
+    const { data, error } = await supabase
+      .from('cadence_rules')
+      .select('*')
+      .order('created_at', { ascending: true });
+    
+    if (error) throw error;
+    return (data || []).map(dbCadenceRuleToCadenceRule);
+  },
+
+  async create(rule: CadenceRule): Promise<CadenceRule> {
+    const dbRule = await cadenceRuleToDbCadenceRule(rule);
+    const { data, error } = await supabase
+      .from('cadence_rules')
+      .insert(dbRule)
+      .select()
+      .single();
+    
+    if (error) throw error;
+    return dbCadenceRuleToCadenceRule(data);
+  },
+
+  async update(rule: CadenceRule): Promise<CadenceRule> {
+    const dbRule = await cadenceRuleToDbCadenceRule(rule);
+    const { data, error } = await supabase
+      .from('cadence_rules')
+      .update({ ...dbRule, updated_at: new Date().toISOString() })
+      .eq('id', rule.id)
+      .select()
+      .single();
+    
+    if (error) throw error;
+    return dbCadenceRuleToCadenceRule(data);
+  },
+
+  async delete(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('cadence_rules')
+      .delete()
+      .eq('id', id);
+    
+    if (error) throw error;
+  },
+};
+
+// Salesforce sync history, newest first
+export const syncRunsApi = {
+  async getRecent(limit = 50): Promise<SyncRun[]> {
+    const { data, error } = await supabase
+      .from('sync_runs')
+      .select('*')
+      .order('started_at', { ascending: false })
+      .limit(limit);
+    
+    if (error) throw error;
+    return (data || []).map(dbSyncRunToSyncRun);
+  },
+
+  async create(run: SyncRun): Promise<SyncRun> {
+    const dbRun = await syncRunToDbSyncRun(run);
+    const { data, error } = await supabase
+      .from('sync_runs')
+      .insert(dbRun)
+      .select()
+      .single();
+    
+    if (error) throw error;
+    return dbSyncRunToSyncRun(data);
+  },
+
+  // Records how conflicts left to the user were resolved
+  async updateConflicts(run: SyncRun): Promise<SyncRun> {
+    const { data, error } = await supabase
+      .from('sync_runs')
+      .update({ conflicts: run.conflicts })
+      .eq('id', run.id)
+      .select()
+      .single();
+    
+    if (error) throw error;
+    return dbSyncRunToSyncRun(data);
+  },
+};
+
+export const salesforceOutboxApi = {
+  async getAll(): Promise<SalesforceOutboxEntry[]> {
+    const { data, error } = await supabase
+      .from('salesforce_outbox')
+      .select('*')
+      .order('created_at', { ascending: true });
+    
+    if (error) throw error;
+    return (data || []).map(dbOutboxEntryToOutboxEntry);
+  },
+
+  // Adds an entry, or records another attempt at one
+  async save(entry: SalesforceOutboxEntry): Promise<SalesforceOutboxEntry> {
+    const dbEntry = await outboxEntryToDbOutboxEntry(entry);
+    const { data, error } = await supabase
+      .from('salesforce_outbox')
+      .upsert(dbEntry)
+      .select()
+      .single();
+    
+    if (error) throw error;
+    return dbOutboxEntryToOutboxEntry(data);
+  },
+
+  async delete(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('salesforce_outbox')
+      .delete()
+      .eq('id', id);
+    
+    if (error) throw error;
+  },
+};
+
+// The per-object sync cursors are kept as JSON; a single watermark saved
+// before they were split applies to all three objects
+const parseSyncCursors = (value: string | null): SyncCursors | undefined => {
+  if (!value) return undefined;
+  if (value.startsWith('{')) return JSON.parse(value);
+  return { Contact: value, Account: value, Event: value };
+};
+
+// Insert or update the single user_settings row for the current user
+const upsertUserSettings = async (fields: Partial<DbUserSettings>): Promise<void> => {
+  const userId = await getCurrentUserId();
+  
+  // First, try to get existing settings
+  const { data: existing } = await supabase
+    .from('user_settings')
+    .select('id')
+    .limit(1)
+    .single();
+
+  const settingsData = {
+    ...fields,
+    user_id: userId,
+    updated_at: new Date().toISOString(),
+  };
+
+  if (existing) {
+    const { error } = await supabase
+      .from('user_settings')
+      .update(settingsData)
+      .eq('id', existing.id);
+    
+    if (error) throw error;
+  } else {
+    const { error } = await supabase
+      .from('user_settings')
+      .insert(settingsData);
+    
+    if (error) throw error;
+  }
+};
+
 // User settings operations
 export const userSettingsApi = {
   async get(): Promise<SalesforceConfig | null> {
@@ -636,177 +1329,178 @@ export const userSettingsApi = {
       lastSync: data.salesforce_last_sync || undefined,
       syncDirection: data.salesforce_sync_direction as SalesforceConfig['syncDirection'],
       fieldMappings: data.salesforce_field_mappings || {},
+      clientId: data.salesforce_client_id || undefined,
+      loginUrl: data.salesforce_login_url || undefined,
+      syncCursors: parseSyncCursors(data.salesforce_sync_cursor),
+      tokens: data.salesforce_tokens || undefined,
+      conflictPolicy: (data.salesforce_conflict_policy as SalesforceConfig['conflictPolicy']) || undefined,
     };
   },
 
   async upsert(config: SalesforceConfig): Promise<SalesforceConfig> {
-    const userId = await getCurrentUserId();
-    
-    // First, try to get existing settings
-    const { data: existing } = await supabase
-      .from('user_settings')
-      .select('id')
-      .limit(1)
-      .single();
-
-    const settingsData = {
-      user_id: userId,
+    await upsertUserSettings({
       salesforce_connected: config.connected,
       salesforce_instance_url: config.instanceUrl || null,
       salesforce_last_sync: config.lastSync || null,
       salesforce_sync_direction: config.syncDirection,
       salesforce_field_mappings: config.fieldMappings,
-      updated_at: new Date().toISOString(),
-    };
-
-    if (existing) {
-      const { error } = await supabase
-        .from('user_settings')
-        .update(settingsData)
-        .eq('id', existing.id);
-      
-      if (error) throw error;
-    } else {
-      const { error } = await supabase
-        .from('user_settings')
-        .insert(settingsData);
-      
-      if (error) throw error;
-    }
+      salesforce_client_id: config.clientId || null,
+      salesforce_login_url: config.loginUrl || null,
+      salesforce_sync_cursor: config.syncCursors ? JSON.stringify(config.syncCursors) : null,
+      salesforce_tokens: config.tokens || null,
+      salesforce_conflict_policy: config.conflictPolicy || null,
+    });
 
     return config;
   },
-};
-
-// Helper to format date as YYYY-MM-DD
-const formatDateString = (date: Date): string => date.toISOString().split('T')[0];
 
-// Update meeting dates to be relative to today (for refreshing demo data)
-export const refreshMeetingDates = async (): Promise<Meeting[]> => {
-  const today = new Date();
-  
-  // Get all meetings
-  const { data: meetings, error: fetchError } = await supabase
-    .from('meetings')
-    .select('*')
-    .order('date', { ascending: true });
-  
-  if (fetchError) throw fetchError;
-  if (!meetings || meetings.length === 0) return [];
-  
-  // Group meetings by their relative position (oldest first)
-  // We'll redistribute them around today
-  const updatedMeetings: Meeting[] = [];
-  
-  for (let i = 0; i < meetings.length; i++) {
-    const meeting = meetings[i];
-    // Distribute meetings: some in past, most around today and future
-    const dayOffset = i < 3 ? -(3 - i) : (i - 3); // -2, -1, 0, 1, 2, 3, 4...
-    const newDate = new Date(today);
-    newDate.setDate(newDate.getDate() + dayOffset);
-    
-    const { error: updateError } = await supabase
-      .from('meetings')
-      .update({ 
-        date: formatDateString(newDate),
-        updated_at: new Date().toISOString()
-      })
-      .eq('id', meeting.id);
+  async getWorkday(): Promise<WorkdaySettings | null> {
+    const { data, error } = await supabase
+      .from('user_settings')
+      .select('workday_start, workday_end, lunch_start, lunch_end')
+      .limit(1)
+      .single();
     
-    if (!updateError) {
-      updatedMeetings.push({
-        ...dbMeetingToMeeting(meeting),
-        date: formatDateString(newDate)
-      });
+    if (error) {
+      if (error.code === 'PGRST116') return null;
+      throw error;
     }
-  }
-  
-  return updatedMeetings;
-};
+    if (!data.workday_start || !data.workday_end) return null;
+    
+    return {
+      startTime: data.workday_start.substring(0, 5),
+      endTime: data.workday_end.substring(0, 5),
+      lunchBreak: data.lunch_start && data.lunch_end
+        ? { start: data.lunch_start.substring(0, 5), end: data.lunch_end.substring(0, 5) }
+        : undefined,
+    };
+  },
 
-// Check if meetings need date refresh (all meetings are more than 7 days old)
-const needsMeetingDateRefresh = (meetings: Meeting[]): boolean => {
-  if (meetings.length === 0) return false;
-  
-  const today = new Date();
-  const sevenDaysFromNow = new Date(today);
-  sevenDaysFromNow.setDate(sevenDaysFromNow.getDate() + 7);
-  
-  // Check if any meeting is within the next 7 days
-  const hasRecentMeetings = meetings.some(m => {
-    const meetingDate = new Date(m.date);
-    return meetingDate >= today && meetingDate <= sevenDaysFromNow;
-  });
-  
-  return !hasRecentMeetings;
-};
+  async upsertWorkday(settings: WorkdaySettings): Promise<WorkdaySettings> {
+    await upsertUserSettings({
+      workday_start: settings.startTime,
+      workday_end: settings.endTime,
+      lunch_start: settings.lunchBreak?.start || null,
+      lunch_end: settings.lunchBreak?.end || null,
+    });
 
-// Seed initial data if database is empty
-export const seedInitialData = async (
-  sampleClients: Client[],
-  sampleMeetings: Meeting[],
-  sampleCustomFields: CustomField[]
-): Promise<{ clients: Client[]; meetings: Meeting[]; customFields: CustomField[]; tasks: Task[] }> => {
-  // Check if data already exists
-  const { data: existingClients } = await supabase
-    .from('clients')
-    .select('id')
-    .limit(1);
-
-  if (existingClients && existingClients.length > 0) {
-    // Data already exists, fetch it
-    const clients = await clientsApi.getAll();
-    let meetings = await meetingsApi.getAll();
-    const customFields = await customFieldsApi.getAll();
-    const tasks = await tasksApi.getAll();
-    
-    // Check if meetings need date refresh (all meetings are in the past or too far in the future)
-    if (needsMeetingDateRefresh(meetings)) {
-      console.log('Meetings are outdated, refreshing dates...');
-      try {
-        meetings = await refreshMeetingDates();
-        console.log(`Refreshed ${meetings.length} meeting dates`);
-      } catch (e) {
-        console.error('Failed to refresh meeting dates:', e);
-      }
+    return settings;
+  },
+
+  async getTravelTime(): Promise<TravelTimeSettings | null> {
+    const { data, error } = await supabase
+      .from('user_settings')
+      .select('travel_time_provider, osrm_url, osrm_profile')
+      .limit(1)
+      .single();
+    
+    if (error) {
+      if (error.code === 'PGRST116') return null;
+      throw error;
     }
+    if (!data.travel_time_provider) return null;
     
-    return { clients, meetings, customFields, tasks };
-  }
+    return {
+      provider: data.travel_time_provider as TravelTimeSettings['provider'],
+      osrmUrl: data.osrm_url || undefined,
+      osrmProfile: data.osrm_profile || undefined,
+    };
+  },
+
+  async upsertTravelTime(settings: TravelTimeSettings): Promise<TravelTimeSettings> {
+    await upsertUserSettings({
+      travel_time_provider: settings.provider,
+      osrm_url: settings.osrmUrl || null,
+      osrm_profile: settings.osrmProfile || null,
+    });
+
+    return settings;
+  },
 
-  // Seed clients - IDs are already proper UUIDs
-  const createdClients = await clientsApi.bulkCreate(sampleClients);
-
-  // Seed meetings - IDs and clientIds are already proper UUIDs
-  const createdMeetings: Meeting[] = [];
-  for (const meeting of sampleMeetings) {
-    try {
-      const created = await meetingsApi.create(meeting);
-      createdMeetings.push(created);
-    } catch (e) {
-      console.error('Failed to create meeting:', e);
+  async getMap(): Promise<MapSettings | null> {
+    const { data, error } = await supabase
+      .from('user_settings')
+      .select('tile_url_template, tile_attribution, tile_max_zoom')
+      .limit(1)
+      .single();
+    
+    if (error) {
+      if (error.code === 'PGRST116') return null;
+      throw error;
     }
-  }
+    if (!data.tile_url_template) return null;
+    
+    return {
+      tileUrlTemplate: data.tile_url_template,
+      attribution: data.tile_attribution || '',
+      maxZoom: data.tile_max_zoom ?? 19,
+    };
+  },
 
-  // Seed custom fields - IDs are already proper UUIDs
-  const createdFields: CustomField[] = [];
-  for (const field of sampleCustomFields) {
-    try {
-      const created = await customFieldsApi.create(field);
-      createdFields.push(created);
-    } catch (e) {
-      console.error('Failed to create custom field:', e);
+  async upsertMap(settings: MapSettings): Promise<MapSettings> {
+    await upsertUserSettings({
+      tile_url_template: settings.tileUrlTemplate,
+      tile_attribution: settings.attribution || null,
+      tile_max_zoom: settings.maxZoom,
+    });
+
+    return settings;
+  },
+
+  async getCalendarFeed(): Promise<CalendarFeedSettings | null> {
+    const { data, error } = await supabase
+      .from('user_settings')
+      .select('calendar_feed_token, calendar_feed_url, calendar_feed_published_at')
+      .limit(1)
+      .single();
+    
+    if (error) {
+      if (error.code === 'PGRST116') return null;
+      throw error;
     }
-  }
+    if (!data.calendar_feed_token) return null;
+    
+    return {
+      token: data.calendar_feed_token,
+      url: data.calendar_feed_url || undefined,
+      lastPublished: data.calendar_feed_published_at || undefined,
+    };
+  },
 
-  // Fetch tasks (will be empty initially)
-  const tasks = await tasksApi.getAll();
+  async upsertCalendarFeed(settings: CalendarFeedSettings | null): Promise<CalendarFeedSettings | null> {
+    await upsertUserSettings({
+      calendar_feed_token: settings?.token || null,
+      calendar_feed_url: settings?.url || null,
+      calendar_feed_published_at: settings?.lastPublished || null,
+    });
 
-  return {
-    clients: createdClients,
-    meetings: createdMeetings,
-    customFields: createdFields,
-    tasks,
-  };
+    return settings;
+  },
 };
 
+const CALENDAR_FEEDS_BUCKET = 'calendar-feeds';
+
+// Calendar feed files, served from a public storage bucket at an unguessable path
+export const calendarFeedApi = {
+  async publish(token: string, ics: string): Promise<string> {
+    const path = `${token}.ics`;
+    const { error } = await supabase.storage
+      .from(CALENDAR_FEEDS_BUCKET)
+      .upload(path, new Blob([ics], { type: 'text/calendar;charset=utf-8' }), {
+        upsert: true,
+        contentType: 'text/calendar;charset=utf-8',
+        cacheControl: '300',
+      });
+    
+    if (error) throw error;
+    return supabase.storage.from(CALENDAR_FEEDS_BUCKET).getPublicUrl(path).data.publicUrl;
+  },
+
+  async unpublish(token: string): Promise<void> {
+    const { error } = await supabase.storage
+      .from(CALENDAR_FEEDS_BUCKET)
+      .remove([`${token}.ics`]);
+    
+    if (error) throw error;
+  },
+};
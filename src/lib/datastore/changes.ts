@@ -0,0 +1,46 @@
+// Applying changes to single records to a list of them, for realtime updates
+// and edits shown before the server has saved them
+
+import { RecordChange } from '@/types';
+
+// Where a record the list doesn't have yet goes: first, last, or by a sort order
+export type RecordPlacement<T> = 'start' | 'end' | ((a: T, b: T) => number);
+
+export const recordChangeId = <T extends { id: string }>(change: RecordChange<T>): string =>
+  change.type === 'delete' ? change.id : change.record.id;
+
+/**
+ * The list with `change` applied. Inserting a record the list already has
+ * replaces it, and updating one it lacks adds it, so a change can safely
+ * arrive twice.
+ */
+export const applyRecordChange = <T extends { id: string }>(
+  records: T[],
+  change: RecordChange<T>,
+  placement: RecordPlacement<T>
+): T[] => {
+  if (change.type === 'delete') {
+    return records.some(r => r.id === change.id) ? records.filter(r => r.id !== change.id) : records;
+  }
+
+  const { record } = change;
+  const exists = records.some(r => r.id === record.id);
+  if (typeof placement === 'function') {
+    // The change may move the record, e.g. a meeting to another day
+    const others = exists ? records.filter(r => r.id !== record.id) : records;
+    const at = others.findIndex(r => placement(record, r) < 0);
+    return at < 0 ? [...others, record] : [...others.slice(0, at), record, ...others.slice(at)];
+  }
+  if (exists) return records.map(r => r.id === record.id ? record : r);
+  return placement === 'start' ? [record, ...records] : [...records, record];
+};
+
+/**
+ * The change that puts `records` back as they were before `change`, to roll
+ * back an edit the server refused
+ */
+export const invertRecordChange = <T extends { id: string }>(records: T[], change: RecordChange<T>): RecordChange<T> => {
+  const id = recordChangeId(change);
+  const previous = records.find(r => r.id === id);
+  return previous ? { type: 'update', record: previous } : { type: 'delete', id };
+};
@@ -0,0 +1,47 @@
+// Where the app keeps its data: the hosted Supabase backend, or a local
+// store for demos and tests. Chosen with VITE_DATA_STORE (supabase by default).
+
+import { DataStore, DataStoreBackend } from './types';
+import { createSupabaseDataStore } from './supabase';
+import { createLocalDataStore } from './local';
+
+export type {
+  DataStore,
+  DataStoreBackend,
+  Subscription,
+  ClientsStore,
+  MeetingsStore,
+  TasksStore,
+  CustomFieldsStore,
+  SavedFiltersStore,
+  UserSettingsStore,
+  RoutesStore,
+  DepotsStore,
+  TerritoriesStore,
+  CadenceRulesStore,
+  SyncRunsStore,
+  SalesforceOutboxStore,
+  CalendarFeedStore,
+} from './types';
+export { createSupabaseDataStore } from './supabase';
+export { createLocalDataStore, LOCAL_USER } from './local';
+export { seedInitialData, refreshMeetingDates } from './seed';
+export { applyRecordChange, invertRecordChange, recordChangeId } from './changes';
+export type { RecordPlacement } from './changes';
+
+export const createDataStore = (backend: DataStoreBackend): DataStore => {
+  switch (backend) {
+    case 'supabase': return createSupabaseDataStore();
+    case 'indexeddb':
+    case 'memory': return createLocalDataStore(backend);
+    default: throw new Error(`Unknown data store "${backend}"; use supabase, indexeddb or memory`);
+  }
+};
+
+let current: DataStore | null = null;
+
+// The store the app runs on, created on first use
+export const getDataStore = (): DataStore => {
+  if (!current) current = createDataStore((import.meta.env.VITE_DATA_STORE || 'supabase') as DataStoreBackend);
+  return current;
+};
@@ -0,0 +1,381 @@
+// A store kept in the browser, for demos and tests without the hosted
+// backend: in memory only, or in memory and saved to IndexedDB
+
+import {
+  CadenceRule,
+  CalendarFeedSettings,
+  Client,
+  CustomField,
+  Depot,
+  MapSettings,
+  Meeting,
+  RecordChange,
+  Route,
+  SalesforceConfig,
+  SalesforceOutboxEntry,
+  SavedFilter,
+  SyncRun,
+  Task,
+  Territory,
+  TravelTimeSettings,
+  User,
+  WorkdaySettings,
+} from '@/types';
+import { IndexedDb, createIndexedDb, isIndexedDbAvailable } from '@/lib/idb';
+import { DataStore, Subscription } from './types';
+
+// Signed in while the app runs on a local store, which has no accounts
+export const LOCAL_USER: User = {
+  id: 'local-user',
+  email: 'demo@localhost',
+  fullName: 'Demo User',
+};
+
+const TABLES = [
+  'clients',
+  'meetings',
+  'tasks',
+  'customFields',
+  'savedFilters',
+  'settings',
+  'routes',
+  'depots',
+  'territories',
+  'cadenceRules',
+  'syncRuns',
+  'salesforceOutbox',
+] as const;
+
+interface StoredRow<T> {
+  id: string;
+  order: number; // When the record was first saved, to keep insertion order
+  record: T;
+}
+
+interface Settings {
+  id: string;
+  salesforce?: SalesforceConfig;
+  workday?: WorkdaySettings;
+  travelTime?: TravelTimeSettings;
+  map?: MapSettings;
+  calendarFeed?: CalendarFeedSettings;
+}
+
+const SETTINGS_ID = 'user';
+
+const byDateAndTime = (a: Meeting, b: Meeting) =>
+  a.date.localeCompare(b.date) || a.startTime.localeCompare(b.startTime);
+
+/**
+ * One table held in memory. With a database it is read from there on first
+ * use and every write is saved back.
+ */
+const createTable = <T extends { id: string }>(
+  name: typeof TABLES[number],
+  db: IndexedDb | null,
+  order: 'oldest-first' | 'newest-first' | ((a: T, b: T) => number)
+) => {
+  const rows = new Map<string, StoredRow<T>>();
+  const listeners = new Set<(change: RecordChange<T>) => void>();
+  let loading: Promise<void> | null = null;
+  let nextOrder = 0;
+
+  const ready = () => {
+    if (!loading) {
+      loading = db
+        ? db.readAll<StoredRow<T>>(name).then(stored => {
+          stored.forEach(row => rows.set(row.id, row));
+          nextOrder = Math.max(0, ...stored.map(row => row.order + 1));
+        })
+        : Promise.resolve();
+    }
+    return loading;
+  };
+
+  const list = () => {
+    const sorted = [...rows.values()].sort((a, b) => a.order - b.order).map(row => row.record);
+    if (order === 'newest-first') return sorted.reverse();
+    return order === 'oldest-first' ? sorted : sorted.sort(order);
+  };
+
+  const notify = (changes: RecordChange<T>[]) => {
+    changes.forEach(change => listeners.forEach(listener => listener(change)));
+  };
+
+  return {
+    async all(): Promise<T[]> {
+      await ready();
+      return list();
+    },
+
+    async get(id: string): Promise<T | undefined> {
+      await ready();
+      return rows.get(id)?.record;
+    },
+
+    async put(records: T[]): Promise<T[]> {
+      await ready();
+      const changes = records.map(record => ({ type: rows.has(record.id) ? 'update' : 'insert', record }) as RecordChange<T>);
+      const changed = records.map(record => ({ id: record.id, order: rows.get(record.id)?.order ?? nextOrder++, record }));
+      changed.forEach(row => rows.set(row.id, row));
+      await db?.putAll(name, changed);
+      notify(changes);
+      return records;
+    },
+
+    async remove(ids: string[]): Promise<void> {
+      await ready();
+      const removed = ids.filter(id => rows.delete(id));
+      await db?.deleteKeys(name, ids);
+      notify(removed.map(id => ({ type: 'delete', id })));
+    },
+
+    subscribe(listener: (change: RecordChange<T>) => void): Subscription {
+      listeners.add(listener);
+      return {
+        unsubscribe: () => {
+          listeners.delete(listener);
+        },
+      };
+    },
+  };
+};
+
+const requireRecord = <T>(record: T | undefined, what: string): T => {
+  if (!record) throw new Error(`${what} not found`);
+  return record;
+};
+
+/**
+ * A store in the browser. 'indexeddb' keeps the data between visits and
+ * falls back to memory where IndexedDB isn't available, e.g. in Node tests.
+ */
+export const createLocalDataStore = (backend: 'indexeddb' | 'memory' = 'indexeddb'): DataStore => {
+  const db = backend === 'indexeddb' && isIndexedDbAvailable()
+    ? createIndexedDb('client-meeting-scheduler-local', 2, TABLES.map(name => ({ name, keyPath: 'id' })))
+    : null;
+
+  const clients = createTable<Client>('clients', db, 'newest-first');
+  const meetings = createTable<Meeting>('meetings', db, byDateAndTime);
+  const tasks = createTable<Task>('tasks', db, 'newest-first');
+  const customFields = createTable<CustomField>('customFields', db, 'oldest-first');
+  const savedFilters = createTable<SavedFilter>('savedFilters', db, 'newest-first');
+  const settings = createTable<Settings>('settings', db, 'oldest-first');
+  const routes = createTable<Route>('routes', db, (a, b) => a.date.localeCompare(b.date));
+  const depots = createTable<Depot>('depots', db, 'oldest-first');
+  const territories = createTable<Territory>('territories', db, (a, b) => a.name.localeCompare(b.name));
+  const cadenceRules = createTable<CadenceRule>('cadenceRules', db, 'oldest-first');
+  const syncRuns = createTable<SyncRun>('syncRuns', db, (a, b) => b.startedAt.localeCompare(a.startedAt));
+  const salesforceOutbox = createTable<SalesforceOutboxEntry>('salesforceOutbox', db, 'oldest-first');
+
+  // Object URLs of published feeds, by token. They only last as long as the
+  // page, so the feed is republished on the next visit.
+  const feedUrls = new Map<string, string>();
+
+  const touch = (client: Client): Client => ({ ...client, updatedAt: new Date().toISOString() });
+
+  const checkMeeting = (meeting: Meeting) => {
+    if (!meeting.clientId || meeting.clientId.trim() === '') {
+      throw new Error('A valid client must be selected for the meeting');
+    }
+    return meeting;
+  };
+
+  const readSettings = async () => (await settings.get(SETTINGS_ID)) ?? { id: SETTINGS_ID };
+
+  const saveSetting = async <K extends keyof Omit<Settings, 'id'>>(key: K, value: Settings[K]) => {
+    await settings.put([{ ...(await readSettings()), [key]: value ?? undefined }]);
+    return value;
+  };
+
+  const moveToClient = async <T extends { id: string; clientId?: string }>(
+    table: ReturnType<typeof createTable<T>>,
+    fromClientIds: string[],
+    toClientId: string
+  ) => {
+    if (fromClientIds.length === 0) return;
+    const moved = (await table.all())
+      .filter(record => record.clientId && fromClientIds.includes(record.clientId))
+      .map(record => ({ ...record, clientId: toClientId }));
+    if (moved.length > 0) await table.put(moved);
+  };
+
+  return {
+    backend: db ? 'indexeddb' : 'memory',
+
+    clients: {
+      getAll: () => clients.all(),
+      getById: async id => (await clients.get(id)) ?? null,
+      create: async client => (await clients.put([touch(client)]))[0],
+      update: async client => {
+        requireRecord(await clients.get(client.id), 'Client');
+        return (await clients.put([touch(client)]))[0];
+      },
+      delete: id => clients.remove([id]),
+      bulkCreate: newClients => clients.put(newClients.map(touch)),
+      subscribeToChanges: callback => clients.subscribe(callback),
+    },
+
+    meetings: {
+      getAll: () => meetings.all(),
+      getByDate: async date => (await meetings.all()).filter(m => m.date === date),
+      getByClientId: async clientId =>
+        (await meetings.all()).filter(m => m.clientId === clientId).sort((a, b) => b.date.localeCompare(a.date)),
+      create: async meeting => (await meetings.put([checkMeeting(meeting)]))[0],
+      update: async meeting => {
+        requireRecord(await meetings.get(meeting.id), 'Meeting');
+        return (await meetings.put([checkMeeting(meeting)]))[0];
+      },
+      updateStatus: async (id, status) => {
+        const meeting = requireRecord(await meetings.get(id), 'Meeting');
+        await meetings.put([{ ...meeting, status }]);
+      },
+      setSalesforceLink: async (id, salesforceId, syncSnapshot) => {
+        const meeting = requireRecord(await meetings.get(id), 'Meeting');
+        await meetings.put([{ ...meeting, salesforceId, syncSnapshot }]);
+      },
+      delete: id => meetings.remove([id]),
+      getSeries: async seriesId => (await meetings.all())
+        .filter(m => m.id === seriesId || m.seriesId === seriesId)
+        .sort((a, b) => a.date.localeCompare(b.date)),
+      deleteMany: async ids => {
+        if (ids.length > 0) await meetings.remove(ids);
+      },
+      reassignClient: (fromClientIds, toClientId) => moveToClient(meetings, fromClientIds, toClientId),
+      subscribeToChanges: callback => meetings.subscribe(callback),
+    },
+
+    tasks: {
+      getAll: () => tasks.all(),
+      getByMeetingId: async meetingId => (await tasks.all()).filter(t => t.meetingId === meetingId),
+      getByClientId: async clientId => (await tasks.all()).filter(t => t.clientId === clientId),
+      create: async task => (await tasks.put([task]))[0],
+      update: async task => {
+        requireRecord(await tasks.get(task.id), 'Task');
+        return (await tasks.put([task]))[0];
+      },
+      setSalesforceId: async (id, salesforceId) => {
+        const task = requireRecord(await tasks.get(id), 'Task');
+        await tasks.put([{ ...task, salesforceId }]);
+      },
+      delete: id => tasks.remove([id]),
+      reassignClient: (fromClientIds, toClientId) => moveToClient(tasks, fromClientIds, toClientId),
+      subscribeToChanges: callback => tasks.subscribe(callback),
+    },
+
+    customFields: {
+      getAll: () => customFields.all(),
+      create: async field => (await customFields.put([field]))[0],
+      update: async field => {
+        requireRecord(await customFields.get(field.id), 'Custom field');
+        return (await customFields.put([field]))[0];
+      },
+      delete: id => customFields.remove([id]),
+      subscribeToChanges: callback => customFields.subscribe(callback),
+    },
+
+    savedFilters: {
+      getAll: () => savedFilters.all(),
+      create: async (name, filters) => (await savedFilters.put([{
+        id: crypto.randomUUID(),
+        name,
+        filters,
+        createdAt: new Date().toISOString(),
+      }]))[0],
+      delete: id => savedFilters.remove([id]),
+      subscribeToChanges: callback => savedFilters.subscribe(callback),
+    },
+
+    userSettings: {
+      get: async () => (await readSettings()).salesforce ?? null,
+      upsert: config => saveSetting('salesforce', config),
+      getWorkday: async () => (await readSettings()).workday ?? null,
+      upsertWorkday: settings => saveSetting('workday', settings),
+      getTravelTime: async () => (await readSettings()).travelTime ?? null,
+      upsertTravelTime: settings => saveSetting('travelTime', settings),
+      getMap: async () => (await readSettings()).map ?? null,
+      upsertMap: settings => saveSetting('map', settings),
+      getCalendarFeed: async () => (await readSettings()).calendarFeed ?? null,
+      upsertCalendarFeed: settings => saveSetting('calendarFeed', settings),
+    },
+
+    routes: {
+      getAll: () => routes.all(),
+      getByDate: async date => (await routes.all()).find(r => r.date === date) ?? null,
+      create: async route => (await routes.put([route]))[0],
+      update: async route => {
+        requireRecord(await routes.get(route.id), 'Route');
+        return (await routes.put([route]))[0];
+      },
+      delete: id => routes.remove([id]),
+      subscribeToChanges: callback => routes.subscribe(callback),
+    },
+
+    depots: {
+      getAll: () => depots.all(),
+      create: async depot => (await depots.put([depot]))[0],
+      update: async depot => {
+        requireRecord(await depots.get(depot.id), 'Depot');
+        return (await depots.put([depot]))[0];
+      },
+      delete: id => depots.remove([id]),
+      setDefault: async id => {
+        requireRecord(await depots.get(id), 'Depot');
+        await depots.put((await depots.all()).map(depot => ({ ...depot, isDefault: depot.id === id })));
+      },
+    },
+
+    territories: {
+      getAll: () => territories.all(),
+      update: async territory => {
+        requireRecord(await territories.get(territory.id), 'Territory');
+        return (await territories.put([territory]))[0];
+      },
+      delete: id => territories.remove([id]),
+      replaceAll: async newTerritories => {
+        await territories.remove((await territories.all()).map(t => t.id));
+        return territories.put(newTerritories);
+      },
+    },
+
+    cadenceRules: {
+      getAll: () => cadenceRules.all(),
+      create: async rule => (await cadenceRules.put([rule]))[0],
+      update: async rule => {
+        requireRecord(await cadenceRules.get(rule.id), 'Cadence rule');
+        return (await cadenceRules.put([rule]))[0];
+      },
+      delete: id => cadenceRules.remove([id]),
+    },
+
+    syncRuns: {
+      getRecent: async (limit = 50) => (await syncRuns.all()).slice(0, limit),
+      create: async run => (await syncRuns.put([run]))[0],
+      updateConflicts: async run => {
+        const saved = requireRecord(await syncRuns.get(run.id), 'Sync run');
+        return (await syncRuns.put([{ ...saved, conflicts: run.conflicts }]))[0];
+      },
+    },
+
+    salesforceOutbox: {
+      getAll: () => salesforceOutbox.all(),
+      save: async entry => (await salesforceOutbox.put([entry]))[0],
+      delete: id => salesforceOutbox.remove([id]),
+    },
+
+    calendarFeed: {
+      publish: async (token, ics) => {
+        const previous = feedUrls.get(token);
+        if (previous) URL.revokeObjectURL(previous);
+        const url = URL.createObjectURL(new Blob([ics], { type: 'text/calendar;charset=utf-8' }));
+        feedUrls.set(token, url);
+        return url;
+      },
+      unpublish: async token => {
+        const url = feedUrls.get(token);
+        if (url) URL.revokeObjectURL(url);
+        feedUrls.delete(token);
+      },
+    },
+  };
+};
@@ -0,0 +1,99 @@
+// Sample data for a new account, and keeping demo meetings around today
+
+import { Client, CustomField, Meeting } from '@/types';
+import { DataStore } from './types';
+
+// Helper to format date as YYYY-MM-DD
+const formatDateString = (date: Date): string => date.toISOString().split('T')[0];
+
+// Update meeting dates to be relative to today (for refreshing demo data)
+export const refreshMeetingDates = async (store: DataStore): Promise<Meeting[]> => {
+  const today = new Date();
+
+  // Get all meetings, oldest first
+  const meetings = await store.meetings.getAll();
+  if (meetings.length === 0) return [];
+
+  // Group meetings by their relative position (oldest first)
+  // We'll redistribute them around today
+  const updatedMeetings: Meeting[] = [];
+
+  for (let i = 0; i < meetings.length; i++) {
+    // Distribute meetings: some in past, most around today and future
+    const dayOffset = i < 3 ? -(3 - i) : (i - 3); // -2, -1, 0, 1, 2, 3, 4...
+    const newDate = new Date(today);
+    newDate.setDate(newDate.getDate() + dayOffset);
+
+    try {
+      updatedMeetings.push(await store.meetings.update({ ...meetings[i], date: formatDateString(newDate) }));
+    } catch (e) {
+      console.error('Failed to refresh meeting date:', e);
+    }
+  }
+
+  return updatedMeetings;
+};
+
+// Check if meetings need date refresh (all meetings are more than 7 days old)
+const needsMeetingDateRefresh = (meetings: Meeting[]): boolean => {
+  if (meetings.length === 0) return false;
+
+  const today = new Date();
+  const sevenDaysFromNow = new Date(today);
+  sevenDaysFromNow.setDate(sevenDaysFromNow.getDate() + 7);
+
+  // Check if any meeting is within the next 7 days
+  const hasRecentMeetings = meetings.some(m => {
+    const meetingDate = new Date(m.date);
+    return meetingDate >= today && meetingDate <= sevenDaysFromNow;
+  });
+
+  return !hasRecentMeetings;
+};
+
+// Seed initial data if the store is empty, or bring outdated demo meetings back around today
+export const seedInitialData = async (
+  store: DataStore,
+  sampleClients: Client[],
+  sampleMeetings: Meeting[],
+  sampleCustomFields: CustomField[]
+): Promise<void> => {
+  // Check if data already exists
+  const clients = await store.clients.getAll();
+
+  if (clients.length > 0) {
+    // Check if meetings need date refresh (all meetings are in the past or too far in the future)
+    const meetings = await store.meetings.getAll();
+    if (needsMeetingDateRefresh(meetings)) {
+      console.log('Meetings are outdated, refreshing dates...');
+      try {
+        const refreshed = await refreshMeetingDates(store);
+        console.log(`Refreshed ${refreshed.length} meeting dates`);
+      } catch (e) {
+        console.error('Failed to refresh meeting dates:', e);
+      }
+    }
+    return;
+  }
+
+  // Seed clients - IDs are already proper UUIDs
+  await store.clients.bulkCreate(sampleClients);
+
+  // Seed meetings - IDs and clientIds are already proper UUIDs
+  for (const meeting of sampleMeetings) {
+    try {
+      await store.meetings.create(meeting);
+    } catch (e) {
+      console.error('Failed to create meeting:', e);
+    }
+  }
+
+  // Seed custom fields - IDs are already proper UUIDs
+  for (const field of sampleCustomFields) {
+    try {
+      await store.customFields.create(field);
+    } catch (e) {
+      console.error('Failed to create custom field:', e);
+    }
+  }
+};
@@ -0,0 +1,35 @@
+// The hosted backend: the Supabase APIs in database.ts
+
+import {
+  clientsApi,
+  meetingsApi,
+  tasksApi,
+  customFieldsApi,
+  savedFiltersApi,
+  userSettingsApi,
+  routesApi,
+  depotsApi,
+  territoriesApi,
+  cadenceRulesApi,
+  syncRunsApi,
+  salesforceOutboxApi,
+  calendarFeedApi,
+} from '@/lib/database';
+import { DataStore } from './types';
+
+export const createSupabaseDataStore = (): DataStore => ({
+  backend: 'supabase',
+  clients: clientsApi,
+  meetings: meetingsApi,
+  tasks: tasksApi,
+  customFields: customFieldsApi,
+  savedFilters: savedFiltersApi,
+  userSettings: userSettingsApi,
+  routes: routesApi,
+  depots: depotsApi,
+  territories: territoriesApi,
+  cadenceRules: cadenceRulesApi,
+  syncRuns: syncRunsApi,
+  salesforceOutbox: salesforceOutboxApi,
+  calendarFeed: calendarFeedApi,
+});
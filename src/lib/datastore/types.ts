@@ -0,0 +1,162 @@
+// What the app needs from wherever its data is kept
+
+import {
+  CadenceRule,
+  CalendarFeedSettings,
+  Client,
+  ClientFilters,
+  CustomField,
+  Depot,
+  MapSettings,
+  Meeting,
+  RecordChange,
+  Route,
+  SalesforceConfig,
+  SalesforceOutboxEntry,
+  SavedFilter,
+  SyncRun,
+  SyncSnapshot,
+  Task,
+  Territory,
+  TravelTimeSettings,
+  WorkdaySettings,
+} from '@/types';
+
+export type DataStoreBackend = 'supabase' | 'indexeddb' | 'memory';
+
+export interface Subscription {
+  unsubscribe(): unknown;
+}
+
+export interface ClientsStore {
+  getAll(): Promise<Client[]>; // Newest first
+  getById(id: string): Promise<Client | null>;
+  create(client: Client): Promise<Client>;
+  update(client: Client): Promise<Client>;
+  delete(id: string): Promise<void>;
+  bulkCreate(clients: Client[]): Promise<Client[]>;
+  subscribeToChanges(callback: (change: RecordChange<Client>) => void): Subscription;
+}
+
+export interface MeetingsStore {
+  getAll(): Promise<Meeting[]>; // By date and start time
+  getByDate(date: string): Promise<Meeting[]>;
+  getByClientId(clientId: string): Promise<Meeting[]>;
+  create(meeting: Meeting): Promise<Meeting>;
+  update(meeting: Meeting): Promise<Meeting>;
+  updateStatus(id: string, status: Meeting['status']): Promise<void>;
+  setSalesforceLink(id: string, salesforceId: string, syncSnapshot?: SyncSnapshot): Promise<void>;
+  delete(id: string): Promise<void>;
+  getSeries(seriesId: string): Promise<Meeting[]>; // The series' first meeting and its edited occurrences
+  deleteMany(ids: string[]): Promise<void>;
+  reassignClient(fromClientIds: string[], toClientId: string): Promise<void>;
+  subscribeToChanges(callback: (change: RecordChange<Meeting>) => void): Subscription;
+}
+
+export interface TasksStore {
+  getAll(): Promise<Task[]>; // Newest first
+  getByMeetingId(meetingId: string): Promise<Task[]>;
+  getByClientId(clientId: string): Promise<Task[]>;
+  create(task: Task): Promise<Task>;
+  update(task: Task): Promise<Task>;
+  setSalesforceId(id: string, salesforceId: string): Promise<void>;
+  delete(id: string): Promise<void>;
+  reassignClient(fromClientIds: string[], toClientId: string): Promise<void>;
+  subscribeToChanges(callback: (change: RecordChange<Task>) => void): Subscription;
+}
+
+export interface CustomFieldsStore {
+  getAll(): Promise<CustomField[]>; // In the order they were added
+  create(field: CustomField): Promise<CustomField>;
+  update(field: CustomField): Promise<CustomField>;
+  delete(id: string): Promise<void>;
+  subscribeToChanges(callback: (change: RecordChange<CustomField>) => void): Subscription;
+}
+
+export interface SavedFiltersStore {
+  getAll(): Promise<SavedFilter[]>; // Newest first
+  create(name: string, filters: ClientFilters): Promise<SavedFilter>;
+  delete(id: string): Promise<void>;
+  subscribeToChanges(callback: (change: RecordChange<SavedFilter>) => void): Subscription;
+}
+
+// Each getter returns null until the settings have been saved once
+export interface UserSettingsStore {
+  get(): Promise<SalesforceConfig | null>;
+  upsert(config: SalesforceConfig): Promise<SalesforceConfig>;
+  getWorkday(): Promise<WorkdaySettings | null>;
+  upsertWorkday(settings: WorkdaySettings): Promise<WorkdaySettings>;
+  getTravelTime(): Promise<TravelTimeSettings | null>;
+  upsertTravelTime(settings: TravelTimeSettings): Promise<TravelTimeSettings>;
+  getMap(): Promise<MapSettings | null>;
+  upsertMap(settings: MapSettings): Promise<MapSettings>;
+  getCalendarFeed(): Promise<CalendarFeedSettings | null>;
+  upsertCalendarFeed(settings: CalendarFeedSettings | null): Promise<CalendarFeedSettings | null>;
+}
+
+// One saved route per day
+export interface RoutesStore {
+  getAll(): Promise<Route[]>; // By date
+  getByDate(date: string): Promise<Route | null>;
+  create(route: Route): Promise<Route>;
+  update(route: Route): Promise<Route>;
+  delete(id: string): Promise<void>;
+  subscribeToChanges(callback: (change: RecordChange<Route>) => void): Subscription;
+}
+
+export interface DepotsStore {
+  getAll(): Promise<Depot[]>; // In the order they were added
+  create(depot: Depot): Promise<Depot>;
+  update(depot: Depot): Promise<Depot>;
+  delete(id: string): Promise<void>;
+  setDefault(id: string): Promise<void>; // Clears the flag on every other depot
+}
+
+export interface TerritoriesStore {
+  getAll(): Promise<Territory[]>; // By name
+  update(territory: Territory): Promise<Territory>;
+  delete(id: string): Promise<void>;
+  replaceAll(territories: Territory[]): Promise<Territory[]>;
+}
+
+export interface CadenceRulesStore {
+  getAll(): Promise<CadenceRule[]>; // In the order they were added
+  create(rule: CadenceRule): Promise<CadenceRule>;
+  update(rule: CadenceRule): Promise<CadenceRule>;
+  delete(id: string): Promise<void>;
+}
+
+export interface SyncRunsStore {
+  getRecent(limit?: number): Promise<SyncRun[]>; // Newest first
+  create(run: SyncRun): Promise<SyncRun>;
+  updateConflicts(run: SyncRun): Promise<SyncRun>;
+}
+
+export interface SalesforceOutboxStore {
+  getAll(): Promise<SalesforceOutboxEntry[]>; // Oldest first
+  save(entry: SalesforceOutboxEntry): Promise<SalesforceOutboxEntry>; // Adds or replaces the entry
+  delete(id: string): Promise<void>;
+}
+
+// Where the published .ics feed is served from
+export interface CalendarFeedStore {
+  publish(token: string, ics: string): Promise<string>; // Resolves to the feed's URL
+  unpublish(token: string): Promise<void>;
+}
+
+export interface DataStore {
+  backend: DataStoreBackend;
+  clients: ClientsStore;
+  meetings: MeetingsStore;
+  tasks: TasksStore;
+  customFields: CustomFieldsStore;
+  savedFilters: SavedFiltersStore;
+  userSettings: UserSettingsStore;
+  routes: RoutesStore;
+  depots: DepotsStore;
+  territories: TerritoriesStore;
+  cadenceRules: CadenceRulesStore;
+  syncRuns: SyncRunsStore;
+  salesforceOutbox: SalesforceOutboxStore;
+  calendarFeed: CalendarFeedStore;
+}
@@ -0,0 +1,11 @@
+export { normalizeAddress, normalizeName, normalizeCompany, normalizePhone, normalizeEmail, similarity } from './normalize';
+export {
+  scoreClientMatch,
+  findDuplicateGroups,
+  findImportDuplicates,
+  DUPLICATE_THRESHOLD,
+  LIKELY_DUPLICATE_THRESHOLD,
+} from './match';
+export type { DuplicateReason, DuplicateMatch, DuplicateGroup, ImportDuplicate } from './match';
+export { mergeClients, planClientMerge } from './merge';
+export type { ClientMergePlan } from './merge';
@@ -0,0 +1,192 @@
+// Fuzzy duplicate detection across name, company, email, phone and address
+
+import { Client } from '@/types';
+import { normalizeAddress, normalizeCompany, normalizeEmail, normalizeName, normalizePhone, similarity } from './normalize';
+
+export type DuplicateReason = 'email' | 'phone' | 'address' | 'name' | 'company';
+
+export interface DuplicateMatch {
+  score: number; // 0 to 1; DUPLICATE_THRESHOLD and above counts as a duplicate
+  reasons: DuplicateReason[];
+}
+
+export interface DuplicateGroup {
+  clients: Client[];
+  score: number; // Strongest match between any two of them
+  reasons: DuplicateReason[];
+}
+
+export interface ImportDuplicate {
+  index: number; // Row of the import
+  client: Client; // Existing client it matches
+  match: DuplicateMatch;
+}
+
+export const DUPLICATE_THRESHOLD = 0.6;
+export const LIKELY_DUPLICATE_THRESHOLD = 0.85;
+
+// Names and companies this alike count as the same
+const SIMILAR = 0.85;
+
+// What each matching field adds to the score; a shared office phone or
+// address alone is not enough, the same email address is
+const WEIGHTS: Record<DuplicateReason, number> = {
+  email: 0.6,
+  phone: 0.35,
+  address: 0.35,
+  name: 0.45,
+  company: 0.2,
+};
+
+// Different values for a field that identifies a person count against a match
+const CONFLICT_PENALTY = 0.15;
+const NAME_MISMATCH_PENALTY = 0.25;
+
+interface ClientKeys {
+  email: string;
+  phone: string;
+  address: string;
+  zip: string;
+  name: string;
+  company: string;
+}
+
+const toKeys = (client: Partial<Client>): ClientKeys => ({
+  email: normalizeEmail(client.email || ''),
+  phone: normalizePhone(client.phone || ''),
+  address: normalizeAddress(client.address || ''),
+  zip: (client.zipCode || '').trim().substring(0, 5),
+  name: normalizeName(client.name || ''),
+  company: normalizeCompany(client.company || ''),
+});
+
+const scoreKeys = (a: ClientKeys, b: ClientKeys): DuplicateMatch => {
+  const reasons: DuplicateReason[] = [];
+  let score = 0;
+  const add = (reason: DuplicateReason, strength = 1) => {
+    reasons.push(reason);
+    score += WEIGHTS[reason] * strength;
+  };
+
+  if (a.email && b.email) {
+    if (a.email === b.email) add('email');
+    else score -= CONFLICT_PENALTY;
+  }
+  if (a.phone && a.phone === b.phone) add('phone');
+  if (a.address && a.address === b.address && (!a.zip || !b.zip || a.zip === b.zip)) add('address');
+
+  // Colleagues share a phone, an address and a company but not a name
+  const name = similarity(a.name, b.name);
+  if (name >= SIMILAR) add('name', name);
+  else if (a.name && b.name) score -= NAME_MISMATCH_PENALTY;
+
+  const company = similarity(a.company, b.company);
+  if (company >= SIMILAR) add('company', company);
+  else if (a.company && b.company && name < 1) score -= CONFLICT_PENALTY;
+
+  return { score: Math.max(0, Math.min(1, Math.round(score * 100) / 100)), reasons };
+};
+
+/**
+ * How likely two clients are the same, and which fields say so
+ */
+export const scoreClientMatch = (a: Partial<Client>, b: Partial<Client>): DuplicateMatch =>
+  scoreKeys(toKeys(a), toKeys(b));
+
+// Keys that any real duplicate shares with its twin; only clients sharing
+// one are compared, which keeps large client lists fast
+const blockingKeys = (keys: ClientKeys) => [
+  keys.email && `e:${keys.email}`,
+  keys.phone && `p:${keys.phone}`,
+  keys.address && `a:${keys.address}`,
+  ...keys.name.split(' ').filter(word => word.length >= 3).map(word => `n:${word}`),
+].filter((key): key is string => !!key);
+
+const buildIndex = (keys: ClientKeys[]) => {
+  const index = new Map<string, number[]>();
+  keys.forEach((k, i) => {
+    blockingKeys(k).forEach(key => {
+      const bucket = index.get(key);
+      if (bucket) bucket.push(i);
+      else index.set(key, [i]);
+    });
+  });
+  return index;
+};
+
+/**
+ * Groups of clients that look like the same person. A client that matches
+ * two others puts all three in one group.
+ */
+export const findDuplicateGroups = (clients: Client[], threshold = DUPLICATE_THRESHOLD): DuplicateGroup[] => {
+  const keys = clients.map(toKeys);
+  const index = buildIndex(keys);
+
+  const parent = clients.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  const best = new Map<number, DuplicateMatch>(); // Strongest match per client
+
+  const compared = new Set<string>();
+  index.forEach(bucket => {
+    for (let x = 0; x < bucket.length; x++) {
+      for (let y = x + 1; y < bucket.length; y++) {
+        const [i, j] = [bucket[x], bucket[y]];
+        const pair = `${i}:${j}`;
+        if (compared.has(pair)) continue;
+        compared.add(pair);
+
+        const match = scoreKeys(keys[i], keys[j]);
+        if (match.score < threshold) continue;
+        parent[find(i)] = find(j);
+        [i, j].forEach(k => {
+          if (match.score > (best.get(k)?.score ?? 0)) best.set(k, match);
+        });
+      }
+    }
+  });
+
+  const groups = new Map<number, number[]>();
+  clients.forEach((_, i) => {
+    if (!best.has(i)) return;
+    const root = find(i);
+    groups.set(root, [...(groups.get(root) || []), i]);
+  });
+
+  return Array.from(groups.values())
+    .map(members => {
+      const matches = members.map(i => best.get(i)!);
+      return {
+        clients: members.map(i => clients[i]),
+        score: Math.max(...matches.map(m => m.score)),
+        reasons: Array.from(new Set(matches.flatMap(m => m.reasons))),
+      };
+    })
+    .sort((a, b) => b.score - a.score);
+};
+
+/**
+ * For rows about to be imported, the existing client each one most likely duplicates
+ */
+export const findImportDuplicates = (
+  incoming: Partial<Client>[],
+  existing: Client[],
+  threshold = DUPLICATE_THRESHOLD
+): ImportDuplicate[] => {
+  const existingKeys = existing.map(toKeys);
+  const index = buildIndex(existingKeys);
+  const duplicates: ImportDuplicate[] = [];
+
+  incoming.forEach((client, row) => {
+    const keys = toKeys(client);
+    const candidates = new Set(blockingKeys(keys).flatMap(key => index.get(key) || []));
+    let found: ImportDuplicate | undefined;
+    candidates.forEach(i => {
+      const match = scoreKeys(keys, existingKeys[i]);
+      if (match.score >= threshold && match.score > (found?.match.score ?? 0)) {
+        found = { index: row, client: existing[i], match };
+      }
+    });
+    if (found) duplicates.push(found);
+  });
+  return duplicates;
+};
@@ -0,0 +1,129 @@
+// Combining duplicate clients into one, and moving everything that pointed
+// at the duplicates over to the client that is kept
+
+import { CadenceRule, Client, Meeting, Task, Territory } from '@/types';
+
+export interface ClientMergePlan {
+  client: Client; // The kept client with the others folded in
+  removedIds: string[];
+  meetings: Meeting[]; // Meetings moved to the kept client
+  tasks: Task[];
+  territories: Territory[]; // Territories whose client list changed
+  cadenceRules: { update: CadenceRule[]; delete: string[] };
+}
+
+const isBlank = (value: unknown) =>
+  value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+
+const TEXT_FIELDS = ['name', 'company', 'email', 'phone', 'notes', 'salesforceId'] as const;
+
+/**
+ * Fold duplicates into the client that is kept. Its own values win; blanks
+ * are filled from the duplicates in order. Notes histories, tags and custom
+ * fields are combined, meeting counts added up and the earliest creation
+ * and latest visit kept.
+ */
+export const mergeClients = (survivor: Client, duplicates: Partial<Client>[]): Client => {
+  const merged: Client = {
+    ...survivor,
+    tags: [...(survivor.tags || [])],
+    customFields: { ...(survivor.customFields || {}) },
+    notesHistory: [...(survivor.notesHistory || [])],
+  };
+
+  duplicates.forEach(other => {
+    TEXT_FIELDS.forEach(field => {
+      if (isBlank(merged[field]) && !isBlank(other[field])) merged[field] = other[field] as string;
+    });
+
+    // An address only makes sense with its own city, state, ZIP and location
+    if (isBlank(merged.address) && !isBlank(other.address)) {
+      merged.address = other.address!;
+      merged.city = other.city || '';
+      merged.state = other.state || '';
+      merged.zipCode = other.zipCode || '';
+      if (other.latitude || other.longitude) {
+        merged.latitude = other.latitude!;
+        merged.longitude = other.longitude!;
+        merged.geocodeConfidence = other.geocodeConfidence;
+        merged.locationVerified = other.locationVerified;
+      }
+    }
+
+    if (!merged.openingHours && other.openingHours) merged.openingHours = other.openingHours;
+
+    (other.tags || []).forEach(tag => {
+      if (!merged.tags.some(t => t.toLowerCase() === tag.toLowerCase())) merged.tags.push(tag);
+    });
+
+    Object.entries(other.customFields || {}).forEach(([name, value]) => {
+      if (isBlank(merged.customFields[name]) && !isBlank(value)) merged.customFields[name] = value;
+    });
+
+    (other.notesHistory || []).forEach(note => {
+      if (!merged.notesHistory.some(n => n.id === note.id || (n.content === note.content && n.createdAt === note.createdAt))) {
+        merged.notesHistory.push(note);
+      }
+    });
+
+    merged.totalMeetings = (merged.totalMeetings || 0) + (other.totalMeetings || 0);
+    if (other.createdAt && other.createdAt < merged.createdAt) merged.createdAt = other.createdAt;
+    if (other.lastVisit && (!merged.lastVisit || other.lastVisit > merged.lastVisit)) merged.lastVisit = other.lastVisit;
+  });
+
+  // Legacy notes of the duplicates would otherwise be lost
+  const ownNotes = (merged.notes || '').trim();
+  const extraNotes = duplicates
+    .map(other => other.notes?.trim())
+    .filter((note): note is string => !!note && !ownNotes.includes(note));
+  if (extraNotes.length > 0) merged.notes = [ownNotes, ...new Set(extraNotes)].filter(Boolean).join('\n\n');
+
+  merged.notesHistory.sort((a, b) => Number(b.isPinned) - Number(a.isPinned) || b.createdAt.localeCompare(a.createdAt));
+  return merged;
+};
+
+/**
+ * Everything that changes when duplicates are merged into a client: the
+ * client itself, and the meetings, tasks, territories and cadence rules that
+ * pointed at a duplicate
+ */
+export const planClientMerge = (
+  survivor: Client,
+  duplicates: Client[],
+  related: { meetings: Meeting[]; tasks: Task[]; territories: Territory[]; cadenceRules: CadenceRule[] }
+): ClientMergePlan => {
+  const removedIds = duplicates.map(d => d.id).filter(id => id !== survivor.id);
+  const removed = new Set(removedIds);
+
+  const meetings = related.meetings
+    .filter(m => removed.has(m.clientId))
+    .map(m => ({ ...m, clientId: survivor.id }));
+
+  const tasks = related.tasks
+    .filter(t => t.clientId && removed.has(t.clientId))
+    .map(t => ({ ...t, clientId: survivor.id }));
+
+  const territories = related.territories
+    .filter(t => t.clientIds.some(id => removed.has(id)))
+    .map(t => ({
+      ...t,
+      clientIds: Array.from(new Set(t.clientIds.map(id => (removed.has(id) ? survivor.id : id)))),
+    }));
+
+  // The kept client's own rule wins; otherwise the first duplicate's rule moves over
+  const cadenceRules: ClientMergePlan['cadenceRules'] = { update: [], delete: [] };
+  let hasRule = related.cadenceRules.some(r => r.clientId === survivor.id);
+  related.cadenceRules
+    .filter(r => r.clientId && removed.has(r.clientId))
+    .forEach(rule => {
+      if (hasRule) {
+        cadenceRules.delete.push(rule.id);
+      } else {
+        cadenceRules.update.push({ ...rule, clientId: survivor.id });
+        hasRule = true;
+      }
+    });
+
+  const client = mergeClients(survivor, duplicates.filter(d => removed.has(d.id)));
+  return { client, removedIds, meetings, tasks, territories, cadenceRules };
+};
@@ -0,0 +1,80 @@
+// Normalised forms of client fields, so that formatting differences don't
+// hide a match: case, punctuation, street abbreviations, company suffixes
+
+const STREET_ABBREVIATIONS: Record<string, string> = {
+  street: 'st', avenue: 'ave', road: 'rd', boulevard: 'blvd', drive: 'dr', lane: 'ln',
+  court: 'ct', place: 'pl', parkway: 'pkwy', highway: 'hwy', suite: 'ste',
+  north: 'n', south: 's', east: 'e', west: 'w',
+};
+
+// Words that don't tell two companies apart
+const COMPANY_SUFFIXES = new Set(['inc', 'incorporated', 'llc', 'llp', 'ltd', 'limited', 'corp', 'corporation', 'co', 'company', 'plc', 'gmbh', 'the']);
+
+// Titles and post-nominals that aren't part of a name
+const NAME_TITLES = new Set(['mr', 'mrs', 'ms', 'miss', 'dr', 'prof', 'jr', 'sr', 'ii', 'iii', 'md', 'phd']);
+
+const words = (value: string) =>
+  value
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+
+/**
+ * Lower case, no punctuation, common street words abbreviated
+ */
+export const normalizeAddress = (value: string) =>
+  words(value)
+    .map(word => STREET_ABBREVIATIONS[word] || word)
+    .join(' ');
+
+/**
+ * Name words in order, without titles, so "Smith, John" matches "Dr. John Smith"
+ */
+export const normalizeName = (value: string) =>
+  words(value)
+    .filter(word => !NAME_TITLES.has(word))
+    .sort()
+    .join(' ');
+
+/**
+ * Company name without legal suffixes: "Acme Corp." and "ACME Corporation" are the same
+ */
+export const normalizeCompany = (value: string) =>
+  words(value.replace(/&/g, ' and '))
+    .filter(word => !COMPANY_SUFFIXES.has(word))
+    .join(' ');
+
+/**
+ * The last ten digits of a phone number, dropping the country code and formatting
+ */
+export const normalizePhone = (value: string) => {
+  const digits = value.replace(/\D/g, '');
+  return digits.length >= 7 ? digits.slice(-10) : '';
+};
+
+export const normalizeEmail = (value: string) => value.trim().toLowerCase();
+
+/**
+ * How alike two strings are, from 0 to 1, by edit distance
+ */
+export const similarity = (a: string, b: string): number => {
+  if (a === b) return a ? 1 : 0;
+  if (!a || !b) return 0;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return 1 - previous[b.length] / Math.max(a.length, b.length);
+};
@@ -0,0 +1,14 @@
+export * from './types';
+export { createNominatimGeocoder } from './nominatim';
+export type { NominatimGeocoderOptions } from './nominatim';
+export { lookupZipCentroid, ZIP_CENTROIDS, ZIP3_CENTROIDS } from './zipCentroids';
+export {
+  defaultGeocoder,
+  geocodeAddress,
+  geocodeClient,
+  locateClientOffline,
+  hasAddressChanged,
+  isVerifiedConfidence,
+  toGeocodeQuery,
+} from './service';
+export type { ClientLocation } from './service';
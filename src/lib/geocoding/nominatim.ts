@@ -0,0 +1,95 @@
+// Geocoder adapter for the Nominatim search API (OpenStreetMap)
+
+import { GeocodeConfidence } from '@/types';
+import { Geocoder, GeocodeQuery, GeocodeResult } from './types';
+
+export interface NominatimGeocoderOptions {
+  baseUrl?: string; // Public instance by default; point at a self-hosted server or a local stub
+  email?: string; // Contact address the public instance asks heavy users to send
+  countryCodes?: string; // Comma-separated ISO 3166-1 codes to limit results to
+  minIntervalMs?: number; // The public instance allows one request per second
+  fetch?: typeof fetch;
+}
+
+interface NominatimPlace {
+  lat: string;
+  lon: string;
+  place_rank: number;
+  display_name: string;
+}
+
+const DEFAULT_BASE_URL = 'https://nominatim.openstreetmap.org';
+
+/**
+ * Place rank 30 is a house or building, 26–27 a street; anything coarser is
+ * no better than the ZIP code.
+ */
+const confidenceForRank = (rank: number): GeocodeConfidence => {
+  if (rank >= 30) return 'high';
+  if (rank >= 26) return 'medium';
+  return 'low';
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Structured Nominatim search. Requests are spaced out by `minIntervalMs` and
+ * identical addresses are only looked up once per geocoder.
+ */
+export const createNominatimGeocoder = ({
+  baseUrl = DEFAULT_BASE_URL,
+  email,
+  countryCodes = 'us',
+  minIntervalMs = 1000,
+  fetch: fetchFn = fetch,
+}: NominatimGeocoderOptions = {}): Geocoder => {
+  const cache = new Map<string, Promise<GeocodeResult | null>>();
+  let queue: Promise<unknown> = Promise.resolve();
+  let lastRequestAt = 0;
+
+  const search = async (query: GeocodeQuery): Promise<GeocodeResult | null> => {
+    const params = new URLSearchParams({ format: 'jsonv2', limit: '1' });
+    if (query.address) params.set('street', query.address);
+    if (query.city) params.set('city', query.city);
+    if (query.state) params.set('state', query.state);
+    if (query.zipCode) params.set('postalcode', query.zipCode);
+    if (countryCodes) params.set('countrycodes', countryCodes);
+    if (email) params.set('email', email);
+
+    const wait = lastRequestAt + minIntervalMs - Date.now();
+    if (wait > 0) await sleep(wait);
+    lastRequestAt = Date.now();
+
+    const response = await fetchFn(`${baseUrl.replace(/\/+$/, '')}/search?${params}`);
+    if (!response.ok) {
+      throw new Error(`Nominatim search failed with status ${response.status}`);
+    }
+    const places: NominatimPlace[] = await response.json();
+    if (places.length === 0) return null;
+
+    const [place] = places;
+    return {
+      latitude: parseFloat(place.lat),
+      longitude: parseFloat(place.lon),
+      confidence: confidenceForRank(place.place_rank),
+      source: 'nominatim',
+      displayName: place.display_name,
+    };
+  };
+
+  return {
+    name: 'nominatim',
+    geocode: (query) => {
+      const key = [query.address, query.city, query.state, query.zipCode].map(p => p.trim().toLowerCase()).join('|');
+      let result = cache.get(key);
+      if (!result) {
+        // Chain requests so the rate limit holds when many are started at once
+        result = queue.then(() => search(query));
+        queue = result.catch(() => undefined);
+        cache.set(key, result);
+        result.catch(() => cache.delete(key));
+      }
+      return result;
+    },
+  };
+};
@@ -0,0 +1,77 @@
+// Geocoding service: online geocoder first, ZIP centroids when it can't help
+
+import { Client, GeocodeConfidence } from '@/types';
+import { createNominatimGeocoder } from './nominatim';
+import { Geocoder, GeocodeQuery, GeocodeResult } from './types';
+import { lookupZipCentroid } from './zipCentroids';
+
+export const defaultGeocoder: Geocoder = createNominatimGeocoder();
+
+// Location fields stored on a client
+export type ClientLocation = Pick<Client, 'latitude' | 'longitude' | 'geocodeConfidence' | 'locationVerified'>;
+
+export const toGeocodeQuery = (client: Partial<Client>): GeocodeQuery => ({
+  address: client.address || '',
+  city: client.city || '',
+  state: client.state || '',
+  zipCode: client.zipCode || '',
+});
+
+/**
+ * Only locations matched to the street address count as verified
+ */
+export const isVerifiedConfidence = (confidence: GeocodeConfidence): boolean => confidence === 'high';
+
+const toClientLocation = (result: GeocodeResult | null): ClientLocation => {
+  if (!result) {
+    return { latitude: 0, longitude: 0, geocodeConfidence: 'none', locationVerified: false };
+  }
+  return {
+    latitude: result.latitude,
+    longitude: result.longitude,
+    geocodeConfidence: result.confidence,
+    locationVerified: isVerifiedConfidence(result.confidence),
+  };
+};
+
+/**
+ * Geocode an address, falling back to the ZIP centroid when the geocoder finds
+ * nothing better or is unreachable
+ */
+export const geocodeAddress = async (
+  query: GeocodeQuery,
+  geocoder: Geocoder = defaultGeocoder
+): Promise<GeocodeResult | null> => {
+  if (!query.address && !query.city && !query.zipCode) return null;
+  const fallback = lookupZipCentroid(query);
+
+  try {
+    const result = await geocoder.geocode(query);
+    // A city-level match is no better than a known ZIP centroid
+    if (result && (result.confidence !== 'low' || !fallback)) return result;
+  } catch (err) {
+    console.error(`Geocoding with ${geocoder.name} failed:`, err);
+  }
+  return fallback;
+};
+
+/**
+ * Location for a client from its address fields
+ */
+export const geocodeClient = async (
+  client: Partial<Client>,
+  geocoder: Geocoder = defaultGeocoder
+): Promise<ClientLocation> => toClientLocation(await geocodeAddress(toGeocodeQuery(client), geocoder));
+
+/**
+ * Immediate, offline location for a client from its ZIP code. Used to place
+ * imported clients right away before they are geocoded properly.
+ */
+export const locateClientOffline = (client: Partial<Client>): ClientLocation =>
+  toClientLocation(lookupZipCentroid(toGeocodeQuery(client)));
+
+/**
+ * Whether a client's address changed in a way that moves it
+ */
+export const hasAddressChanged = (before: Partial<Client>, after: Partial<Client>): boolean =>
+  (['address', 'city', 'state', 'zipCode'] as const).some(field => (before[field] || '').trim() !== (after[field] || '').trim());
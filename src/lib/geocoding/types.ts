@@ -0,0 +1,24 @@
+// Geocoding types
+
+import { GeocodeConfidence } from '@/types';
+
+export interface GeocodeQuery {
+  address: string;
+  city: string;
+  state: string;
+  zipCode: string;
+}
+
+export interface GeocodeResult {
+  latitude: number;
+  longitude: number;
+  confidence: GeocodeConfidence;
+  source: 'nominatim' | 'zip-centroid';
+  displayName?: string;
+}
+
+// Turns an address into coordinates; resolves to null when nothing matches
+export interface Geocoder {
+  name: string;
+  geocode(query: GeocodeQuery): Promise<GeocodeResult | null>;
+}
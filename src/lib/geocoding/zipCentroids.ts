@@ -0,0 +1,128 @@
+// Offline fallback: approximate ZIP code centroids
+//
+// Five-digit entries cover the areas our reps work in; three-digit prefixes
+// catch the rest of a metro area. Extend either table as new territories open.
+
+import { GeocodeQuery, GeocodeResult } from './types';
+
+// ZIP code -> [latitude, longitude]
+export const ZIP_CENTROIDS: Record<string, [number, number]> = {
+  // San Francisco
+  '94102': [37.7793, -122.4193],
+  '94103': [37.7725, -122.4147],
+  '94104': [37.7915, -122.4018],
+  '94105': [37.7898, -122.3942],
+  '94107': [37.7621, -122.3971],
+  '94108': [37.7929, -122.4079],
+  '94109': [37.7917, -122.4186],
+  '94110': [37.7503, -122.4154],
+  '94111': [37.7987, -122.4000],
+  '94112': [37.7210, -122.4422],
+  '94114': [37.7584, -122.4330],
+  '94115': [37.7856, -122.4358],
+  '94116': [37.7441, -122.4863],
+  '94117': [37.7701, -122.4441],
+  '94118': [37.7812, -122.4614],
+  '94121': [37.7786, -122.4927],
+  '94122': [37.7593, -122.4836],
+  '94123': [37.8002, -122.4363],
+  '94124': [37.7324, -122.3839],
+  '94127': [37.7355, -122.4572],
+  '94131': [37.7450, -122.4382],
+  '94132': [37.7224, -122.4853],
+  '94133': [37.8002, -122.4101],
+  '94134': [37.7190, -122.4110],
+  '94158': [37.7706, -122.3875],
+  // Peninsula
+  '94014': [37.6875, -122.4520],
+  '94015': [37.6816, -122.4806],
+  '94040': [37.3800, -122.0856],
+  '94041': [37.3890, -122.0783],
+  '94043': [37.4057, -122.0775],
+  '94061': [37.4640, -122.2370],
+  '94063': [37.4830, -122.2090],
+  '94065': [37.5330, -122.2480],
+  '94086': [37.3712, -122.0375],
+  '94087': [37.3500, -122.0367],
+  '94089': [37.4050, -122.0110],
+  '94301': [37.4443, -122.1502],
+  '94303': [37.4500, -122.1200],
+  '94304': [37.3980, -122.1660],
+  '94306': [37.4180, -122.1270],
+  '94401': [37.5730, -122.3200],
+  '94402': [37.5530, -122.3330],
+  '94403': [37.5400, -122.3000],
+  // East Bay
+  '94536': [37.5610, -121.9990],
+  '94538': [37.5300, -121.9830],
+  '94539': [37.5160, -121.9290],
+  '94541': [37.6740, -122.0870],
+  '94544': [37.6330, -122.0560],
+  '94545': [37.6330, -122.0970],
+  '94596': [37.9040, -122.0610],
+  '94597': [37.9180, -122.0700],
+  '94598': [37.9000, -122.0200],
+  '94607': [37.8070, -122.2940],
+  '94609': [37.8340, -122.2640],
+  '94610': [37.8120, -122.2410],
+  '94611': [37.8300, -122.2200],
+  '94612': [37.8087, -122.2690],
+  '94702': [37.8660, -122.2860],
+  '94703': [37.8640, -122.2750],
+  '94704': [37.8665, -122.2580],
+  '94705': [37.8580, -122.2420],
+  '94709': [37.8790, -122.2660],
+  '94710': [37.8690, -122.2970],
+  // South Bay
+  '95110': [37.3440, -121.9110],
+  '95112': [37.3530, -121.8860],
+  '95113': [37.3337, -121.8907],
+  '95125': [37.2960, -121.8940],
+  '95128': [37.3170, -121.9360],
+};
+
+// First three ZIP digits -> [latitude, longitude] of the area's main city
+export const ZIP3_CENTROIDS: Record<string, [number, number]> = {
+  '021': [42.3550, -71.0600], // Boston
+  '100': [40.7580, -73.9855], // New York
+  '191': [39.9530, -75.1650], // Philadelphia
+  '200': [38.9000, -77.0300], // Washington
+  '303': [33.7550, -84.3900], // Atlanta
+  '331': [25.7750, -80.2000], // Miami
+  '606': [41.8800, -87.6500], // Chicago
+  '752': [32.7900, -96.8000], // Dallas
+  '770': [29.7600, -95.3800], // Houston
+  '787': [30.2700, -97.7400], // Austin
+  '802': [39.7400, -104.9900], // Denver
+  '850': [33.4800, -112.0700], // Phoenix
+  '900': [34.0500, -118.2800], // Los Angeles
+  '921': [32.7400, -117.1500], // San Diego
+  '940': [37.5000, -122.2300], // Peninsula
+  '941': [37.7700, -122.4400], // San Francisco
+  '945': [37.7000, -122.0500], // East Bay
+  '946': [37.8000, -122.2200], // Oakland
+  '947': [37.8700, -122.2700], // Berkeley
+  '950': [37.1000, -121.8000], // Santa Clara County
+  '951': [37.3200, -121.8800], // San Jose
+  '972': [45.5200, -122.6700], // Portland
+  '981': [47.6100, -122.3300], // Seattle
+};
+
+/**
+ * Centroid for the query's ZIP code, or for its three-digit prefix. Always low
+ * confidence: a ZIP code covers anything from a few blocks to many miles.
+ */
+export const lookupZipCentroid = (query: GeocodeQuery): GeocodeResult | null => {
+  const zip = query.zipCode.trim().slice(0, 5);
+  if (!/^\d{5}$/.test(zip)) return null;
+
+  const centroid = ZIP_CENTROIDS[zip] ?? ZIP3_CENTROIDS[zip.slice(0, 3)];
+  if (!centroid) return null;
+
+  return {
+    latitude: centroid[0],
+    longitude: centroid[1],
+    confidence: 'low',
+    source: 'zip-centroid',
+  };
+};
@@ -0,0 +1,44 @@
+// Subscribable calendar feed: the user's meetings as one .ics published at a secret URL
+
+import { Meeting, Client } from '@/types';
+import { addDays } from '@/lib/recurrence';
+import { buildIcsCalendar } from './ics';
+
+export interface CalendarFeedOptions {
+  calendarName?: string;
+  timeZone?: string;
+  pastDays?: number; // How much history to keep in the feed
+  refreshMinutes?: number;
+  now?: Date;
+}
+
+const DEFAULT_PAST_DAYS = 90;
+const DEFAULT_REFRESH_MINUTES = 60;
+
+/**
+ * A random, unguessable token for the feed URL. Anyone with the URL can read
+ * the feed, so a new token is the way to revoke access.
+ */
+export const createFeedToken = () => crypto.randomUUID().replace(/-/g, '');
+
+/**
+ * The feed contents: meetings from `pastDays` ago onwards, with recurring series
+ * kept whole. Cancelled meetings stay in so subscribers drop them too.
+ */
+export const generateCalendarFeed = (meetings: Meeting[], clients: Client[], options: CalendarFeedOptions = {}): string => {
+  const now = options.now ?? new Date();
+  const since = addDays(now.toISOString().split('T')[0], -(options.pastDays ?? DEFAULT_PAST_DAYS));
+  const included = meetings.filter(m => m.recurrence || m.seriesId || m.date >= since);
+
+  return buildIcsCalendar(included, clients, {
+    calendarName: options.calendarName ?? 'MeetingPro Meetings',
+    timeZone: options.timeZone ?? Intl.DateTimeFormat().resolvedOptions().timeZone,
+    refreshMinutes: options.refreshMinutes ?? DEFAULT_REFRESH_MINUTES,
+    now,
+  });
+};
+
+/**
+ * The webcal:// form of a feed URL, which calendar apps open as a subscription
+ */
+export const toWebcalUrl = (url: string) => url.replace(/^https?:\/\//, 'webcal://');
@@ -0,0 +1,182 @@
+// RFC 5545 iCalendar (.ics) generation for meetings
+
+import { Meeting, Client } from '@/types';
+import { isSeriesMaster } from '@/lib/recurrence';
+
+export interface IcsOptions {
+  calendarName?: string;
+  timeZone?: string; // IANA zone the floating meeting times are in, e.g. America/Chicago
+  includeNotes?: boolean;
+  includeStatus?: boolean;
+  refreshMinutes?: number; // For subscribed feeds: how often calendar apps should check for changes
+  now?: Date; // DTSTAMP; defaults to the current time
+}
+
+export const ICS_PRODUCT_ID = '-//MeetingPro//Client Meetings//EN';
+export const ICS_UID_DOMAIN = 'meetingpro';
+
+const CRLF = '\r\n';
+const MAX_LINE_OCTETS = 75;
+
+const TYPE_LABELS: Record<Meeting['type'], string> = {
+  'in-person': 'In person',
+  virtual: 'Virtual',
+  phone: 'Phone',
+};
+
+const STATUS_LABELS: Record<Meeting['status'], string> = {
+  scheduled: 'Scheduled',
+  'in-progress': 'In progress',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+};
+
+// VEVENT only knows tentative, confirmed and cancelled; the app's own status goes in X-MEETINGPRO-STATUS
+const EVENT_STATUS: Record<Meeting['status'], string> = {
+  scheduled: 'CONFIRMED',
+  'in-progress': 'CONFIRMED',
+  completed: 'CONFIRMED',
+  cancelled: 'CANCELLED',
+};
+
+const PRIORITY: Record<Meeting['priority'], number> = { high: 1, medium: 5, low: 9 };
+
+/**
+ * Escape a TEXT value (backslash, semicolon, comma and newlines)
+ */
+export const escapeText = (value: string) =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r\n|\r|\n/g, '\\n');
+
+/**
+ * Fold a content line to at most 75 octets per line, without splitting a UTF-8 character
+ */
+export const foldLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= MAX_LINE_OCTETS) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts towards their length
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join(`${CRLF} `);
+};
+
+const compactDate = (date: string) => date.replace(/-/g, '');
+
+// Floating local date-time, e.g. 20261019T093000
+const localDateTime = (date: string, time: string) => `${compactDate(date)}T${time.replace(':', '').padEnd(4, '0')}00`;
+
+const utcDateTime = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+/**
+ * Stable UID for a meeting, so re-exports and feed refreshes update events instead of duplicating them
+ */
+export const getMeetingUid = (meetingId: string) => `${meetingId}@${ICS_UID_DOMAIN}`;
+
+export const formatClientAddress = (client: Client) =>
+  [client.address, client.city, [client.state, client.zipCode].filter(Boolean).join(' ')].filter(Boolean).join(', ');
+
+// UNTIL has to be a date-time when DTSTART is one
+const toEventRRule = (rrule: string) => rrule.replace(/UNTIL=(\d{8})(?=;|$)/, 'UNTIL=$1T235959');
+
+const buildDescription = (meeting: Meeting, client: Client | undefined, options: IcsOptions) => {
+  const lines: string[] = [];
+  if (client) lines.push(`Client: ${client.name}${client.company ? ` (${client.company})` : ''}`);
+  if (client?.phone) lines.push(`Phone: ${client.phone}`);
+  lines.push(`Type: ${TYPE_LABELS[meeting.type]}`);
+  if (options.includeStatus !== false) lines.push(`Status: ${STATUS_LABELS[meeting.status]}`);
+  if (options.includeNotes !== false && meeting.notes) lines.push('', meeting.notes);
+  return lines.join('\n');
+};
+
+const buildEvent = (
+  meeting: Meeting,
+  series: Meeting | undefined,
+  client: Client | undefined,
+  options: IcsOptions,
+  stamp: string
+): string[] => {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${getMeetingUid(series?.id ?? meeting.id)}`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART:${localDateTime(meeting.date, meeting.startTime)}`,
+    `DTEND:${localDateTime(meeting.date, meeting.endTime)}`,
+    `SUMMARY:${escapeText(meeting.title)}`,
+  ];
+
+  // An edited occurrence is the same event as its series, overriding the instance it replaced
+  if (series && meeting.occurrenceDate) {
+    lines.push(`RECURRENCE-ID:${localDateTime(meeting.occurrenceDate, series.startTime)}`);
+  }
+  if (isSeriesMaster(meeting)) {
+    lines.push(`RRULE:${toEventRRule(meeting.recurrence!.rrule)}`);
+    const exdates = meeting.recurrence!.exdates || [];
+    if (exdates.length > 0) {
+      lines.push(`EXDATE:${exdates.map(date => localDateTime(date, meeting.startTime)).join(',')}`);
+    }
+  }
+
+  const location = meeting.type === 'in-person' && client ? formatClientAddress(client) : meeting.location;
+  if (location) lines.push(`LOCATION:${escapeText(location)}`);
+  if (meeting.type === 'in-person' && client && client.geocodeConfidence !== 'none' && (client.latitude || client.longitude)) {
+    lines.push(`GEO:${client.latitude.toFixed(6)};${client.longitude.toFixed(6)}`);
+  }
+
+  lines.push(`DESCRIPTION:${escapeText(buildDescription(meeting, client, options))}`);
+  lines.push(`STATUS:${EVENT_STATUS[meeting.status]}`);
+  if (options.includeStatus !== false) lines.push(`X-MEETINGPRO-STATUS:${meeting.status}`);
+  lines.push(`X-MEETINGPRO-TYPE:${meeting.type}`);
+  lines.push(`PRIORITY:${PRIORITY[meeting.priority]}`);
+  lines.push(`CATEGORIES:${escapeText(TYPE_LABELS[meeting.type])}`);
+  lines.push('TRANSP:OPAQUE', 'END:VEVENT');
+  return lines;
+};
+
+/**
+ * Build a VCALENDAR with one event per meeting. Pass stored meetings, not
+ * expanded ones: a series is written once with its RRULE, and occurrences
+ * edited on their own are written as overrides of it.
+ */
+export const buildIcsCalendar = (meetings: Meeting[], clients: Client[], options: IcsOptions = {}): string => {
+  const clientsById = new Map(clients.map(c => [c.id, c]));
+  const seriesById = new Map(meetings.filter(isSeriesMaster).map(m => [m.id, m]));
+  const stamp = utcDateTime(options.now ?? new Date());
+
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', `PRODID:${ICS_PRODUCT_ID}`, 'CALSCALE:GREGORIAN', 'METHOD:PUBLISH'];
+  if (options.calendarName) {
+    lines.push(`NAME:${escapeText(options.calendarName)}`, `X-WR-CALNAME:${escapeText(options.calendarName)}`);
+  }
+  if (options.timeZone) lines.push(`X-WR-TIMEZONE:${options.timeZone}`);
+  if (options.refreshMinutes) {
+    lines.push(`REFRESH-INTERVAL;VALUE=DURATION:PT${options.refreshMinutes}M`, `X-PUBLISHED-TTL:PT${options.refreshMinutes}M`);
+  }
+
+  // Series first, so every override follows the event it modifies
+  const ordered = [...meetings].sort((a, b) =>
+    Number(!!a.seriesId) - Number(!!b.seriesId) || a.date.localeCompare(b.date) || a.startTime.localeCompare(b.startTime)
+  );
+  ordered.forEach(meeting => {
+    const series = meeting.seriesId ? seriesById.get(meeting.seriesId) : undefined;
+    lines.push(...buildEvent(meeting, series, clientsById.get(meeting.clientId), options, stamp));
+  });
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join(CRLF) + CRLF;
+};
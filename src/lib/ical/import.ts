@@ -0,0 +1,237 @@
+// Turning parsed iCalendar events into meetings: client matching, duplicates
+// of earlier imports, and clashes with meetings already on the calendar
+
+import { Meeting, Client, TimeWindow } from '@/types';
+import { haversineDistance, timeToMinutes, minutesToTime } from '@/lib/routing';
+import { parseRRule, formatRRule, expandMeetings } from '@/lib/recurrence';
+import { normalizeAddress } from '@/lib/duplicates';
+import { IcsEvent, IcsDateValue, toZonedDateTime } from './parse';
+import { ICS_UID_DOMAIN } from './ics';
+
+export type ClientMatchReason = 'email' | 'address' | 'geo' | 'company';
+
+export interface IcsImportOptions {
+  timeZone?: string; // Zone to put meeting times in; defaults to the browser's
+  ownEmail?: string; // The user's address, never matched to a client
+  allDayHours?: TimeWindow; // Times given to all-day events
+}
+
+export interface IcsImportCandidate {
+  key: string; // UID, plus the occurrence for overrides of a series
+  event: IcsEvent;
+  meeting: Meeting; // clientId is empty when no client matched
+  match?: { client: Client; reason: ClientMatchReason };
+  existing?: Meeting; // The meeting an earlier import of this event created
+  conflicts: Meeting[]; // Other meetings at the same time
+  warnings: string[];
+}
+
+const DEFAULT_ALL_DAY_HOURS: TimeWindow = { start: '09:00', end: '17:00' };
+const DEFAULT_DURATION_MINUTES = 60;
+const GEO_MATCH_MILES = 0.1;
+
+const MEETING_TYPES: Meeting['type'][] = ['in-person', 'virtual', 'phone'];
+const MEETING_STATUSES: Meeting['status'][] = ['scheduled', 'in-progress', 'completed', 'cancelled'];
+
+const VIDEO_LINK = /https?:\/\/\S*(zoom\.us|teams\.microsoft|teams\.live|meet\.google|webex|gotomeeting|whereby|chime\.aws)/i;
+const PHONE_LOCATION = /^(tel:|phone\b|call\b|\+?[\d\s().-]{7,}$)/i;
+
+const containsWords = (text: string, words: string) => ` ${text} `.includes(` ${words} `);
+
+/**
+ * Find the client an event is with: an attendee's email first, then the
+ * location's street address or coordinates, then a company named in the location
+ */
+export const matchEventClient = (
+  event: IcsEvent,
+  clients: Client[],
+  ownEmail?: string
+): IcsImportCandidate['match'] => {
+  const own = ownEmail?.toLowerCase();
+  const emails = [...event.attendees, ...(event.organizer ? [event.organizer] : [])]
+    .map(a => a.email)
+    .filter(email => email !== own);
+  for (const email of emails) {
+    const client = clients.find(c => c.email && c.email.toLowerCase() === email);
+    if (client) return { client, reason: 'email' };
+  }
+
+  if (event.location) {
+    const location = normalizeAddress(event.location);
+    const zip = event.location.match(/\b\d{5}\b/)?.[0];
+    const client = clients.find(c => {
+      const street = normalizeAddress(c.address || '');
+      if (!street || !containsWords(location, street)) return false;
+      return !zip || !c.zipCode || c.zipCode.startsWith(zip);
+    });
+    if (client) return { client, reason: 'address' };
+  }
+
+  if (event.geo) {
+    const here = { lat: event.geo.latitude, lon: event.geo.longitude };
+    const client = clients.find(c =>
+      c.geocodeConfidence !== 'none' && (c.latitude || c.longitude) &&
+      haversineDistance(here, { lat: c.latitude, lon: c.longitude }) <= GEO_MATCH_MILES
+    );
+    if (client) return { client, reason: 'geo' };
+  }
+
+  if (event.location) {
+    const location = normalizeAddress(event.location);
+    const client = clients.find(c => c.company && c.company.length >= 3 && containsWords(location, normalizeAddress(c.company)));
+    if (client) return { client, reason: 'company' };
+  }
+
+  return undefined;
+};
+
+const inferType = (event: IcsEvent, match: IcsImportCandidate['match']): Meeting['type'] => {
+  const stated = event.extensions['X-MEETINGPRO-TYPE'] as Meeting['type'];
+  if (MEETING_TYPES.includes(stated)) return stated;
+  if (event.conferenceUrl || VIDEO_LINK.test(event.location) || VIDEO_LINK.test(event.description)) return 'virtual';
+  if (PHONE_LOCATION.test(event.location)) return 'phone';
+  if (match && match.reason !== 'email') return 'in-person';
+  return event.location ? 'in-person' : 'virtual';
+};
+
+const inferStatus = (event: IcsEvent): Meeting['status'] => {
+  const stated = event.extensions['X-MEETINGPRO-STATUS'] as Meeting['status'];
+  if (MEETING_STATUSES.includes(stated)) return stated;
+  return event.status === 'CANCELLED' ? 'cancelled' : 'scheduled';
+};
+
+// PRIORITY is 1 (highest) to 9 (lowest), 0 for undefined
+const inferPriority = (event: IcsEvent): Meeting['priority'] => {
+  if (!event.priority) return 'medium';
+  if (event.priority < 5) return 'high';
+  return event.priority === 5 ? 'medium' : 'low';
+};
+
+// Our own exports put a client/type/status header before the notes; keep just the notes
+const extractNotes = (event: IcsEvent) => {
+  if (!event.extensions['X-MEETINGPRO-TYPE']) return event.description;
+  const split = event.description.indexOf('\n\n');
+  return split >= 0 ? event.description.slice(split + 2).trim() : '';
+};
+
+// Start and end in the target zone; events longer than a day are cut at midnight
+const resolveTimes = (event: IcsEvent, timeZone: string, allDay: TimeWindow) => {
+  const start = toZonedDateTime(event.start, timeZone);
+  if (!start.time) return { date: start.date, startTime: allDay.start, endTime: allDay.end, allDay: true };
+
+  let endTime: string;
+  const end = event.end && toZonedDateTime(event.end, timeZone);
+  if (end?.time && end.date === start.date) {
+    endTime = end.time;
+  } else if (end) {
+    endTime = '23:59';
+  } else {
+    const minutes = timeToMinutes(start.time) + (event.durationMinutes ?? DEFAULT_DURATION_MINUTES);
+    endTime = minutes >= 24 * 60 ? '23:59' : minutesToTime(minutes);
+  }
+  if (endTime <= start.time) endTime = minutesToTime(Math.min(timeToMinutes(start.time) + DEFAULT_DURATION_MINUTES, 24 * 60 - 1));
+  return { date: start.date, startTime: start.time, endTime, allDay: false };
+};
+
+const localDate = (value: IcsDateValue, timeZone: string) => toZonedDateTime(value, timeZone).date;
+
+// RRULE in the subset the app can expand, with UNTIL as a local date
+const readRecurrence = (event: IcsEvent, timeZone: string, warnings: string[]): Meeting['recurrence'] => {
+  if (!event.rrule) return undefined;
+  try {
+    const rule = parseRRule(event.rrule);
+    const until = event.rrule.match(/UNTIL=(\d{8}T\d{6}Z)/i)?.[1];
+    if (until) {
+      const [, y, m, d, hh, mm] = until.match(/(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})/)!;
+      rule.until = localDate({ date: `${y}-${m}-${d}`, time: `${hh}:${mm}`, utc: true }, timeZone);
+    }
+    return {
+      rrule: formatRRule(rule),
+      exdates: Array.from(new Set(event.exdates.map(value => localDate(value, timeZone)))).sort(),
+    };
+  } catch (err) {
+    warnings.push(`Repeats in a way that is not supported (${err instanceof Error ? err.message : event.rrule}); only the first meeting is imported`);
+    return undefined;
+  }
+};
+
+const overlaps = (a: Meeting, b: Meeting) => a.startTime < b.endTime && b.startTime < a.endTime;
+
+/**
+ * Build the meetings an import would create, one candidate per event. Events
+ * that override one occurrence of a series become edited occurrences of it.
+ * Earlier imports are recognised by UID, as are events exported by this app.
+ */
+export const prepareIcsImport = (
+  events: IcsEvent[],
+  clients: Client[],
+  meetings: Meeting[],
+  options: IcsImportOptions = {}
+): IcsImportCandidate[] => {
+  const timeZone = options.timeZone ?? Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const allDay = options.allDayHours ?? DEFAULT_ALL_DAY_HOURS;
+  const series = new Map<string, Meeting>(); // UID -> the series' meeting
+
+  const findExisting = (uid: string, occurrenceDate?: string) => {
+    const ownId = uid.endsWith(`@${ICS_UID_DOMAIN}`) ? uid.slice(0, -ICS_UID_DOMAIN.length - 1) : undefined;
+    if (!occurrenceDate) {
+      return meetings.find(m => !m.seriesId && (m.icalUid === uid || m.id === ownId));
+    }
+    return meetings.find(m => m.occurrenceDate === occurrenceDate && (m.icalUid === uid || (!!ownId && m.seriesId === ownId)));
+  };
+
+  // Series first, so their occurrences can point at them
+  const ordered = [...events].sort((a, b) => Number(!!a.recurrenceId) - Number(!!b.recurrenceId));
+
+  return ordered.map(event => {
+    const warnings: string[] = [];
+    const match = matchEventClient(event, clients, options.ownEmail);
+    const times = resolveTimes(event, timeZone, allDay);
+    if (times.allDay) warnings.push(`All-day event, set to ${allDay.start} - ${allDay.end}`);
+
+    const occurrenceDate = event.recurrenceId ? localDate(event.recurrenceId, timeZone) : undefined;
+    const existing = findExisting(event.uid, occurrenceDate);
+    // Occurrences often leave out what they share with their series, such as attendees
+    const master = occurrenceDate ? series.get(event.uid) ?? findExisting(event.uid) : undefined;
+    const seriesId = master?.recurrence ? master.id : undefined;
+    if (occurrenceDate && !seriesId) warnings.push('Changes one meeting of a series that is not in the file; imported on its own');
+
+    const meeting: Meeting = {
+      id: existing?.id ?? crypto.randomUUID(),
+      clientId: match?.client.id ?? existing?.clientId ?? master?.clientId ?? '',
+      title: event.summary || 'Untitled meeting',
+      date: times.date,
+      startTime: times.startTime,
+      endTime: times.endTime,
+      status: inferStatus(event),
+      type: !match && !event.location && master ? master.type : inferType(event, match),
+      notes: extractNotes(event),
+      location: event.location || event.conferenceUrl || master?.location,
+      priority: inferPriority(event),
+      recurrence: occurrenceDate ? undefined : readRecurrence(event, timeZone, warnings),
+      seriesId,
+      occurrenceDate: seriesId ? occurrenceDate : undefined,
+      icalUid: event.uid,
+    };
+    if (meeting.recurrence) series.set(event.uid, meeting);
+
+    const conflicts = meeting.status === 'cancelled' ? [] : expandMeetings(meetings, meeting.date, meeting.date).filter(other =>
+      other.date === meeting.date &&
+      other.status !== 'cancelled' &&
+      other.id !== meeting.id &&
+      (!existing || other.seriesId !== existing.id) &&
+      overlaps(meeting, other)
+    );
+
+    return {
+      key: occurrenceDate ? `${event.uid}@${occurrenceDate}` : event.uid,
+      event,
+      meeting,
+      match,
+      existing,
+      conflicts,
+      warnings,
+    };
+  });
+};
+
@@ -0,0 +1,8 @@
+export { buildIcsCalendar, escapeText, foldLine, getMeetingUid, formatClientAddress, ICS_PRODUCT_ID } from './ics';
+export type { IcsOptions } from './ics';
+export { generateCalendarFeed, createFeedToken, toWebcalUrl } from './feed';
+export type { CalendarFeedOptions } from './feed';
+export { parseIcsCalendar, unescapeText, resolveTimeZone, toZonedDateTime } from './parse';
+export type { IcsEvent, IcsAttendee, IcsDateValue, IcsCalendar } from './parse';
+export { prepareIcsImport, matchEventClient } from './import';
+export type { IcsImportCandidate, IcsImportOptions, ClientMatchReason } from './import';
@@ -0,0 +1,312 @@
+// RFC 5545 iCalendar (.ics) parsing: VEVENTs and their date-times, converted
+// to wall-clock dates and times in the user's time zone
+//
+// Time zones are resolved by name through Intl (IANA names, the common Windows
+// names Outlook writes, and prefixed names like /mozilla.org/.../Europe/Paris).
+// VTIMEZONE definitions themselves are not evaluated.
+
+export interface IcsDateValue {
+  date: string; // YYYY-MM-DD
+  time?: string; // HH:MM; missing for all-day values
+  tzid?: string;
+  utc?: boolean;
+}
+
+export interface IcsAttendee {
+  email: string;
+  name?: string;
+}
+
+export interface IcsEvent {
+  uid: string;
+  summary: string;
+  description: string;
+  location: string;
+  geo?: { latitude: number; longitude: number };
+  start: IcsDateValue;
+  end?: IcsDateValue;
+  durationMinutes?: number;
+  status?: string; // TENTATIVE, CONFIRMED or CANCELLED
+  priority?: number;
+  organizer?: IcsAttendee;
+  attendees: IcsAttendee[];
+  rrule?: string;
+  exdates: IcsDateValue[];
+  recurrenceId?: IcsDateValue; // Set when the event overrides one occurrence of a series
+  conferenceUrl?: string;
+  extensions: Record<string, string>; // X- properties, by upper-case name
+}
+
+export interface IcsCalendar {
+  name?: string;
+  events: IcsEvent[];
+  warnings: string[];
+}
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+// Windows zone names, as written by Outlook and Exchange
+const WINDOWS_TIME_ZONES: Record<string, string> = {
+  'Eastern Standard Time': 'America/New_York',
+  'Central Standard Time': 'America/Chicago',
+  'Mountain Standard Time': 'America/Denver',
+  'US Mountain Standard Time': 'America/Phoenix',
+  'Pacific Standard Time': 'America/Los_Angeles',
+  'Alaskan Standard Time': 'America/Anchorage',
+  'Hawaiian Standard Time': 'Pacific/Honolulu',
+  'Atlantic Standard Time': 'America/Halifax',
+  'GMT Standard Time': 'Europe/London',
+  'Greenwich Standard Time': 'Atlantic/Reykjavik',
+  'W. Europe Standard Time': 'Europe/Berlin',
+  'Romance Standard Time': 'Europe/Paris',
+  'Central Europe Standard Time': 'Europe/Budapest',
+  'Central European Standard Time': 'Europe/Warsaw',
+  'E. Europe Standard Time': 'Europe/Chisinau',
+  'FLE Standard Time': 'Europe/Kiev',
+  'India Standard Time': 'Asia/Kolkata',
+  'China Standard Time': 'Asia/Shanghai',
+  'Tokyo Standard Time': 'Asia/Tokyo',
+  'Singapore Standard Time': 'Asia/Singapore',
+  'AUS Eastern Standard Time': 'Australia/Sydney',
+  'New Zealand Standard Time': 'Pacific/Auckland',
+  'UTC': 'UTC',
+};
+
+const CONFERENCE_PROPERTIES = ['X-GOOGLE-CONFERENCE', 'X-MICROSOFT-SKYPETEAMSMEETINGURL', 'X-MICROSOFT-ONLINEMEETINGCONFERENCELINK'];
+
+/**
+ * Undo TEXT escaping (\\n, \\, \\; and \\,)
+ */
+export const unescapeText = (value: string) =>
+  value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+
+// Join folded lines back together; a line starting with a space or tab continues the previous one
+const unfoldLines = (text: string) => text.replace(/\r\n|\r/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+
+const parseContentLine = (line: string): ContentLine | null => {
+  let i = 0;
+  let inQuotes = false;
+  const segments: string[] = [];
+  let current = '';
+  for (; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') inQuotes = !inQuotes;
+    if (!inQuotes && (char === ';' || char === ':')) {
+      segments.push(current);
+      current = '';
+      if (char === ':') break;
+      continue;
+    }
+    current += char;
+  }
+  if (i >= line.length) return null;
+
+  const [name, ...paramParts] = segments;
+  const params: Record<string, string> = {};
+  paramParts.forEach(part => {
+    const eq = part.indexOf('=');
+    if (eq > 0) params[part.slice(0, eq).toUpperCase()] = part.slice(eq + 1).replace(/^"|"$/g, '');
+  });
+  return { name: name.toUpperCase(), params, value: line.slice(i + 1) };
+};
+
+const parseDateValue = (line: ContentLine): IcsDateValue | null => {
+  const match = line.value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+  if (!match) return null;
+  const date = `${match[1]}-${match[2]}-${match[3]}`;
+  if (!match[4] || line.params.VALUE === 'DATE') return { date };
+  return {
+    date,
+    time: `${match[4]}:${match[5]}`,
+    tzid: match[7] ? undefined : line.params.TZID,
+    utc: !!match[7],
+  };
+};
+
+// Comma-separated date lists, as in EXDATE
+const parseDateList = (line: ContentLine): IcsDateValue[] =>
+  line.value
+    .split(',')
+    .map(value => parseDateValue({ ...line, value }))
+    .filter((value): value is IcsDateValue => value !== null);
+
+// DURATION, e.g. PT1H30M or P1D, in minutes
+const parseDuration = (value: string): number | undefined => {
+  const match = value.trim().match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return undefined;
+  const [, sign, weeks, days, hours, minutes] = match;
+  const total = (Number(weeks || 0) * 7 + Number(days || 0)) * 1440 + Number(hours || 0) * 60 + Number(minutes || 0);
+  return sign === '-' ? -total : total;
+};
+
+const parseAddress = (line: ContentLine): IcsAttendee | null => {
+  const email = line.value.replace(/^mailto:/i, '').trim().toLowerCase();
+  if (!email.includes('@')) return null;
+  return { email, name: line.params.CN || undefined };
+};
+
+const isValidTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * The IANA zone for a TZID, or undefined when it is not recognised
+ */
+export const resolveTimeZone = (tzid: string): string | undefined => {
+  const name = tzid.trim();
+  if (WINDOWS_TIME_ZONES[name]) return WINDOWS_TIME_ZONES[name];
+  if (isValidTimeZone(name)) return name;
+  // Prefixed names such as /mozilla.org/20070129_1/America/New_York end in the IANA name
+  const parts = name.split('/').filter(Boolean);
+  for (let i = 1; i < parts.length - 1; i++) {
+    const candidate = parts.slice(i).join('/');
+    if (isValidTimeZone(candidate)) return candidate;
+  }
+  return undefined;
+};
+
+// Wall-clock parts of an instant in a time zone
+const zonedParts = (instant: number, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  }).formatToParts(new Date(instant));
+  const get = (type: string) => parts.find(p => p.type === type)!.value;
+  return { date: `${get('year')}-${get('month')}-${get('day')}`, time: `${get('hour')}:${get('minute')}` };
+};
+
+const wallClockMs = (date: string, time: string) => new Date(`${date}T${time}:00Z`).getTime();
+
+// The instant a wall-clock time in a zone refers to
+const zonedToInstant = (date: string, time: string, timeZone: string) => {
+  const wall = wallClockMs(date, time);
+  const offsetAt = (instant: number) => {
+    const local = zonedParts(instant, timeZone);
+    return wallClockMs(local.date, local.time) - instant;
+  };
+  // Two passes settle the offset either side of a DST change
+  const first = wall - offsetAt(wall);
+  return wall - offsetAt(first);
+};
+
+/**
+ * A date-time as the date and time it falls on in `timeZone`. Floating values
+ * are taken as already local; all-day values keep their date and have no time.
+ * Values in an unrecognised zone are also treated as floating.
+ */
+export const toZonedDateTime = (value: IcsDateValue, timeZone: string): { date: string; time?: string } => {
+  if (!value.time) return { date: value.date };
+  if (value.utc) return zonedParts(wallClockMs(value.date, value.time), timeZone);
+  const sourceZone = value.tzid && resolveTimeZone(value.tzid);
+  if (!sourceZone) return { date: value.date, time: value.time };
+  return zonedParts(zonedToInstant(value.date, value.time, sourceZone), timeZone);
+};
+
+const buildEvent = (lines: ContentLine[], warnings: string[]): IcsEvent | null => {
+  const event: Partial<IcsEvent> = { attendees: [], exdates: [], extensions: {}, summary: '', description: '', location: '' };
+
+  lines.forEach(line => {
+    switch (line.name) {
+      case 'UID': event.uid = line.value.trim(); break;
+      case 'SUMMARY': event.summary = unescapeText(line.value).trim(); break;
+      case 'DESCRIPTION': event.description = unescapeText(line.value).trim(); break;
+      case 'LOCATION': event.location = unescapeText(line.value).trim(); break;
+      case 'GEO': {
+        const [latitude, longitude] = line.value.split(/[;,]/).map(Number);
+        if (!isNaN(latitude) && !isNaN(longitude)) event.geo = { latitude, longitude };
+        break;
+      }
+      case 'DTSTART': event.start = parseDateValue(line) || undefined; break;
+      case 'DTEND': event.end = parseDateValue(line) || undefined; break;
+      case 'DURATION': event.durationMinutes = parseDuration(line.value); break;
+      case 'STATUS': event.status = line.value.trim().toUpperCase(); break;
+      case 'PRIORITY': event.priority = parseInt(line.value) || undefined; break;
+      case 'ORGANIZER': event.organizer = parseAddress(line) || undefined; break;
+      case 'ATTENDEE': {
+        const attendee = parseAddress(line);
+        if (attendee) event.attendees!.push(attendee);
+        break;
+      }
+      case 'RRULE': event.rrule = line.value.trim(); break;
+      case 'EXDATE': event.exdates!.push(...parseDateList(line)); break;
+      case 'RECURRENCE-ID': event.recurrenceId = parseDateValue(line) || undefined; break;
+      default:
+        if (CONFERENCE_PROPERTIES.includes(line.name)) event.conferenceUrl = line.value.trim();
+        if (line.name.startsWith('X-')) event.extensions![line.name] = unescapeText(line.value);
+    }
+  });
+
+  if (!event.start) {
+    warnings.push(`Skipped "${event.summary || event.uid || 'untitled event'}": it has no valid start date`);
+    return null;
+  }
+  // UID is required, but some exporters leave it out; fall back to something stable
+  if (!event.uid) event.uid = `${event.start.date}${event.start.time || ''}-${event.summary}`;
+  return event as IcsEvent;
+};
+
+/**
+ * Parse the events of an iCalendar file. Throws when the text is not a calendar;
+ * events that cannot be read are skipped with a warning.
+ */
+export const parseIcsCalendar = (text: string): IcsCalendar => {
+  const lines = unfoldLines(text.replace(/^\uFEFF/, ''));
+  if (!lines.some(line => line.trim().toUpperCase() === 'BEGIN:VCALENDAR')) {
+    throw new Error('Not an iCalendar file: BEGIN:VCALENDAR is missing');
+  }
+
+  const calendar: IcsCalendar = { events: [], warnings: [] };
+  const stack: string[] = [];
+  let eventLines: ContentLine[] = [];
+
+  lines.forEach(raw => {
+    if (!raw.trim()) return;
+    const line = parseContentLine(raw);
+    if (!line) return;
+
+    if (line.name === 'BEGIN') {
+      stack.push(line.value.trim().toUpperCase());
+      if (stack[stack.length - 1] === 'VEVENT') eventLines = [];
+      return;
+    }
+    if (line.name === 'END') {
+      const ended = stack.pop();
+      if (ended === 'VEVENT') {
+        const event = buildEvent(eventLines, calendar.warnings);
+        if (event) calendar.events.push(event);
+      }
+      return;
+    }
+
+    const current = stack[stack.length - 1];
+    if (current === 'VEVENT') {
+      eventLines.push(line);
+    } else if (current === 'VCALENDAR' && (line.name === 'X-WR-CALNAME' || line.name === 'NAME')) {
+      calendar.name = unescapeText(line.value);
+    }
+  });
+
+  const unknownZones = new Set<string>();
+  calendar.events.forEach(event => {
+    [event.start, event.end].forEach(value => {
+      if (value?.tzid && !resolveTimeZone(value.tzid)) unknownZones.add(value.tzid);
+    });
+  });
+  unknownZones.forEach(tzid => calendar.warnings.push(`Unknown time zone "${tzid}": its times are used as they are`));
+
+  return calendar;
+};
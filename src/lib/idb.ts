@@ -0,0 +1,92 @@
+// Promise wrapper around an IndexedDB database with a fixed set of object stores
+
+export interface ObjectStoreSchema {
+  name: string;
+  keyPath: string;
+  autoIncrement?: boolean;
+}
+
+export const isIndexedDbAvailable = () => typeof indexedDB !== 'undefined';
+
+const toPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Open (and create or upgrade) a database on first use. Each method runs in
+ * one transaction and resolves once it has committed.
+ */
+export const createIndexedDb = (name: string, version: number, stores: ObjectStoreSchema[]) => {
+  let opening: Promise<IDBDatabase> | null = null;
+
+  const open = (): Promise<IDBDatabase> => {
+    if (!opening) {
+      opening = new Promise((resolve, reject) => {
+        const request = indexedDB.open(name, version);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          stores.forEach(({ name: storeName, keyPath, autoIncrement }) => {
+            if (!db.objectStoreNames.contains(storeName)) db.createObjectStore(storeName, { keyPath, autoIncrement });
+          });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          opening = null;
+          reject(request.error);
+        };
+      });
+    }
+    return opening;
+  };
+
+  const withStore = async <T>(
+    store: string,
+    mode: IDBTransactionMode,
+    work: (objectStore: IDBObjectStore) => Promise<T> | T
+  ): Promise<T> => {
+    const db = await open();
+    const transaction = db.transaction(store, mode);
+    const done = new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+    const result = await work(transaction.objectStore(store));
+    await done;
+    return result;
+  };
+
+  return {
+    readAll: <T>(store: string) =>
+      withStore(store, 'readonly', objectStore => toPromise(objectStore.getAll() as IDBRequest<T[]>)),
+
+    readOne: <T>(store: string, key: IDBValidKey) =>
+      withStore(store, 'readonly', objectStore => toPromise(objectStore.get(key) as IDBRequest<T | undefined>)),
+
+    putAll: <T>(store: string, records: T[]) =>
+      withStore(store, 'readwrite', objectStore => {
+        records.forEach(record => objectStore.put(record));
+      }),
+
+    replaceAll: <T>(store: string, records: T[]) =>
+      withStore(store, 'readwrite', objectStore => {
+        objectStore.clear();
+        records.forEach(record => objectStore.put(record));
+      }),
+
+    deleteKeys: (store: string, keys: IDBValidKey[]) =>
+      withStore(store, 'readwrite', objectStore => {
+        keys.forEach(key => objectStore.delete(key));
+      }),
+
+    add: <T>(store: string, record: T) =>
+      withStore(store, 'readwrite', objectStore => toPromise(objectStore.add(record))),
+
+    count: (store: string) =>
+      withStore(store, 'readonly', objectStore => toPromise(objectStore.count())),
+  };
+};
+
+export type IndexedDb = ReturnType<typeof createIndexedDb>;
@@ -0,0 +1,3 @@
+export { project, unproject, fitBounds, tileUrl, TILE_SIZE } from './projection';
+export type { Point } from './projection';
+export { DEFAULT_MAP_SETTINGS } from './settings';
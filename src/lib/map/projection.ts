@@ -0,0 +1,83 @@
+// Web Mercator math for slippy map tiles
+
+import { LatLng } from '@/lib/routing';
+
+export const TILE_SIZE = 256;
+
+// Web Mercator is undefined at the poles; clamp to the usual tile limits
+const MAX_LATITUDE = 85.05112878;
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+/**
+ * Pixel position of a coordinate in the whole world map at the given zoom
+ */
+export const project = ({ lat, lon }: LatLng, zoom: number): Point => {
+  const scale = TILE_SIZE * Math.pow(2, zoom);
+  const clamped = Math.max(-MAX_LATITUDE, Math.min(MAX_LATITUDE, lat));
+  const sin = Math.sin(clamped * Math.PI / 180);
+  return {
+    x: (lon + 180) / 360 * scale,
+    y: (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * scale,
+  };
+};
+
+/**
+ * Coordinate at a world pixel position, the inverse of `project`
+ */
+export const unproject = ({ x, y }: Point, zoom: number): LatLng => {
+  const scale = TILE_SIZE * Math.pow(2, zoom);
+  const n = Math.PI - 2 * Math.PI * y / scale;
+  return {
+    lat: 180 / Math.PI * Math.atan(Math.sinh(n)),
+    lon: x / scale * 360 - 180,
+  };
+};
+
+/**
+ * Center and the highest whole zoom level that shows every point with some
+ * padding around them
+ */
+export const fitBounds = (
+  points: LatLng[],
+  size: { width: number; height: number },
+  { padding = 40, minZoom = 1, maxZoom = 16 } = {}
+): { center: LatLng; zoom: number } => {
+  if (points.length === 0) {
+    return { center: { lat: 0, lon: 0 }, zoom: minZoom };
+  }
+
+  for (let zoom = maxZoom; zoom > minZoom; zoom--) {
+    const projected = points.map(p => project(p, zoom));
+    const xs = projected.map(p => p.x);
+    const ys = projected.map(p => p.y);
+    const width = Math.max(...xs) - Math.min(...xs);
+    const height = Math.max(...ys) - Math.min(...ys);
+    if (width <= size.width - padding * 2 && height <= size.height - padding * 2) {
+      const center = { x: (Math.max(...xs) + Math.min(...xs)) / 2, y: (Math.max(...ys) + Math.min(...ys)) / 2 };
+      return { center: unproject(center, zoom), zoom };
+    }
+  }
+
+  const projected = points.map(p => project(p, minZoom));
+  const center = {
+    x: projected.reduce((sum, p) => sum + p.x, 0) / projected.length,
+    y: projected.reduce((sum, p) => sum + p.y, 0) / projected.length,
+  };
+  return { center: unproject(center, minZoom), zoom: minZoom };
+};
+
+/**
+ * Fill in a tile URL template such as https://{s}.tile.example.org/{z}/{x}/{y}.png
+ */
+export const tileUrl = (template: string, x: number, y: number, z: number): string => {
+  const subdomains = ['a', 'b', 'c'];
+  return template
+    .replace('{s}', subdomains[Math.abs(x + y) % subdomains.length])
+    .replace('{z}', String(z))
+    .replace('{x}', String(x))
+    .replace('{y}', String(y));
+};
@@ -0,0 +1,9 @@
+// Default tile server for maps
+
+import { MapSettings } from '@/types';
+
+export const DEFAULT_MAP_SETTINGS: MapSettings = {
+  tileUrlTemplate: 'https://tile.openstreetmap.org/{z}/{x}/{y}.png',
+  attribution: '© OpenStreetMap contributors',
+  maxZoom: 19,
+};
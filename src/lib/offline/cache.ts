@@ -0,0 +1,48 @@
+// Local copy of the cached entities, kept in the order the server sent them
+
+import { CACHED_ENTITIES, CachedEntity, deleteKeys, putAll, readAll, readOne, replaceAll } from './idb';
+
+interface CachedRow<T> {
+  id: string;
+  order: number;
+  record: T;
+}
+
+export const readCached = async <T>(entity: CachedEntity): Promise<T[]> =>
+  (await readAll<CachedRow<T>>(entity)).sort((a, b) => a.order - b.order).map(row => row.record);
+
+export const getCached = async <T>(entity: CachedEntity, id: string): Promise<T | undefined> =>
+  (await readOne<CachedRow<T>>(entity, id))?.record;
+
+/**
+ * Replace the cache of an entity with what the server returned
+ */
+export const cacheAll = <T extends { id: string }>(entity: CachedEntity, records: T[]) =>
+  replaceAll(entity, records.map((record, order) => ({ id: record.id, order, record })));
+
+/**
+ * Add or update records, keeping the place of those already cached; new ones go last
+ */
+export const cacheRecords = async <T extends { id: string }>(entity: CachedEntity, records: T[]) => {
+  const existing = await Promise.all(records.map(record => readOne<CachedRow<T>>(entity, record.id)));
+  const next = Date.now();
+  await putAll(entity, records.map((record, index) => ({ id: record.id, order: existing[index]?.order ?? next + index, record })));
+};
+
+export const uncacheRecords = (entity: CachedEntity, ids: string[]) => deleteKeys(entity, ids);
+
+/**
+ * Update every cached record that matches, e.g. to move meetings to another client
+ */
+export const updateCached = async <T extends { id: string }>(
+  entity: CachedEntity,
+  matches: (record: T) => boolean,
+  update: (record: T) => T
+) => {
+  const changed = (await readCached<T>(entity)).filter(matches).map(update);
+  if (changed.length > 0) await cacheRecords(entity, changed);
+};
+
+export const clearCache = async () => {
+  await Promise.all(CACHED_ENTITIES.map(entity => replaceAll(entity, [])));
+};
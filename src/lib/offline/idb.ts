@@ -0,0 +1,17 @@
+// The IndexedDB database holding the offline cache and the queue of writes
+// made while offline
+
+import { createIndexedDb } from '@/lib/idb';
+
+export { isIndexedDbAvailable } from '@/lib/idb';
+
+export const CACHED_ENTITIES = ['clients', 'meetings', 'tasks', 'customFields', 'salesforceOutbox'] as const;
+export type CachedEntity = typeof CACHED_ENTITIES[number];
+
+export const MUTATIONS_STORE = 'mutations';
+
+export const { readAll, readOne, putAll, replaceAll, deleteKeys, add, count } = createIndexedDb('client-meeting-scheduler', 2, [
+  ...CACHED_ENTITIES.map(name => ({ name, keyPath: 'id' })),
+  // Auto-incremented keys keep queued writes in the order they were made
+  { name: MUTATIONS_STORE, keyPath: 'seq', autoIncrement: true },
+]);
@@ -0,0 +1,12 @@
+// Offline-first data: an IndexedDB cache of clients, meetings, tasks, custom
+// fields and the Salesforce outbox, and a queue of writes replayed when the
+// connection returns
+
+export { clientsApi, meetingsApi, tasksApi, customFieldsApi, salesforceOutboxApi, loadWithOfflineFallback, clearOfflineData, isOfflineCacheEnabled } from './store';
+export type { EntityData, RecordChanges } from './store';
+export { replayMutations, mergeRecord } from './replay';
+export type { ReplayConflict, ReplayResult } from './replay';
+export { isNetworkError, countPendingMutations, subscribeToPendingMutations } from './mutations';
+export type { Mutation, MutationStep } from './mutations';
+export { isIndexedDbAvailable, CACHED_ENTITIES } from './idb';
+export type { CachedEntity } from './idb';
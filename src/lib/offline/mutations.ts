@@ -0,0 +1,71 @@
+// Writes made while offline, queued in IndexedDB until they can be replayed
+
+import { CachedEntity, MUTATIONS_STORE, add, count, deleteKeys, readAll, replaceAll } from './idb';
+
+export type CachedRecord = { id: string } & Record<string, unknown>;
+
+export interface Mutation {
+  seq?: number; // Set by IndexedDB; replay order
+  entity: CachedEntity;
+  type: 'create' | 'update' | 'delete' | 'call' | 'batch';
+  records?: CachedRecord[]; // For create and update
+  base?: (CachedRecord | null)[]; // For update: each record as it was before the edit, for merging on replay
+  ids?: string[]; // For delete
+  method?: string; // For call: an API method replayed as it was called
+  args?: unknown[];
+  steps?: MutationStep[]; // For batch: creates, updates and deletes replayed in order, and undone together if one is refused
+  label: string; // What the change was, for conflict reports
+  queuedAt: string;
+}
+
+// One change of a batch
+export type MutationStep = Omit<Mutation, 'seq' | 'queuedAt' | 'steps'>;
+
+type PendingListener = (pending: number) => void;
+
+const listeners = new Set<PendingListener>();
+
+const notify = async () => {
+  const pending = await count(MUTATIONS_STORE);
+  listeners.forEach(listener => listener(pending));
+};
+
+/**
+ * Whether a failed request never reached the server, rather than being refused by it
+ */
+export const isNetworkError = (err: unknown) => {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  // fetch rejects with a TypeError carrying one of these messages; other TypeErrors are bugs, not outages
+  const message = err && typeof err === 'object' && 'message' in err ? String(err.message) : String(err);
+  return /failed to fetch|networkerror|network request failed|load failed/i.test(message);
+};
+
+export const queueMutation = async (mutation: Omit<Mutation, 'seq' | 'queuedAt'>) => {
+  await add(MUTATIONS_STORE, { ...mutation, queuedAt: new Date().toISOString() });
+  await notify();
+};
+
+export const readMutations = () => readAll<Mutation>(MUTATIONS_STORE);
+
+export const removeMutation = async (seq: number) => {
+  await deleteKeys(MUTATIONS_STORE, [seq]);
+  await notify();
+};
+
+export const countPendingMutations = () => count(MUTATIONS_STORE);
+
+export const clearMutations = async () => {
+  await replaceAll(MUTATIONS_STORE, []);
+  await notify();
+};
+
+/**
+ * Call `listener` with the number of queued writes whenever it changes
+ */
+export const subscribeToPendingMutations = (listener: PendingListener) => {
+  listeners.add(listener);
+  notify().catch(err => console.error('Failed to count queued changes:', err));
+  return () => {
+    listeners.delete(listener);
+  };
+};
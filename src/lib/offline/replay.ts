@@ -0,0 +1,227 @@
+// Replays queued writes in order once the server can be reached again. An
+// update is merged field by field with the record as the server has it now.
+
+import { RecordChange } from '@/types';
+import { getDataStore, invertRecordChange } from '@/lib/datastore';
+import { CachedEntity } from './idb';
+import { CachedRecord, MutationStep, isNetworkError, readMutations, removeMutation } from './mutations';
+import { isOfflineCacheEnabled, remoteOutboxApi } from './store';
+
+export interface ReplayConflict {
+  entity: CachedEntity;
+  id: string;
+  label: string;
+  fields: string[]; // Changed both here and on the server; the change made here was kept
+  deleted?: boolean; // Deleted on the server, so the change made here was dropped
+}
+
+export interface ReplayResult {
+  replayed: number;
+  remaining: number; // Still queued because the connection dropped again
+  conflicts: ReplayConflict[];
+  errors: string[]; // Changes the server refused; they are dropped
+}
+
+interface RemoteApi {
+  getAll(): Promise<{ id: string }[]>;
+  create(record: never): Promise<{ id: string }>;
+  update(record: never): Promise<{ id: string }>;
+  delete(id: string): Promise<void>;
+}
+
+const { clients, meetings, tasks, customFields } = getDataStore();
+
+const REMOTE_APIS: Record<CachedEntity, RemoteApi> = { clients, meetings, tasks, customFields, salesforceOutbox: remoteOutboxApi };
+
+// Set by the server on every write, so never a conflict
+const SERVER_FIELDS = ['createdAt', 'updatedAt'];
+
+const isEqual = (a: unknown, b: unknown): boolean => {
+  if ((a ?? null) === (b ?? null)) return true;
+  if (!a || !b || typeof a !== 'object' || typeof b !== 'object') return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  const [x, y] = [a as Record<string, unknown>, b as Record<string, unknown>];
+  const keys = new Set([...Object.keys(x), ...Object.keys(y)]);
+  return [...keys].every(key => isEqual(x[key], y[key]));
+};
+
+/**
+ * Three-way merge of an offline edit: fields edited here win, the rest take
+ * the server's value. Fields the server also changed, to something else, are
+ * reported. Without a base every field counts as edited here.
+ */
+export const mergeRecord = (base: CachedRecord | null, local: CachedRecord, server: CachedRecord) => {
+  const merged: CachedRecord = { ...server };
+  const conflicts: string[] = [];
+  new Set([...Object.keys(local), ...Object.keys(server)]).forEach(key => {
+    if (SERVER_FIELDS.includes(key)) return;
+    if (base && isEqual(local[key], base[key])) return;
+    if (base && !isEqual(server[key], base[key]) && !isEqual(server[key], local[key])) conflicts.push(key);
+    merged[key] = local[key];
+  });
+  return { merged, conflicts };
+};
+
+const describeError = (err: unknown) =>
+  err && typeof err === 'object' && 'message' in err ? String(err.message) : String(err);
+
+// A record a batch step wrote to the server, and the change that puts it back
+interface AppliedChange {
+  entity: CachedEntity;
+  undo: RecordChange<CachedRecord>;
+}
+
+/**
+ * Apply one queued change. Records it writes are added to `applied`, so a
+ * batch can be undone when a later step is refused; bulk calls can't be
+ * undone and are never part of a batch.
+ */
+const applyMutation = async (
+  mutation: MutationStep,
+  server: Map<string, CachedRecord>,
+  conflicts: ReplayConflict[],
+  applied: AppliedChange[]
+) => {
+  const remote = REMOTE_APIS[mutation.entity];
+  // Worked out before the write, while the server map still has the record as it was
+  const undoOf = (change: RecordChange<CachedRecord>): AppliedChange => {
+    const previous = server.get(change.type === 'delete' ? change.id : change.record.id);
+    return { entity: mutation.entity, undo: invertRecordChange(previous ? [previous] : [], change) };
+  };
+  switch (mutation.type) {
+    case 'create':
+      for (const record of mutation.records ?? []) {
+        // Already there when an earlier replay stopped halfway; new records have new ids, so it is this one
+        if (server.has(record.id)) {
+          applied.push({ entity: mutation.entity, undo: { type: 'delete', id: record.id } });
+          continue;
+        }
+        const undo = undoOf({ type: 'insert', record });
+        server.set(record.id, (await remote.create(record as never)) as CachedRecord);
+        applied.push(undo);
+      }
+      break;
+
+    case 'update':
+      for (const [index, record] of (mutation.records ?? []).entries()) {
+        const current = server.get(record.id);
+        if (!current) {
+          conflicts.push({ entity: mutation.entity, id: record.id, label: mutation.label, fields: [], deleted: true });
+          continue;
+        }
+        const { merged, conflicts: fields } = mergeRecord(mutation.base?.[index] ?? null, record, current);
+        const undo = undoOf({ type: 'update', record: merged });
+        server.set(record.id, (await remote.update(merged as never)) as CachedRecord);
+        applied.push(undo);
+        if (fields.length > 0) conflicts.push({ entity: mutation.entity, id: record.id, label: mutation.label, fields });
+      }
+      break;
+
+    case 'delete':
+      for (const id of mutation.ids ?? []) {
+        if (!server.has(id)) continue;
+        const undo = undoOf({ type: 'delete', id });
+        await remote.delete(id);
+        server.delete(id);
+        applied.push(undo);
+      }
+      break;
+
+    case 'call': {
+      const method = (remote as unknown as Record<string, (...args: unknown[]) => Promise<unknown>>)[mutation.method ?? ''];
+      if (!method) throw new Error(`Unknown change ${mutation.method}`);
+      await method.apply(remote, mutation.args ?? []);
+      break;
+    }
+
+    case 'batch':
+      throw new Error('A batch is replayed step by step');
+  }
+};
+
+/**
+ * Put back what a refused batch had already written, latest first
+ */
+const undoChanges = async (
+  applied: AppliedChange[],
+  readServer: (entity: CachedEntity) => Promise<Map<string, CachedRecord>>
+) => {
+  for (const { entity, undo } of [...applied].reverse()) {
+    const remote = REMOTE_APIS[entity];
+    const server = await readServer(entity);
+    if (undo.type === 'delete') {
+      if (!server.has(undo.id)) continue;
+      await remote.delete(undo.id);
+      server.delete(undo.id);
+    } else {
+      const restore = server.has(undo.record.id) ? remote.update : remote.create;
+      server.set(undo.record.id, (await restore.call(remote, undo.record as never)) as CachedRecord);
+    }
+  }
+};
+
+const replay = async (): Promise<ReplayResult> => {
+  const result: ReplayResult = { replayed: 0, remaining: 0, conflicts: [], errors: [] };
+  const mutations = (await readMutations()).sort((a, b) => a.seq! - b.seq!);
+  // What the server has now, read once per entity and kept up to date as changes are replayed
+  const serverRecords = new Map<CachedEntity, Map<string, CachedRecord>>();
+
+  const readServer = async (entity: CachedEntity) => {
+    let server = serverRecords.get(entity);
+    if (!server) {
+      const records = (await REMOTE_APIS[entity].getAll()) as CachedRecord[];
+      server = new Map(records.map(record => [record.id, record]));
+      serverRecords.set(entity, server);
+    }
+    return server;
+  };
+
+  for (const [index, mutation] of mutations.entries()) {
+    const applied: AppliedChange[] = [];
+    const conflictCount = result.conflicts.length;
+    try {
+      // A batch cut short by the connection is replayed from the start; steps already made change nothing
+      for (const step of mutation.type === 'batch' ? mutation.steps ?? [] : [mutation]) {
+        await applyMutation(step, await readServer(step.entity), result.conflicts, applied);
+        // A bulk call changed records this replay can't follow; read them again
+        if (step.type === 'call') serverRecords.delete(step.entity);
+      }
+      result.replayed++;
+    } catch (err) {
+      if (isNetworkError(err)) {
+        result.remaining = mutations.length - index;
+        break;
+      }
+      if (mutation.type !== 'batch') {
+        result.errors.push(`${mutation.label}: ${describeError(err)}`);
+      } else {
+        // A batch is saved whole or not at all
+        result.conflicts.splice(conflictCount);
+        try {
+          await undoChanges(applied, readServer);
+          result.errors.push(`${mutation.label}: ${describeError(err)}. None of it was saved.`);
+        } catch (undoErr) {
+          result.errors.push(`${mutation.label}: ${describeError(err)}. Part of it was saved and could not be undone: ${describeError(undoErr)}`);
+        }
+      }
+    }
+    await removeMutation(mutation.seq!);
+  }
+  return result;
+};
+
+let replaying: Promise<ReplayResult> | null = null;
+
+/**
+ * Send queued writes to the server. Calls made while a replay is running
+ * share it.
+ */
+export const replayMutations = (): Promise<ReplayResult> => {
+  if (!isOfflineCacheEnabled()) return Promise.resolve({ replayed: 0, remaining: 0, conflicts: [], errors: [] });
+  if (!replaying) {
+    replaying = replay().finally(() => {
+      replaying = null;
+    });
+  }
+  return replaying;
+};
@@ -0,0 +1,389 @@
+// Offline-first versions of the entity APIs. Reads fall back to the local
+// cache when the server can't be reached; writes go straight to the server
+// when possible and are otherwise applied to the cache and queued.
+
+import { Client, CustomField, Meeting, SalesforceOutboxEntry, Task } from '@/types';
+import { getDataStore } from '@/lib/datastore';
+import { CachedEntity, isIndexedDbAvailable } from './idb';
+import { cacheAll, cacheRecords, clearCache, getCached, readCached, uncacheRecords, updateCached } from './cache';
+import { CachedRecord, Mutation, MutationStep, clearMutations, countPendingMutations, isNetworkError, queueMutation } from './mutations';
+
+interface EntityApi<T> {
+  getAll(): Promise<T[]>;
+  create(record: T): Promise<T>;
+  update(record: T): Promise<T>;
+  delete(id: string): Promise<void>;
+  // Used for batches where the backend saves many records in one request
+  bulkCreate?(records: T[]): Promise<T[]>;
+  deleteMany?(ids: string[]): Promise<void>;
+}
+
+// Records written together, e.g. the rows an edit of a recurring series touches
+export interface RecordChanges<T> {
+  create: T[];
+  update: T[];
+  delete: string[];
+}
+
+const {
+  clients: remoteClientsApi,
+  meetings: remoteMeetingsApi,
+  tasks: remoteTasksApi,
+  customFields: remoteCustomFieldsApi,
+  salesforceOutbox: remoteSalesforceOutboxApi,
+} = getDataStore();
+
+// Outbox entries are saved whole, so adding one and recording an attempt at it are the same call
+export const remoteOutboxApi: EntityApi<SalesforceOutboxEntry> = {
+  getAll: () => remoteSalesforceOutboxApi.getAll(),
+  create: entry => remoteSalesforceOutboxApi.save(entry),
+  update: entry => remoteSalesforceOutboxApi.save(entry),
+  delete: id => remoteSalesforceOutboxApi.delete(id),
+};
+
+/**
+ * Only a remote backend needs the cache; a local store is always reachable
+ */
+export const isOfflineCacheEnabled = () => getDataStore().backend === 'supabase' && isIndexedDbAvailable();
+
+const asRecords = <T extends { id: string }>(records: T[]) => records as unknown as CachedRecord[];
+
+/**
+ * Run `remote` when online with nothing queued ahead of it, and cache what it
+ * returns; when the server can't be reached, run `offline` instead
+ */
+const writeThrough = async <R>(
+  remote: () => Promise<R>,
+  cache: (result: R) => Promise<void>,
+  offline: () => Promise<R>
+): Promise<R> => {
+  if (!isOfflineCacheEnabled()) return remote();
+  if (navigator.onLine && (await countPendingMutations()) === 0) {
+    try {
+      const result = await remote();
+      await cache(result).catch(err => console.error('Failed to update the offline cache:', err));
+      return result;
+    } catch (err) {
+      if (!isNetworkError(err)) throw err;
+    }
+  }
+  return offline();
+};
+
+const queueAndApply = async <R>(mutation: Omit<Mutation, 'seq' | 'queuedAt'>, apply: () => Promise<R>) => {
+  await queueMutation(mutation);
+  return apply();
+};
+
+/**
+ * Cached reads and queued create/update/delete for one entity
+ */
+const createCachedApi = <T extends { id: string }>(
+  entity: CachedEntity,
+  remote: EntityApi<T>,
+  describe: (record: T) => string
+) => ({
+  async getAll(): Promise<T[]> {
+    if (!isOfflineCacheEnabled()) return remote.getAll();
+    // The server doesn't have queued changes yet, so the cache is the latest until they are replayed
+    if ((await countPendingMutations()) === 0) {
+      try {
+        const records = await remote.getAll();
+        await cacheAll(entity, records).catch(err => console.error('Failed to update the offline cache:', err));
+        return records;
+      } catch (err) {
+        if (!isNetworkError(err)) throw err;
+      }
+    }
+    return readCached<T>(entity);
+  },
+
+  create(record: T): Promise<T> {
+    return writeThrough(
+      () => remote.create(record),
+      created => cacheRecords(entity, [created]),
+      () => queueAndApply(
+        { entity, type: 'create', records: asRecords([record]), label: describe(record) },
+        async () => {
+          await cacheRecords(entity, [record]);
+          return record;
+        }
+      )
+    );
+  },
+
+  update(record: T): Promise<T> {
+    return writeThrough(
+      () => remote.update(record),
+      updated => cacheRecords(entity, [updated]),
+      async () => {
+        const base = (await getCached<CachedRecord>(entity, record.id)) ?? null;
+        return queueAndApply(
+          { entity, type: 'update', records: asRecords([record]), base: [base], label: describe(record) },
+          async () => {
+            await cacheRecords(entity, [record]);
+            return record;
+          }
+        );
+      }
+    );
+  },
+
+  delete(id: string): Promise<void> {
+    return writeThrough(
+      () => remote.delete(id),
+      () => uncacheRecords(entity, [id]),
+      async () => {
+        const existing = await getCached<T>(entity, id);
+        return queueAndApply(
+          { entity, type: 'delete', ids: [id], label: existing ? describe(existing) : id },
+          () => uncacheRecords(entity, [id])
+        );
+      }
+    );
+  },
+
+  /**
+   * Save a change to some fields of a cached record as an update of the whole
+   * record, so it merges like any other edit when replayed
+   */
+  async patch(id: string, remoteCall: () => Promise<void>, change: (record: T) => T): Promise<void> {
+    return writeThrough(
+      remoteCall,
+      async () => {
+        const cached = await getCached<T>(entity, id);
+        if (cached) await cacheRecords(entity, [change(cached)]);
+      },
+      async () => {
+        const cached = await getCached<T>(entity, id);
+        if (!cached) throw new Error('This record is not available offline');
+        const changed = change(cached);
+        return queueAndApply(
+          { entity, type: 'update', records: asRecords([changed]), base: [cached as unknown as CachedRecord], label: describe(changed) },
+          () => cacheRecords(entity, [changed])
+        );
+      }
+    );
+  },
+
+  /**
+   * Creates, updates and deletes that belong together. Offline they are
+   * queued as one batch, replayed in order and undone together if the
+   * server refuses one of them. Resolves to the records as saved.
+   */
+  saveChanges(changes: RecordChanges<T>, label: string): Promise<RecordChanges<T>> {
+    return writeThrough(
+      async () => {
+        const created: T[] = [];
+        if (remote.bulkCreate && changes.create.length > 0) {
+          created.push(...await remote.bulkCreate(changes.create));
+        } else {
+          for (const record of changes.create) created.push(await remote.create(record));
+        }
+        const updated: T[] = [];
+        for (const record of changes.update) updated.push(await remote.update(record));
+        if (remote.deleteMany && changes.delete.length > 0) {
+          await remote.deleteMany(changes.delete);
+        } else {
+          for (const id of changes.delete) await remote.delete(id);
+        }
+        return { create: created, update: updated, delete: changes.delete };
+      },
+      async saved => {
+        await cacheRecords(entity, [...saved.create, ...saved.update]);
+        await uncacheRecords(entity, saved.delete);
+      },
+      async () => {
+        const base = await Promise.all(changes.update.map(async record => (await getCached<CachedRecord>(entity, record.id)) ?? null));
+        const steps: MutationStep[] = [];
+        if (changes.create.length > 0) steps.push({ entity, type: 'create', records: asRecords(changes.create), label });
+        if (changes.update.length > 0) steps.push({ entity, type: 'update', records: asRecords(changes.update), base, label });
+        if (changes.delete.length > 0) steps.push({ entity, type: 'delete', ids: changes.delete, label });
+        return queueAndApply({ entity, type: 'batch', steps, label }, async () => {
+          await cacheRecords(entity, [...changes.create, ...changes.update]);
+          await uncacheRecords(entity, changes.delete);
+          return changes;
+        });
+      }
+    );
+  },
+
+  /**
+   * A bulk change the cache can follow but which is replayed as the call itself
+   */
+  async call(method: string, args: unknown[], remoteCall: () => Promise<void>, applyToCache: () => Promise<void>, label: string) {
+    return writeThrough(
+      remoteCall,
+      applyToCache,
+      () => queueAndApply({ entity, type: 'call', method, args, label }, applyToCache)
+    );
+  },
+});
+
+const clients = createCachedApi<Client>('clients', remoteClientsApi, client => client.name);
+const meetings = createCachedApi<Meeting>('meetings', remoteMeetingsApi, meeting => meeting.title);
+const tasks = createCachedApi<Task>('tasks', remoteTasksApi, task => task.title);
+const customFields = createCachedApi<CustomField>('customFields', remoteCustomFieldsApi, field => field.name);
+const salesforceOutbox = createCachedApi<SalesforceOutboxEntry>('salesforceOutbox', remoteOutboxApi, entry => entry.label);
+
+const moveToClient = (fromClientIds: string[], toClientId: string) => ({
+  matches: (record: { clientId?: string }) => !!record.clientId && fromClientIds.includes(record.clientId),
+  update: <T extends { clientId?: string }>(record: T): T => ({ ...record, clientId: toClientId }),
+});
+
+export const clientsApi = {
+  ...remoteClientsApi,
+  getAll: clients.getAll,
+  create: clients.create,
+  update: clients.update,
+  delete: clients.delete,
+  saveChanges: clients.saveChanges,
+
+  bulkCreate(records: Client[]): Promise<Client[]> {
+    return writeThrough(
+      () => remoteClientsApi.bulkCreate(records),
+      created => cacheRecords('clients', created),
+      () => queueAndApply(
+        { entity: 'clients', type: 'create', records: asRecords(records), label: `${records.length} clients` },
+        async () => {
+          await cacheRecords('clients', records);
+          return records;
+        }
+      )
+    );
+  },
+};
+
+export const meetingsApi = {
+  ...remoteMeetingsApi,
+  getAll: meetings.getAll,
+  create: meetings.create,
+  update: meetings.update,
+  delete: meetings.delete,
+  saveChanges: meetings.saveChanges,
+
+  updateStatus(id: string, status: Meeting['status']): Promise<void> {
+    return meetings.patch(id, () => remoteMeetingsApi.updateStatus(id, status), meeting => ({ ...meeting, status }));
+  },
+
+  setSalesforceLink(id: string, salesforceId: string, syncSnapshot?: Meeting['syncSnapshot']): Promise<void> {
+    return meetings.patch(
+      id,
+      () => remoteMeetingsApi.setSalesforceLink(id, salesforceId, syncSnapshot),
+      meeting => ({ ...meeting, salesforceId, syncSnapshot })
+    );
+  },
+
+  deleteMany(ids: string[]): Promise<void> {
+    if (ids.length === 0) return Promise.resolve();
+    return meetings.call(
+      'deleteMany',
+      [ids],
+      () => remoteMeetingsApi.deleteMany(ids),
+      () => uncacheRecords('meetings', ids),
+      `${ids.length} meetings`
+    );
+  },
+
+  reassignClient(fromClientIds: string[], toClientId: string): Promise<void> {
+    if (fromClientIds.length === 0) return Promise.resolve();
+    const move = moveToClient(fromClientIds, toClientId);
+    return meetings.call(
+      'reassignClient',
+      [fromClientIds, toClientId],
+      () => remoteMeetingsApi.reassignClient(fromClientIds, toClientId),
+      () => updateCached<Meeting>('meetings', move.matches, move.update),
+      'Merged client meetings'
+    );
+  },
+};
+
+export const tasksApi = {
+  ...remoteTasksApi,
+  getAll: tasks.getAll,
+  create: tasks.create,
+  update: tasks.update,
+  delete: tasks.delete,
+
+  setSalesforceId(id: string, salesforceId: string): Promise<void> {
+    return tasks.patch(id, () => remoteTasksApi.setSalesforceId(id, salesforceId), task => ({ ...task, salesforceId }));
+  },
+
+  reassignClient(fromClientIds: string[], toClientId: string): Promise<void> {
+    if (fromClientIds.length === 0) return Promise.resolve();
+    const move = moveToClient(fromClientIds, toClientId);
+    return tasks.call(
+      'reassignClient',
+      [fromClientIds, toClientId],
+      () => remoteTasksApi.reassignClient(fromClientIds, toClientId),
+      () => updateCached<Task>('tasks', move.matches, move.update),
+      'Merged client tasks'
+    );
+  },
+};
+
+export const customFieldsApi = {
+  ...remoteCustomFieldsApi,
+  getAll: customFields.getAll,
+  create: customFields.create,
+  update: customFields.update,
+  delete: customFields.delete,
+};
+
+// Salesforce pushes are queued here first, so one made without a connection isn't lost
+export const salesforceOutboxApi = {
+  getAll: salesforceOutbox.getAll,
+  delete: salesforceOutbox.delete,
+
+  // Queued offline as a create the first time, and as an update once the entry is cached
+  async save(entry: SalesforceOutboxEntry): Promise<SalesforceOutboxEntry> {
+    if (!isOfflineCacheEnabled()) return remoteSalesforceOutboxApi.save(entry);
+    const cached = await getCached<SalesforceOutboxEntry>('salesforceOutbox', entry.id);
+    return cached ? salesforceOutbox.update(entry) : salesforceOutbox.create(entry);
+  },
+};
+
+export interface EntityData {
+  clients: Client[];
+  meetings: Meeting[];
+  customFields: CustomField[];
+  tasks: Task[];
+}
+
+/**
+ * Load every cached entity with `load` and cache the result. Reads the cache
+ * instead when the server can't be reached or still lacks queued changes.
+ */
+export const loadWithOfflineFallback = async (load: () => Promise<EntityData>): Promise<EntityData & { offline: boolean }> => {
+  if (!isOfflineCacheEnabled()) return { ...(await load()), offline: false };
+  if ((await countPendingMutations()) === 0) {
+    try {
+      const data = await load();
+      await Promise.all([
+        cacheAll('clients', data.clients),
+        cacheAll('meetings', data.meetings),
+        cacheAll('customFields', data.customFields),
+        cacheAll('tasks', data.tasks),
+      ]).catch(err => console.error('Failed to update the offline cache:', err));
+      return { ...data, offline: false };
+    } catch (err) {
+      if (!isNetworkError(err)) throw err;
+    }
+  }
+  const [clients, meetings, customFields, tasks] = await Promise.all([
+    readCached<Client>('clients'),
+    readCached<Meeting>('meetings'),
+    readCached<CustomField>('customFields'),
+    readCached<Task>('tasks'),
+  ]);
+  return { clients, meetings, customFields, tasks, offline: true };
+};
+
+/**
+ * Forget the cache and any queued writes, e.g. when signing out
+ */
+export const clearOfflineData = async () => {
+  if (!isOfflineCacheEnabled()) return;
+  await clearCache();
+  await clearMutations();
+};
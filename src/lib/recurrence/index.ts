@@ -0,0 +1,12 @@
+export { parseRRule, formatRRule, expandRRule, describeRRule, addDays, WEEKDAYS } from './rrule';
+export type { RRule, ByDay, Frequency, Weekday } from './rrule';
+export {
+  expandMeetings,
+  findMeeting,
+  editOccurrence,
+  deleteOccurrence,
+  getOccurrenceId,
+  isSeriesMaster,
+  isVirtualOccurrence,
+} from './series';
+export type { RecurrenceEditScope, SeriesChanges } from './series';
@@ -0,0 +1,306 @@
+// RFC 5545 recurrence rules (RRULE) for all-day dates
+//
+// Meetings keep their time of day separately, so rules are expanded to
+// YYYY-MM-DD dates only. Supports FREQ=DAILY/WEEKLY/MONTHLY/YEARLY with
+// INTERVAL, COUNT, UNTIL, BYDAY (with ordinals), BYMONTHDAY, BYMONTH,
+// BYSETPOS and WKST.
+
+export type Frequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+export type Weekday = 'SU' | 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA';
+
+export interface ByDay {
+  weekday: Weekday;
+  n?: number; // e.g. -1 for the last one in the month, 2 for the second
+}
+
+export interface RRule {
+  freq: Frequency;
+  interval: number;
+  count?: number;
+  until?: string; // YYYY-MM-DD, inclusive
+  byDay?: ByDay[];
+  byMonthDay?: number[];
+  byMonth?: number[]; // 1-12
+  bySetPos?: number[];
+  wkst: Weekday;
+}
+
+export const WEEKDAYS: Weekday[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+const FREQUENCIES: Frequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+
+// Stop expanding a rule whose candidates never match (e.g. BYMONTHDAY=31;BYMONTH=2)
+const MAX_PERIODS = 10000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDay = (date: string) => Date.UTC(+date.slice(0, 4), +date.slice(5, 7) - 1, +date.slice(8, 10));
+const fromDay = (time: number) => new Date(time).toISOString().split('T')[0];
+const daysInMonth = (year: number, month: number) => new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+export const addDays = (date: string, days: number) => fromDay(toDay(date) + days * DAY_MS);
+
+const parseNumberList = (value: string, name: string, min: number, max: number): number[] =>
+  value.split(',').map(part => {
+    const n = parseInt(part, 10);
+    if (isNaN(n) || n === 0 || Math.abs(n) < min || Math.abs(n) > max || !/^[+-]?\d+$/.test(part)) {
+      throw new Error(`Invalid ${name} value "${part}"`);
+    }
+    return n;
+  });
+
+/**
+ * Parse an RRULE value such as "FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE".
+ * A leading "RRULE:" is accepted. Throws on anything it does not understand.
+ */
+export const parseRRule = (value: string): RRule => {
+  const parts = value.trim().replace(/^RRULE:/i, '').split(';').filter(Boolean);
+  const fields = new Map<string, string>();
+  parts.forEach(part => {
+    const [key, val] = part.split('=');
+    if (!key || val === undefined) throw new Error(`Invalid rule part "${part}"`);
+    fields.set(key.toUpperCase(), val.toUpperCase());
+  });
+
+  const freq = fields.get('FREQ') as Frequency;
+  if (!FREQUENCIES.includes(freq)) {
+    throw new Error(freq ? `Unsupported frequency "${freq}"` : 'FREQ is required');
+  }
+  const rule: RRule = { freq, interval: 1, wkst: 'MO' };
+
+  fields.forEach((val, key) => {
+    switch (key) {
+      case 'FREQ':
+        break;
+      case 'INTERVAL':
+        rule.interval = parseNumberList(val, 'INTERVAL', 1, 10000)[0];
+        if (rule.interval < 1) throw new Error('INTERVAL must be positive');
+        break;
+      case 'COUNT':
+        rule.count = parseNumberList(val, 'COUNT', 1, 100000)[0];
+        if (rule.count < 1) throw new Error('COUNT must be positive');
+        break;
+      case 'UNTIL': {
+        const match = val.match(/^(\d{4})(\d{2})(\d{2})(T\d{6}Z?)?$/);
+        if (!match) throw new Error(`Invalid UNTIL value "${val}"`);
+        rule.until = `${match[1]}-${match[2]}-${match[3]}`;
+        break;
+      }
+      case 'BYDAY':
+        rule.byDay = val.split(',').map(part => {
+          const match = part.match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/);
+          if (!match) throw new Error(`Invalid BYDAY value "${part}"`);
+          const n = match[1] ? parseInt(match[1], 10) : undefined;
+          if (n !== undefined && (n === 0 || Math.abs(n) > 53)) throw new Error(`Invalid BYDAY value "${part}"`);
+          return { weekday: match[2] as Weekday, n };
+        });
+        break;
+      case 'BYMONTHDAY':
+        rule.byMonthDay = parseNumberList(val, 'BYMONTHDAY', 1, 31);
+        break;
+      case 'BYMONTH':
+        rule.byMonth = parseNumberList(val, 'BYMONTH', 1, 12);
+        if (rule.byMonth.some(m => m < 0)) throw new Error('BYMONTH must be positive');
+        break;
+      case 'BYSETPOS':
+        rule.bySetPos = parseNumberList(val, 'BYSETPOS', 1, 366);
+        break;
+      case 'WKST':
+        if (!WEEKDAYS.includes(val as Weekday)) throw new Error(`Invalid WKST value "${val}"`);
+        rule.wkst = val as Weekday;
+        break;
+      default:
+        throw new Error(`Unsupported rule part "${key}"`);
+    }
+  });
+
+  if (rule.count && rule.until) throw new Error('COUNT and UNTIL cannot both be set');
+  return rule;
+};
+
+/**
+ * Serialize a rule back to its RRULE value (without the "RRULE:" prefix)
+ */
+export const formatRRule = (rule: RRule): string => {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${rule.until.replace(/-/g, '')}`);
+  if (rule.byMonth?.length) parts.push(`BYMONTH=${rule.byMonth.join(',')}`);
+  if (rule.byMonthDay?.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  if (rule.byDay?.length) parts.push(`BYDAY=${rule.byDay.map(d => `${d.n ?? ''}${d.weekday}`).join(',')}`);
+  if (rule.bySetPos?.length) parts.push(`BYSETPOS=${rule.bySetPos.join(',')}`);
+  if (rule.wkst !== 'MO') parts.push(`WKST=${rule.wkst}`);
+  return parts.join(';');
+};
+
+// Days of a month or year that fall on a weekday, optionally only the n-th of them
+const weekdaysIn = (first: number, last: number, byDay: ByDay): number[] => {
+  const target = WEEKDAYS.indexOf(byDay.weekday);
+  const offset = (target - new Date(first).getUTCDay() + 7) % 7;
+  const matches: number[] = [];
+  for (let t = first + offset * DAY_MS; t <= last; t += 7 * DAY_MS) matches.push(t);
+  if (byDay.n === undefined) return matches;
+  const pick = byDay.n > 0 ? matches[byDay.n - 1] : matches[matches.length + byDay.n];
+  return pick === undefined ? [] : [pick];
+};
+
+const monthDays = (year: number, month: number, byMonthDay: number[]): number[] => {
+  const length = daysInMonth(year, month);
+  return byMonthDay
+    .map(d => (d > 0 ? d : length + d + 1))
+    .filter(d => d >= 1 && d <= length)
+    .map(d => Date.UTC(year, month, d));
+};
+
+const matchesWeekday = (time: number, byDay: ByDay[]) =>
+  byDay.some(d => WEEKDAYS.indexOf(d.weekday) === new Date(time).getUTCDay());
+
+// Candidate days within one month, for MONTHLY rules and YEARLY rules with BYMONTH
+const monthCandidates = (year: number, month: number, rule: RRule, start: Date): number[] => {
+  const first = Date.UTC(year, month, 1);
+  const last = Date.UTC(year, month, daysInMonth(year, month));
+  if (rule.byMonthDay) {
+    const days = monthDays(year, month, rule.byMonthDay);
+    return rule.byDay ? days.filter(t => matchesWeekday(t, rule.byDay!)) : days;
+  }
+  if (rule.byDay) return rule.byDay.flatMap(d => weekdaysIn(first, last, d));
+  const day = start.getUTCDate();
+  return day <= daysInMonth(year, month) ? [Date.UTC(year, month, day)] : [];
+};
+
+// Every candidate day of the period that starts `index` intervals after the start
+const periodCandidates = (rule: RRule, start: Date, index: number): number[] => {
+  const step = index * rule.interval;
+  const year = start.getUTCFullYear();
+  const month = start.getUTCMonth();
+
+  switch (rule.freq) {
+    case 'DAILY': {
+      const day = Date.UTC(year, month, start.getUTCDate() + step);
+      const date = new Date(day);
+      if (rule.byMonth && !rule.byMonth.includes(date.getUTCMonth() + 1)) return [];
+      if (rule.byMonthDay && !monthDays(date.getUTCFullYear(), date.getUTCMonth(), rule.byMonthDay).includes(day)) return [];
+      if (rule.byDay && !matchesWeekday(day, rule.byDay)) return [];
+      return [day];
+    }
+    case 'WEEKLY': {
+      const weekStartOffset = (start.getUTCDay() - WEEKDAYS.indexOf(rule.wkst) + 7) % 7;
+      const weekStart = Date.UTC(year, month, start.getUTCDate() - weekStartOffset + step * 7);
+      const weekdays = rule.byDay ? rule.byDay.map(d => d.weekday) : [WEEKDAYS[start.getUTCDay()]];
+      return Array.from({ length: 7 }, (_, i) => weekStart + i * DAY_MS)
+        .filter(t => weekdays.includes(WEEKDAYS[new Date(t).getUTCDay()]))
+        .filter(t => !rule.byMonth || rule.byMonth.includes(new Date(t).getUTCMonth() + 1));
+    }
+    case 'MONTHLY': {
+      const periodMonth = new Date(Date.UTC(year, month + step, 1));
+      const m = periodMonth.getUTCMonth();
+      if (rule.byMonth && !rule.byMonth.includes(m + 1)) return [];
+      return monthCandidates(periodMonth.getUTCFullYear(), m, rule, start);
+    }
+    case 'YEARLY': {
+      const periodYear = year + step;
+      if (rule.byMonth) {
+        return rule.byMonth.flatMap(m => monthCandidates(periodYear, m - 1, rule, start));
+      }
+      if (rule.byMonthDay) return monthCandidates(periodYear, month, rule, start);
+      if (rule.byDay) {
+        const first = Date.UTC(periodYear, 0, 1);
+        const last = Date.UTC(periodYear, 11, 31);
+        return rule.byDay.flatMap(d => weekdaysIn(first, last, d));
+      }
+      return monthCandidates(periodYear, month, rule, start);
+    }
+  }
+};
+
+/**
+ * Dates a rule produces between `from` and `to` (inclusive), for a series
+ * starting on `dtstart`. As in RFC 5545 the start date is always the first
+ * occurrence and counts towards COUNT.
+ */
+export const expandRRule = (rule: RRule, dtstart: string, from: string, to: string): string[] => {
+  const start = new Date(toDay(dtstart));
+  const startTime = start.getTime();
+  const fromTime = toDay(from);
+  const endTime = Math.min(toDay(to), rule.until ? toDay(rule.until) : Infinity);
+  const dates: string[] = [];
+  let emitted = 0;
+
+  const emit = (time: number) => {
+    emitted++;
+    if (time >= fromTime && time <= endTime) dates.push(fromDay(time));
+  };
+
+  if (startTime <= endTime) emit(startTime);
+
+  for (let index = 0; index < MAX_PERIODS; index++) {
+    let candidates = Array.from(new Set(periodCandidates(rule, start, index))).sort((a, b) => a - b);
+    if (rule.bySetPos) {
+      const all = candidates;
+      candidates = rule.bySetPos
+        .map(pos => (pos > 0 ? all[pos - 1] : all[all.length + pos]))
+        .filter((t): t is number => t !== undefined)
+        .sort((a, b) => a - b);
+    }
+
+    for (const time of candidates) {
+      if (time <= startTime) continue;
+      if (time > endTime || (rule.count && emitted >= rule.count)) return dates;
+      emit(time);
+    }
+
+    // Periods only move forward, so once a whole period starts past the end we are done
+    if (candidates.length > 0 && candidates[0] > endTime) return dates;
+    if (rule.count && emitted >= rule.count) return dates;
+  }
+  return dates;
+};
+
+const ordinal = (n: number) => {
+  if (n === -1) return 'last';
+  if (n < 0) return `${ordinal(-n)} to last`;
+  const suffix = n % 10 === 1 && n % 100 !== 11 ? 'st' : n % 10 === 2 && n % 100 !== 12 ? 'nd' : n % 10 === 3 && n % 100 !== 13 ? 'rd' : 'th';
+  return `${n}${suffix}`;
+};
+
+const joinList = (items: string[]) =>
+  items.length <= 1 ? items.join('') : `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`;
+
+/**
+ * Human readable summary, e.g. "Every 2 weeks on Monday and Wednesday, 10 times"
+ */
+export const describeRRule = (rule: RRule): string => {
+  const unit = { DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month', YEARLY: 'year' }[rule.freq];
+  const onWeekdays = rule.byDay?.length === 5 &&
+    ['MO', 'TU', 'WE', 'TH', 'FR'].every(d => rule.byDay!.some(b => b.weekday === d && b.n === undefined));
+  const isEveryWeekday = onWeekdays && rule.freq === 'WEEKLY' && rule.interval === 1 && !rule.bySetPos;
+
+  let text = isEveryWeekday
+    ? 'Every weekday'
+    : rule.interval === 1 ? `Every ${unit}` : `Every ${rule.interval} ${unit}s`;
+
+  if (!isEveryWeekday && rule.byDay?.length) {
+    const days = onWeekdays ? ['weekday'] : rule.byDay.map(d => {
+      const name = WEEKDAY_NAMES[WEEKDAYS.indexOf(d.weekday)];
+      return d.n !== undefined ? `the ${ordinal(d.n)} ${name}` : name;
+    });
+    text += rule.bySetPos?.length
+      ? ` on the ${joinList(rule.bySetPos.map(ordinal))} ${joinList(days)}`
+      : ` on ${onWeekdays ? 'weekdays' : joinList(days)}`;
+  }
+  if (rule.byMonthDay?.length) {
+    text += ` on the ${joinList(rule.byMonthDay.map(d => (d === -1 ? 'last day' : ordinal(d))))}`;
+  }
+  if (rule.byMonth?.length) {
+    text += ` in ${joinList(rule.byMonth.map(m => MONTH_NAMES[m - 1]))}`;
+  }
+  if (rule.count) {
+    text += `, ${rule.count} time${rule.count !== 1 ? 's' : ''}`;
+  } else if (rule.until) {
+    const until = new Date(toDay(rule.until));
+    text += `, until ${MONTH_NAMES[until.getUTCMonth()].slice(0, 3)} ${until.getUTCDate()}, ${until.getUTCFullYear()}`;
+  }
+  return text;
+};
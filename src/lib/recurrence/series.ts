@@ -0,0 +1,240 @@
+// Recurring meeting series: expanding them into occurrences and working out
+// which meeting rows change when occurrences are edited or deleted
+//
+// A series is stored as its first meeting, which carries the recurrence rule.
+// Occurrences are generated from it on the fly; one that is edited on its own
+// is stored as a separate meeting pointing back at the series (like a
+// RECURRENCE-ID override in iCalendar).
+
+import { Meeting } from '@/types';
+import { parseRRule, formatRRule, expandRRule, addDays, RRule } from './rrule';
+
+export type RecurrenceEditScope = 'this' | 'following' | 'all';
+
+// Meeting rows to write for an edit of a series
+export interface SeriesChanges {
+  create: Meeting[];
+  update: Meeting[];
+  delete: string[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((new Date(`${to}T00:00:00Z`).getTime() - new Date(`${from}T00:00:00Z`).getTime()) / DAY_MS);
+
+/**
+ * Id of a generated occurrence; stable, so routes and selections survive re-expansion
+ */
+export const getOccurrenceId = (seriesId: string, date: string) => `${seriesId}@${date}`;
+
+export const isSeriesMaster = (meeting: Meeting) => !!meeting.recurrence && !meeting.seriesId;
+
+/**
+ * Whether a meeting is a generated occurrence that has no row of its own yet
+ */
+export const isVirtualOccurrence = (meeting: Meeting) =>
+  !!meeting.seriesId && !!meeting.occurrenceDate && meeting.id === getOccurrenceId(meeting.seriesId, meeting.occurrenceDate);
+
+// Compare rules by meaning rather than spelling, e.g. BYDAY order or an RRULE: prefix
+const isSameRule = (a: string, b: string) => {
+  try {
+    return formatRRule(parseRRule(a)) === formatRRule(parseRRule(b));
+  } catch {
+    return a === b;
+  }
+};
+
+const parseRecurrence = (meeting: Meeting): RRule | undefined => {
+  try {
+    return parseRRule(meeting.recurrence!.rrule);
+  } catch (err) {
+    console.error(`Ignoring unreadable recurrence on meeting ${meeting.id}:`, err);
+    return undefined;
+  }
+};
+
+// Occurrences keep the series' time of day and are fixed for route planning
+const toOccurrence = (master: Meeting, date: string): Meeting => ({
+  ...master,
+  id: getOccurrenceId(master.id, date),
+  date,
+  seriesId: master.id,
+  occurrenceDate: date,
+  flexibleTime: false,
+  timeWindow: undefined,
+});
+
+/**
+ * Replace every series with its occurrences between `from` and `to`
+ * (YYYY-MM-DD, inclusive). Other meetings are passed through unchanged;
+ * edited occurrences take the place of the ones they override and carry the
+ * series' recurrence so the series can still be edited from them.
+ */
+export const expandMeetings = (meetings: Meeting[], from: string, to: string): Meeting[] => {
+  const masters = new Map(meetings.filter(isSeriesMaster).map(m => [m.id, m]));
+  const overridden = new Set(
+    meetings.filter(m => m.seriesId && m.occurrenceDate).map(m => getOccurrenceId(m.seriesId!, m.occurrenceDate!))
+  );
+  const result: Meeting[] = [];
+
+  meetings.forEach(meeting => {
+    if (!isSeriesMaster(meeting)) {
+      const master = meeting.seriesId ? masters.get(meeting.seriesId) : undefined;
+      result.push(master ? { ...meeting, recurrence: master.recurrence } : meeting);
+      return;
+    }
+
+    const rule = parseRecurrence(meeting);
+    if (!rule) {
+      result.push(meeting);
+      return;
+    }
+    const exdates = new Set(meeting.recurrence!.exdates || []);
+    expandRRule(rule, meeting.date, from, to)
+      .filter(date => !exdates.has(date) && !overridden.has(getOccurrenceId(meeting.id, date)))
+      .forEach(date => result.push(toOccurrence(meeting, date)));
+  });
+
+  return result;
+};
+
+/**
+ * Find a meeting by id, including generated occurrences of a series
+ */
+export const findMeeting = (meetings: Meeting[], id: string): Meeting | undefined => {
+  const stored = meetings.find(m => m.id === id);
+  if (stored) return stored;
+  const match = id.match(/^(.+)@(\d{4}-\d{2}-\d{2})$/);
+  const master = match && meetings.find(m => m.id === match[1] && isSeriesMaster(m));
+  return master ? toOccurrence(master, match![2]) : undefined;
+};
+
+// End a series the day before `date`, keeping only what came before it
+const truncateSeries = (master: Meeting, rule: RRule, date: string): Meeting => ({
+  ...master,
+  recurrence: {
+    rrule: formatRRule({ ...rule, count: undefined, until: addDays(date, -1) }),
+    exdates: (master.recurrence!.exdates || []).filter(d => d < date),
+  },
+});
+
+const withoutSeriesFields = (meeting: Meeting): Meeting => ({
+  ...meeting,
+  seriesId: undefined,
+  occurrenceDate: undefined,
+});
+
+/**
+ * Rows to write when an occurrence is edited. `edited` is the occurrence with
+ * the user's changes; its `recurrence` is the rule to use from here on, or
+ * undefined to stop repeating. For 'this' the recurrence is ignored.
+ */
+export const editOccurrence = (
+  meetings: Meeting[],
+  occurrence: Meeting,
+  edited: Meeting,
+  scope: RecurrenceEditScope
+): SeriesChanges => {
+  const master = meetings.find(m => m.id === occurrence.seriesId && isSeriesMaster(m));
+  const rule = master && parseRecurrence(master);
+  const isStored = meetings.some(m => m.id === occurrence.id);
+  if (!master || !rule || !occurrence.occurrenceDate) {
+    return { create: [], update: [{ ...edited, recurrence: undefined }], delete: [] };
+  }
+
+  const date = occurrence.occurrenceDate;
+  if (scope === 'this') {
+    const row: Meeting = {
+      ...edited,
+      id: isStored ? occurrence.id : crypto.randomUUID(),
+      seriesId: master.id,
+      occurrenceDate: date,
+      recurrence: undefined,
+    };
+    return isStored ? { create: [], update: [row], delete: [] } : { create: [row], update: [], delete: [] };
+  }
+
+  // Moving the occurrence to another day moves the rest of the series with it
+  const shift = daysBetween(occurrence.date, edited.date);
+  const sameRule = !!edited.recurrence && isSameRule(edited.recurrence.rrule, master.recurrence!.rrule) && shift === 0;
+  const overrides = meetings.filter(m => m.seriesId === master.id);
+
+  if (scope === 'all' || date <= master.date) {
+    const updated: Meeting = {
+      ...withoutSeriesFields(edited),
+      id: master.id,
+      date: addDays(master.date, shift),
+      recurrence: edited.recurrence && {
+        rrule: edited.recurrence.rrule,
+        exdates: sameRule ? master.recurrence!.exdates : [],
+      },
+    };
+    // Single-occurrence edits only still line up when the dates did not change
+    const stale = sameRule ? (isStored ? [occurrence.id] : []) : overrides.map(m => m.id);
+    return { create: [], update: [updated], delete: stale };
+  }
+
+  // This and following: end the old series before the occurrence and start a new one on it
+  const newSeriesId = crypto.randomUUID();
+  let recurrence = edited.recurrence;
+  if (recurrence && sameRule && rule.count) {
+    // The new series takes over whatever the old one had left
+    const used = expandRRule(rule, master.date, master.date, addDays(date, -1)).length;
+    recurrence = { rrule: formatRRule({ ...rule, count: Math.max(1, rule.count - used) }) };
+  }
+  const newMaster: Meeting = {
+    ...withoutSeriesFields(edited),
+    id: newSeriesId,
+    recurrence: recurrence && {
+      rrule: recurrence.rrule,
+      exdates: sameRule ? (master.recurrence!.exdates || []).filter(d => d > date) : [],
+    },
+  };
+
+  const following = overrides.filter(m => m.occurrenceDate! >= date && m.id !== occurrence.id);
+  const moved = sameRule ? following.map(m => ({ ...m, seriesId: newSeriesId, recurrence: undefined })) : [];
+  return {
+    create: [newMaster],
+    update: [truncateSeries(master, rule, date), ...moved],
+    delete: [...(isStored ? [occurrence.id] : []), ...(sameRule ? [] : following.map(m => m.id))],
+  };
+};
+
+/**
+ * Rows to write when an occurrence is deleted
+ */
+export const deleteOccurrence = (
+  meetings: Meeting[],
+  occurrence: Meeting,
+  scope: RecurrenceEditScope
+): SeriesChanges => {
+  const master = meetings.find(m => m.id === occurrence.seriesId && isSeriesMaster(m));
+  const rule = master && parseRecurrence(master);
+  const isStored = meetings.some(m => m.id === occurrence.id);
+  if (!master || !rule || !occurrence.occurrenceDate) {
+    return { create: [], update: [], delete: isStored ? [occurrence.id] : [] };
+  }
+
+  const date = occurrence.occurrenceDate;
+  const overrides = meetings.filter(m => m.seriesId === master.id);
+
+  if (scope === 'this') {
+    const exdates = Array.from(new Set([...(master.recurrence!.exdates || []), date])).sort();
+    return {
+      create: [],
+      update: [{ ...master, recurrence: { ...master.recurrence!, exdates } }],
+      delete: isStored ? [occurrence.id] : [],
+    };
+  }
+
+  if (scope === 'all' || date <= master.date) {
+    return { create: [], update: [], delete: [master.id, ...overrides.map(m => m.id)] };
+  }
+
+  return {
+    create: [],
+    update: [truncateSeries(master, rule, date)],
+    delete: overrides.filter(m => m.occurrenceDate! >= date).map(m => m.id),
+  };
+};
@@ -0,0 +1,71 @@
+// Compares a saved route plan with the route that was actually driven
+
+import { Client, Meeting, Route } from '@/types';
+import { pathDistance } from './geo';
+import { LatLng, RouteEndpoints } from './types';
+
+export interface RouteComparison {
+  planned: Meeting[]; // In planned order
+  driven: Meeting[]; // In the order they were visited
+  skipped: Meeting[]; // Planned but not visited
+  unplanned: Meeting[]; // Visited but not part of the plan
+  sequenceMatches: boolean; // Planned stops that were visited were visited in the planned order
+  plannedDistance: number; // in miles
+  drivenDistance: number; // in miles
+  drivenDistanceEstimated: boolean; // No recorded distance; straight-line length of the driven order
+}
+
+/**
+ * The driven order is the one recorded on the route, or else the day's
+ * completed in-person meetings by start time.
+ */
+export const compareRoute = (
+  route: Route,
+  meetings: Meeting[],
+  clients: Client[],
+  endpoints: RouteEndpoints = {}
+): RouteComparison => {
+  const meetingsById = new Map(meetings.map(m => [m.id, m]));
+  const clientsById = new Map(clients.map(c => [c.id, c]));
+  const resolve = (ids: string[]) => ids.map(id => meetingsById.get(id)).filter((m): m is Meeting => !!m);
+
+  const planned = resolve(route.meetings);
+  const driven = route.drivenMeetings
+    ? resolve(route.drivenMeetings)
+    : meetings
+        .filter(m => m.date === route.date && m.type === 'in-person' && m.status === 'completed')
+        .sort((a, b) => a.startTime.localeCompare(b.startTime));
+
+  const plannedIds = new Set(planned.map(m => m.id));
+  const drivenIds = new Set(driven.map(m => m.id));
+  const skipped = planned.filter(m => !drivenIds.has(m.id));
+  const unplanned = driven.filter(m => !plannedIds.has(m.id));
+
+  const plannedSequence = planned.filter(m => drivenIds.has(m.id)).map(m => m.id);
+  const drivenSequence = driven.filter(m => plannedIds.has(m.id)).map(m => m.id);
+  const sequenceMatches = plannedSequence.every((id, i) => drivenSequence[i] === id);
+
+  let drivenDistance = route.drivenDistance ?? 0;
+  if (route.drivenDistance === undefined && driven.length > 0) {
+    const points: LatLng[] = driven
+      .map(m => clientsById.get(m.clientId))
+      .filter((c): c is Client => !!c)
+      .map(c => ({ lat: c.latitude, lon: c.longitude }));
+    drivenDistance = pathDistance([
+      ...(endpoints.start ? [endpoints.start] : []),
+      ...points,
+      ...(endpoints.end ? [endpoints.end] : []),
+    ]);
+  }
+
+  return {
+    planned,
+    driven,
+    skipped,
+    unplanned,
+    sequenceMatches,
+    plannedDistance: route.totalDistance,
+    drivenDistance,
+    drivenDistanceEstimated: route.drivenDistance === undefined,
+  };
+};
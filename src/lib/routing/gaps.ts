@@ -0,0 +1,170 @@
+// Finds open slots in a day and the clients worth visiting in them
+
+import { Client, Meeting } from '@/types';
+import { haversineDistance, estimateTravelMinutes, timeToMinutes, minutesToTime } from './geo';
+import { getWeekday } from './timeWindows';
+import { DEFAULT_ROUTING_CONSTRAINTS } from './solver';
+import { LatLng, RoutingConstraints, RouteEndpoints } from './types';
+
+// Ranking treats a client never visited as last seen this many days ago
+const NEVER_VISITED_DAYS = 365;
+// Each matching priority tag counts as this many extra days since the last visit
+const TAG_BONUS_DAYS = 30;
+
+export interface ScheduleGap {
+  start: number; // Minutes from midnight
+  end: number;
+  from?: LatLng; // Where the rep is when the slot opens; unknown before the first meeting without a start depot
+  to?: LatLng; // Where the rep must be when it closes; unknown after the last meeting without an end depot
+  after?: Meeting; // Meeting that ends as the slot opens
+  before?: Meeting; // Meeting that starts as the slot closes
+}
+
+export interface GapSuggestion {
+  client: Client;
+  startTime: string;
+  endTime: string;
+  detourMiles: number; // Extra driving compared with going straight from `from` to `to`
+  daysSinceVisit: number | null; // null when the client has never been visited
+  matchedTags: string[];
+  score: number; // Higher is a better candidate
+}
+
+export interface GapSuggestionOptions {
+  date: string; // YYYY-MM-DD, for opening hours and days since the last visit
+  maxDetourMiles: number;
+  visitMinutes?: number;
+  priorityTags?: string[];
+  excludeClientIds?: string[];
+  constraints?: Partial<RoutingConstraints>;
+  limit?: number;
+}
+
+const clientLocation = (client?: Client): LatLng | undefined =>
+  client && client.geocodeConfidence !== 'none' ? { lat: client.latitude, lon: client.longitude } : undefined;
+
+/**
+ * Open slots of at least `minMinutes` in a day's schedule. Fixed meetings of
+ * any type block time; in-person ones also move the rep to the client. The
+ * lunch break is never part of a slot.
+ */
+export const findScheduleGaps = (
+  meetings: Meeting[],
+  clients: Client[],
+  overrides: Partial<RoutingConstraints> = {},
+  endpoints: RouteEndpoints = {},
+  minMinutes = 30
+): ScheduleGap[] => {
+  const constraints = { ...DEFAULT_ROUTING_CONSTRAINTS, ...overrides };
+  const clientsById = new Map(clients.map(c => [c.id, c]));
+  const blocks = meetings
+    .filter(m => m.status !== 'cancelled' && !m.flexibleTime)
+    .sort((a, b) => a.startTime.localeCompare(b.startTime));
+
+  const gaps: ScheduleGap[] = [];
+  let cursor = constraints.dayStartMinutes;
+  let location = endpoints.start;
+  let previous: Meeting | undefined;
+
+  blocks.forEach(meeting => {
+    const start = timeToMinutes(meeting.startTime);
+    const meetingLocation = meeting.type === 'in-person' ? clientLocation(clientsById.get(meeting.clientId)) : undefined;
+    if (start > cursor) {
+      gaps.push({ start: cursor, end: start, from: location, to: meetingLocation ?? location, after: previous, before: meeting });
+    }
+    cursor = Math.max(cursor, timeToMinutes(meeting.endTime));
+    location = meetingLocation ?? location;
+    previous = meeting;
+  });
+  if (constraints.dayEndMinutes > cursor) {
+    gaps.push({ start: cursor, end: constraints.dayEndMinutes, from: location, to: endpoints.end, after: previous });
+  }
+
+  const lunch = constraints.lunchBreak;
+  return gaps
+    .flatMap(gap => {
+      if (!lunch || lunch.end <= gap.start || lunch.start >= gap.end) return [gap];
+      return [
+        { ...gap, end: lunch.start, before: undefined },
+        { ...gap, start: lunch.end, after: undefined },
+      ].filter(part => part.end > part.start);
+    })
+    .filter(gap => gap.end - gap.start >= minMinutes);
+};
+
+/**
+ * Clients that can be visited in a slot without driving more than the detour
+ * budget, best first. Candidates are ranked by days since their last visit,
+ * with each matching priority tag counting as a month more; the shorter
+ * detour wins a tie.
+ */
+export const suggestGapFills = (
+  gap: ScheduleGap,
+  clients: Client[],
+  {
+    date,
+    maxDetourMiles,
+    visitMinutes,
+    priorityTags = [],
+    excludeClientIds = [],
+    constraints: overrides = {},
+    limit = 5,
+  }: GapSuggestionOptions
+): GapSuggestion[] => {
+  const constraints = { ...DEFAULT_ROUTING_CONSTRAINTS, ...overrides };
+  const duration = visitMinutes ?? constraints.defaultMeetingDuration;
+  const direct = gap.from && gap.to ? haversineDistance(gap.from, gap.to) : 0;
+  const excluded = new Set(excludeClientIds);
+  const weekday = getWeekday(date);
+  const day = new Date(`${date}T00:00:00Z`).getTime();
+
+  const suggestions: GapSuggestion[] = [];
+  clients.forEach(client => {
+    const location = clientLocation(client);
+    if (!location || excluded.has(client.id)) return;
+
+    const milesTo = gap.from ? haversineDistance(gap.from, location) : 0;
+    const milesFrom = gap.to ? haversineDistance(location, gap.to) : 0;
+    const detourMiles = milesTo + milesFrom - direct;
+    if (detourMiles > maxDetourMiles) return;
+
+    let open = 0;
+    let close = 24 * 60;
+    if (client.openingHours) {
+      const hours = client.openingHours[weekday];
+      if (!hours) return;
+      open = timeToMinutes(hours.start);
+      close = timeToMinutes(hours.end);
+    }
+
+    const arrival = gap.start
+      + estimateTravelMinutes(milesTo, constraints.averageSpeedMph)
+      + (gap.after ? constraints.bufferMinutes : 0);
+    // Round up to the next 5 minutes so suggested times read naturally
+    const start = Math.ceil(Math.max(arrival, open) / 5) * 5;
+    const end = start + duration;
+    const leaveBy = gap.end
+      - estimateTravelMinutes(milesFrom, constraints.averageSpeedMph)
+      - (gap.before ? constraints.bufferMinutes : 0);
+    if (end > close || end > leaveBy) return;
+
+    const daysSinceVisit = client.lastVisit
+      ? Math.max(0, Math.floor((day - new Date(`${client.lastVisit.slice(0, 10)}T00:00:00Z`).getTime()) / 86400000))
+      : null;
+    const matchedTags = client.tags.filter(tag => priorityTags.includes(tag));
+
+    suggestions.push({
+      client,
+      startTime: minutesToTime(start),
+      endTime: minutesToTime(end),
+      detourMiles: Math.max(0, detourMiles),
+      daysSinceVisit,
+      matchedTags,
+      score: (daysSinceVisit ?? NEVER_VISITED_DAYS) + matchedTags.length * TAG_BONUS_DAYS,
+    });
+  });
+
+  return suggestions
+    .sort((a, b) => b.score - a.score || a.detourMiles - b.detourMiles)
+    .slice(0, limit);
+};
@@ -0,0 +1,53 @@
+// Distance and time helpers shared by the route solver
+
+import { LatLng } from './types';
+
+const EARTH_RADIUS_MILES = 3959;
+
+/**
+ * Great-circle distance between two points in miles (Haversine formula)
+ */
+export const haversineDistance = (from: LatLng, to: LatLng): number => {
+  const dLat = (to.lat - from.lat) * Math.PI / 180;
+  const dLon = (to.lon - from.lon) * Math.PI / 180;
+  const a = Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+            Math.cos(from.lat * Math.PI / 180) * Math.cos(to.lat * Math.PI / 180) *
+            Math.sin(dLon / 2) * Math.sin(dLon / 2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  return EARTH_RADIUS_MILES * c;
+};
+
+/**
+ * Straight-line length of a path visiting the points in order, in miles
+ */
+export const pathDistance = (points: LatLng[]): number => {
+  let total = 0;
+  for (let i = 0; i < points.length - 1; i++) {
+    total += haversineDistance(points[i], points[i + 1]);
+  }
+  return total;
+};
+
+/**
+ * Estimate driving minutes for a distance at a constant average speed
+ */
+export const estimateTravelMinutes = (miles: number, averageSpeedMph: number): number => {
+  return Math.round(miles / averageSpeedMph * 60);
+};
+
+/**
+ * Parse an HH:MM time string to minutes from midnight
+ */
+export const timeToMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * Format minutes from midnight as an HH:MM time string
+ */
+export const minutesToTime = (minutes: number): string => {
+  const hours = Math.floor(minutes / 60);
+  const mins = minutes % 60;
+  return `${hours.toString().padStart(2, '0')}:${mins.toString().padStart(2, '0')}`;
+};
@@ -0,0 +1,17 @@
+export * from './types';
+export { haversineDistance, pathDistance, estimateTravelMinutes, timeToMinutes, minutesToTime } from './geo';
+export { scheduleRoute, earliestFlexibleStart, isCheaper } from './schedule';
+export type { ScheduledVisit, RouteCost, ScheduleResult, DepotNodes } from './schedule';
+export { getWeekday, resolveTimeWindow, WEEKDAY_LABELS } from './timeWindows';
+export type { ResolvedWindow } from './timeWindows';
+export { improveRoute, findTwoOptMove, findOrOptMove } from './localSearch';
+export type { LocalSearchOptions } from './localSearch';
+export { solveRoute, scheduleInOrder, buildRouteStops, getMeetingDuration, DEFAULT_ROUTING_CONSTRAINTS } from './solver';
+export { buildHaversineMatrix, createHaversineProvider, createOsrmProvider, createTravelTimeProvider, parseOsrmTable } from './travelTime';
+export type { OsrmProviderOptions, OsrmTableResponse } from './travelTime';
+export { workdayToConstraints, DEFAULT_WORKDAY_SETTINGS } from './workday';
+export { compareRoute } from './compare';
+export { planWeek } from './weekly';
+export type { RouteComparison } from './compare';
+export { findScheduleGaps, suggestGapFills } from './gaps';
+export type { ScheduleGap, GapSuggestion, GapSuggestionOptions } from './gaps';
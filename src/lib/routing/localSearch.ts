@@ -0,0 +1,98 @@
+// 2-opt and Or-opt local search over an ordered route
+
+import { RouteCost, isCheaper } from './schedule';
+
+export interface LocalSearchOptions<T> {
+  cost: (order: T[]) => RouteCost;
+  isMovable: (item: T) => boolean; // Immovable items (fixed meetings) act as anchors
+  maxIterations: number;
+}
+
+interface Improvement<T> {
+  order: T[];
+  cost: RouteCost;
+}
+
+const OR_OPT_CHAIN_LENGTHS = [1, 2, 3];
+
+/**
+ * Find the first 2-opt move that lowers the cost. A move reverses a run of
+ * consecutive movable items, which removes a crossing between two legs.
+ */
+export const findTwoOptMove = <T>(
+  order: T[],
+  currentCost: RouteCost,
+  options: LocalSearchOptions<T>
+): Improvement<T> | null => {
+  for (let i = 0; i < order.length - 1; i++) {
+    if (!options.isMovable(order[i])) continue;
+
+    for (let j = i + 1; j < order.length; j++) {
+      if (!options.isMovable(order[j])) break;
+
+      const candidate = [
+        ...order.slice(0, i),
+        ...order.slice(i, j + 1).reverse(),
+        ...order.slice(j + 1),
+      ];
+      const cost = options.cost(candidate);
+      if (isCheaper(cost, currentCost)) {
+        return { order: candidate, cost };
+      }
+    }
+  }
+  return null;
+};
+
+/**
+ * Find the first Or-opt move that lowers the cost. A move relocates a chain of
+ * up to three movable items to another position, optionally reversed.
+ */
+export const findOrOptMove = <T>(
+  order: T[],
+  currentCost: RouteCost,
+  options: LocalSearchOptions<T>
+): Improvement<T> | null => {
+  for (const length of OR_OPT_CHAIN_LENGTHS) {
+    for (let i = 0; i + length <= order.length; i++) {
+      const chain = order.slice(i, i + length);
+      if (!chain.every(options.isMovable)) continue;
+
+      const rest = [...order.slice(0, i), ...order.slice(i + length)];
+      const variants = length > 1 ? [chain, [...chain].reverse()] : [chain];
+
+      for (let k = 0; k <= rest.length; k++) {
+        for (const variant of variants) {
+          if (k === i && variant === chain) continue; // Same as the current order
+
+          const candidate = [...rest.slice(0, k), ...variant, ...rest.slice(k)];
+          const cost = options.cost(candidate);
+          if (isCheaper(cost, currentCost)) {
+            return { order: candidate, cost };
+          }
+        }
+      }
+    }
+  }
+  return null;
+};
+
+/**
+ * Repeatedly apply improving 2-opt and Or-opt moves until neither finds one
+ * or the iteration limit is reached.
+ */
+export const improveRoute = <T>(order: T[], options: LocalSearchOptions<T>): Improvement<T> => {
+  let current = order;
+  let currentCost = options.cost(order);
+
+  for (let iteration = 0; iteration < options.maxIterations; iteration++) {
+    const next = findTwoOptMove(current, currentCost, options)
+      ?? findOrOptMove(current, currentCost, options);
+    if (!next) break;
+
+    current = next.order;
+    currentCost = next.cost;
+  }
+
+  return { order: current, cost: currentCost };
+};
@@ -0,0 +1,141 @@
+// Walks an ordered route and assigns start/end times to every stop
+
+import { InfeasibilityReason, RouteStop, RoutingConstraints, TravelMatrix } from './types';
+
+export interface ScheduledVisit {
+  stop: RouteStop;
+  start: number; // Minutes from midnight
+  end: number;
+  distance: number; // Miles from the previous stop
+  travelTime: number; // Minutes from the previous stop
+  violation: number; // Minutes this visit breaks a constraint by
+  violationReason?: InfeasibilityReason;
+}
+
+export interface RouteCost {
+  violation: number; // Minutes of lateness and window/day overrun
+  distance: number; // in miles
+}
+
+export interface ScheduleResult {
+  visits: ScheduledVisit[];
+  cost: RouteCost;
+  totalTravelTime: number;
+  returnDistance: number; // Last visit to the end depot, in miles
+  returnTravelTime: number;
+}
+
+// Matrix nodes of the depots the route leaves from and returns to
+export interface DepotNodes {
+  start?: number;
+  end?: number;
+}
+
+/**
+ * Earliest start for a flexible stop once the rep is ready to leave for it:
+ * waits for the stop's window to open and skips past the lunch break.
+ */
+export const earliestFlexibleStart = (
+  ready: number,
+  stop: RouteStop,
+  constraints: RoutingConstraints
+): number => {
+  let start = Math.max(ready, stop.windowStart);
+  const lunch = constraints.lunchBreak;
+  if (lunch && start < lunch.end && start + stop.duration > lunch.start) {
+    start = Math.max(start, lunch.end);
+  }
+  return start;
+};
+
+/**
+ * Schedule stops in the given order. Fixed meetings keep their times, flexible
+ * meetings start as soon as the rep can get there, their window has opened and
+ * lunch is over. Arriving late to a fixed meeting or finishing a flexible one
+ * outside its window is recorded as a violation rather than rejected so that
+ * callers can compare orders that are all imperfect. The legs from the start
+ * depot and back to the end depot count towards distance and travel time.
+ */
+export const scheduleRoute = (
+  order: RouteStop[],
+  matrix: TravelMatrix,
+  constraints: RoutingConstraints,
+  depots: DepotNodes = {}
+): ScheduleResult => {
+  const visits: ScheduledVisit[] = [];
+  let currentTime = constraints.dayStartMinutes;
+  let previous: RouteStop | null = null;
+  let totalViolation = 0;
+  let distance = 0;
+  let totalTravelTime = 0;
+
+  for (const stop of order) {
+    const from = previous ? previous.node : depots.start;
+    const legDistance = from !== undefined ? matrix.distances[from][stop.node] : 0;
+    const legTime = from !== undefined ? matrix.durations[from][stop.node] : 0;
+    distance += legDistance;
+    totalTravelTime += legTime;
+
+    let start: number;
+    let end: number;
+    let violation = 0;
+    let violationReason: InfeasibilityReason | undefined;
+
+    if (stop.isFixed) {
+      // Keep a buffer before a fixed meeting when coming from a flexible one.
+      // The rep can always leave the depot early enough for the first meeting.
+      const buffer = previous && !previous.isFixed ? constraints.bufferMinutes : 0;
+      const arrival = currentTime + legTime + buffer;
+      if (previous && arrival > stop.fixedStart!) {
+        violation = arrival - stop.fixedStart!;
+        violationReason = 'conflicts-with-fixed';
+      }
+      start = stop.fixedStart!;
+      end = stop.fixedEnd!;
+    } else {
+      const buffer = previous?.isFixed ? constraints.bufferMinutes : 0;
+      start = earliestFlexibleStart(currentTime + legTime + buffer, stop, constraints);
+      end = start + stop.duration;
+
+      const windowOverrun = Math.max(0, end - stop.windowEnd);
+      const dayOverrun = Math.max(0, end - constraints.dayEndMinutes);
+      if (windowOverrun > 0 || dayOverrun > 0) {
+        violation = Math.max(windowOverrun, dayOverrun);
+        violationReason = windowOverrun >= dayOverrun ? 'outside-window' : 'past-day-end';
+      }
+    }
+
+    totalViolation += violation;
+    visits.push({ stop, start, end, distance: legDistance, travelTime: legTime, violation, violationReason });
+    currentTime = end;
+    previous = stop;
+  }
+
+  let returnDistance = 0;
+  let returnTravelTime = 0;
+  if (previous && depots.end !== undefined) {
+    returnDistance = matrix.distances[previous.node][depots.end];
+    returnTravelTime = matrix.durations[previous.node][depots.end];
+    distance += returnDistance;
+    totalTravelTime += returnTravelTime;
+  }
+
+  return {
+    visits,
+    cost: { violation: totalViolation, distance },
+    totalTravelTime,
+    returnDistance,
+    returnTravelTime,
+  };
+};
+
+const EPSILON = 1e-9;
+
+/**
+ * Lexicographic comparison: fewer violation minutes first, then shorter distance
+ */
+export const isCheaper = (a: RouteCost, b: RouteCost): boolean => {
+  if (a.violation < b.violation - EPSILON) return true;
+  if (a.violation > b.violation + EPSILON) return false;
+  return a.distance < b.distance - EPSILON;
+};
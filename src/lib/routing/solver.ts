@@ -0,0 +1,323 @@
+// Route solver: greedy construction refined by 2-opt / Or-opt local search
+
+import { Client, Meeting } from '@/types';
+import { minutesToTime, timeToMinutes } from './geo';
+import { improveRoute } from './localSearch';
+import { DepotNodes, earliestFlexibleStart, scheduleRoute, ScheduleResult } from './schedule';
+import { getWeekday, resolveTimeWindow, WEEKDAY_LABELS } from './timeWindows';
+import { createHaversineProvider } from './travelTime';
+import {
+  InfeasibilityReason,
+  RoutePlan,
+  RouteStop,
+  RoutingConstraints,
+  SolveRouteInput,
+  TravelMatrix,
+  UnscheduledMeeting,
+} from './types';
+
+export const DEFAULT_ROUTING_CONSTRAINTS: RoutingConstraints = {
+  dayStartMinutes: 8 * 60,
+  dayEndMinutes: 18 * 60,
+  bufferMinutes: 15,
+  defaultMeetingDuration: 60,
+  averageSpeedMph: 30,
+  maxIterations: 500,
+};
+
+/**
+ * Explain in plain words why a meeting could not be placed
+ */
+const describeInfeasibility = (
+  meeting: Meeting,
+  client: Client | undefined,
+  reason: InfeasibilityReason,
+  constraints: RoutingConstraints,
+  window?: { start: number; end: number }
+): string => {
+  const name = client?.company || meeting.title;
+  const windowLabel = window ? `${minutesToTime(window.start)}–${minutesToTime(window.end)}` : '';
+
+  switch (reason) {
+    case 'missing-location':
+      return `${meeting.title} has no client location to route to`;
+    case 'client-closed':
+      return `${name} is closed on ${WEEKDAY_LABELS[getWeekday(meeting.date)]}`;
+    case 'window-too-short':
+      return `${name} is only available ${windowLabel}, which is too short for this meeting`;
+    case 'outside-window':
+      return `${name} can't be reached within its ${windowLabel} window`;
+    case 'conflicts-with-fixed':
+      return `Visiting ${name} would make you late for a fixed meeting`;
+    case 'past-day-end':
+      return `${name} doesn't fit before the end of the day (${minutesToTime(constraints.dayEndMinutes)})`;
+  }
+};
+
+/**
+ * A meeting's duration is the span between its start and end times. Spans that
+ * are empty or cover the whole day (legacy flexible meetings were stored as
+ * 00:00–23:59) fall back to the default duration.
+ */
+export const getMeetingDuration = (meeting: Meeting, fallback: number): number => {
+  const span = timeToMinutes(meeting.endTime) - timeToMinutes(meeting.startTime);
+  return span > 0 && span < 23 * 60 ? span : fallback;
+};
+
+/**
+ * Resolve meetings to their clients and time windows. Meetings that can't be
+ * routed at all (no client, client closed, window too short) are reported as
+ * unscheduled instead of becoming stops.
+ */
+export const buildRouteStops = (
+  meetings: Meeting[],
+  clients: Client[],
+  constraints: RoutingConstraints
+): { stops: RouteStop[]; unscheduled: UnscheduledMeeting[] } => {
+  const clientsById = new Map(clients.map(c => [c.id, c]));
+  const stops: RouteStop[] = [];
+  const unscheduled: UnscheduledMeeting[] = [];
+
+  const reject = (meeting: Meeting, client: Client | undefined, reason: InfeasibilityReason, window?: { start: number; end: number }) => {
+    unscheduled.push({ meeting, reason, message: describeInfeasibility(meeting, client, reason, constraints, window) });
+  };
+
+  for (const meeting of meetings) {
+    const client = clientsById.get(meeting.clientId);
+    if (!client || client.geocodeConfidence === 'none') {
+      reject(meeting, client, 'missing-location');
+      continue;
+    }
+
+    const isFixed = !meeting.flexibleTime;
+    const fixedStart = isFixed ? timeToMinutes(meeting.startTime) : undefined;
+    const fixedEnd = isFixed ? timeToMinutes(meeting.endTime) : undefined;
+    const duration = isFixed ? fixedEnd! - fixedStart! : getMeetingDuration(meeting, constraints.defaultMeetingDuration);
+
+    // Time windows only constrain meetings the solver is allowed to move
+    const window = isFixed ? { start: 0, end: 24 * 60, closed: false } : resolveTimeWindow(meeting, client);
+    if (window.closed) {
+      reject(meeting, client, 'client-closed');
+      continue;
+    }
+    if (window.end - window.start < duration) {
+      reject(meeting, client, 'window-too-short', window);
+      continue;
+    }
+
+    stops.push({
+      node: stops.length,
+      meeting,
+      client,
+      location: { lat: client.latitude, lon: client.longitude },
+      isFixed,
+      fixedStart,
+      fixedEnd,
+      windowStart: window.start,
+      windowEnd: window.end,
+      duration,
+    });
+  }
+
+  return { stops, unscheduled };
+};
+
+/**
+ * Nearest-neighbor construction. Flexible meetings are slotted into the gaps
+ * before each fixed meeting while they still fit their windows; whatever is
+ * left is visited after the last fixed meeting.
+ */
+const buildGreedyOrder = (
+  stops: RouteStop[],
+  matrix: TravelMatrix,
+  constraints: RoutingConstraints,
+  depots: DepotNodes
+): RouteStop[] => {
+  const fixed = stops.filter(s => s.isFixed).sort((a, b) => a.fixedStart! - b.fixedStart!);
+  const remaining = stops.filter(s => !s.isFixed);
+  const order: RouteStop[] = [];
+  let currentTime = constraints.dayStartMinutes;
+  let previous: RouteStop | null = null;
+
+  // Legs are measured from the start depot until the first stop is visited
+  const fromNode = () => (previous ? previous.node : depots.start);
+  const distanceTo = (to: RouteStop) => {
+    const from = fromNode();
+    return from !== undefined ? matrix.distances[from][to.node] : 0;
+  };
+  const travelTo = (to: RouteStop) => {
+    const from = fromNode();
+    return from !== undefined ? matrix.durations[from][to.node] : 0;
+  };
+
+  // When the flexible stop would finish if visited next, or null if it misses its window
+  const finishTime = (stop: RouteStop): number | null => {
+    const buffer = previous?.isFixed ? constraints.bufferMinutes : 0;
+    const start = earliestFlexibleStart(currentTime + travelTo(stop) + buffer, stop, constraints);
+    const end = start + stop.duration;
+    return end <= stop.windowEnd && end <= constraints.dayEndMinutes ? end : null;
+  };
+
+  const visitFlexible = (stop: RouteStop) => {
+    const buffer = previous?.isFixed ? constraints.bufferMinutes : 0;
+    currentTime = earliestFlexibleStart(currentTime + travelTo(stop) + buffer, stop, constraints) + stop.duration;
+    order.push(stop);
+    remaining.splice(remaining.indexOf(stop), 1);
+    previous = stop;
+  };
+
+  for (const next of fixed) {
+    while (remaining.length > 0) {
+      let best: RouteStop | null = null;
+      let bestScore = Infinity;
+
+      for (const candidate of remaining) {
+        const end = finishTime(candidate);
+        if (end === null) continue;
+        const arrival = end + matrix.durations[candidate.node][next.node] + constraints.bufferMinutes;
+        if (arrival > next.fixedStart!) continue;
+
+        // Prefer stops close to here that don't add much to reach the next fixed meeting
+        const score = distanceTo(candidate) + matrix.distances[candidate.node][next.node] * 0.5;
+        if (score < bestScore) {
+          bestScore = score;
+          best = candidate;
+        }
+      }
+
+      if (!best) break;
+      visitFlexible(best);
+    }
+
+    order.push(next);
+    currentTime = next.fixedEnd!;
+    previous = next;
+  }
+
+  while (remaining.length > 0) {
+    // Nearest stop that still fits; if none does, the one whose window closes first
+    let nearest: RouteStop | null = null;
+    let nearestDistance = Infinity;
+    for (const candidate of remaining) {
+      if (finishTime(candidate) === null) continue;
+      const distance = distanceTo(candidate);
+      if (distance < nearestDistance) {
+        nearestDistance = distance;
+        nearest = candidate;
+      }
+    }
+    visitFlexible(nearest ?? remaining.reduce((a, b) => (b.windowEnd < a.windowEnd ? b : a)));
+  }
+
+  return order;
+};
+
+const optimizeOrder = (
+  stops: RouteStop[],
+  matrix: TravelMatrix,
+  constraints: RoutingConstraints,
+  depots: DepotNodes
+) => {
+  const initial = buildGreedyOrder(stops, matrix, constraints, depots);
+  const { order } = improveRoute(initial, {
+    cost: candidate => scheduleRoute(candidate, matrix, constraints, depots).cost,
+    isMovable: stop => !stop.isFixed,
+    maxIterations: constraints.maxIterations,
+  });
+  return scheduleRoute(order, matrix, constraints, depots);
+};
+
+const toRoutePlan = (schedule: ScheduleResult, unscheduled: UnscheduledMeeting[]): RoutePlan => ({
+  stops: schedule.visits.map(visit => ({
+    meeting: visit.stop.meeting,
+    client: visit.stop.client,
+    startTime: minutesToTime(visit.start),
+    endTime: minutesToTime(visit.end),
+    isFlexible: !visit.stop.isFixed,
+    distanceFromPrevious: visit.distance,
+    travelTimeFromPrevious: visit.travelTime,
+    conflict: visit.violationReason,
+  })),
+  unscheduled,
+  returnDistance: schedule.returnDistance,
+  returnTravelTime: schedule.returnTravelTime,
+  totalDistance: schedule.cost.distance,
+  totalTravelTime: schedule.totalTravelTime,
+});
+
+/**
+ * Resolve stops and fetch the travel matrix. Depots are appended to the
+ * matrix after the meeting stops.
+ */
+const prepareRoute = async ({
+  meetings,
+  clients,
+  constraints: overrides,
+  endpoints = {},
+  travelTimeProvider,
+}: SolveRouteInput) => {
+  const constraints: RoutingConstraints = { ...DEFAULT_ROUTING_CONSTRAINTS, ...overrides };
+  const { stops, unscheduled } = buildRouteStops(meetings, clients, constraints);
+
+  const locations = stops.map(s => s.location);
+  const depots: DepotNodes = {};
+  if (endpoints.start) depots.start = locations.push(endpoints.start) - 1;
+  if (endpoints.end) depots.end = locations.push(endpoints.end) - 1;
+  const provider = travelTimeProvider ?? createHaversineProvider(constraints.averageSpeedMph);
+  const matrix = await provider.getMatrix(locations);
+
+  return { constraints, stops, unscheduled, depots, matrix };
+};
+
+/**
+ * Plan a day's route. Fixed meetings keep their times; flexible meetings are
+ * ordered and timed around them, inside their time windows, to minimize total
+ * driving distance. Flexible meetings that cannot be fit are dropped from the
+ * route one at a time and reported with the reason. With a start and end depot
+ * the route is a tour from one to the other (closed when they are the same
+ * place); without an end depot it finishes at the last meeting. Travel times
+ * come from the given provider, straight-line estimates by default.
+ */
+export const solveRoute = async (input: SolveRouteInput): Promise<RoutePlan> => {
+  const { constraints, stops, unscheduled, depots, matrix } = await prepareRoute(input);
+
+  let active = stops;
+  let schedule = optimizeOrder(active, matrix, constraints, depots);
+
+  for (;;) {
+    // Blame the flexible visit that overruns the most; lateness at a fixed
+    // meeting is blamed on the flexible visit right before it
+    let culprit: { stop: RouteStop; violation: number; reason: InfeasibilityReason } | null = null;
+    for (let i = 0; i < schedule.visits.length; i++) {
+      const visit = schedule.visits[i];
+      if (visit.violation <= 0) continue;
+      const stop = visit.stop.isFixed ? schedule.visits[i - 1]?.stop : visit.stop;
+      if (!stop || stop.isFixed) continue;
+      if (!culprit || visit.violation > culprit.violation) {
+        culprit = { stop, violation: visit.violation, reason: visit.violationReason! };
+      }
+    }
+    if (!culprit) break;
+
+    const { stop, reason } = culprit;
+    unscheduled.push({
+      meeting: stop.meeting,
+      reason,
+      message: describeInfeasibility(stop.meeting, stop.client, reason, constraints, { start: stop.windowStart, end: stop.windowEnd }),
+    });
+    active = active.filter(s => s !== stop);
+    schedule = optimizeOrder(active, matrix, constraints, depots);
+  }
+
+  return toRoutePlan(schedule, unscheduled);
+};
+
+/**
+ * Time the meetings in the order given, e.g. after the user rearranged the
+ * route by hand. Nothing is reordered or dropped; stops that end up late or
+ * outside their window are marked with the conflict instead.
+ */
+export const scheduleInOrder = async (input: SolveRouteInput): Promise<RoutePlan> => {
+  const { constraints, stops, unscheduled, depots, matrix } = await prepareRoute(input);
+  return toRoutePlan(scheduleRoute(stops, matrix, constraints, depots), unscheduled);
+};
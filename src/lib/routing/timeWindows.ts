@@ -0,0 +1,56 @@
+// Resolves the window a flexible meeting may be scheduled in
+
+import { Client, Meeting, Weekday } from '@/types';
+import { timeToMinutes } from './geo';
+
+const WEEKDAYS: Weekday[] = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+export const WEEKDAY_LABELS: Record<Weekday, string> = {
+  sun: 'Sunday',
+  mon: 'Monday',
+  tue: 'Tuesday',
+  wed: 'Wednesday',
+  thu: 'Thursday',
+  fri: 'Friday',
+  sat: 'Saturday',
+};
+
+/**
+ * Weekday of a YYYY-MM-DD date string, independent of the local timezone
+ */
+export const getWeekday = (date: string): Weekday => {
+  const [year, month, day] = date.split('-').map(Number);
+  return WEEKDAYS[new Date(Date.UTC(year, month - 1, day)).getUTCDay()];
+};
+
+export interface ResolvedWindow {
+  start: number; // Minutes from midnight
+  end: number;
+  closed: boolean; // Client has no opening hours on the meeting's date
+}
+
+/**
+ * Intersect a meeting's own time window with its client's opening hours for
+ * the meeting's weekday. Either side may be missing, in which case it does not
+ * restrict the window.
+ */
+export const resolveTimeWindow = (meeting: Meeting, client: Client): ResolvedWindow => {
+  let start = 0;
+  let end = 24 * 60;
+
+  if (meeting.timeWindow) {
+    start = Math.max(start, timeToMinutes(meeting.timeWindow.start));
+    end = Math.min(end, timeToMinutes(meeting.timeWindow.end));
+  }
+
+  if (client.openingHours) {
+    const hours = client.openingHours[getWeekday(meeting.date)];
+    if (!hours) {
+      return { start, end, closed: true };
+    }
+    start = Math.max(start, timeToMinutes(hours.start));
+    end = Math.min(end, timeToMinutes(hours.end));
+  }
+
+  return { start, end, closed: false };
+};
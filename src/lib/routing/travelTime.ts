@@ -0,0 +1,105 @@
+// Travel time providers: where the solver gets its distance/duration matrix from
+
+import { TravelTimeSettings } from '@/types';
+import { estimateTravelMinutes, haversineDistance } from './geo';
+import { LatLng, TravelMatrix, TravelTimeProvider } from './types';
+
+/**
+ * Straight-line travel matrix at a constant average speed
+ */
+export const buildHaversineMatrix = (locations: LatLng[], averageSpeedMph: number): TravelMatrix => {
+  const distances = locations.map(from => locations.map(to => haversineDistance(from, to)));
+  const durations = distances.map(row => row.map(miles => estimateTravelMinutes(miles, averageSpeedMph)));
+  return { distances, durations };
+};
+
+/**
+ * Default provider: great-circle distance driven at a constant average speed
+ */
+export const createHaversineProvider = (averageSpeedMph: number): TravelTimeProvider => ({
+  name: 'haversine',
+  getMatrix: async (locations) => buildHaversineMatrix(locations, averageSpeedMph),
+});
+
+export interface OsrmProviderOptions {
+  baseUrl: string; // e.g. http://localhost:5000 for a self-hosted server or a local stub
+  profile?: string; // OSRM routing profile, defaults to driving
+  fetch?: typeof fetch;
+}
+
+export interface OsrmTableResponse {
+  code: string;
+  message?: string;
+  durations?: (number | null)[][]; // seconds
+  distances?: (number | null)[][]; // meters
+}
+
+const METERS_PER_MILE = 1609.344;
+
+/**
+ * Travel matrix from an OSRM `table` response for `locations`. Throws when the
+ * server reported an error; pairs it returned null for (no route) get the
+ * straight-line estimate instead.
+ */
+export const parseOsrmTable = (
+  body: OsrmTableResponse,
+  locations: LatLng[],
+  fallbackSpeedMph: number
+): TravelMatrix => {
+  if (body.code !== 'Ok' || !body.durations) {
+    throw new Error(`OSRM table request failed: ${body.message || body.code}`);
+  }
+
+  const fallback = buildHaversineMatrix(locations, fallbackSpeedMph);
+  const durations = locations.map((_, i) => locations.map((_, j) => {
+    const seconds = body.durations[i]?.[j];
+    return seconds == null ? fallback.durations[i][j] : Math.round(seconds / 60);
+  }));
+  const distances = locations.map((_, i) => locations.map((_, j) => {
+    const meters = body.distances?.[i]?.[j];
+    return meters == null ? fallback.distances[i][j] : meters / METERS_PER_MILE;
+  }));
+
+  return { distances, durations };
+};
+
+/**
+ * Provider backed by the OSRM `table` service, which returns the full
+ * duration/distance matrix in one request. Any server that speaks the same
+ * API works, including a local stub. Pairs the server can't route between
+ * fall back to the straight-line estimate.
+ */
+export const createOsrmProvider = (
+  { baseUrl, profile = 'driving', fetch: fetchFn = fetch }: OsrmProviderOptions,
+  fallbackSpeedMph: number
+): TravelTimeProvider => ({
+  name: 'osrm',
+  getMatrix: async (locations) => {
+    if (locations.length < 2) {
+      return buildHaversineMatrix(locations, fallbackSpeedMph);
+    }
+
+    const coordinates = locations.map(({ lat, lon }) => `${lon},${lat}`).join(';');
+    const url = `${baseUrl.replace(/\/+$/, '')}/table/v1/${profile}/${coordinates}?annotations=duration,distance`;
+
+    const response = await fetchFn(url);
+    if (!response.ok) {
+      throw new Error(`OSRM table request failed with status ${response.status}`);
+    }
+    return parseOsrmTable(await response.json(), locations, fallbackSpeedMph);
+  },
+});
+
+/**
+ * Provider for a user's travel time settings. OSRM without a server URL falls
+ * back to straight-line estimates.
+ */
+export const createTravelTimeProvider = (
+  settings: TravelTimeSettings,
+  averageSpeedMph: number
+): TravelTimeProvider => {
+  if (settings.provider === 'osrm' && settings.osrmUrl) {
+    return createOsrmProvider({ baseUrl: settings.osrmUrl, profile: settings.osrmProfile }, averageSpeedMph);
+  }
+  return createHaversineProvider(averageSpeedMph);
+};
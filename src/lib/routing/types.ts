@@ -0,0 +1,110 @@
+// Route solver types
+
+import { Client, Meeting } from '@/types';
+
+export interface LatLng {
+  lat: number;
+  lon: number;
+}
+
+export interface RoutingConstraints {
+  dayStartMinutes: number; // Minutes from midnight the route may start (480 = 8:00)
+  dayEndMinutes: number; // Flexible meetings must finish by this time
+  lunchBreak?: { start: number; end: number }; // Minutes from midnight kept free of flexible meetings
+  bufferMinutes: number; // Slack kept between a fixed meeting and an adjacent flexible one
+  defaultMeetingDuration: number; // Used when a meeting's own time span is unusable, in minutes
+  averageSpeedMph: number;
+  maxIterations: number; // Upper bound on local search passes
+}
+
+// A meeting the solver can visit, resolved to its client and matrix node
+export interface RouteStop {
+  node: number; // Index into the travel matrix
+  meeting: Meeting;
+  client: Client;
+  location: LatLng;
+  isFixed: boolean;
+  fixedStart?: number; // Minutes from midnight, fixed meetings only
+  fixedEnd?: number;
+  windowStart: number; // Earliest start for a flexible meeting, minutes from midnight
+  windowEnd: number; // Latest end for a flexible meeting
+  duration: number; // in minutes
+}
+
+// Pairwise travel between matrix nodes
+export interface TravelMatrix {
+  distances: number[][]; // in miles
+  durations: number[][]; // in minutes
+}
+
+// Source of the travel matrix, e.g. straight-line estimates or a routing server
+export interface TravelTimeProvider {
+  name: string;
+  getMatrix(locations: LatLng[]): Promise<TravelMatrix>;
+}
+
+export interface PlannedStop {
+  meeting: Meeting;
+  client: Client;
+  startTime: string;
+  endTime: string;
+  isFlexible: boolean;
+  distanceFromPrevious: number; // in miles
+  travelTimeFromPrevious: number; // in minutes
+  conflict?: InfeasibilityReason; // Set when this stop breaks a constraint in a hand-ordered route
+}
+
+export type InfeasibilityReason =
+  | 'missing-location' // No client coordinates to route to
+  | 'client-closed' // Client has no opening hours on this day
+  | 'window-too-short' // Time window is shorter than the meeting
+  | 'outside-window' // Can't be reached within its time window
+  | 'conflicts-with-fixed' // Would make the rep late for a fixed meeting
+  | 'past-day-end'; // Doesn't fit before the end of the day
+
+export interface UnscheduledMeeting {
+  meeting: Meeting;
+  reason: InfeasibilityReason;
+  message: string;
+}
+
+// Where the day's route starts and finishes, e.g. home or office. Without an
+// end the tour is open and finishes at the last meeting.
+export interface RouteEndpoints {
+  start?: LatLng;
+  end?: LatLng;
+}
+
+export interface RoutePlan {
+  stops: PlannedStop[]; // The first stop's leg is measured from the start depot, if any
+  unscheduled: UnscheduledMeeting[]; // Meetings left out of the route, with the reason
+  returnDistance: number; // Last meeting to the end depot, in miles (0 for open tours)
+  returnTravelTime: number; // in minutes
+  totalDistance: number; // in miles, including the legs from and to the depots
+  totalTravelTime: number; // in minutes
+}
+
+export interface SolveRouteInput {
+  meetings: Meeting[];
+  clients: Client[];
+  constraints?: Partial<RoutingConstraints>;
+  endpoints?: RouteEndpoints;
+  travelTimeProvider?: TravelTimeProvider; // Defaults to straight-line estimates at the average speed
+}
+
+export interface PlanWeekInput extends SolveRouteInput {
+  days: string[]; // Dates (YYYY-MM-DD) the movable meetings may be spread over
+  movable: Meeting[]; // Flexible meetings and new visits to assign a day; other meetings stay where they are
+}
+
+export interface DayPlan {
+  date: string;
+  plan: RoutePlan;
+}
+
+export interface WeekPlan {
+  days: DayPlan[];
+  unassigned: UnscheduledMeeting[]; // Movable meetings that fit on none of the days
+  totalDistance: number; // in miles
+  totalTravelTime: number; // in minutes
+}
@@ -0,0 +1,175 @@
+// Spreads flexible meetings over several days to minimize total driving
+
+import { Meeting } from '@/types';
+import { createHaversineProvider } from './travelTime';
+import { solveRoute, DEFAULT_ROUTING_CONSTRAINTS } from './solver';
+import {
+  LatLng,
+  TravelTimeProvider,
+  RoutePlan,
+  PlanWeekInput,
+  WeekPlan,
+  UnscheduledMeeting,
+  InfeasibilityReason,
+} from './types';
+
+const locationKey = ({ lat, lon }: LatLng) => `${lat},${lon}`;
+
+/**
+ * Fetch the matrix for every location once and answer later requests from
+ * it, so trying a meeting on each day doesn't hit a routing server each time
+ */
+const createPrefetchedProvider = async (
+  provider: TravelTimeProvider,
+  locations: LatLng[]
+): Promise<TravelTimeProvider> => {
+  const index = new Map<string, number>();
+  const unique: LatLng[] = [];
+  locations.forEach(location => {
+    const key = locationKey(location);
+    if (!index.has(key)) index.set(key, unique.push(location) - 1);
+  });
+  const full = await provider.getMatrix(unique);
+
+  return {
+    name: provider.name,
+    getMatrix: async (requested) => {
+      const nodes = requested.map(location => index.get(locationKey(location)));
+      if (nodes.some(node => node === undefined)) return provider.getMatrix(requested);
+      return {
+        distances: nodes.map(from => nodes.map(to => full.distances[from!][to!])),
+        durations: nodes.map(from => nodes.map(to => full.durations[from!][to!])),
+      };
+    },
+  };
+};
+
+// A day's route with the meeting added, or why it doesn't fit there
+interface Insertion {
+  plan?: RoutePlan;
+  cost: number; // Extra miles for the day
+  reason?: InfeasibilityReason;
+}
+
+/**
+ * Assign each movable meeting a day and time across the given days so the
+ * week's total driving is as short as possible. Meetings that aren't movable
+ * stay on their own day; every day keeps to the same workday constraints as
+ * a single-day plan. Meetings are placed by regret insertion: the one that
+ * would lose the most by missing its best day is placed first, on that day.
+ */
+export const planWeek = async ({
+  days,
+  movable,
+  meetings,
+  clients,
+  constraints,
+  endpoints = {},
+  travelTimeProvider,
+}: PlanWeekInput): Promise<WeekPlan> => {
+  const movableIds = new Set(movable.map(m => m.id));
+  const clientsById = new Map(clients.map(c => [c.id, c]));
+  const onDay = (meeting: Meeting, date: string): Meeting => ({ ...meeting, date });
+
+  const fixedByDay = new Map(days.map(date => [
+    date,
+    meetings.filter(m => m.date === date && m.type === 'in-person' && m.status !== 'cancelled' && !movableIds.has(m.id)),
+  ]));
+
+  const locations: LatLng[] = [...movable, ...[...fixedByDay.values()].flat()]
+    .map(m => clientsById.get(m.clientId))
+    .filter(c => !!c && c.geocodeConfidence !== 'none')
+    .map(c => ({ lat: c!.latitude, lon: c!.longitude }));
+  if (endpoints.start) locations.push(endpoints.start);
+  if (endpoints.end) locations.push(endpoints.end);
+  const provider = await createPrefetchedProvider(
+    travelTimeProvider ?? createHaversineProvider(constraints?.averageSpeedMph ?? DEFAULT_ROUTING_CONSTRAINTS.averageSpeedMph),
+    locations
+  );
+
+  const solveDay = (dayMeetings: Meeting[]) =>
+    solveRoute({ meetings: dayMeetings, clients, constraints, endpoints, travelTimeProvider: provider });
+
+  const assigned = new Map<string, Meeting[]>(days.map(date => [date, []]));
+  const plans = new Map<string, RoutePlan>();
+  for (const date of days) {
+    plans.set(date, await solveDay(fixedByDay.get(date)!));
+  }
+
+  // Cost of adding a meeting to a day; infeasible when anything drops off the day's route
+  const cache = new Map<string, Insertion>();
+  const tryInsert = async (meeting: Meeting, date: string): Promise<Insertion> => {
+    const key = `${meeting.id}|${date}`;
+    const cached = cache.get(key);
+    if (cached) return cached;
+
+    const current = plans.get(date)!;
+    const plan = await solveDay([...fixedByDay.get(date)!, ...assigned.get(date)!, onDay(meeting, date)]);
+    const result: Insertion = plan.unscheduled.length > current.unscheduled.length
+      ? { cost: Infinity, reason: plan.unscheduled.find(u => u.meeting.id === meeting.id)?.reason }
+      : { cost: plan.totalDistance - current.totalDistance, plan };
+    cache.set(key, result);
+    return result;
+  };
+
+  const unassigned: UnscheduledMeeting[] = [];
+  let remaining = [...movable];
+
+  while (remaining.length > 0) {
+    let choice: { meeting: Meeting; date: string; plan: RoutePlan; regret: number; cost: number } | null = null;
+
+    for (const meeting of remaining) {
+      let best: { date: string; cost: number; plan: RoutePlan } | null = null;
+      let secondCost = Infinity;
+      let reason: InfeasibilityReason | undefined;
+
+      for (const date of days) {
+        const insertion = await tryInsert(meeting, date);
+        if (!insertion.plan) {
+          reason = reason ?? insertion.reason;
+          continue;
+        }
+        if (!best || insertion.cost < best.cost) {
+          if (best) secondCost = best.cost;
+          best = { date, cost: insertion.cost, plan: insertion.plan };
+        } else if (insertion.cost < secondCost) {
+          secondCost = insertion.cost;
+        }
+      }
+
+      if (!best) {
+        unassigned.push({
+          meeting,
+          reason: reason ?? 'past-day-end',
+          message: reason === 'missing-location'
+            ? `${meeting.title} has no client location to route to`
+            : `${clientsById.get(meeting.clientId)?.company || meeting.title} doesn't fit on any day you're planning`,
+        });
+        continue;
+      }
+
+      const regret = secondCost - best.cost;
+      if (!choice || regret > choice.regret || (regret === choice.regret && best.cost < choice.cost)) {
+        choice = { meeting, ...best, regret };
+      }
+    }
+
+    remaining = remaining.filter(m => !unassigned.some(u => u.meeting.id === m.id));
+    if (!choice) break;
+
+    const { meeting, date, plan } = choice;
+    assigned.get(date)!.push(onDay(meeting, date));
+    plans.set(date, plan);
+    remaining = remaining.filter(m => m.id !== meeting.id);
+    // The day's route changed, so earlier estimates for it no longer hold
+    remaining.forEach(m => cache.delete(`${m.id}|${date}`));
+  }
+
+  const dayPlans = days.map(date => ({ date, plan: plans.get(date)! }));
+  return {
+    days: dayPlans,
+    unassigned,
+    totalDistance: dayPlans.reduce((sum, d) => sum + d.plan.totalDistance, 0),
+    totalTravelTime: dayPlans.reduce((sum, d) => sum + d.plan.totalTravelTime, 0),
+  };
+};
@@ -0,0 +1,22 @@
+// Maps a user's workday settings onto solver constraints
+
+import { WorkdaySettings } from '@/types';
+import { timeToMinutes } from './geo';
+import { RoutingConstraints } from './types';
+
+export const DEFAULT_WORKDAY_SETTINGS: WorkdaySettings = {
+  startTime: '08:00',
+  endTime: '18:00',
+};
+
+/**
+ * Solver constraints for a workday: the route starts at the workday start,
+ * flexible meetings finish by its end and stay clear of the lunch break
+ */
+export const workdayToConstraints = (settings: WorkdaySettings): Partial<RoutingConstraints> => ({
+  dayStartMinutes: timeToMinutes(settings.startTime),
+  dayEndMinutes: timeToMinutes(settings.endTime),
+  lunchBreak: settings.lunchBreak
+    ? { start: timeToMinutes(settings.lunchBreak.start), end: timeToMinutes(settings.lunchBreak.end) }
+    : undefined,
+});
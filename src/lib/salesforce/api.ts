@@ -0,0 +1,109 @@
+// Minimal Salesforce REST API client: SOQL queries and record writes, with
+// the access token refreshed once when the session has expired
+
+import { SalesforceTokens } from '@/types';
+import { refreshAccessToken } from './oauth';
+
+export const API_VERSION = '60.0';
+
+export interface SalesforceRecord {
+  Id: string;
+  SystemModstamp?: string;
+  attributes?: { type: string; url: string };
+  [field: string]: unknown;
+}
+
+interface QueryResponse {
+  totalSize: number;
+  done: boolean;
+  records: SalesforceRecord[];
+  nextRecordsUrl?: string;
+}
+
+// A failed request, with the HTTP status Salesforce answered with
+export interface SalesforceRequestError extends Error {
+  status: number;
+}
+
+interface ApiError {
+  message: string;
+  errorCode: string;
+}
+
+export interface SalesforceApiOptions {
+  tokens: SalesforceTokens;
+  clientId: string;
+  loginUrl?: string;
+  apiVersion?: string;
+  fetch?: typeof fetch;
+  onTokensRefreshed?: (tokens: SalesforceTokens) => void; // To save the new access token
+}
+
+export interface SalesforceApi {
+  query: (soql: string) => Promise<SalesforceRecord[]>;
+  create: (sobject: string, fields: Record<string, unknown>) => Promise<string>;
+  update: (sobject: string, id: string, fields: Record<string, unknown>) => Promise<void>;
+}
+
+/**
+ * A REST client for the instance the tokens were issued for. Point the
+ * tokens' instanceUrl and the loginUrl at a local server to test against a mock.
+ */
+export const createSalesforceApi = ({
+  tokens: initialTokens,
+  clientId,
+  loginUrl,
+  apiVersion = API_VERSION,
+  fetch: fetchFn = fetch,
+  onTokensRefreshed,
+}: SalesforceApiOptions): SalesforceApi => {
+  let tokens = initialTokens;
+
+  const request = async (path: string, init: RequestInit = {}, retried = false): Promise<Response> => {
+    const url = path.startsWith('/services/') ? path : `/services/data/v${apiVersion}${path}`;
+    const response = await fetchFn(`${tokens.instanceUrl}${url}`, {
+      ...init,
+      headers: {
+        Authorization: `Bearer ${tokens.accessToken}`,
+        Accept: 'application/json',
+        ...(init.body ? { 'Content-Type': 'application/json' } : {}),
+      },
+    });
+    if (response.status === 401 && !retried && tokens.refreshToken) {
+      tokens = await refreshAccessToken({ clientId, loginUrl, fetch: fetchFn }, tokens);
+      onTokensRefreshed?.(tokens);
+      return request(path, init, true);
+    }
+    if (!response.ok) {
+      const errors: ApiError[] = await response.json().catch(() => []);
+      const message = Array.isArray(errors) && errors[0] ? `${errors[0].errorCode}: ${errors[0].message}` : `status ${response.status}`;
+      const error: SalesforceRequestError = Object.assign(new Error(`Salesforce request failed (${message})`), { status: response.status });
+      throw error;
+    }
+    return response;
+  };
+
+  return {
+    // Follows nextRecordsUrl until every page is read
+    query: async (soql) => {
+      const records: SalesforceRecord[] = [];
+      let path: string | undefined = `/query?q=${encodeURIComponent(soql)}`;
+      while (path) {
+        const page: QueryResponse = await (await request(path)).json();
+        records.push(...page.records);
+        path = page.done ? undefined : page.nextRecordsUrl;
+      }
+      return records;
+    },
+
+    create: async (sobject, fields) => {
+      const response = await request(`/sobjects/${sobject}`, { method: 'POST', body: JSON.stringify(fields) });
+      const result: { id: string } = await response.json();
+      return result.id;
+    },
+
+    update: async (sobject, id, fields) => {
+      await request(`/sobjects/${sobject}/${id}`, { method: 'PATCH', body: JSON.stringify(fields) });
+    },
+  };
+};
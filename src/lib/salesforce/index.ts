@@ -0,0 +1,29 @@
+// Salesforce REST sync: OAuth PKCE sign-in, SOQL queries and the sync engine
+
+export {
+  DEFAULT_LOGIN_URL,
+  createPkcePair,
+  createOAuthState,
+  buildAuthorizeUrl,
+  exchangeAuthorizationCode,
+  refreshAccessToken,
+  authorizeInPopup,
+} from './oauth';
+export type { PkcePair, SalesforceOAuthOptions } from './oauth';
+export { API_VERSION, createSalesforceApi } from './api';
+export type { SalesforceApi, SalesforceApiOptions, SalesforceRecord, SalesforceRequestError } from './api';
+export {
+  DEFAULT_FIELD_MAPPINGS,
+  getFieldMappings,
+  applyRecordToClient,
+  clientToRecordFields,
+  eventToMeeting,
+  meetingToEventFields,
+  toSoqlDateTime,
+} from './mapping';
+export { MEETING_SYNC_FIELDS, compareFields, sameValue } from './tracking';
+export type { FieldComparison } from './tracking';
+export { buildMeetingEntry, buildTaskEntry, processOutbox, retryDelayMinutes, isDue, isRefusedBySalesforce, retryOutboxEntry, MAX_OUTBOX_ATTEMPTS } from './outbox';
+export type { OutboxResult } from './outbox';
+export { runSalesforceSync, resolveSyncConflict, effectiveConflictPolicy } from './sync';
+export type { SalesforceSyncInput, SalesforceSyncResult } from './sync';
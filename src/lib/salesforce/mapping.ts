@@ -0,0 +1,253 @@
+// Field mappings between clients and Salesforce Contacts and Accounts, and
+// Events to meetings
+
+import { Client, CustomField, Meeting, SalesforceConfig } from '@/types';
+import { convertCustomFieldValue } from '@/lib/csv';
+import { CellValue } from '@/lib/xlsx';
+import { toZonedDateTime } from '@/lib/ical';
+import { SalesforceRecord } from './api';
+
+// Used until the user maps fields themselves
+export const DEFAULT_FIELD_MAPPINGS: Record<string, string> = {
+  name: 'Name',
+  company: 'Account.Name',
+  email: 'Email',
+  phone: 'Phone',
+  address: 'MailingStreet',
+  city: 'MailingCity',
+  state: 'MailingState',
+  zipCode: 'MailingPostalCode',
+  notes: 'Description',
+};
+
+const TEXT_FIELDS = ['name', 'company', 'email', 'phone', 'address', 'city', 'state', 'zipCode', 'notes'] as const;
+
+// Account fields offered in the mapping list, read through the contact's account
+const CONTACT_PATHS: Record<string, string> = {
+  Industry: 'Account.Industry',
+  AnnualRevenue: 'Account.AnnualRevenue',
+};
+
+// The Account field matching a Contact field, for companies synced without a contact
+const ACCOUNT_FIELDS: Record<string, string> = {
+  Name: 'Name',
+  Phone: 'Phone',
+  MailingStreet: 'BillingStreet',
+  MailingCity: 'BillingCity',
+  MailingState: 'BillingState',
+  MailingPostalCode: 'BillingPostalCode',
+  Description: 'Description',
+  Industry: 'Industry',
+  AnnualRevenue: 'AnnualRevenue',
+  LeadSource: 'AccountSource',
+};
+
+export const EVENT_FIELDS = [
+  'Id', 'Subject', 'StartDateTime', 'EndDateTime', 'IsAllDayEvent', 'ActivityDate',
+  'Location', 'Description', 'WhoId', 'WhatId', 'SystemModstamp',
+];
+
+// Salesforce ID prefix of Account records
+export const ACCOUNT_ID_PREFIX = '001';
+
+const ALL_DAY_START = '09:00';
+const ALL_DAY_END = '17:00';
+
+// Line that carries a meeting's outcome at the end of its Event's description
+const OUTCOME_LABEL = 'Outcome: ';
+
+/**
+ * Local field -> Salesforce Contact field, without unmapped fields
+ */
+export const getFieldMappings = (config: SalesforceConfig): Record<string, string> => {
+  const mapped = Object.entries(config.fieldMappings).filter(([, field]) => field);
+  return mapped.length > 0 ? Object.fromEntries(mapped) : DEFAULT_FIELD_MAPPINGS;
+};
+
+export const toContactPath = (field: string) => CONTACT_PATHS[field] ?? field;
+
+/**
+ * The Account field a Contact mapping reads on an Account; undefined when
+ * Accounts have no such field
+ */
+export const toAccountPath = (field: string): string | undefined =>
+  field.startsWith('Account.') ? field.substring('Account.'.length) : ACCOUNT_FIELDS[field];
+
+/**
+ * A field of a record, following relationships such as Account.Name
+ */
+export const readPath = (record: SalesforceRecord, path: string): unknown =>
+  path.split('.').reduce<unknown>(
+    (value, key) => (value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined),
+    record
+  );
+
+const toCell = (value: unknown): CellValue =>
+  typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean' ? value : null;
+
+/**
+ * Copy the mapped values of a record onto a client. `pathFor` turns a
+ * mapping into the record's own field name and drops mappings it doesn't have.
+ */
+export const applyRecordToClient = (
+  client: Client,
+  record: SalesforceRecord,
+  mappings: Record<string, string>,
+  customFields: CustomField[],
+  pathFor: (field: string) => string | undefined
+): Client => {
+  const updated: Client = { ...client, customFields: { ...client.customFields } };
+  Object.entries(mappings).forEach(([local, field]) => {
+    const path = pathFor(field);
+    if (!path) return;
+    const value = toCell(readPath(record, path));
+
+    if ((TEXT_FIELDS as readonly string[]).includes(local)) {
+      const text = value === null ? '' : String(value).trim();
+      if (local === 'name' && !text) return;
+      updated[local as typeof TEXT_FIELDS[number]] = text;
+      return;
+    }
+    const custom = customFields.find(f => f.name === local);
+    if (!custom) return;
+    if (value === null) {
+      delete updated.customFields[local];
+      return;
+    }
+    const converted = convertCustomFieldValue(value, custom);
+    if (!converted.error) updated.customFields[local] = converted.value;
+  });
+  return updated;
+};
+
+/**
+ * The writable Contact or Account fields for a client. Relationship fields
+ * can't be written, and a Contact's Name is set through its first and last name.
+ */
+export const clientToRecordFields = (
+  client: Client,
+  mappings: Record<string, string>,
+  sobject: 'Contact' | 'Account'
+): Record<string, unknown> => {
+  const fields: Record<string, unknown> = {};
+  Object.entries(mappings).forEach(([local, field]) => {
+    const path = sobject === 'Account' ? toAccountPath(field) : field;
+    if (!path || path.includes('.') || (sobject === 'Contact' && CONTACT_PATHS[field])) return;
+    const value = (TEXT_FIELDS as readonly string[]).includes(local)
+      ? client[local as typeof TEXT_FIELDS[number]] || null
+      : client.customFields[local] ?? null;
+
+    if (sobject === 'Contact' && path === 'Name') {
+      const parts = String(value || '').trim().split(/\s+/);
+      fields.FirstName = parts.length > 1 ? parts[0] : null;
+      fields.LastName = parts.length > 1 ? parts.slice(1).join(' ') : parts[0];
+    } else {
+      fields[path] = value;
+    }
+  });
+  return fields;
+};
+
+// SystemModstamp and other datetimes come as 2024-05-01T14:00:00.000+0000
+const toIsoInstant = (value: string) => value.replace(/([+-]\d{2})(\d{2})$/, '$1:$2');
+
+const splitInstant = (value: string, timeZone: string) => {
+  const iso = new Date(toIsoInstant(value)).toISOString();
+  const zoned = toZonedDateTime({ date: iso.substring(0, 10), time: iso.substring(11, 16), utc: true }, timeZone);
+  return { date: zoned.date, time: zoned.time ?? ALL_DAY_START };
+};
+
+/**
+ * An Event's description: the meeting notes, then its outcome
+ */
+export const toEventDescription = (meeting: Pick<Meeting, 'notes' | 'outcome'>) =>
+  [meeting.notes.trim(), meeting.outcome?.trim() ? `${OUTCOME_LABEL}${meeting.outcome.trim()}` : '']
+    .filter(Boolean)
+    .join('\n\n');
+
+const fromEventDescription = (description: string) => {
+  const at = description.lastIndexOf(OUTCOME_LABEL);
+  if (at === -1 || (at > 0 && !description.substring(0, at).endsWith('\n'))) return { notes: description };
+  return { notes: description.substring(0, at).trim(), outcome: description.substring(at + OUTCOME_LABEL.length).trim() || undefined };
+};
+
+/**
+ * A meeting for an Event, keeping what the Event doesn't say (status, type,
+ * priority) from the meeting it was synced to before
+ */
+export const eventToMeeting = (
+  event: SalesforceRecord,
+  clientId: string,
+  existing: Meeting | undefined,
+  timeZone: string
+): Meeting => {
+  let date: string;
+  let startTime = ALL_DAY_START;
+  let endTime = ALL_DAY_END;
+  if (event.IsAllDayEvent || !event.StartDateTime) {
+    date = String(event.ActivityDate || '').substring(0, 10);
+  } else {
+    const start = splitInstant(String(event.StartDateTime), timeZone);
+    date = start.date;
+    startTime = start.time;
+    endTime = event.EndDateTime ? splitInstant(String(event.EndDateTime), timeZone).time : startTime;
+  }
+
+  return {
+    status: 'scheduled',
+    type: 'in-person',
+    priority: 'medium',
+    ...existing,
+    id: existing?.id ?? crypto.randomUUID(),
+    clientId,
+    title: String(event.Subject || '') || 'Salesforce event',
+    date,
+    startTime,
+    endTime,
+    outcome: undefined,
+    ...fromEventDescription(String(event.Description || '')),
+    location: event.Location ? String(event.Location) : undefined,
+    salesforceId: event.Id,
+  };
+};
+
+/**
+ * Whether a client field can be written back to its Contact or Account
+ */
+export const isWritableField = (local: string, field: string, sobject: 'Contact' | 'Account') =>
+  Object.keys(clientToRecordFields({ customFields: {} } as Client, { [local]: field }, sobject)).length > 0;
+
+// UTC instant of a wall-clock date and time in a zone
+const toInstant = (date: string, time: string, timeZone: string) => {
+  const utc = toZonedDateTime({ date, time, tzid: timeZone }, 'UTC');
+  return `${utc.date}T${utc.time}:00Z`;
+};
+
+/**
+ * The Event fields for some meeting fields. Any change to the date or times
+ * sends the start and end together.
+ */
+export const meetingToEventFields = (meeting: Meeting, fields: readonly string[], timeZone: string): Record<string, unknown> => {
+  const event: Record<string, unknown> = {};
+  if (fields.includes('title')) event.Subject = meeting.title;
+  if (fields.includes('notes') || fields.includes('outcome')) event.Description = toEventDescription(meeting) || null;
+  if (fields.includes('location')) event.Location = meeting.location || null;
+  if (['date', 'startTime', 'endTime'].some(field => fields.includes(field))) {
+    event.IsAllDayEvent = false;
+    event.StartDateTime = toInstant(meeting.date, meeting.startTime, timeZone);
+    event.EndDateTime = toInstant(meeting.date, meeting.endTime, timeZone);
+  }
+  return event;
+};
+
+/**
+ * SOQL datetime literal for a timestamp. Milliseconds are dropped, so records
+ * from the same second are read again rather than missed.
+ */
+export const toSoqlDateTime = (value: string) => `${new Date(toIsoInstant(value)).toISOString().substring(0, 19)}Z`;
+
+export const laterModstamp = (a: string | undefined, b: string | undefined) => {
+  if (!a) return b;
+  if (!b) return a;
+  return new Date(toIsoInstant(b)).getTime() > new Date(toIsoInstant(a)).getTime() ? b : a;
+};
@@ -0,0 +1,158 @@
+// OAuth 2.0 authorization code flow with PKCE against a Salesforce login
+// server, so the browser can sync without a client secret
+
+import { SalesforceTokens } from '@/types';
+
+export const DEFAULT_LOGIN_URL = 'https://login.salesforce.com';
+
+export interface PkcePair {
+  verifier: string;
+  challenge: string; // S256 of the verifier
+}
+
+export interface SalesforceOAuthOptions {
+  clientId: string; // Consumer key of the connected app
+  redirectUri: string;
+  loginUrl?: string; // login.salesforce.com, test.salesforce.com, a My Domain or a local mock server
+  fetch?: typeof fetch;
+}
+
+interface TokenResponse {
+  access_token: string;
+  refresh_token?: string;
+  instance_url: string;
+  issued_at?: string; // Milliseconds since the epoch, as a string
+}
+
+interface TokenError {
+  error?: string;
+  error_description?: string;
+}
+
+const base64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const trimUrl = (url: string) => url.replace(/\/+$/, '');
+
+/**
+ * A random code verifier and its SHA-256 challenge (RFC 7636)
+ */
+export const createPkcePair = async (): Promise<PkcePair> => {
+  const verifier = base64Url(crypto.getRandomValues(new Uint8Array(32)));
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(verifier));
+  return { verifier, challenge: base64Url(new Uint8Array(digest)) };
+};
+
+/**
+ * Random value tying the redirect back to the request that started it
+ */
+export const createOAuthState = () => base64Url(crypto.getRandomValues(new Uint8Array(16)));
+
+export const buildAuthorizeUrl = (options: SalesforceOAuthOptions, pkce: PkcePair, state: string): string => {
+  const params = new URLSearchParams({
+    response_type: 'code',
+    client_id: options.clientId,
+    redirect_uri: options.redirectUri,
+    code_challenge: pkce.challenge,
+    code_challenge_method: 'S256',
+    scope: 'api refresh_token',
+    state,
+  });
+  return `${trimUrl(options.loginUrl || DEFAULT_LOGIN_URL)}/services/oauth2/authorize?${params}`;
+};
+
+const requestTokens = async (
+  options: Pick<SalesforceOAuthOptions, 'loginUrl' | 'fetch'>,
+  body: Record<string, string>
+): Promise<TokenResponse> => {
+  const fetchFn = options.fetch ?? fetch;
+  const response = await fetchFn(`${trimUrl(options.loginUrl || DEFAULT_LOGIN_URL)}/services/oauth2/token`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams(body).toString(),
+  });
+  if (!response.ok) {
+    const error: TokenError = await response.json().catch(() => ({}));
+    throw new Error(`Salesforce sign-in failed: ${error.error_description || error.error || `status ${response.status}`}`);
+  }
+  return response.json();
+};
+
+const toTokens = (data: TokenResponse, previous?: SalesforceTokens): SalesforceTokens => ({
+  accessToken: data.access_token,
+  // A refresh grant doesn't return a new refresh token
+  refreshToken: data.refresh_token ?? previous?.refreshToken,
+  instanceUrl: trimUrl(data.instance_url || previous?.instanceUrl || ''),
+  issuedAt: new Date(data.issued_at ? Number(data.issued_at) : Date.now()).toISOString(),
+});
+
+/**
+ * Trade the code from the redirect for access and refresh tokens
+ */
+export const exchangeAuthorizationCode = async (
+  options: SalesforceOAuthOptions,
+  code: string,
+  verifier: string
+): Promise<SalesforceTokens> => {
+  const data = await requestTokens(options, {
+    grant_type: 'authorization_code',
+    code,
+    client_id: options.clientId,
+    redirect_uri: options.redirectUri,
+    code_verifier: verifier,
+  });
+  return toTokens(data);
+};
+
+export const refreshAccessToken = async (
+  options: Pick<SalesforceOAuthOptions, 'clientId' | 'loginUrl' | 'fetch'>,
+  tokens: SalesforceTokens
+): Promise<SalesforceTokens> => {
+  if (!tokens.refreshToken) throw new Error('Salesforce session expired; connect again');
+  const data = await requestTokens(options, {
+    grant_type: 'refresh_token',
+    refresh_token: tokens.refreshToken,
+    client_id: options.clientId,
+  });
+  return toTokens(data, tokens);
+};
+
+/**
+ * Run the whole sign-in in a popup: open the authorize page, wait for the
+ * redirect back to this origin and exchange its code. The redirect URI must
+ * be on this origin so the popup's address can be read.
+ */
+export const authorizeInPopup = async (options: SalesforceOAuthOptions): Promise<SalesforceTokens> => {
+  const pkce = await createPkcePair();
+  const state = createOAuthState();
+  const popup = window.open(buildAuthorizeUrl(options, pkce, state), 'salesforce-oauth', 'width=600,height=720');
+  if (!popup) throw new Error('The sign-in window was blocked; allow popups for this site');
+
+  const params = await new Promise<URLSearchParams>((resolve, reject) => {
+    const timer = window.setInterval(() => {
+      if (popup.closed) {
+        window.clearInterval(timer);
+        reject(new Error('Salesforce sign-in was cancelled'));
+        return;
+      }
+      let href: string;
+      try {
+        href = popup.location.href;
+      } catch {
+        return; // Still on the Salesforce domain
+      }
+      if (!href.startsWith(options.redirectUri)) return;
+      window.clearInterval(timer);
+      popup.close();
+      resolve(new URL(href).searchParams);
+    }, 500);
+  });
+
+  if (params.get('error')) {
+    throw new Error(`Salesforce sign-in failed: ${params.get('error_description') || params.get('error')}`);
+  }
+  if (params.get('state') !== state) throw new Error('Salesforce sign-in returned an unexpected state');
+  const code = params.get('code');
+  if (!code) throw new Error('Salesforce sign-in returned no authorization code');
+  return exchangeAuthorizationCode(options, code, pkce.verifier);
+};
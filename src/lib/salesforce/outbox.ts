@@ -0,0 +1,175 @@
+// Outbox of activity pushed to Salesforce: Events for completed meetings and
+// Tasks for follow-ups, kept until Salesforce accepts them
+
+import { Client, Meeting, SalesforceOutboxEntry, Task } from '@/types';
+import { SalesforceApi, SalesforceRequestError } from './api';
+import { ACCOUNT_ID_PREFIX, meetingToEventFields } from './mapping';
+import { MEETING_SYNC_FIELDS, getMeetingValue, takeSnapshot } from './tracking';
+
+const FIRST_RETRY_MINUTES = 1;
+const MAX_RETRY_MINUTES = 6 * 60;
+
+// Attempts before an entry that keeps failing is given up on, about eight hours of retries
+export const MAX_OUTBOX_ATTEMPTS = 10;
+
+// Refusals that can go through later: an expired session, API limits (which
+// Salesforce reports as 403), timeouts and throttling
+const RETRYABLE_STATUSES = [401, 403, 408, 429];
+
+const TASK_PRIORITIES: Record<Task['priority'], string> = {
+  low: 'Low',
+  medium: 'Normal',
+  high: 'High',
+};
+
+const TASK_STATUSES: Record<Task['status'], string> = {
+  pending: 'Not Started',
+  'in-progress': 'In Progress',
+  completed: 'Completed',
+};
+
+export interface OutboxResult {
+  delivered: { entry: SalesforceOutboxEntry; salesforceId: string }[];
+  failed: SalesforceOutboxEntry[]; // With the attempt recorded: rescheduled, or marked failed when given up on
+}
+
+// Contacts are who an activity is with; Accounts what it is about
+const linkTo = (salesforceId: string) =>
+  salesforceId.startsWith(ACCOUNT_ID_PREFIX) ? { WhatId: salesforceId } : { WhoId: salesforceId };
+
+const minutesBetween = (start: string, end: string) => {
+  const [sh, sm] = start.split(':').map(Number);
+  const [eh, em] = end.split(':').map(Number);
+  return Math.max(0, eh * 60 + em - (sh * 60 + sm));
+};
+
+/**
+ * Wait before the next attempt: doubles from a minute, up to six hours
+ */
+export const retryDelayMinutes = (attempts: number) =>
+  Math.min(FIRST_RETRY_MINUTES * 2 ** Math.max(0, attempts - 1), MAX_RETRY_MINUTES);
+
+const newEntry = (
+  fields: Omit<SalesforceOutboxEntry, 'id' | 'attempts' | 'nextAttemptAt' | 'createdAt'>,
+  existing: SalesforceOutboxEntry | undefined
+): SalesforceOutboxEntry => {
+  const now = new Date().toISOString();
+  return {
+    ...fields,
+    // A record queued again replaces what was waiting for it
+    id: existing?.id ?? crypto.randomUUID(),
+    attempts: 0,
+    nextAttemptAt: now,
+    createdAt: existing?.createdAt ?? now,
+  };
+};
+
+/**
+ * The Event for a completed meeting, with its notes, outcome and duration.
+ * Updates the Event the meeting was synced from, if any. Null when the
+ * client isn't linked to Salesforce.
+ */
+export const buildMeetingEntry = (
+  meeting: Meeting,
+  client: Client | undefined,
+  existing?: SalesforceOutboxEntry,
+  timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone
+): SalesforceOutboxEntry | null => {
+  if (!client?.salesforceId) return null;
+  const fields = meetingToEventFields(meeting, MEETING_SYNC_FIELDS, timeZone);
+  delete fields.EndDateTime; // The duration says when it ends
+  return newEntry({
+    recordType: 'meeting',
+    recordId: meeting.id,
+    label: meeting.title,
+    sobject: 'Event',
+    salesforceId: meeting.salesforceId,
+    fields: {
+      ...fields,
+      DurationInMinutes: minutesBetween(meeting.startTime, meeting.endTime),
+      ...(meeting.salesforceId ? {} : linkTo(client.salesforceId)),
+    },
+    snapshot: takeSnapshot(MEETING_SYNC_FIELDS, f => getMeetingValue(meeting, f)),
+  }, existing);
+};
+
+/**
+ * The Salesforce Task for a task. Null when its client isn't linked to Salesforce.
+ */
+export const buildTaskEntry = (
+  task: Task,
+  client: Client | undefined,
+  existing?: SalesforceOutboxEntry
+): SalesforceOutboxEntry | null => {
+  if (!client?.salesforceId) return null;
+  return newEntry({
+    recordType: 'task',
+    recordId: task.id,
+    label: task.title,
+    sobject: 'Task',
+    salesforceId: task.salesforceId,
+    fields: {
+      Subject: task.title,
+      Description: task.description || null,
+      ActivityDate: task.dueDate || null,
+      Priority: TASK_PRIORITIES[task.priority],
+      Status: TASK_STATUSES[task.status],
+      ...(task.salesforceId ? {} : linkTo(client.salesforceId)),
+    },
+  }, existing);
+};
+
+export const isDue = (entry: SalesforceOutboxEntry, now = new Date()) =>
+  !entry.failedAt && new Date(entry.nextAttemptAt).getTime() <= now.getTime();
+
+/**
+ * Whether Salesforce turned the record itself down, e.g. a validation rule or
+ * a deleted record, so sending it again won't help
+ */
+export const isRefusedBySalesforce = (err: unknown) => {
+  const status = (err as Partial<SalesforceRequestError>)?.status;
+  return typeof status === 'number' && status >= 400 && status < 500 && !RETRYABLE_STATUSES.includes(status);
+};
+
+/**
+ * An entry given up on, queued to be sent again straight away
+ */
+export const retryOutboxEntry = (entry: SalesforceOutboxEntry): SalesforceOutboxEntry => ({
+  ...entry,
+  attempts: 0,
+  failedAt: undefined,
+  nextAttemptAt: new Date().toISOString(),
+});
+
+/**
+ * Send the entries that are due, one by one. A failed entry stays in the
+ * outbox with its error and is tried again after a growing delay, unless
+ * Salesforce refused it or it has run out of attempts; then it is marked
+ * failed and waits for the user.
+ */
+export const processOutbox = async (
+  api: SalesforceApi,
+  entries: SalesforceOutboxEntry[],
+  now = new Date()
+): Promise<OutboxResult> => {
+  const result: OutboxResult = { delivered: [], failed: [] };
+  for (const entry of entries.filter(e => isDue(e, now))) {
+    try {
+      let salesforceId = entry.salesforceId;
+      if (salesforceId) await api.update(entry.sobject, salesforceId, entry.fields);
+      else salesforceId = await api.create(entry.sobject, entry.fields);
+      result.delivered.push({ entry, salesforceId });
+    } catch (err) {
+      const attempts = entry.attempts + 1;
+      const givenUp = isRefusedBySalesforce(err) || attempts >= MAX_OUTBOX_ATTEMPTS;
+      result.failed.push({
+        ...entry,
+        attempts,
+        lastError: err instanceof Error ? err.message : String(err),
+        nextAttemptAt: new Date(now.getTime() + retryDelayMinutes(attempts) * 60_000).toISOString(),
+        ...(givenUp && { failedAt: now.toISOString() }),
+      });
+    }
+  }
+  return result;
+};
@@ -0,0 +1,442 @@
+// Incremental sync with Salesforce: Contacts and Accounts to clients and
+// Events to meetings, changed since the last SystemModstamp seen, and local
+// changes pushed back when the sync direction allows. Each field is compared
+// with its value at the last sync, so only what a side changed is copied and
+// fields changed on both sides are settled by the conflict policy.
+
+import { Client, CustomField, Meeting, SalesforceConfig, SyncChange, SyncConflict, SyncConflictPolicy, SyncCursors, SyncRecordType, SyncSnapshot, SyncValue } from '@/types';
+import { findImportDuplicates, LIKELY_DUPLICATE_THRESHOLD } from '@/lib/duplicates';
+import { hasAddressChanged, locateClientOffline } from '@/lib/geocoding';
+import { SalesforceApi, SalesforceRecord } from './api';
+import {
+  ACCOUNT_ID_PREFIX,
+  EVENT_FIELDS,
+  applyRecordToClient,
+  clientToRecordFields,
+  eventToMeeting,
+  getFieldMappings,
+  isWritableField,
+  laterModstamp,
+  meetingToEventFields,
+  toAccountPath,
+  toContactPath,
+  toSoqlDateTime,
+} from './mapping';
+import {
+  MEETING_SYNC_FIELDS,
+  changedSinceSnapshot,
+  compareFields,
+  conflictKey,
+  getClientValue,
+  getMeetingValue,
+  setClientValue,
+  setMeetingValue,
+  takeSnapshot,
+} from './tracking';
+
+export interface SalesforceSyncInput {
+  config: SalesforceConfig;
+  clients: Client[];
+  meetings: Meeting[];
+  customFields: CustomField[];
+  pendingConflicts?: SyncConflict[]; // Conflicts still waiting for the user; their fields are left alone
+  timeZone?: string; // Zone to put event times in; defaults to the browser's
+}
+
+export interface SalesforceSyncResult {
+  clients: { create: Client[]; update: Client[] }; // Local changes still to be saved
+  meetings: { create: Meeting[]; update: Meeting[] };
+  changes: SyncChange[]; // Every field copied, in either direction
+  conflicts: SyncConflict[];
+  pushed: { created: number; updated: number }; // Records written to Salesforce
+  skippedEvents: number; // Events not related to a synced contact or account
+  cursors: SyncCursors; // New SystemModstamp watermarks, to store as syncCursors
+  errors: string[]; // Records that could not be pushed
+}
+
+type Sobject = 'Contact' | 'Account';
+
+const blankClient = (): Client => ({
+  id: crypto.randomUUID(),
+  name: '',
+  company: '',
+  email: '',
+  phone: '',
+  address: '',
+  city: '',
+  state: '',
+  zipCode: '',
+  latitude: 0,
+  longitude: 0,
+  notes: '',
+  notesHistory: [],
+  tags: [],
+  customFields: {},
+  createdAt: new Date().toISOString().split('T')[0],
+  totalMeetings: 0,
+});
+
+const unique = (fields: (string | undefined)[]) =>
+  Array.from(new Set(fields.filter((field): field is string => !!field)));
+
+// The Account half of a Contact mapping, e.g. Name for Account.Name
+const accountPartOfContact = (field: string) => {
+  const path = toContactPath(field);
+  return path.startsWith('Account.') ? path.substring('Account.'.length) : undefined;
+};
+
+const sobjectFor = (client: Client): Sobject =>
+  client.salesforceId?.startsWith(ACCOUNT_ID_PREFIX) ? 'Account' : 'Contact';
+
+const describeError = (err: unknown) => (err instanceof Error ? err.message : String(err));
+
+/**
+ * The policy a direction allows: an import never overwrites Salesforce and an
+ * export never overwrites local data
+ */
+export const effectiveConflictPolicy = (config: SalesforceConfig): SyncConflictPolicy => {
+  if (config.syncDirection === 'import') return 'remote';
+  if (config.syncDirection === 'export') return 'local';
+  return config.conflictPolicy ?? 'remote';
+};
+
+/**
+ * Run one sync. Salesforce is written to directly; local changes come back in
+ * the result for the caller to save, with every change and conflict for the
+ * sync history.
+ */
+export const runSalesforceSync = async (api: SalesforceApi, input: SalesforceSyncInput): Promise<SalesforceSyncResult> => {
+  const { config, customFields } = input;
+  const timeZone = input.timeZone ?? Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const mappings = getFieldMappings(config);
+  const fields = Object.keys(mappings);
+  const policy = effectiveConflictPolicy(config);
+  const canPush = config.syncDirection !== 'import';
+  const where = (sobject: keyof SyncCursors) => {
+    const cursor = config.syncCursors?.[sobject];
+    return cursor ? ` WHERE SystemModstamp > ${toSoqlDateTime(cursor)}` : '';
+  };
+  const pending = new Set((input.pendingConflicts || []).filter(c => c.resolution === 'pending').map(conflictKey));
+  const notPending = (recordType: SyncRecordType, recordId: string) => (field: string) =>
+    !pending.has(conflictKey({ recordType, recordId, field }));
+
+  const clients = new Map(input.clients.map(c => [c.id, c]));
+  const bySalesforceId = new Map(input.clients.filter(c => c.salesforceId).map(c => [c.salesforceId!, c.id]));
+  const created = new Set<string>();
+  const updated = new Set<string>();
+  const seen = new Set<string>(); // Records Salesforce sent this time
+  const clientPushes = new Map<string, string[]>(); // Client ID -> fields to write to Salesforce
+
+  const meetings = new Map(input.meetings.map(m => [m.id, m]));
+  const meetingsBySalesforceId = new Map(input.meetings.filter(m => m.salesforceId).map(m => [m.salesforceId!, m.id]));
+  const meetingsCreated = new Set<string>();
+  const meetingsUpdated = new Set<string>();
+  const meetingPushes = new Map<string, string[]>();
+
+  const changes: SyncChange[] = [];
+  const conflicts: SyncConflict[] = [];
+  const errors: string[] = [];
+  const pushed = { created: 0, updated: 0 };
+  const cursors: SyncCursors = { ...config.syncCursors };
+  let skippedEvents = 0;
+
+  const saveClient = (before: Client | undefined, after: Client) => {
+    if (before && JSON.stringify(before) === JSON.stringify(after)) return;
+    // Place moved clients at their ZIP code; they are geocoded after saving
+    const located = !before || hasAddressChanged(before, after) ? { ...after, ...locateClientOffline(after) } : after;
+    clients.set(located.id, located);
+    if (located.salesforceId) bySalesforceId.set(located.salesforceId, located.id);
+    if (before) updated.add(located.id);
+    else created.add(located.id);
+  };
+
+  const saveMeeting = (before: Meeting | undefined, after: Meeting) => {
+    if (before && JSON.stringify(before) === JSON.stringify(after)) return;
+    meetings.set(after.id, after);
+    if (after.salesforceId) meetingsBySalesforceId.set(after.salesforceId, after.id);
+    if (before) meetingsUpdated.add(after.id);
+    else meetingsCreated.add(after.id);
+  };
+
+  const track = (sobject: keyof SyncCursors, records: SalesforceRecord[]) => {
+    records.forEach(record => (cursors[sobject] = laterModstamp(cursors[sobject], record.SystemModstamp)));
+    return records;
+  };
+
+  // Edited since the last sync, for records synced before fields were tracked
+  const changedSinceLastSync = (client: Client) => !config.lastSync || !client.updatedAt || client.updatedAt > config.lastSync;
+
+  /**
+   * Settle the fields of one record that differ between the two sides.
+   * Returns the record with Salesforce's values copied in, and the fields to
+   * push; the snapshot is updated for every field both sides now agree on.
+   */
+  const reconcile = <T extends Client | Meeting>(options: {
+    recordType: SyncRecordType;
+    local: T;
+    remote: T;
+    salesforceId: string;
+    fields: readonly string[];
+    read: (record: T, field: string) => SyncValue;
+    write: (record: T, field: string, value: SyncValue) => T;
+    writable: (field: string) => boolean;
+    changedWithoutSnapshot: boolean;
+    label: string;
+  }) => {
+    const { recordType, local, remote, salesforceId, read, write, writable, label } = options;
+    const fields = options.fields.filter(notPending(recordType, local.id));
+    const comparison = compareFields(fields, f => read(local, f), f => read(remote, f), local.syncSnapshot, options.changedWithoutSnapshot);
+    let next = local;
+    const push: string[] = [];
+    const undecided: string[] = [];
+
+    const takeRemote = (field: string) => {
+      changes.push({
+        recordType, recordId: local.id, salesforceId, label, action: 'updated', direction: 'import',
+        field, from: read(local, field), to: read(remote, field),
+      });
+      next = write(next, field, read(remote, field));
+    };
+
+    comparison.remote.forEach(takeRemote);
+    // A change here that can't be written to Salesforce stays local
+    comparison.local.filter(f => canPush && writable(f)).forEach(f => push.push(f));
+    comparison.conflicts.forEach(field => {
+      const resolution = !writable(field) ? 'remote' : policy === 'ask' ? 'pending' : policy;
+      conflicts.push({
+        recordType, recordId: local.id, salesforceId, label, field,
+        base: local.syncSnapshot?.[field], local: read(local, field), remote: read(remote, field), resolution,
+      });
+      if (resolution === 'remote') takeRemote(field);
+      else if (resolution === 'local') push.push(field);
+      else undecided.push(field);
+    });
+
+    // Fields the sides now agree on move the snapshot; pushed fields move it once Salesforce has them
+    const unsettled = new Set([...push, ...comparison.local, ...undecided]);
+    const snapshot: SyncSnapshot = { ...local.syncSnapshot };
+    fields.filter(f => !unsettled.has(f)).forEach(field => (snapshot[field] = read(next, field)));
+    return { record: { ...next, syncSnapshot: snapshot } as T, push };
+  };
+
+  const importClient = (existing: Client | undefined, record: SalesforceRecord, pathFor: (field: string) => string | undefined, salesforceId = record.Id) => {
+    seen.add(salesforceId);
+    const recordFields = fields.filter(f => pathFor(mappings[f]));
+    const remote = { ...applyRecordToClient(existing ?? blankClient(), record, mappings, customFields, pathFor), salesforceId };
+
+    if (!existing) {
+      const client = { ...remote, syncSnapshot: takeSnapshot(recordFields, f => getClientValue(remote, f)) };
+      changes.push({ recordType: 'client', recordId: client.id, salesforceId, label: client.name, action: 'created', direction: 'import' });
+      saveClient(undefined, client);
+      return;
+    }
+
+    const sobject = sobjectFor(remote);
+    const { record: client, push } = reconcile({
+      recordType: 'client',
+      local: { ...existing, salesforceId },
+      remote,
+      salesforceId,
+      fields: recordFields,
+      read: getClientValue,
+      write: setClientValue,
+      writable: f => isWritableField(f, mappings[f], sobject),
+      changedWithoutSnapshot: changedSinceLastSync(existing),
+      label: existing.name,
+    });
+    saveClient(existing, client);
+    if (push.length > 0) clientPushes.set(client.id, unique([...(clientPushes.get(client.id) || []), ...push]));
+  };
+
+  if (config.syncDirection !== 'export') {
+    const contacts = track('Contact', await api.query(
+      `SELECT ${unique(['Id', 'SystemModstamp', ...Object.values(mappings).map(toContactPath)]).join(', ')} ` +
+      `FROM Contact${where('Contact')} ORDER BY SystemModstamp`
+    ));
+
+    // Contacts new to the app are linked to a client that is very likely the same person
+    const unlinked = input.clients.filter(c => !c.salesforceId);
+    const newContacts = contacts.filter(r => !bySalesforceId.has(r.Id));
+    const drafts = newContacts.map(r => applyRecordToClient(blankClient(), r, mappings, customFields, toContactPath));
+    const matches = new Map(
+      findImportDuplicates(drafts, unlinked, LIKELY_DUPLICATE_THRESHOLD).map(d => [newContacts[d.index].Id, d.client])
+    );
+    const linked = new Set<string>();
+
+    contacts.forEach(record => {
+      let existing = clients.get(bySalesforceId.get(record.Id) || '');
+      const match = matches.get(record.Id);
+      if (!existing && match && !linked.has(match.id)) {
+        existing = clients.get(match.id);
+        linked.add(match.id);
+      }
+      importClient(existing, record, toContactPath);
+    });
+
+    const accountFields = unique(Object.values(mappings).map(toAccountPath));
+    const accounts = track('Account', await api.query(
+      `SELECT ${unique(['Id', 'SystemModstamp', ...accountFields]).join(', ')}, (SELECT Id FROM Contacts) ` +
+      `FROM Account${where('Account')} ORDER BY SystemModstamp`
+    ));
+    accounts.forEach(record => {
+      const contactIds = ((record.Contacts as { records?: SalesforceRecord[] } | null)?.records || []).map(c => c.Id);
+      if (contactIds.length === 0) {
+        // A company without contacts is a client of its own
+        importClient(clients.get(bySalesforceId.get(record.Id) || ''), record, toAccountPath);
+        return;
+      }
+      // Otherwise the account's fields go to its contacts' clients
+      contactIds.forEach(contactId => {
+        const existing = clients.get(bySalesforceId.get(contactId) || '');
+        if (existing) importClient(existing, record, accountPartOfContact, contactId);
+      });
+    });
+
+    const events = track('Event', await api.query(`SELECT ${EVENT_FIELDS.join(', ')} FROM Event${where('Event')} ORDER BY SystemModstamp`));
+    events.forEach(event => {
+      const clientId = bySalesforceId.get(String(event.WhoId || '')) ?? bySalesforceId.get(String(event.WhatId || ''));
+      const existing = meetings.get(meetingsBySalesforceId.get(event.Id) || '');
+      const remote = clientId ? eventToMeeting(event, clientId, existing, timeZone) : undefined;
+      if (!remote?.date) {
+        skippedEvents++;
+        return;
+      }
+      seen.add(event.Id);
+
+      if (!existing) {
+        const meeting = { ...remote, syncSnapshot: takeSnapshot(MEETING_SYNC_FIELDS, f => getMeetingValue(remote, f)) };
+        changes.push({ recordType: 'meeting', recordId: meeting.id, salesforceId: event.Id, label: meeting.title, action: 'created', direction: 'import' });
+        saveMeeting(undefined, meeting);
+        return;
+      }
+
+      const { record: meeting, push } = reconcile({
+        recordType: 'meeting',
+        local: { ...existing, clientId: remote.clientId },
+        remote,
+        salesforceId: event.Id,
+        fields: MEETING_SYNC_FIELDS,
+        read: getMeetingValue,
+        write: setMeetingValue,
+        writable: () => true,
+        changedWithoutSnapshot: false,
+        label: existing.title,
+      });
+      saveMeeting(existing, meeting);
+      if (push.length > 0) meetingPushes.set(meeting.id, push);
+    });
+  }
+
+  if (canPush) {
+    // Local changes to records Salesforce didn't send
+    clients.forEach(client => {
+      if (client.salesforceId && seen.has(client.salesforceId)) return;
+      const writable = fields.filter(f => isWritableField(f, mappings[f], sobjectFor(client)));
+      let push: string[];
+      if (!client.salesforceId) push = writable;
+      else if (client.syncSnapshot) push = changedSinceSnapshot(writable, f => getClientValue(client, f), client.syncSnapshot);
+      else push = changedSinceLastSync(client) ? writable : [];
+      push = push.filter(notPending('client', client.id));
+      if (push.length > 0) clientPushes.set(client.id, push);
+    });
+    meetings.forEach(meeting => {
+      if (!meeting.salesforceId || !meeting.syncSnapshot || seen.has(meeting.salesforceId)) return;
+      const push = changedSinceSnapshot(MEETING_SYNC_FIELDS, f => getMeetingValue(meeting, f), meeting.syncSnapshot)
+        .filter(notPending('meeting', meeting.id));
+      if (push.length > 0) meetingPushes.set(meeting.id, push);
+    });
+
+    for (const [id, push] of clientPushes) {
+      const client = clients.get(id)!;
+      const sobject = sobjectFor(client);
+      try {
+        const recordFields = clientToRecordFields(client, Object.fromEntries(push.map(f => [f, mappings[f]])), sobject);
+        let salesforceId = client.salesforceId;
+        if (salesforceId) {
+          await api.update(sobject, salesforceId, recordFields);
+          pushed.updated++;
+        } else {
+          salesforceId = await api.create(sobject, recordFields);
+          pushed.created++;
+        }
+        const snapshot = { ...client.syncSnapshot, ...takeSnapshot(push, f => getClientValue(client, f)) };
+        if (client.salesforceId) {
+          push.forEach(field => changes.push({
+            recordType: 'client', recordId: id, salesforceId, label: client.name, action: 'updated', direction: 'export',
+            field, from: client.syncSnapshot?.[field] ?? null, to: getClientValue(client, field),
+          }));
+        } else {
+          changes.push({ recordType: 'client', recordId: id, salesforceId, label: client.name, action: 'created', direction: 'export' });
+        }
+        saveClient(clients.get(id), { ...client, salesforceId, syncSnapshot: snapshot });
+      } catch (err) {
+        errors.push(`${client.name}: ${describeError(err)}`);
+      }
+    }
+
+    for (const [id, push] of meetingPushes) {
+      const meeting = meetings.get(id)!;
+      try {
+        await api.update('Event', meeting.salesforceId!, meetingToEventFields(meeting, push, timeZone));
+        pushed.updated++;
+        push.forEach(field => changes.push({
+          recordType: 'meeting', recordId: id, salesforceId: meeting.salesforceId, label: meeting.title, action: 'updated',
+          direction: 'export', field, from: meeting.syncSnapshot?.[field] ?? null, to: getMeetingValue(meeting, field),
+        }));
+        saveMeeting(meeting, { ...meeting, syncSnapshot: { ...meeting.syncSnapshot, ...takeSnapshot(push, f => getMeetingValue(meeting, f)) } });
+      } catch (err) {
+        errors.push(`${meeting.title}: ${describeError(err)}`);
+      }
+    }
+  }
+
+  return {
+    clients: {
+      create: Array.from(created).map(id => clients.get(id)!),
+      update: Array.from(updated).filter(id => !created.has(id)).map(id => clients.get(id)!),
+    },
+    meetings: {
+      create: Array.from(meetingsCreated).map(id => meetings.get(id)!),
+      update: Array.from(meetingsUpdated).filter(id => !meetingsCreated.has(id)).map(id => meetings.get(id)!),
+    },
+    changes,
+    conflicts,
+    pushed,
+    skippedEvents,
+    cursors,
+    errors,
+  };
+};
+
+/**
+ * Settle a conflict that was left to the user. Keeping the local value writes
+ * it to Salesforce; taking Salesforce's copies it here. Returns the record to
+ * save, with the field in its snapshot.
+ */
+export const resolveSyncConflict = async (
+  api: SalesforceApi,
+  conflict: SyncConflict,
+  choice: 'local' | 'remote',
+  context: { config: SalesforceConfig; clients: Client[]; meetings: Meeting[]; timeZone?: string }
+): Promise<Client | Meeting> => {
+  const { field } = conflict;
+  if (conflict.recordType === 'client') {
+    const client = context.clients.find(c => c.id === conflict.recordId);
+    if (!client) throw new Error('The client of this conflict no longer exists');
+    const value = choice === 'local' ? getClientValue(client, field) : conflict.remote;
+    if (choice === 'local') {
+      const sobject = sobjectFor(client);
+      await api.update(sobject, conflict.salesforceId, clientToRecordFields(client, { [field]: getFieldMappings(context.config)[field] }, sobject));
+    }
+    return { ...setClientValue(client, field, value), syncSnapshot: { ...client.syncSnapshot, [field]: value } };
+  }
+
+  const meeting = context.meetings.find(m => m.id === conflict.recordId);
+  if (!meeting) throw new Error('The meeting of this conflict no longer exists');
+  const value = choice === 'local' ? getMeetingValue(meeting, field) : conflict.remote;
+  if (choice === 'local') {
+    const timeZone = context.timeZone ?? Intl.DateTimeFormat().resolvedOptions().timeZone;
+    await api.update('Event', conflict.salesforceId, meetingToEventFields(meeting, [field], timeZone));
+  }
+  return { ...setMeetingValue(meeting, field, value), syncSnapshot: { ...meeting.syncSnapshot, [field]: value } };
+};
@@ -0,0 +1,85 @@
+// Per-field change tracking: what each side changed since the last sync,
+// compared with the snapshot of the values both sides agreed on then
+
+import { Client, Meeting, SyncConflict, SyncSnapshot, SyncValue } from '@/types';
+
+// Meeting fields an Event carries
+export const MEETING_SYNC_FIELDS = ['title', 'date', 'startTime', 'endTime', 'notes', 'outcome', 'location'] as const;
+export type MeetingSyncField = typeof MEETING_SYNC_FIELDS[number];
+
+const CLIENT_TEXT_FIELDS = ['name', 'company', 'email', 'phone', 'address', 'city', 'state', 'zipCode', 'notes'];
+
+export interface FieldComparison {
+  remote: string[]; // Changed only in Salesforce
+  local: string[]; // Changed only here
+  conflicts: string[]; // Changed on both sides, to different values
+}
+
+const toSyncValue = (value: unknown): SyncValue =>
+  typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean' ? value : null;
+
+/**
+ * Empty text and a missing value are the same; numbers compare by value
+ */
+export const sameValue = (a: SyncValue | undefined, b: SyncValue | undefined) =>
+  String(a ?? '').trim() === String(b ?? '').trim();
+
+export const getClientValue = (client: Client, field: string): SyncValue =>
+  toSyncValue(CLIENT_TEXT_FIELDS.includes(field) ? client[field as keyof Client] : client.customFields[field]);
+
+export const setClientValue = (client: Client, field: string, value: SyncValue): Client => {
+  if (CLIENT_TEXT_FIELDS.includes(field)) return { ...client, [field]: value === null ? '' : String(value) };
+  const customFields = { ...client.customFields };
+  if (value === null || value === '') delete customFields[field];
+  else customFields[field] = value;
+  return { ...client, customFields };
+};
+
+export const getMeetingValue = (meeting: Meeting, field: string): SyncValue =>
+  toSyncValue(meeting[field as MeetingSyncField]);
+
+export const setMeetingValue = (meeting: Meeting, field: string, value: SyncValue): Meeting => {
+  const text = value === null ? '' : String(value);
+  return { ...meeting, [field]: field === 'location' || field === 'outcome' ? text || undefined : text };
+};
+
+export const takeSnapshot = (fields: readonly string[], read: (field: string) => SyncValue): SyncSnapshot =>
+  Object.fromEntries(fields.map(field => [field, read(field)]));
+
+/**
+ * Sort the fields whose two sides differ by who changed them. A field missing
+ * from the snapshot counts as changed here only when `changedWithoutSnapshot`
+ * says the record was edited since the last sync.
+ */
+export const compareFields = (
+  fields: readonly string[],
+  local: (field: string) => SyncValue,
+  remote: (field: string) => SyncValue,
+  snapshot: SyncSnapshot | undefined,
+  changedWithoutSnapshot: boolean
+): FieldComparison => {
+  const result: FieldComparison = { remote: [], local: [], conflicts: [] };
+  fields.forEach(field => {
+    const [l, r] = [local(field), remote(field)];
+    if (sameValue(l, r)) return;
+    const hasBase = !!snapshot && field in snapshot;
+    const localChanged = hasBase ? !sameValue(l, snapshot![field]) : changedWithoutSnapshot;
+    const remoteChanged = hasBase ? !sameValue(r, snapshot![field]) : true;
+    if (remoteChanged && !localChanged) result.remote.push(field);
+    else if (localChanged && !remoteChanged) result.local.push(field);
+    else result.conflicts.push(field);
+  });
+  return result;
+};
+
+/**
+ * Fields that changed here since the snapshot
+ */
+export const changedSinceSnapshot = (
+  fields: readonly string[],
+  local: (field: string) => SyncValue,
+  snapshot: SyncSnapshot
+) => fields.filter(field => field in snapshot && !sameValue(local(field), snapshot[field]));
+
+export const conflictKey = (conflict: Pick<SyncConflict, 'recordType' | 'recordId' | 'field'>) =>
+  `${conflict.recordType}:${conflict.recordId}:${conflict.field}`;
@@ -0,0 +1,93 @@
+// Groups client locations into compact territories of similar size
+
+import { LatLng, haversineDistance } from '@/lib/routing';
+
+export interface ClusterOptions {
+  balanced?: boolean; // Cap every cluster at ceil(n / k) points
+  maxIterations?: number;
+}
+
+const mean = (points: LatLng[]): LatLng => ({
+  lat: points.reduce((sum, p) => sum + p.lat, 0) / points.length,
+  lon: points.reduce((sum, p) => sum + p.lon, 0) / points.length,
+});
+
+/**
+ * Farthest-first seeding: start near the middle, then keep adding the point
+ * farthest from every center chosen so far. Deterministic, so the same
+ * clients always give the same territories.
+ */
+const seedCenters = (points: LatLng[], k: number): LatLng[] => {
+  const middle = mean(points);
+  const first = points.reduce((best, p) =>
+    haversineDistance(p, middle) < haversineDistance(best, middle) ? p : best
+  );
+  const centers = [first];
+  while (centers.length < k) {
+    let farthest = points[0];
+    let farthestDistance = -1;
+    points.forEach(p => {
+      const distance = Math.min(...centers.map(c => haversineDistance(p, c)));
+      if (distance > farthestDistance) {
+        farthest = p;
+        farthestDistance = distance;
+      }
+    });
+    centers.push(farthest);
+  }
+  return centers;
+};
+
+/**
+ * Assign points to their nearest center. When balanced, each center takes at
+ * most `capacity` points; points with the most to lose from missing their
+ * nearest center choose first.
+ */
+const assignPoints = (points: LatLng[], centers: LatLng[], capacity: number): number[] => {
+  const distances = points.map(p => centers.map(c => haversineDistance(p, c)));
+  const ranked = distances.map(row => row.map((_, i) => i).sort((a, b) => row[a] - row[b]));
+  const regret = (i: number) => ranked[i].length > 1
+    ? distances[i][ranked[i][1]] - distances[i][ranked[i][0]]
+    : 0;
+
+  const order = points.map((_, i) => i).sort((a, b) => regret(b) - regret(a));
+  const sizes = centers.map(() => 0);
+  const assignment = new Array<number>(points.length);
+  order.forEach(i => {
+    const cluster = ranked[i].find(c => sizes[c] < capacity) ?? ranked[i][0];
+    assignment[i] = cluster;
+    sizes[cluster]++;
+  });
+  return assignment;
+};
+
+/**
+ * k-means over latitude/longitude. Returns the cluster index of each point;
+ * with `balanced` (the default) no cluster holds more than ceil(n / k) points,
+ * which caps the largest cluster but can leave the last one smaller, e.g.
+ * 3/3/3/1 for 10 points in 4 clusters.
+ */
+export const clusterLocations = (
+  points: LatLng[],
+  k: number,
+  { balanced = true, maxIterations = 50 }: ClusterOptions = {}
+): number[] => {
+  if (points.length === 0) return [];
+  const clusterCount = Math.max(1, Math.min(k, points.length));
+  const capacity = balanced ? Math.ceil(points.length / clusterCount) : points.length;
+
+  let centers = seedCenters(points, clusterCount);
+  let assignment = assignPoints(points, centers, capacity);
+
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    centers = centers.map((center, c) => {
+      const members = points.filter((_, i) => assignment[i] === c);
+      return members.length > 0 ? mean(members) : center;
+    });
+    const next = assignPoints(points, centers, capacity);
+    if (next.every((cluster, i) => cluster === assignment[i])) break;
+    assignment = next;
+  }
+
+  return assignment;
+};
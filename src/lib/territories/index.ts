@@ -0,0 +1,3 @@
+export { clusterLocations } from './cluster';
+export type { ClusterOptions } from './cluster';
+export { buildTerritories, getClientTerritory, TERRITORY_COLORS } from './territories';
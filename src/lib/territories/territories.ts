@@ -0,0 +1,65 @@
+// Builds named territories from client clusters
+
+import { Client, Territory } from '@/types';
+import { clusterLocations, ClusterOptions } from './cluster';
+
+export const TERRITORY_COLORS = [
+  '#3B82F6',
+  '#22C55E',
+  '#F59E0B',
+  '#EF4444',
+  '#8B5CF6',
+  '#EC4899',
+  '#14B8A6',
+  '#F97316',
+  '#6366F1',
+  '#84CC16',
+];
+
+/**
+ * Name a group of clients after the city most of them are in, e.g. "Oakland"
+ */
+const nameFromCities = (clients: Client[]): string => {
+  const counts = new Map<string, number>();
+  clients.forEach(c => {
+    if (c.city) counts.set(c.city, (counts.get(c.city) ?? 0) + 1);
+  });
+  const [city] = [...counts.entries()].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))[0] ?? [];
+  return city ?? 'Territory';
+};
+
+/**
+ * Split the client base into `count` territories of balanced size. Clients
+ * without a known location are left out. Territories are named after their
+ * main city, numbered when two share a name.
+ */
+export const buildTerritories = (clients: Client[], count: number, options?: ClusterOptions): Territory[] => {
+  const located = clients.filter(c => c.geocodeConfidence !== 'none');
+  const assignment = clusterLocations(located.map(c => ({ lat: c.latitude, lon: c.longitude })), count, options);
+
+  const groups = new Map<number, Client[]>();
+  located.forEach((client, i) => {
+    groups.set(assignment[i], [...(groups.get(assignment[i]) ?? []), client]);
+  });
+
+  const usedNames = new Map<string, number>();
+  return [...groups.entries()]
+    .sort((a, b) => a[0] - b[0])
+    .map(([, members], i) => {
+      const base = nameFromCities(members);
+      const seen = (usedNames.get(base) ?? 0) + 1;
+      usedNames.set(base, seen);
+      return {
+        id: crypto.randomUUID(),
+        name: seen > 1 ? `${base} ${seen}` : base,
+        color: TERRITORY_COLORS[i % TERRITORY_COLORS.length],
+        clientIds: members.map(c => c.id),
+      };
+    });
+};
+
+/**
+ * The territory a client belongs to, if any
+ */
+export const getClientTerritory = (territories: Territory[], clientId: string): Territory | undefined =>
+  territories.find(t => t.clientIds.includes(clientId));
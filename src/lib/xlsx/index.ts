@@ -0,0 +1,5 @@
+export * from './types';
+export { readWorkbook, serialToDate, cellToString, sheetToRecords } from './read';
+export { writeWorkbook, dateToSerial } from './write';
+export { readZip, createZip } from './zip';
+export type { ZipEntry } from './zip';
@@ -0,0 +1,211 @@
+// Reading .xlsx workbooks (Office Open XML spreadsheets) into typed rows
+
+import { readZip } from './zip';
+import { stripPrefixes, findElements, parseAttributes, readText, decodeXml } from './xml';
+import { CellValue, Workbook, Worksheet } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Day 0 of Excel's 1900 date system; starting here absorbs its fictional 29 Feb 1900
+const EPOCH_1900 = Date.UTC(1899, 11, 30);
+const EPOCH_1904 = Date.UTC(1904, 0, 1);
+
+// Built-in number formats that show dates or times
+const BUILTIN_DATE_FORMATS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 27, 28, 29, 30, 31, 32, 33, 34, 35, 36, 45, 46, 47, 50, 51, 52, 53, 54, 55, 56, 57, 58]);
+
+// A custom format shows a date if it uses date or time codes outside quotes, brackets and escapes
+const isDateFormatCode = (code: string) => {
+  const bare = code
+    .replace(/"[^"]*"/g, '')
+    .replace(/\[[^\]]*\]/g, '')
+    .replace(/\\./g, '')
+    .replace(/_.|\*./g, '');
+  return /[dmyhs]/i.test(bare) && !/^general$/i.test(bare.trim());
+};
+
+/**
+ * Convert an Excel date serial number to a UTC Date
+ */
+export const serialToDate = (serial: number, date1904 = false) =>
+  new Date((date1904 ? EPOCH_1904 : EPOCH_1900) + Math.round(serial * DAY_MS));
+
+// "AB12" -> column index 27
+const columnIndex = (ref: string) => {
+  const letters = ref.match(/^[A-Z]+/i)?.[0].toUpperCase() || '';
+  return letters.split('').reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+};
+
+const readPart = (files: Map<string, Uint8Array<ArrayBuffer>>, path: string) => {
+  const data = files.get(path);
+  return data ? stripPrefixes(new TextDecoder().decode(data)) : undefined;
+};
+
+// Resolve a relationship target against the folder of the part that refers to it
+const resolveTarget = (base: string, target: string) => {
+  if (target.startsWith('/')) return target.slice(1);
+  const parts = base.split('/').slice(0, -1);
+  target.split('/').forEach(segment => {
+    if (segment === '..') parts.pop();
+    else if (segment !== '.') parts.push(segment);
+  });
+  return parts.join('/');
+};
+
+// Which cell styles (by index) display a date
+const readDateStyles = (stylesXml: string | undefined) => {
+  const dateStyles = new Set<number>();
+  if (!stylesXml) return dateStyles;
+  const customDateFormats = new Set(
+    findElements(stylesXml, 'numFmt')
+      .filter(f => isDateFormatCode(f.attributes.formatCode || ''))
+      .map(f => Number(f.attributes.numFmtId))
+  );
+  const cellXfs = findElements(stylesXml, 'cellXfs')[0];
+  if (!cellXfs) return dateStyles;
+  findElements(cellXfs.inner, 'xf').forEach((xf, index) => {
+    const formatId = Number(xf.attributes.numFmtId || 0);
+    if (BUILTIN_DATE_FORMATS.has(formatId) || customDateFormats.has(formatId)) dateStyles.add(index);
+  });
+  return dateStyles;
+};
+
+interface SheetContext {
+  sharedStrings: string[];
+  dateStyles: Set<number>;
+  date1904: boolean;
+}
+
+const readCell = (attributes: Record<string, string>, inner: string, context: SheetContext): CellValue => {
+  const type = attributes.t || 'n';
+  if (type === 'inlineStr') return readText(findElements(inner, 'is')[0]?.inner || '');
+
+  const raw = inner.match(/<v(?:\s[^>]*)?>([\s\S]*?)<\/v>/)?.[1];
+  if (raw === undefined) return null;
+  const value = decodeXml(raw);
+
+  switch (type) {
+    case 's': return context.sharedStrings[Number(value)] ?? null;
+    case 'str': return value;
+    case 'b': return value === '1' || value.toLowerCase() === 'true';
+    case 'e': return null; // #N/A, #REF! and other errors
+    case 'd': {
+      const date = new Date(value.endsWith('Z') || value.length <= 10 ? value : `${value}Z`);
+      return isNaN(date.getTime()) ? value : date;
+    }
+    default: {
+      const number = Number(value);
+      if (isNaN(number)) return value;
+      if (!context.dateStyles.has(Number(attributes.s || 0))) return number;
+      // A date format on a value under one day is a time of day
+      if (number >= 0 && number < 1) return serialToDate(number).toISOString().substring(11, 16);
+      return serialToDate(number, context.date1904);
+    }
+  }
+};
+
+const readSheet = (name: string, xml: string, context: SheetContext): Worksheet => {
+  const rows: CellValue[][] = [];
+  const sheetData = findElements(xml, 'sheetData')[0]?.inner || '';
+  let nextRow = 0;
+
+  findElements(sheetData, 'row').forEach(row => {
+    const rowIndex = row.attributes.r ? Number(row.attributes.r) - 1 : nextRow;
+    nextRow = rowIndex + 1;
+    const cells: CellValue[] = [];
+    let nextColumn = 0;
+
+    const cellPattern = /<c(\s[^>]*?)?(?:\/>|>([\s\S]*?)<\/c>)/g;
+    let match: RegExpExecArray | null;
+    while ((match = cellPattern.exec(row.inner))) {
+      const attributes = parseAttributes(match[1] || '');
+      const column = attributes.r ? columnIndex(attributes.r) : nextColumn;
+      nextColumn = column + 1;
+      const value = readCell(attributes, match[2] || '', context);
+      if (value === null || value === '') continue;
+      while (cells.length < column) cells.push(null);
+      cells[column] = value;
+    }
+
+    if (cells.length === 0) return;
+    while (rows.length < rowIndex) rows.push([]);
+    rows[rowIndex] = cells;
+  });
+
+  return { name, rows };
+};
+
+/**
+ * Read every worksheet of an .xlsx file. Cells keep their types: numbers,
+ * booleans, dates (for date-formatted numbers) and text; formulas give their
+ * last calculated value. Chart sheets and legacy .xls files are not supported.
+ */
+export const readWorkbook = async (buffer: ArrayBuffer): Promise<Workbook> => {
+  let files: Map<string, Uint8Array<ArrayBuffer>>;
+  try {
+    files = await readZip(buffer);
+  } catch {
+    throw new Error('Not an .xlsx file. Save the workbook as Excel Workbook (.xlsx) and try again.');
+  }
+
+  const workbookXml = readPart(files, 'xl/workbook.xml');
+  if (!workbookXml) throw new Error('Not an .xlsx file: the workbook part is missing');
+
+  const relsXml = readPart(files, 'xl/_rels/workbook.xml.rels') || '';
+  const targets = new Map(
+    findElements(relsXml, 'Relationship').map(r => [r.attributes.Id, resolveTarget('xl/workbook.xml', r.attributes.Target || '')])
+  );
+
+  const workbookPr = findElements(workbookXml, 'workbookPr')[0];
+  const context: SheetContext = {
+    sharedStrings: findElements(readPart(files, 'xl/sharedStrings.xml') || '', 'si').map(si => readText(si.inner)),
+    dateStyles: readDateStyles(readPart(files, 'xl/styles.xml')),
+    date1904: ['1', 'true'].includes(workbookPr?.attributes.date1904 || ''),
+  };
+
+  const sheets: Worksheet[] = [];
+  findElements(workbookXml, 'sheet').forEach(sheet => {
+    const target = targets.get(sheet.attributes['r:id'] || sheet.attributes.id);
+    const xml = target && readPart(files, target);
+    if (xml && xml.includes('<sheetData')) sheets.push(readSheet(sheet.attributes.name || `Sheet${sheets.length + 1}`, xml, context));
+  });
+  return { sheets };
+};
+
+/**
+ * A cell as text: dates as YYYY-MM-DD (with the time when there is one), booleans as TRUE/FALSE
+ */
+export const cellToString = (value: CellValue): string => {
+  if (value === null) return '';
+  if (value instanceof Date) {
+    const iso = value.toISOString();
+    return iso.substring(11, 16) === '00:00' ? iso.substring(0, 10) : `${iso.substring(0, 10)} ${iso.substring(11, 16)}`;
+  }
+  if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+  return String(value).trim();
+};
+
+/**
+ * Rows as records keyed by the sheet's header row (its first non-empty row).
+ * Blank rows are skipped; headers without a name are called Column N.
+ * rowNumbers gives each record's row number in the sheet.
+ */
+export const sheetToRecords = (sheet: Worksheet): { headers: string[]; records: Record<string, CellValue>[]; rowNumbers: number[] } => {
+  const headerIndex = sheet.rows.findIndex(row => row.some(cell => cell !== null));
+  if (headerIndex < 0) return { headers: [], records: [], rowNumbers: [] };
+
+  const headerRow = sheet.rows[headerIndex];
+  const width = Math.max(...sheet.rows.map(row => row.length));
+  const headers: string[] = [];
+  for (let i = 0; i < width; i++) {
+    const name = cellToString(headerRow[i] ?? null) || `Column ${i + 1}`;
+    headers.push(headers.includes(name) ? `${name} (${i + 1})` : name);
+  }
+
+  const records: Record<string, CellValue>[] = [];
+  const rowNumbers: number[] = [];
+  sheet.rows.forEach((row, index) => {
+    if (index <= headerIndex || !row || !row.some(cell => cell !== null)) return;
+    records.push(Object.fromEntries(headers.map((header, i) => [header, row[i] ?? null])));
+    rowNumbers.push(index + 1);
+  });
+  return { headers, records, rowNumbers };
+};
@@ -0,0 +1,25 @@
+// Spreadsheet workbook types
+
+// A typed cell; dates are UTC midnight (plus the time of day, if any)
+export type CellValue = string | number | boolean | Date | null;
+
+export interface Worksheet {
+  name: string;
+  rows: CellValue[][]; // Row-major, with gaps filled with null
+}
+
+export interface Workbook {
+  sheets: Worksheet[];
+}
+
+export interface SheetColumn {
+  header: string;
+  width?: number; // In characters
+}
+
+// A sheet to write: a header row followed by the rows
+export interface SheetData {
+  name: string;
+  columns: SheetColumn[];
+  rows: CellValue[][];
+}
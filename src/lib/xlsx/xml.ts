@@ -0,0 +1,54 @@
+// Just enough XML handling for SpreadsheetML parts, which are flat and predictable
+
+const ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+
+export const decodeXml = (value: string) =>
+  value.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const point = code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return isNaN(point) ? entity : String.fromCodePoint(point);
+    }
+    return ENTITIES[code] ?? entity;
+  });
+
+export const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Control characters other than tab and newlines are not allowed in XML 1.0
+    .replace(/[^\t\n\r\u0020-\uFFFF]/g, '');
+
+/**
+ * Drop namespace prefixes from element names (x:row becomes row), as some
+ * writers prefix every SpreadsheetML element
+ */
+export const stripPrefixes = (xml: string) => xml.replace(/<(\/?)[A-Za-z_][\w.-]*:(?=[A-Za-z_])/g, '<$1');
+
+export const parseAttributes = (tag: string): Record<string, string> => {
+  const attributes: Record<string, string> = {};
+  const pattern = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(tag))) {
+    attributes[match[1]] = decodeXml(match[2] ?? match[3]);
+  }
+  return attributes;
+};
+
+/**
+ * Every occurrence of an element: its attributes and inner XML (empty for self-closing tags)
+ */
+export const findElements = (xml: string, name: string): { attributes: Record<string, string>; inner: string }[] => {
+  const pattern = new RegExp(`<${name}(\\s[^>]*?)?(?:/>|>([\\s\\S]*?)</${name}>)`, 'g');
+  const elements: { attributes: Record<string, string>; inner: string }[] = [];
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(xml))) {
+    elements.push({ attributes: parseAttributes(match[1] || ''), inner: match[2] || '' });
+  }
+  return elements;
+};
+
+// Text of all <t> runs, as in shared strings and inline strings; phonetic hints are skipped
+export const readText = (xml: string) =>
+  findElements(xml.replace(/<rPh\b[\s\S]*?<\/rPh>/g, ''), 't').map(t => decodeXml(t.inner)).join('');
@@ -17,6 +17,20 @@ export interface ClientNote {
   createdBy?: string; // User ID who created the note
 }
 
+export interface TimeWindow {
+  start: string; // HH:MM
+  end: string; // HH:MM
+}
+
+export type Weekday = 'sun' | 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat';
+
+// Days missing from the map are treated as closed
+export type OpeningHours = Partial<Record<Weekday, TimeWindow>>;
+
+// How closely a client's coordinates match its address: street address (high),
+// street (medium), ZIP code or city (low), or not located at all (none)
+export type GeocodeConfidence = 'high' | 'medium' | 'low' | 'none';
+
 export interface Client {
   id: string;
   name: string;
@@ -36,7 +50,12 @@ export interface Client {
   createdAt: string;
   lastVisit?: string;
   totalMeetings: number;
-  salesforceId?: string;
+  salesforceId?: string; // Contact, or Account for a company without contacts
+  openingHours?: OpeningHours; // When set, flexible meetings are only scheduled inside these hours
+  geocodeConfidence?: GeocodeConfidence;
+  locationVerified?: boolean; // False when the location is approximate or missing and should be checked
+  updatedAt?: string; // ISO timestamp of the last save
+  syncSnapshot?: SyncSnapshot; // Synced field values as of the last Salesforce sync
 }
 
 export interface Meeting {
@@ -49,10 +68,24 @@ export interface Meeting {
   status: 'scheduled' | 'completed' | 'cancelled' | 'in-progress';
   type: 'in-person' | 'virtual' | 'phone';
   notes: string;
+  outcome?: string; // What came of a completed meeting
   location?: string;
   travelTime?: number; // in minutes
   priority: 'low' | 'medium' | 'high';
   flexibleTime?: boolean; // If true, the meeting time can be optimized by route planner
+  timeWindow?: TimeWindow; // Earliest start / latest end the route planner may use for a flexible meeting
+  recurrence?: MeetingRecurrence; // Set on the first meeting of a recurring series
+  seriesId?: string; // For an occurrence of a series: the series' first meeting
+  occurrenceDate?: string; // For an occurrence: the date the series puts it on, before any edit
+  icalUid?: string; // UID of the calendar event the meeting was imported from
+  salesforceId?: string; // Event the meeting was synced from
+  syncSnapshot?: SyncSnapshot;
+}
+
+// How a recurring meeting repeats
+export interface MeetingRecurrence {
+  rrule: string; // RFC 5545 RRULE value, e.g. FREQ=WEEKLY;BYDAY=MO
+  exdates?: string[]; // YYYY-MM-DD occurrences removed from the series
 }
 
 export interface Task {
@@ -66,6 +99,7 @@ export interface Task {
   status: 'pending' | 'in-progress' | 'completed';
   createdAt: string;
   completedAt?: string;
+  salesforceId?: string; // Salesforce Task the task was pushed to
 }
 
 export interface Route {
@@ -75,6 +109,11 @@ export interface Route {
   totalDistance: number; // in miles
   totalTravelTime: number; // in minutes
   optimized: boolean;
+  plannedTimes?: Record<string, TimeWindow>; // Meeting ID -> start/end the optimizer picked for flexible meetings
+  startDepotId?: string;
+  endDepotId?: string;
+  drivenMeetings?: string[]; // Meeting IDs in the order they were actually visited
+  drivenDistance?: number; // Miles actually driven, e.g. from the odometer
 }
 
 export interface DaySchedule {
@@ -90,6 +129,142 @@ export interface SalesforceConfig {
   lastSync?: string;
   syncDirection: 'import' | 'export' | 'bidirectional';
   fieldMappings: Record<string, string>;
+  clientId?: string; // Consumer key of the connected app used for API sync
+  loginUrl?: string; // OAuth server, e.g. https://test.salesforce.com for a sandbox
+  syncCursors?: SyncCursors; // Highest SystemModstamp imported from each object; the next sync asks for later changes
+  tokens?: SalesforceTokens; // Set once API sync is authorized
+  conflictPolicy?: SyncConflictPolicy; // For bidirectional sync; remote wins when unset
+}
+
+// Contacts, Accounts and Events are queried one after another, so each keeps
+// its own watermark: a record edited between two queries is still picked up
+export type SyncCursors = Partial<Record<'Contact' | 'Account' | 'Event', string>>;
+
+export interface SalesforceTokens {
+  accessToken: string;
+  refreshToken?: string;
+  instanceUrl: string; // REST API host the tokens were issued for
+  issuedAt: string;
+}
+
+export interface WorkdaySettings {
+  startTime: string; // HH:MM
+  endTime: string; // HH:MM
+  lunchBreak?: TimeWindow; // Flexible meetings are not scheduled during lunch
+}
+
+export interface TravelTimeSettings {
+  provider: 'haversine' | 'osrm'; // Straight-line estimates or a self-hosted OSRM server
+  osrmUrl?: string; // Base URL of the OSRM server, e.g. http://localhost:5000
+  osrmProfile?: string; // OSRM routing profile, defaults to driving
+}
+
+// How often clients should be visited: every client with the tag, or one
+// client in particular (which takes precedence over its tags)
+export interface CadenceRule {
+  id: string;
+  tag?: string;
+  clientId?: string;
+  intervalDays: number;
+}
+
+// A named group of nearby clients, e.g. from clustering the client base
+export interface Territory {
+  id: string;
+  name: string;
+  color: string; // Hex color used for badges and map markers
+  clientIds: string[];
+}
+
+export type SyncValue = string | number | boolean | null;
+
+// Field -> value both sides agreed on at the last sync. A side whose value
+// differs from it has changed the field since.
+export type SyncSnapshot = Record<string, SyncValue>;
+
+// Which side wins a field changed both locally and in Salesforce; 'ask' leaves it to the user
+export type SyncConflictPolicy = 'local' | 'remote' | 'ask';
+
+export type SyncRecordType = 'client' | 'meeting';
+
+export interface SyncChange {
+  recordType: SyncRecordType;
+  recordId: string;
+  salesforceId?: string;
+  label: string; // Client name or meeting title at the time
+  action: 'created' | 'updated';
+  direction: 'import' | 'export';
+  field?: string; // Missing for created records
+  from?: SyncValue;
+  to?: SyncValue;
+}
+
+export interface SyncConflict {
+  recordType: SyncRecordType;
+  recordId: string;
+  salesforceId: string;
+  label: string;
+  field: string;
+  base?: SyncValue; // Value at the last sync; missing when the record was never synced field by field
+  local: SyncValue;
+  remote: SyncValue;
+  resolution: 'local' | 'remote' | 'pending';
+}
+
+// One sync, as shown in the sync history
+export interface SyncRun {
+  id: string;
+  startedAt: string;
+  finishedAt: string;
+  direction: SalesforceConfig['syncDirection'];
+  conflictPolicy: SyncConflictPolicy;
+  changes: SyncChange[];
+  conflicts: SyncConflict[];
+  errors: string[];
+}
+
+// A write to Salesforce that is retried until it goes through or is given up on
+export interface SalesforceOutboxEntry {
+  id: string;
+  recordType: 'meeting' | 'task';
+  recordId: string;
+  label: string;
+  sobject: 'Event' | 'Task';
+  salesforceId?: string; // Record to update; created when missing
+  fields: Record<string, unknown>;
+  snapshot?: SyncSnapshot; // For an Event: the meeting values it carries
+  attempts: number;
+  lastError?: string;
+  nextAttemptAt: string;
+  failedAt?: string; // Set when Salesforce refused the record or attempts ran out; not retried after that
+  createdAt: string;
+}
+
+// One row changing, as pushed by realtime subscriptions
+export type RecordChange<T> =
+  | { type: 'insert' | 'update'; record: T }
+  | { type: 'delete'; id: string };
+
+// A published .ics feed of the user's meetings that calendar apps can subscribe to
+export interface CalendarFeedSettings {
+  token: string; // Secret part of the feed URL; a new token revokes old subscriptions
+  url?: string; // Public URL of the published feed
+  lastPublished?: string;
+}
+
+export interface MapSettings {
+  tileUrlTemplate: string; // e.g. https://tile.openstreetmap.org/{z}/{x}/{y}.png; {s} picks a subdomain
+  attribution: string; // Credit line the tile provider requires
+  maxZoom: number;
+}
+
+export interface Depot {
+  id: string;
+  name: string; // e.g. Home, Office
+  address: string;
+  latitude: number;
+  longitude: number;
+  isDefault: boolean; // Preselected as the start and end of each day's route
 }
 
 export interface AppStats {
@@ -119,6 +294,7 @@ export interface SavedFilter {
 export interface ClientFilters {
   tags: string[];
   cities: string[];
+  territories: string[]; // Territory ids
   statuses: string[]; // Based on meeting activity: 'active', 'inactive', 'new'
   customFields: Record<string, any>;
 }